@@ -5,14 +5,25 @@ import HomePage from './pages/HomePage';
 import ForumPage from './pages/ForumPage';
 import ProfilePage from './pages/ProfilePage';
 import SettingsPage from './pages/SettingsPage'; // Added
+import CategoryPostsPage from './pages/CategoryPostsPage';
+import PostDetailPage from './pages/PostDetailPage';
+import NewPostPage from './pages/NewPostPage';
+import ChangePasswordPage from './pages/ChangePasswordPage';
+import ForgotPasswordPage from './pages/ForgotPasswordPage';
+import NewPasswordPage from './pages/NewPasswordPage';
+import MembersPage from './pages/MembersPage';
 import ProtectedRoute from './components/auth/ProtectedRoute';
 import AdminRoute from './components/auth/AdminRoute';
+import RequirePermission from './components/auth/RequirePermission';
 import MainLayout from './components/layout/MainLayout';
 import AdminLayout from './components/layout/AdminLayout';
 import AdminDashboardPage from './pages/admin/AdminDashboardPage';
 import UserManagementPage from './pages/admin/UserManagementPage';
 import ModerationPage from './pages/admin/ModerationPage';
 import SectionManagementPage from './pages/admin/SectionManagementPage';
+import SiteSettingsPage from './pages/admin/SiteSettingsPage';
+import InvitesPage from './pages/admin/InvitesPage';
+import ApprovalsPage from './pages/admin/ApprovalsPage';
 import { Toaster } from "@/components/ui/toaster";
 
 function App() {
@@ -22,29 +33,50 @@ function App() {
         {/* Public routes */}
         <Route path="/connexion" element={<LoginPage />} />
         <Route path="/inscription" element={<SignUpPage />} />
+        <Route path="/mot-de-passe-oublie" element={<ForgotPasswordPage />} />
+        <Route path="/nouveau-mot-de-passe" element={<NewPasswordPage />} />
 
         {/* Protected routes for regular users */}
         <Route element={<ProtectedRoute />}>
+          {/* Outside MainLayout: ProtectedRoute sends members with a temporary password here */}
+          <Route path="/changer-mot-de-passe" element={<ChangePasswordPage />} />
           <Route element={<MainLayout />}>
             <Route path="/" element={<HomePage />} />
             <Route path="/forum" element={<ForumPage />} />
             <Route path="/profil/:userId" element={<ProfilePage />} />
+            <Route path="/membres" element={<MembersPage />} />
             <Route path="/parametre" element={<SettingsPage />} /> {/* Added settings route */}
-            {/* <Route path="/forum/categorie/:categorySlug" element={<CategoryPostsPage />} /> */}
-            {/* <Route path="/forum/sujet/:postId" element={<PostDetailPage />} /> */}
+            <Route path="/forum/nouveau-sujet" element={<NewPostPage />} />
+            <Route path="/forum/categorie/:categorySlug" element={<CategoryPostsPage />} />
+            <Route path="/forum/sujet/:postId" element={<PostDetailPage />} />
           </Route>
         </Route>
 
         {/* Protected routes for admin/moderator users */}
         {/* First, ProtectedRoute ensures user is authenticated and profile (with status) is loaded */}
         <Route element={<ProtectedRoute />}> 
-          {/* Then, AdminRoute checks for profile.status === 'approved' and profile.role is MODERATOR, ADMIN, or SUPER_ADMIN */}
+          {/* Then, AdminRoute checks for profile.status === 'approved', the 'admin.access' permission and the two-factor step-up; each page requires its own permission */}
           <Route path="/admin" element={<AdminRoute />}> 
             <Route element={<AdminLayout />}>
               <Route index element={<AdminDashboardPage />} />
-              <Route path="users" element={<UserManagementPage />} /> {/* Access control within component or specific route for ADMIN+ */}
-              <Route path="moderation" element={<ModerationPage />} /> {/* MODERATOR+ */}
-              <Route path="sections" element={<SectionManagementPage />} /> {/* Access control within component or specific route for ADMIN+ */}
+              <Route element={<RequirePermission permission="user.view" redirectTo="/admin" />}>
+                <Route path="users" element={<UserManagementPage />} />
+              </Route>
+              <Route element={<RequirePermission permission="user.approve" redirectTo="/admin" />}>
+                <Route path="approbations" element={<ApprovalsPage />} />
+              </Route>
+              <Route element={<RequirePermission permission="report.view" redirectTo="/admin" />}>
+                <Route path="moderation" element={<ModerationPage />} />
+              </Route>
+              <Route element={<RequirePermission permission="section.manage" redirectTo="/admin" />}>
+                <Route path="sections" element={<SectionManagementPage />} />
+              </Route>
+              <Route element={<RequirePermission permission="settings.manage" redirectTo="/admin" />}>
+                <Route path="parametres" element={<SiteSettingsPage />} />
+              </Route>
+              <Route element={<RequirePermission permission="invite.manage" redirectTo="/admin" />}>
+                <Route path="invitations" element={<InvitesPage />} />
+              </Route>
             </Route>
           </Route>
         </Route>
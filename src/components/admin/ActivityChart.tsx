@@ -0,0 +1,47 @@
+import React from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+
+export interface ActivityPoint {
+  day: string; // YYYY-MM-DD
+  signups: number;
+  topics: number;
+  replies: number;
+}
+
+const chartConfig = {
+  signups: { label: 'Inscriptions', color: '#3b82f6' },
+  topics: { label: 'Sujets', color: '#22c55e' },
+  replies: { label: 'Réponses', color: '#f59e0b' },
+} satisfies ChartConfig;
+
+const formatDay = (value: string) =>
+  new Date(`${value}T00:00:00`).toLocaleDateString('fr-FR', { day: '2-digit', month: 'short' });
+
+interface ActivityChartProps {
+  data: ActivityPoint[];
+}
+
+const ActivityChart: React.FC<ActivityChartProps> = ({ data }) => (
+  <ChartContainer config={chartConfig} className="h-72 w-full aspect-auto">
+    <LineChart data={data} margin={{ top: 8, right: 12, left: -12, bottom: 0 }}>
+      <CartesianGrid vertical={false} />
+      <XAxis dataKey="day" tickLine={false} axisLine={false} tickMargin={8} minTickGap={24} tickFormatter={formatDay} />
+      <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+      <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => formatDay(String(value))} />} />
+      <ChartLegend content={<ChartLegendContent />} />
+      {(Object.keys(chartConfig) as (keyof typeof chartConfig)[]).map((key) => (
+        <Line key={key} type="monotone" dataKey={key} stroke={`var(--color-${key})`} strokeWidth={2} dot={false} />
+      ))}
+    </LineChart>
+  </ChartContainer>
+);
+
+export default ActivityChart;
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { CheckCircle2, Loader2, MailCheck, MailWarning, XCircle } from 'lucide-react';
+import { formatForumDate } from '@/lib/forum';
+import { PendingApplicant } from '@/lib/approvals';
+
+type Decision = 'approved' | 'rejected';
+
+interface ApplicantCardProps {
+  applicant: PendingApplicant;
+  pendingDecision: Decision | null;
+  onDecide: (applicant: PendingApplicant, decision: Decision, note: string) => void;
+}
+
+// One entry of the approvals queue: signup data, a note and the approve / reject buttons
+const ApplicantCard: React.FC<ApplicantCardProps> = ({ applicant, pendingDecision, onDecide }) => {
+  const [note, setNote] = useState('');
+  const isBusy = pendingDecision !== null;
+  const noteId = `approval-note-${applicant.id}`;
+
+  const renderDecisionIcon = (decision: Decision, Icon: React.ElementType) =>
+    pendingDecision === decision ? <Loader2 className="mr-1.5 h-4 w-4 animate-spin" /> : <Icon className="mr-1.5 h-4 w-4" />;
+
+  return (
+    <Card className="dark:bg-gray-800 shadow-md">
+      <CardHeader>
+        <CardTitle className="text-lg text-gray-800 dark:text-white break-words">
+          {applicant.full_name || applicant.username || 'Nom non renseigné'}
+        </CardTitle>
+        <CardDescription className="text-xs text-gray-500 dark:text-gray-400">
+          Inscrit le {formatForumDate(applicant.created_at)}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1 text-sm">
+          <dt className="text-gray-500 dark:text-gray-400">Nom d'utilisateur</dt>
+          <dd className="text-gray-800 dark:text-gray-200 break-all">{applicant.username || '—'}</dd>
+          <dt className="text-gray-500 dark:text-gray-400">Nom complet</dt>
+          <dd className="text-gray-800 dark:text-gray-200">{applicant.full_name || '—'}</dd>
+          <dt className="text-gray-500 dark:text-gray-400">Email</dt>
+          <dd className="text-gray-800 dark:text-gray-200 break-all flex items-center gap-1.5">
+            {applicant.email || '—'}
+            {applicant.email_confirmed_at ? (
+              <MailCheck className="h-4 w-4 text-green-500" aria-label="Adresse confirmée" />
+            ) : (
+              <MailWarning className="h-4 w-4 text-yellow-500" aria-label="Adresse non confirmée" />
+            )}
+          </dd>
+        </dl>
+        {applicant.previous_rejection_reason && (
+          <p className="text-sm p-2 rounded-md bg-yellow-50 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-200">
+            Précédemment refusé : {applicant.previous_rejection_reason}
+          </p>
+        )}
+        <div className="space-y-1.5">
+          <Label htmlFor={noteId} className="dark:text-gray-300">Note (obligatoire pour un refus, communiquée au demandeur)</Label>
+          <Textarea
+            id={noteId}
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Motif de la décision..."
+            rows={2}
+            disabled={isBusy}
+            className="dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+          />
+        </div>
+      </CardContent>
+      <CardFooter className="flex flex-wrap justify-end gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onDecide(applicant, 'rejected', note)}
+          disabled={isBusy || !note.trim()}
+          title={!note.trim() ? "Indiquez un motif pour refuser l'inscription" : undefined}
+          className="text-red-600 border-red-300 hover:bg-red-50 dark:text-red-400 dark:border-red-700 dark:hover:bg-red-900/30"
+        >
+          {renderDecisionIcon('rejected', XCircle)} Refuser
+        </Button>
+        <Button
+          size="sm"
+          onClick={() => onDecide(applicant, 'approved', note)}
+          disabled={isBusy}
+          className="bg-green-600 hover:bg-green-700 text-white"
+        >
+          {renderDecisionIcon('approved', CheckCircle2)} Approuver
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default ApplicantCard;
@@ -0,0 +1,96 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { toast } from '@/hooks/use-toast';
+import { removeAvatarFile } from '@/lib/avatars';
+import { ImageOff, Loader2 } from 'lucide-react';
+import { UserProfile } from '@/pages/admin/UserManagementPage';
+
+interface ClearAvatarActionProps {
+  user: UserProfile;
+  onCleared: () => void;
+}
+
+// Removes a member's profile picture (e.g. an offensive one) and its stored file
+export const ClearAvatarAction: React.FC<ClearAvatarActionProps> = ({ user, onCleared }) => {
+  const [isClearing, setIsClearing] = useState(false);
+  const [avatarUrl, setAvatarUrl] = useState(user.avatar_url);
+
+  useEffect(() => {
+    setAvatarUrl(user.avatar_url);
+  }, [user.id, user.avatar_url]);
+
+  const displayName = user.username || user.full_name || user.email || '?';
+
+  const handleClear = async () => {
+    setIsClearing(true);
+    try {
+      const { error } = await supabase.from('profiles').update({ avatar_url: null }).eq('id', user.id);
+      if (error) throw error;
+      await removeAvatarFile(user.id, avatarUrl).catch((err) => console.error("Error removing avatar file:", err));
+
+      setAvatarUrl(null);
+      toast({ title: "Photo supprimée", description: `La photo de profil de ${displayName} a été supprimée.` });
+      onCleared();
+    } catch (err: any) {
+      console.error("Error clearing avatar:", err);
+      toast({
+        title: "Erreur",
+        description: err.message || "Impossible de supprimer la photo de profil.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsClearing(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-3">
+      <Avatar className="h-10 w-10">
+        <AvatarImage src={avatarUrl || undefined} alt={displayName} />
+        <AvatarFallback className="bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+          {displayName.charAt(0).toUpperCase()}
+        </AvatarFallback>
+      </Avatar>
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button
+            type="button"
+            variant="outline"
+            disabled={!avatarUrl || isClearing}
+            className="flex-1 dark:text-red-400 dark:border-red-500 dark:hover:bg-red-700/20"
+          >
+            {isClearing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ImageOff className="mr-2 h-4 w-4" />}
+            {avatarUrl ? 'Supprimer la photo de profil' : 'Aucune photo de profil'}
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent className="dark:bg-gray-800">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="dark:text-white">Supprimer la photo de profil ?</AlertDialogTitle>
+            <AlertDialogDescription className="dark:text-gray-400">
+              La photo de {displayName} sera définitivement supprimée et remplacée par ses initiales.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700">Annuler</AlertDialogCancel>
+            <AlertDialogAction onClick={handleClear} className="bg-red-600 hover:bg-red-700 dark:bg-red-500 dark:hover:bg-red-700">
+              Supprimer
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
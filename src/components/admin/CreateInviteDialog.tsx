@@ -0,0 +1,223 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { supabase } from '@/lib/supabaseClient';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogClose,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { usePermission } from '@/hooks/usePermission';
+import { Ticket } from 'lucide-react';
+import { ROLES, ROLE_LABELS } from '@/lib/roles';
+import { InviteCode } from '@/lib/invites';
+
+// Validity options, in days; 'never' leaves `expires_at` empty
+const validityOptions = [
+  { value: '1', label: '1 jour' },
+  { value: '7', label: '7 jours' },
+  { value: '30', label: '30 jours' },
+  { value: '90', label: '90 jours' },
+  { value: 'never', label: 'Sans expiration' },
+] as const;
+
+const createInviteSchema = z.object({
+  email: z.string().email({ message: "Adresse e-mail invalide." }).or(z.literal('')),
+  role: z.enum(ROLES, { errorMap: () => ({ message: "Rôle invalide." }) }),
+  max_uses: z.string().regex(/^([1-9]\d*)?$/, { message: "Indiquez un nombre entier positif, ou laissez vide pour un nombre illimité." }),
+  validity: z.enum(['1', '7', '30', '90', 'never']),
+});
+
+type CreateInviteFormData = z.infer<typeof createInviteSchema>;
+
+interface CreateInviteDialogProps {
+  onInviteCreated: () => void;
+}
+
+export const CreateInviteDialog: React.FC<CreateInviteDialogProps> = ({ onInviteCreated }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { authUser } = useAuth();
+  const canManageSuperAdmins = usePermission('user.manage_super_admins');
+  const availableRoles = ROLES.filter((role) => role !== 'SUPER_ADMIN' || canManageSuperAdmins);
+
+  const form = useForm<CreateInviteFormData>({
+    resolver: zodResolver(createInviteSchema),
+    defaultValues: {
+      email: '',
+      role: 'USER',
+      max_uses: '1',
+      validity: '7',
+    },
+  });
+
+  const onSubmit = async (data: CreateInviteFormData) => {
+    setIsSubmitting(true);
+    try {
+      const expiresAt = data.validity === 'never'
+        ? null
+        : new Date(Date.now() + Number(data.validity) * 24 * 60 * 60 * 1000).toISOString();
+
+      const { data: invite, error } = await supabase
+        .from('invite_codes')
+        .insert({
+          email: data.email.trim() || null,
+          role: data.role,
+          max_uses: data.max_uses ? Number(data.max_uses) : null,
+          expires_at: expiresAt,
+          created_by: authUser?.id,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      toast({
+        title: "Invitation créée",
+        description: `Code : ${(invite as InviteCode).code}`,
+      });
+      onInviteCreated();
+      setIsOpen(false);
+      form.reset();
+    } catch (err: any) {
+      console.error("Error creating invite:", err);
+      toast({
+        title: "Erreur lors de la création",
+        description: err.message || "Impossible de créer l'invitation.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => {
+      setIsOpen(open);
+      if (!open) {
+        form.reset();
+      }
+    }}>
+      <DialogTrigger asChild>
+        <Button variant="default" className="bg-blue-600 hover:bg-blue-700 text-white dark:bg-blue-500 dark:hover:bg-blue-600">
+          <Ticket className="mr-2 h-4 w-4" /> Créer une invitation
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[425px] dark:bg-gray-800">
+        <DialogHeader>
+          <DialogTitle className="dark:text-white">Nouvelle invitation</DialogTitle>
+          <DialogDescription className="dark:text-gray-400">
+            Les inscriptions utilisant ce code sont approuvées automatiquement, avec le rôle choisi.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="dark:text-gray-300">Email du destinataire (facultatif)</FormLabel>
+                  <FormControl>
+                    <Input type="email" placeholder="invite@example.com" {...field} className="dark:bg-gray-700 dark:border-gray-600 dark:text-white" />
+                  </FormControl>
+                  <FormDescription>Si renseigné, seule cette adresse pourra utiliser le code.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="role"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="dark:text-gray-300">Rôle attribué</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger className="dark:bg-gray-700 dark:border-gray-600 dark:text-white">
+                        <SelectValue placeholder="Sélectionner un rôle" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent className="dark:bg-gray-800 dark:border-gray-700 dark:text-white">
+                      {availableRoles.map(roleValue => (
+                        <SelectItem key={roleValue} value={roleValue} className="hover:dark:bg-gray-700">
+                          {ROLE_LABELS[roleValue]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="max_uses"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="dark:text-gray-300">Nombre d'utilisations</FormLabel>
+                  <FormControl>
+                    <Input inputMode="numeric" placeholder="Illimité" {...field} className="dark:bg-gray-700 dark:border-gray-600 dark:text-white" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="validity"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="dark:text-gray-300">Validité</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger className="dark:bg-gray-700 dark:border-gray-600 dark:text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent className="dark:bg-gray-800 dark:border-gray-700 dark:text-white">
+                      {validityOptions.map(option => (
+                        <SelectItem key={option.value} value={option.value} className="hover:dark:bg-gray-700">
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline" className="dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700">
+                  Annuler
+                </Button>
+              </DialogClose>
+              <Button type="submit" disabled={isSubmitting} className="bg-blue-600 hover:bg-blue-700 text-white dark:bg-blue-500 dark:hover:bg-blue-600">
+                {isSubmitting ? 'Création en cours...' : "Créer l'invitation"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
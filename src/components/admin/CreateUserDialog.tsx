@@ -26,8 +26,9 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { toast } from '@/hooks/use-toast';
 import { UserPlus } from 'lucide-react';
 import { FunctionsHttpError, FunctionsRelayError, FunctionsFetchError } from '@supabase/supabase-js';
+import { ROLE_LABELS } from '@/lib/roles';
 
-const userRoles = ['user', 'moderator', 'admin'] as const;
+const userRoles = ['USER', 'MODERATOR', 'ADMIN'] as const;
 
 const createUserSchema = z.object({
   full_name: z.string().min(2, { message: "Le nom complet doit contenir au moins 2 caractères." }),
@@ -54,7 +55,7 @@ export const CreateUserDialog: React.FC<CreateUserDialogProps> = ({ onUserCreate
       username: '',
       email: '',
       password: '',
-      role: 'user',
+      role: 'USER',
     },
   });
 
@@ -222,8 +223,8 @@ export const CreateUserDialog: React.FC<CreateUserDialogProps> = ({ onUserCreate
                     </FormControl>
                     <SelectContent className="dark:bg-gray-800 dark:border-gray-700 dark:text-white">
                       {userRoles.map(roleValue => (
-                        <SelectItem key={roleValue} value={roleValue} className="capitalize hover:dark:bg-gray-700">
-                          {roleValue}
+                        <SelectItem key={roleValue} value={roleValue} className="hover:dark:bg-gray-700">
+                          {ROLE_LABELS[roleValue]}
                         </SelectItem>
                       ))}
                     </SelectContent>
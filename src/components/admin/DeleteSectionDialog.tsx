@@ -0,0 +1,144 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import { Loader2, Trash2 } from 'lucide-react';
+import { ForumCategory } from '@/lib/forum';
+import { purgeDeletedAttachmentFiles } from '@/lib/attachments';
+
+// Select value meaning "delete the topics along with the section"
+const DELETE_TOPICS = '__delete_topics__';
+
+interface DeleteSectionDialogProps {
+  section: ForumCategory | null;
+  topicCount: number;
+  otherSections: ForumCategory[];
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSectionDeleted: () => void;
+}
+
+export const DeleteSectionDialog: React.FC<DeleteSectionDialogProps> = ({ section, topicCount, otherSections, isOpen, onOpenChange, onSectionDeleted }) => {
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [target, setTarget] = useState<string>('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setTarget(otherSections[0]?.id || DELETE_TOPICS);
+    }
+  }, [isOpen, otherSections]);
+
+  const handleDelete = async () => {
+    if (!section) return;
+    setIsDeleting(true);
+    try {
+      // Only what the user chose: topics posted since the dialog opened make the deletion fail
+      const deleteTopics = topicCount > 0 && target === DELETE_TOPICS;
+      const targetId = topicCount > 0 && !deleteTopics ? target : null;
+      const { data: movedCount, error } = await supabase.rpc('delete_forum_category', {
+        p_category_id: section.id,
+        p_target_category_id: targetId,
+        p_delete_topics: deleteTopics,
+      });
+
+      if (error) throw error;
+      if (deleteTopics) {
+        purgeDeletedAttachmentFiles();
+      }
+
+      const targetName = otherSections.find((s) => s.id === targetId)?.name;
+      toast({
+        title: "Section supprimée",
+        description: targetName
+          ? `La section "${section.name}" a été supprimée. ${movedCount} sujet(s) déplacé(s) vers "${targetName}".`
+          : `La section "${section.name}" a été supprimée.`,
+      });
+      onSectionDeleted();
+      onOpenChange(false);
+    } catch (error: any) {
+      console.error("Error deleting section:", error);
+      toast({
+        title: "Erreur de suppression",
+        description: error.message || "Une erreur est survenue.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  if (!section) return null;
+
+  const subsections = otherSections.filter((s) => s.parent_id === section.id);
+
+  return (
+    <AlertDialog open={isOpen} onOpenChange={onOpenChange}>
+      <AlertDialogContent className="dark:bg-gray-800">
+        <AlertDialogHeader>
+          <AlertDialogTitle className="dark:text-white">Supprimer la section "{section.name}" ?</AlertDialogTitle>
+          <AlertDialogDescription className="dark:text-gray-400">
+            {topicCount > 0
+              ? `Cette section contient encore ${topicCount} sujet(s). Choisissez ce qu'il doit en advenir.`
+              : "Cette section ne contient aucun sujet. Cette action est irréversible."}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        {topicCount > 0 && (
+          <div className="space-y-2">
+            <Label className="dark:text-gray-300">Sujets de la section</Label>
+            <Select value={target} onValueChange={setTarget}>
+              <SelectTrigger className="dark:bg-gray-700 dark:border-gray-600 dark:text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="dark:bg-gray-800 dark:border-gray-700 dark:text-white">
+                {otherSections.map((s) => (
+                  <SelectItem key={s.id} value={s.id} className="hover:dark:bg-gray-700">
+                    Déplacer vers "{s.name}"
+                  </SelectItem>
+                ))}
+                <SelectItem value={DELETE_TOPICS} className="text-red-600 dark:text-red-400 hover:dark:bg-gray-700">
+                  Supprimer les sujets et leurs réponses
+                </SelectItem>
+              </SelectContent>
+            </Select>
+            {target === DELETE_TOPICS && (
+              <p className="text-sm text-red-600 dark:text-red-400">
+                Les sujets et toutes leurs réponses seront définitivement supprimés.
+              </p>
+            )}
+          </div>
+        )}
+        {subsections.length > 0 && (
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Ses sous-sections ({subsections.map((s) => s.name).join(', ')}) deviendront des sections principales.
+          </p>
+        )}
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isDeleting} className="dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700">
+            Annuler
+          </AlertDialogCancel>
+          <Button variant="destructive" onClick={handleDelete} disabled={isDeleting}>
+            {isDeleting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
+            Supprimer la section
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
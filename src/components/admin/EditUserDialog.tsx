@@ -25,15 +25,19 @@ import {
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { toast } from '@/hooks/use-toast'; // Corrected import path
 import { UserProfile } from '@/pages/admin/UserManagementPage'; // Import the UserProfile type
+import { usePermission } from '@/hooks/usePermission';
+import { useAuth } from '@/hooks/useAuth';
+import { ResetPasswordActions } from '@/components/admin/ResetPasswordActions';
+import { ClearAvatarAction } from '@/components/admin/ClearAvatarAction';
+import { ROLES, ROLE_LABELS, roleRank } from '@/lib/roles';
 
-const userRoles = ['user', 'moderator', 'admin'] as const;
 const userStatuses = ['pending_approval', 'approved', 'rejected'] as const;
 
 const editUserSchema = z.object({
   full_name: z.string().min(2, { message: "Le nom complet doit contenir au moins 2 caractères." }).optional(),
   username: z.string().min(3, { message: "Le nom d'utilisateur doit contenir au moins 3 caractères." }).optional(),
   email: z.string().email({ message: "Adresse e-mail invalide." }), // Email is typically not changed easily
-  role: z.enum(userRoles, { errorMap: () => ({ message: "Rôle invalide." }) }),
+  role: z.enum(ROLES, { errorMap: () => ({ message: "Rôle invalide." }) }),
   status: z.enum(userStatuses, { errorMap: () => ({ message: "Statut invalide." }) }),
 });
 
@@ -48,6 +52,8 @@ interface EditUserDialogProps {
 
 export const EditUserDialog: React.FC<EditUserDialogProps> = ({ user, isOpen, onOpenChange, onUserUpdated }) => {
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const canManageSuperAdmins = usePermission('user.manage_super_admins');
+  const { role: currentRole } = useAuth();
 
   const form = useForm<EditUserFormData>({
     resolver: zodResolver(editUserSchema),
@@ -59,7 +65,7 @@ export const EditUserDialog: React.FC<EditUserDialogProps> = ({ user, isOpen, on
         full_name: user.full_name || '',
         username: user.username || '',
         email: user.email || '', // Display email, but it's not part of the update schema for profiles
-        role: user.role || 'user',
+        role: user.role || 'USER',
         status: user.status || 'pending_approval',
       });
     }
@@ -70,7 +76,6 @@ export const EditUserDialog: React.FC<EditUserDialogProps> = ({ user, isOpen, on
     setIsSubmitting(true);
 
     const profileUpdateData: Partial<UserProfile> = {
-      full_name: data.full_name,
       username: data.username,
       role: data.role,
       status: data.status,
@@ -91,6 +96,15 @@ export const EditUserDialog: React.FC<EditUserDialogProps> = ({ user, isOpen, on
 
       if (error) throw error;
 
+      // The full name lives in profile_details, next to its visibility setting
+      if (data.full_name !== undefined && data.full_name !== (user.full_name || '')) {
+        const { error: detailsError } = await supabase
+          .from('profile_details')
+          .upsert({ user_id: user.id, full_name: data.full_name || null });
+
+        if (detailsError) throw detailsError;
+      }
+
       toast({
         title: "Utilisateur mis à jour",
         description: `Le profil de ${user.email} a été mis à jour.`,
@@ -109,24 +123,6 @@ export const EditUserDialog: React.FC<EditUserDialogProps> = ({ user, isOpen, on
     }
   };
   
-  const handlePasswordReset = async () => {
-    if (!user || !user.email) return;
-    toast({
-        title: "Réinitialisation de mot de passe (TODO)",
-        description: `Une Edge Function serait nécessaire pour envoyer un lien de réinitialisation à ${user.email} via supabase.auth.admin.generateLink() ou pour permettre à un admin de définir un nouveau mot de passe via supabase.auth.admin.updateUserById().`,
-        variant: "default",
-        duration: 7000,
-    });
-    // Example:
-    // const { data, error } = await supabase.auth.resetPasswordForEmail(user.email, {
-    //   redirectTo: `${window.location.origin}/update-password`, // Your password update page
-    // });
-    // if (error) { /* handle error */ } else { /* show success */ }
-    // OR for admin direct reset (needs Edge Function):
-    // supabase.auth.admin.updateUserById(user.id, { password: newPassword })
-  };
-
-
   if (!user) return null;
 
   return (
@@ -187,9 +183,10 @@ export const EditUserDialog: React.FC<EditUserDialogProps> = ({ user, isOpen, on
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent className="dark:bg-gray-800 dark:border-gray-700 dark:text-white">
-                      {userRoles.map(roleValue => (
-                        <SelectItem key={roleValue} value={roleValue} className="capitalize hover:dark:bg-gray-700">
-                          {roleValue}
+                      {/* Granting SUPER_ADMIN requires 'user.manage_super_admins' */}
+                      {ROLES.filter(roleValue => roleValue !== 'SUPER_ADMIN' || canManageSuperAdmins || user.role === 'SUPER_ADMIN').map(roleValue => (
+                        <SelectItem key={roleValue} value={roleValue} className="hover:dark:bg-gray-700">
+                          {ROLE_LABELS[roleValue]}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -222,9 +219,9 @@ export const EditUserDialog: React.FC<EditUserDialogProps> = ({ user, isOpen, on
                 </FormItem>
               )}
             />
-             <Button type="button" variant="outline" onClick={handlePasswordReset} className="w-full dark:text-blue-400 dark:border-blue-500 dark:hover:bg-blue-700/20">
-                Réinitialiser le mot de passe (TODO)
-            </Button>
+            <ClearAvatarAction user={user} onCleared={onUserUpdated} />
+            {/* Resetting a SUPER_ADMIN's password requires 'user.manage_super_admins' */}
+            <ResetPasswordActions user={user} disabled={roleRank(user.role) >= roleRank(currentRole)} />
             <DialogFooter>
                <DialogClose asChild>
                 <Button type="button" variant="outline" className="dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700">
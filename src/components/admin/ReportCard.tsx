@@ -0,0 +1,141 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { CheckCircle2, ExternalLink, Loader2, Lock, Trash2, XCircle } from 'lucide-react';
+import { formatForumDate } from '@/lib/forum';
+import {
+  ContentReport,
+  ModerationAction,
+  REPORT_REASON_LABELS,
+  REPORT_STATUS_LABELS,
+} from '@/lib/moderation';
+
+const statusBadgeClasses: Record<ContentReport['status'], string> = {
+  open: 'bg-yellow-200 text-yellow-800 dark:bg-yellow-700 dark:text-yellow-200',
+  resolved: 'bg-green-200 text-green-800 dark:bg-green-700 dark:text-green-200',
+  dismissed: 'bg-gray-200 text-gray-700 dark:bg-gray-600 dark:text-gray-200',
+};
+
+interface ReportCardProps {
+  report: ContentReport;
+  pendingAction: ModerationAction | null;
+  onAction: (report: ContentReport, action: ModerationAction) => void;
+}
+
+const ReportCard: React.FC<ReportCardProps> = ({ report, pendingAction, onAction }) => {
+  const isReply = report.target_type === 'reply';
+  const contentExists = isReply ? !!report.reply_id : !!report.post_id;
+  const isBusy = pendingAction !== null;
+  const title = report.post_title
+    ? `${isReply ? 'Réponse dans' : 'Sujet'} : "${report.post_title}"`
+    : isReply ? 'Réponse supprimée' : 'Sujet supprimé';
+
+  const renderActionIcon = (action: ModerationAction, Icon: React.ElementType) =>
+    pendingAction === action ? <Loader2 className="mr-1.5 h-4 w-4 animate-spin" /> : <Icon className="mr-1.5 h-4 w-4" />;
+
+  return (
+    <Card className="dark:bg-gray-800 shadow-md">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="min-w-0">
+          <CardTitle className="text-lg text-red-600 dark:text-red-400 break-words">{title}</CardTitle>
+          <CardDescription className="text-xs text-gray-500 dark:text-gray-400">
+            Signalé par {report.reporter_username || 'Membre inconnu'} le {formatForumDate(report.created_at)}
+            {' • '}
+            Auteur du contenu :{' '}
+            {report.content_author_id ? (
+              <Link to={`/profil/${report.content_author_id}`} className="hover:underline">
+                {report.content_author_username || 'Membre inconnu'}
+              </Link>
+            ) : 'inconnu'}
+          </CardDescription>
+        </div>
+        <span className={`text-xs px-2 py-1 rounded-full flex-shrink-0 ${statusBadgeClasses[report.status]}`}>
+          {REPORT_STATUS_LABELS[report.status]}
+        </span>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm font-medium text-gray-800 dark:text-gray-200">
+          Motif : {REPORT_REASON_LABELS[report.reason]}
+        </p>
+        {report.comment && (
+          <p className="text-sm text-gray-600 dark:text-gray-400 italic">« {report.comment} »</p>
+        )}
+        {report.content_excerpt && (
+          <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap break-words bg-gray-50 dark:bg-gray-700/40 p-3 rounded-md">
+            {report.content_excerpt}
+          </p>
+        )}
+
+        {report.status === 'open' ? (
+          <div className="flex flex-wrap gap-2">
+            {report.post_id && (
+              <Button asChild size="sm" variant="outline" className="dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700">
+                <Link to={`/forum/sujet/${report.post_id}`}>
+                  <ExternalLink className="mr-1.5 h-4 w-4" /> Voir le Sujet
+                </Link>
+              </Button>
+            )}
+            <Button size="sm" disabled={isBusy} onClick={() => onAction(report, 'resolve')} className="bg-green-600 hover:bg-green-700 dark:bg-green-500 dark:hover:bg-green-600 text-white">
+              {renderActionIcon('resolve', CheckCircle2)} Marquer comme résolu
+            </Button>
+            <Button size="sm" variant="outline" disabled={isBusy} onClick={() => onAction(report, 'dismiss')} className="dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700">
+              {renderActionIcon('dismiss', XCircle)} Rejeter
+            </Button>
+            {report.post_id && !report.is_locked && (
+              <Button size="sm" variant="outline" disabled={isBusy} onClick={() => onAction(report, 'lock_topic')} className="dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700">
+                {renderActionIcon('lock_topic', Lock)} Verrouiller le Sujet
+              </Button>
+            )}
+            {contentExists && (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button size="sm" variant="destructive" disabled={isBusy}>
+                    {renderActionIcon('delete_content', Trash2)} {isReply ? 'Supprimer la Réponse' : 'Supprimer le Sujet'}
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent className="dark:bg-gray-800">
+                  <AlertDialogHeader>
+                    <AlertDialogTitle className="dark:text-white">
+                      {isReply ? 'Supprimer cette réponse ?' : 'Supprimer ce sujet ?'}
+                    </AlertDialogTitle>
+                    <AlertDialogDescription className="dark:text-gray-400">
+                      {isReply
+                        ? 'La réponse sera définitivement supprimée.'
+                        : 'Le sujet et toutes ses réponses seront définitivement supprimés.'}
+                      {' '}Les signalements en attente sur ce contenu seront marqués comme résolus.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel className="dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700">Annuler</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => onAction(report, 'delete_content')} className="bg-red-600 hover:bg-red-700 dark:bg-red-500 dark:hover:bg-red-700">
+                      Oui, supprimer
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
+          </div>
+        ) : (
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {REPORT_STATUS_LABELS[report.status]} par {report.handled_by_username || 'un modérateur'}
+            {report.handled_at && ` le ${formatForumDate(report.handled_at)}`}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReportCard;
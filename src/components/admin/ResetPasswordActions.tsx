@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { toast } from '@/hooks/use-toast';
+import { Copy, KeyRound, Loader2, Mail } from 'lucide-react';
+import { UserProfile } from '@/pages/admin/UserManagementPage';
+import { NEW_PASSWORD_PATH } from '@/lib/passwords';
+import { invokeEdgeFunction } from '@/lib/functions';
+
+type ResetMode = 'link' | 'temporary_password';
+
+interface ResetPasswordActionsProps {
+  user: UserProfile;
+  disabled?: boolean;
+}
+
+const invokeResetPassword = (userId: string, mode: ResetMode) =>
+  invokeEdgeFunction<{ temporaryPassword?: string }>('reset-user-password-admin', {
+    userId,
+    mode,
+    redirectTo: `${window.location.origin}${NEW_PASSWORD_PATH}`,
+  });
+
+export const ResetPasswordActions: React.FC<ResetPasswordActionsProps> = ({ user, disabled = false }) => {
+  const [pendingMode, setPendingMode] = useState<ResetMode | null>(null);
+  const [temporaryPassword, setTemporaryPassword] = useState<string | null>(null);
+
+  const handleSendLink = async () => {
+    setPendingMode('link');
+    try {
+      await invokeResetPassword(user.id, 'link');
+      toast({
+        title: "Lien envoyé",
+        description: `Un lien de réinitialisation a été envoyé à ${user.email || user.id}.`,
+      });
+    } catch (err: any) {
+      console.error("Error sending password reset link:", err);
+      toast({
+        title: "Erreur",
+        description: err.message || "Impossible d'envoyer le lien de réinitialisation.",
+        variant: "destructive",
+      });
+    } finally {
+      setPendingMode(null);
+    }
+  };
+
+  const handleSetTemporaryPassword = async () => {
+    setPendingMode('temporary_password');
+    try {
+      const data = await invokeResetPassword(user.id, 'temporary_password');
+      setTemporaryPassword(data.temporaryPassword ?? null);
+    } catch (err: any) {
+      console.error("Error setting temporary password:", err);
+      toast({
+        title: "Erreur",
+        description: err.message || "Impossible de définir un mot de passe temporaire.",
+        variant: "destructive",
+      });
+    } finally {
+      setPendingMode(null);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!temporaryPassword) return;
+    try {
+      await navigator.clipboard.writeText(temporaryPassword);
+      toast({ title: "Copié", description: "Le mot de passe temporaire a été copié." });
+    } catch (err: any) {
+      console.error("Error copying temporary password:", err);
+    }
+  };
+
+  const isBusy = disabled || pendingMode !== null;
+
+  return (
+    <div className="space-y-2">
+      <Button
+        type="button"
+        variant="outline"
+        onClick={handleSendLink}
+        disabled={isBusy || !user.email}
+        className="w-full dark:text-blue-400 dark:border-blue-500 dark:hover:bg-blue-700/20"
+      >
+        {pendingMode === 'link' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Mail className="mr-2 h-4 w-4" />}
+        Envoyer un lien de réinitialisation
+      </Button>
+
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button
+            type="button"
+            variant="outline"
+            disabled={isBusy}
+            className="w-full dark:text-orange-400 dark:border-orange-500 dark:hover:bg-orange-700/20"
+          >
+            {pendingMode === 'temporary_password' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <KeyRound className="mr-2 h-4 w-4" />}
+            Définir un mot de passe temporaire
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent className="dark:bg-gray-800">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="dark:text-white">Définir un mot de passe temporaire ?</AlertDialogTitle>
+            <AlertDialogDescription className="dark:text-gray-400">
+              Le mot de passe actuel de {user.email || user.id} ne fonctionnera plus. L'utilisateur devra choisir un nouveau mot de passe à sa prochaine connexion.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700">Annuler</AlertDialogCancel>
+            <AlertDialogAction onClick={handleSetTemporaryPassword} className="bg-orange-600 hover:bg-orange-700 text-white">
+              Confirmer
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* The temporary password is only returned once: it is not stored anywhere */}
+      <AlertDialog open={temporaryPassword !== null} onOpenChange={(open) => !open && setTemporaryPassword(null)}>
+        <AlertDialogContent className="dark:bg-gray-800">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="dark:text-white">Mot de passe temporaire</AlertDialogTitle>
+            <AlertDialogDescription className="dark:text-gray-400">
+              Communiquez ce mot de passe à {user.email || user.id}. Il ne sera plus affiché après la fermeture de cette fenêtre.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="flex items-center gap-2">
+            <Input value={temporaryPassword ?? ''} readOnly className="font-mono dark:bg-gray-900 dark:border-gray-700 dark:text-white" />
+            <Button type="button" variant="outline" size="icon" onClick={handleCopy} aria-label="Copier le mot de passe">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogAction className="bg-blue-600 hover:bg-blue-700 text-white">Fermer</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
@@ -0,0 +1,318 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { supabase } from '@/lib/supabaseClient';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogClose,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { toast } from '@/hooks/use-toast';
+import { FORUM_ROLE_LABELS, ForumCategory, compareCategories, makeUniqueSlug, slugify } from '@/lib/forum';
+import { ROLES } from '@/lib/roles';
+
+const sectionSchema = z.object({
+  name: z.string()
+    .trim()
+    .min(3, { message: "Le titre doit contenir au moins 3 caractères." })
+    .max(100, { message: "Le titre ne peut pas dépasser 100 caractères." }),
+  slug: z.string()
+    .min(1, { message: "Le slug est requis." })
+    .max(100, { message: "Le slug ne peut pas dépasser 100 caractères." })
+    .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, { message: "Le slug ne peut contenir que des lettres minuscules, des chiffres et des tirets." }),
+  description: z.string()
+    .trim()
+    .max(500, { message: "La description ne peut pas dépasser 500 caractères." })
+    .optional(),
+  parent_id: z.string(),
+  min_read_role: z.enum(ROLES),
+  min_post_role: z.enum(ROLES),
+  min_reply_role: z.enum(ROLES),
+});
+
+type SectionFormData = z.infer<typeof sectionSchema>;
+
+// Select value for a top-level section
+const NO_PARENT = 'none';
+
+const permissionFields = [
+  { name: 'min_read_role', label: 'Lecture' },
+  { name: 'min_post_role', label: 'Nouveaux sujets' },
+  { name: 'min_reply_role', label: 'Réponses' },
+] as const;
+
+interface SectionFormDialogProps {
+  section: ForumCategory | null; // null to create a new section
+  existingSections: ForumCategory[];
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSectionSaved: () => void;
+}
+
+export const SectionFormDialog: React.FC<SectionFormDialogProps> = ({ section, existingSections, isOpen, onOpenChange, onSectionSaved }) => {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  // While false, the slug follows the title
+  const [slugEdited, setSlugEdited] = useState(false);
+
+  const form = useForm<SectionFormData>({
+    resolver: zodResolver(sectionSchema),
+    defaultValues: {
+      name: '',
+      slug: '',
+      description: '',
+      parent_id: NO_PARENT,
+      min_read_role: 'USER',
+      min_post_role: 'USER',
+      min_reply_role: 'USER',
+    },
+  });
+
+  const takenSlugs = existingSections.filter((s) => s.id !== section?.id).map((s) => s.slug);
+  // Only one level of nesting: parents are top-level sections, and a section
+  // that holds subsections stays at the top level.
+  const hasChildren = !!section && existingSections.some((s) => s.parent_id === section.id);
+  const parentOptions = existingSections
+    .filter((s) => !s.parent_id && s.id !== section?.id)
+    .sort(compareCategories);
+
+  useEffect(() => {
+    if (isOpen) {
+      form.reset({
+        name: section?.name || '',
+        slug: section?.slug || '',
+        description: section?.description || '',
+        parent_id: section?.parent_id || NO_PARENT,
+        min_read_role: section?.min_read_role || 'USER',
+        min_post_role: section?.min_post_role || 'USER',
+        min_reply_role: section?.min_reply_role || 'USER',
+      });
+      setSlugEdited(!!section);
+    }
+  }, [section, form, isOpen]);
+
+  const handleNameChange = (value: string) => {
+    form.setValue('name', value);
+    if (!slugEdited) {
+      form.setValue('slug', makeUniqueSlug(slugify(value), takenSlugs), { shouldValidate: form.formState.isSubmitted });
+    }
+  };
+
+  const onSubmit = async (data: SectionFormData) => {
+    if (takenSlugs.includes(data.slug)) {
+      form.setError('slug', { message: "Ce slug est déjà utilisé par une autre section." });
+      return;
+    }
+    const duplicateName = existingSections.find(
+      (s) => s.id !== section?.id && s.name.toLowerCase() === data.name.toLowerCase()
+    );
+    if (duplicateName) {
+      form.setError('name', { message: "Une section porte déjà ce titre." });
+      return;
+    }
+
+    setIsSubmitting(true);
+    const parentId = data.parent_id === NO_PARENT ? null : data.parent_id;
+    const payload: Partial<ForumCategory> = {
+      name: data.name,
+      slug: data.slug,
+      description: data.description || null,
+      parent_id: parentId,
+      min_read_role: data.min_read_role,
+      min_post_role: data.min_post_role,
+      min_reply_role: data.min_reply_role,
+    };
+    // New sections, and sections moved to another parent, go to the end of their level
+    if (!section || section.parent_id !== parentId) {
+      const siblings = existingSections.filter((s) => s.parent_id === parentId && s.id !== section?.id);
+      payload.position = siblings.reduce((max, s) => Math.max(max, s.position + 1), 0);
+    }
+
+    try {
+      const { error } = section
+        ? await supabase.from('forum_categories').update(payload).eq('id', section.id)
+        : await supabase.from('forum_categories').insert(payload);
+
+      if (error) throw error;
+
+      toast({
+        title: section ? "Section mise à jour" : "Section créée",
+        description: `La section "${data.name}" a été ${section ? 'mise à jour' : 'créée'}.`,
+      });
+      onSectionSaved();
+      onOpenChange(false);
+    } catch (error: any) {
+      console.error("Error saving section:", error);
+      // 23505: unique_violation (slug or name taken meanwhile)
+      const description = error.code === '23505'
+        ? "Une section avec ce titre ou ce slug existe déjà."
+        : error.message || "Une erreur est survenue.";
+      toast({
+        title: "Erreur d'enregistrement",
+        description,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px] dark:bg-gray-800">
+        <DialogHeader>
+          <DialogTitle className="dark:text-white">{section ? 'Modifier la section' : 'Créer une nouvelle section'}</DialogTitle>
+          <DialogDescription className="dark:text-gray-400">
+            {section ? `Mettre à jour la section "${section.name}".` : 'Ajouter une section au forum.'}
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="dark:text-gray-300">Titre de la Section</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="Ex: Annonces Générales"
+                      {...field}
+                      onChange={(e) => handleNameChange(e.target.value)}
+                      className="dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="slug"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="dark:text-gray-300">Slug</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="Ex: annonces-generales"
+                      {...field}
+                      onChange={(e) => {
+                        setSlugEdited(true);
+                        field.onChange(e.target.value);
+                      }}
+                      className="dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                    />
+                  </FormControl>
+                  <FormDescription className="dark:text-gray-400">
+                    Utilisé dans l'URL : /forum/categorie/{field.value || '...'}
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="dark:text-gray-300">Description</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="Courte description de la section..." {...field} className="dark:bg-gray-700 dark:border-gray-600 dark:text-white" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="parent_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="dark:text-gray-300">Section parente</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value} disabled={hasChildren}>
+                    <FormControl>
+                      <SelectTrigger className="dark:bg-gray-700 dark:border-gray-600 dark:text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent className="dark:bg-gray-800 dark:border-gray-700 dark:text-white">
+                      <SelectItem value={NO_PARENT} className="hover:dark:bg-gray-700">Aucune (section principale)</SelectItem>
+                      {parentOptions.map((parent) => (
+                        <SelectItem key={parent.id} value={parent.id} className="hover:dark:bg-gray-700">
+                          {parent.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {hasChildren && (
+                    <FormDescription className="dark:text-gray-400">
+                      Cette section contient des sous-sections : elle reste une section principale.
+                    </FormDescription>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div>
+              <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Accès minimum par rôle</p>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                {permissionFields.map((permission) => (
+                  <FormField
+                    key={permission.name}
+                    control={form.control}
+                    name={permission.name}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-xs dark:text-gray-400">{permission.label}</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger className="dark:bg-gray-700 dark:border-gray-600 dark:text-white">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent className="dark:bg-gray-800 dark:border-gray-700 dark:text-white">
+                            {ROLES.map((roleValue) => (
+                              <SelectItem key={roleValue} value={roleValue} className="hover:dark:bg-gray-700">
+                                {FORUM_ROLE_LABELS[roleValue]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+            </div>
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline" className="dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700">
+                  Annuler
+                </Button>
+              </DialogClose>
+              <Button type="submit" disabled={isSubmitting} className="bg-green-600 hover:bg-green-700 text-white dark:bg-green-500 dark:hover:bg-green-600">
+                {isSubmitting ? 'Enregistrement...' : section ? 'Sauvegarder' : 'Créer la Section'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,96 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogClose,
+} from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { UserProfile } from '@/pages/admin/UserManagementPage';
+import SignInEventsTable from '@/components/profile/SignInEventsTable';
+import { SignInEvent } from '@/lib/security';
+
+const ADMIN_SIGN_INS_LIMIT = 50;
+
+interface SignInHistoryDialogProps {
+  user: UserProfile | null;
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Sign-in history of any member, readable by holders of 'user.view' (see create_sign_in_events_table.sql)
+export const SignInHistoryDialog: React.FC<SignInHistoryDialogProps> = ({ user, isOpen, onOpenChange }) => {
+  const [events, setEvents] = useState<SignInEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !user) return;
+
+    let cancelled = false;
+    const fetchEvents = async () => {
+      setIsLoading(true);
+      setEvents([]);
+      try {
+        const { data, error } = await supabase
+          .from('sign_in_events')
+          .select('*')
+          .eq('user_id', user.id)
+          .order('signed_in_at', { ascending: false })
+          .limit(ADMIN_SIGN_INS_LIMIT);
+        if (error) throw error;
+        if (!cancelled) setEvents((data as SignInEvent[]) ?? []);
+      } catch (err: any) {
+        console.error("Error fetching sign-in history:", err);
+        toast({
+          title: "Erreur",
+          description: err.message || "Impossible de charger l'historique de connexion.",
+          variant: "destructive",
+        });
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchEvents();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, user]);
+
+  if (!user) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl dark:bg-gray-800 dark:text-white">
+        <DialogHeader>
+          <DialogTitle>Historique de connexion</DialogTitle>
+          <DialogDescription className="dark:text-gray-400">
+            Les {ADMIN_SIGN_INS_LIMIT} dernières connexions de {user.username || user.email || user.id}.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-[60vh] overflow-y-auto">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : (
+            <SignInEventsTable events={events} />
+          )}
+        </div>
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button type="button" variant="outline" className="dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700">
+              Fermer
+            </Button>
+          </DialogClose>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
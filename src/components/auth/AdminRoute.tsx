@@ -1,15 +1,20 @@
 import { Navigate, Outlet, useLocation } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth'; // Changed from useUser
+import { usePermission } from '@/hooks/usePermission';
+import { useStaffMfa } from '@/hooks/useStaffMfa';
+import StaffMfaPrompt from '@/components/auth/StaffMfaPrompt';
 import { Loader2 } from 'lucide-react';
 
 console.log('[AdminRoute.tsx MODULE] Evaluating');
 
 const AdminRoute = () => {
   const { session, profile, isLoadingAuth, role } = useAuth(); // Use useAuth and get role
+  const canAccessAdmin = usePermission('admin.access');
+  const staffMfa = useStaffMfa(canAccessAdmin);
   const location = useLocation();
   console.log(`[AdminRoute] Rendering. isLoadingAuth: ${isLoadingAuth}, session: ${session ? 'exists' : 'null'}, profile status: ${profile?.status}, profile role: ${role}`);
 
-  if (isLoadingAuth) {
+  if (isLoadingAuth && !profile) {
     console.log('[AdminRoute] Rendering: Loader (isLoadingAuth is true)');
     return (
       <div className="flex items-center justify-center h-screen bg-background text-foreground">
@@ -34,12 +39,27 @@ const AdminRoute = () => {
     return <Navigate to="/" replace state={{ from: location, message: "Votre compte n'est pas approuvé pour l'accès à cette section." }} />;
   }
 
-  // Check if role is MODERATOR, ADMIN, or SUPER_ADMIN
-  if (!role || !['MODERATOR', 'ADMIN', 'SUPER_ADMIN'].includes(role)) {
+  // MODERATOR, ADMIN and SUPER_ADMIN hold 'admin.access'
+  if (!canAccessAdmin) {
     console.log(`[AdminRoute] Rendering: Navigate to / (profile role not MODERATOR, ADMIN, or SUPER_ADMIN: ${role})`);
     return <Navigate to="/" replace state={{ from: location, message: "Accès refusé. Vous n'avez pas les droits de modération ou d'administration." }} />;
   }
 
+  // Two-factor step-up: a leaked password alone must not open the admin panel
+  if (staffMfa.status === 'loading') {
+    return (
+      <div className="flex items-center justify-center h-screen bg-background text-foreground">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+        <p className="ml-4 text-lg">Vérification de la session...</p>
+      </div>
+    );
+  }
+
+  if (staffMfa.status !== 'satisfied') {
+    console.log(`[AdminRoute] Rendering: StaffMfaPrompt (${staffMfa.status})`);
+    return <StaffMfaPrompt status={staffMfa.status} factorId={staffMfa.factorId} onSatisfied={staffMfa.recheck} />;
+  }
+
   console.log('[AdminRoute] Rendering: Outlet (admin/moderator access granted)');
   return <Outlet />;
 };
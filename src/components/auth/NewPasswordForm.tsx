@@ -0,0 +1,61 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { KeyRound, Loader2 } from 'lucide-react';
+import { NewPasswordFormValues, newPasswordSchema } from '@/lib/passwords';
+
+interface NewPasswordFormProps {
+  isSubmitting: boolean;
+  onSubmit: (password: string) => void | Promise<void>;
+  submitLabel?: string;
+}
+
+// New password + confirmation, validated with the sign-up rules (see `@/lib/passwords`)
+const NewPasswordForm: React.FC<NewPasswordFormProps> = ({ isSubmitting, onSubmit, submitLabel = 'Enregistrer le mot de passe' }) => {
+  const form = useForm<NewPasswordFormValues>({
+    resolver: zodResolver(newPasswordSchema),
+    defaultValues: { password: '', confirmPassword: '' },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(values => onSubmit(values.password))} className="space-y-6">
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-slate-300">Nouveau mot de passe</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" placeholder="********" {...field} className="bg-slate-700 border-slate-600 text-slate-100 placeholder-slate-500 focus:ring-blue-500 focus:border-blue-500" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="confirmPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-slate-300">Confirmer le mot de passe</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" placeholder="********" {...field} className="bg-slate-700 border-slate-600 text-slate-100 placeholder-slate-500 focus:ring-blue-500 focus:border-blue-500" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" disabled={isSubmitting} className="w-full bg-blue-600 hover:bg-blue-700 text-white">
+          {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <KeyRound className="mr-2 h-4 w-4" />}
+          {submitLabel}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default NewPasswordForm;
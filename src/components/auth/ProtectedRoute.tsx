@@ -1,6 +1,7 @@
 import { Navigate, Outlet, useLocation } from 'react-router-dom';
 import { useUser } from '@/contexts/UserContext'; // Correct import
 import { Loader2 } from 'lucide-react';
+import { getRejectionMessage } from '@/lib/approvals';
 
 console.log('[ProtectedRoute.tsx MODULE] Evaluating (v9.0 - UserContext)');
 
@@ -10,7 +11,9 @@ const ProtectedRoute = () => {
   const location = useLocation();
   console.log(`[ProtectedRoute v9.0] Rendering. isLoadingAuth: ${isLoadingAuth}, session: ${session ? 'exists' : 'null'}, profile status: ${profile?.status}`);
 
-  if (isLoadingAuth) {
+  // Auth events after the first load (token refresh, MFA verification, profile refresh) also set
+  // isLoadingAuth: keep the current page mounted then, so open dialogs and forms are not lost
+  if (isLoadingAuth && !profile) {
     console.log('[ProtectedRoute v9.0] Rendering: Loader (isLoadingAuth is true)');
     return (
       <div className="flex items-center justify-center h-screen bg-background text-foreground">
@@ -35,12 +38,18 @@ const ProtectedRoute = () => {
     if (profile.status === 'pending_approval') {
       message = "Votre compte est en attente d'approbation.";
     } else if (profile.status === 'rejected') {
-      message = "L'accès à votre compte a été refusé.";
+      message = getRejectionMessage(profile.rejection_reason);
     }
     console.log(`[ProtectedRoute v9.0] Rendering: Navigate to /connexion (profile status: ${profile.status})`);
     return <Navigate to="/connexion" replace state={{ from: location, message }} />;
   }
 
+  // A temporary password set by an administrator must be replaced before going anywhere else
+  if (profile.must_change_password && location.pathname !== '/changer-mot-de-passe') {
+    console.log('[ProtectedRoute v9.0] Rendering: Navigate to /changer-mot-de-passe (must_change_password)');
+    return <Navigate to="/changer-mot-de-passe" replace state={{ from: location }} />;
+  }
+
   console.log('[ProtectedRoute v9.0] Rendering: Outlet (session and approved profile exist)');
   return <Outlet />;
 };
@@ -0,0 +1,36 @@
+import { ReactNode } from 'react';
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { usePermission } from '@/hooks/usePermission';
+import { Permission } from '@/lib/permissions';
+
+interface RequirePermissionProps {
+  permission: Permission;
+  redirectTo?: string;
+  children?: ReactNode;
+}
+
+// Route guard: renders its children (or the nested routes) only for members holding `permission`
+const RequirePermission = ({ permission, redirectTo = '/', children }: RequirePermissionProps) => {
+  const { isLoadingAuth, profile } = useAuth();
+  const isAllowed = usePermission(permission);
+  const location = useLocation();
+
+  if (isLoadingAuth && !profile) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!isAllowed) {
+    console.log(`[RequirePermission] Rendering: Navigate to ${redirectTo} (missing permission: ${permission})`);
+    return <Navigate to={redirectTo} replace state={{ from: location, message: "Accès refusé. Vous n'avez pas les droits nécessaires pour cette page." }} />;
+  }
+
+  return children ? <>{children}</> : <Outlet />;
+};
+
+export default RequirePermission;
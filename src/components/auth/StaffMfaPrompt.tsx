@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/lib/supabaseClient';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AlertCircle, Home, Loader2, ShieldCheck } from 'lucide-react';
+import TotpSetupDialog from '@/components/profile/TotpSetupDialog';
+import { StaffMfaStatus } from '@/hooks/useStaffMfa';
+
+interface StaffMfaPromptProps {
+  status: Exclude<StaffMfaStatus, 'loading' | 'satisfied'>;
+  factorId: string | null;
+  onSatisfied: () => void;
+}
+
+// Shown by AdminRoute instead of the admin panel until the session passes the two-factor step-up
+const StaffMfaPrompt: React.FC<StaffMfaPromptProps> = ({ status, factorId, onSatisfied }) => {
+  const navigate = useNavigate();
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [isSetupDialogOpen, setIsSetupDialogOpen] = useState(false);
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!factorId) return;
+    setIsVerifying(true);
+    setError(null);
+    try {
+      const { error: verifyError } = await supabase.auth.mfa.challengeAndVerify({ factorId, code });
+      if (verifyError) throw verifyError;
+      onSatisfied();
+    } catch (err: any) {
+      console.error("Error verifying TOTP code for the admin panel:", err);
+      setError("Code A2F invalide ou expiré. Veuillez réessayer.");
+      setCode('');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-background text-foreground p-4">
+      <Card className="w-full max-w-md dark:bg-gray-800">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-4 p-3 bg-primary/10 rounded-full w-fit">
+            <ShieldCheck className="h-10 w-10 text-primary" />
+          </div>
+          <CardTitle className="text-2xl">Vérification en deux étapes</CardTitle>
+          <CardDescription>
+            {status === 'challenge'
+              ? "Le panneau d'administration exige une session vérifiée. Entrez le code de votre application d'authentification."
+              : "L'A2F est obligatoire pour les modérateurs et administrateurs. Activez-la pour accéder au panneau d'administration."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {status === 'challenge' ? (
+            factorId ? (
+              <form onSubmit={handleVerify} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="staff-mfa-code">Code A2F</Label>
+                  <Input
+                    id="staff-mfa-code"
+                    type="text"
+                    placeholder="123456"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                    autoComplete="one-time-code"
+                    autoFocus
+                    className="text-center tracking-[0.3em]"
+                  />
+                </div>
+                {error && (
+                  <div className="flex items-center p-3 text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/30 rounded-md">
+                    <AlertCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+                    <span>{error}</span>
+                  </div>
+                )}
+                <Button type="submit" className="w-full" disabled={isVerifying || code.length !== 6}>
+                  {isVerifying ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ShieldCheck className="mr-2 h-4 w-4" />}
+                  Vérifier
+                </Button>
+              </form>
+            ) : (
+              <div className="flex items-center p-3 text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/30 rounded-md">
+                <AlertCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+                <span>Impossible de vérifier votre session. Veuillez vous reconnecter.</span>
+              </div>
+            )
+          ) : (
+            <Button className="w-full bg-green-600 hover:bg-green-700 text-white" onClick={() => setIsSetupDialogOpen(true)}>
+              <ShieldCheck className="mr-2 h-4 w-4" /> Activer l'A2F (TOTP)
+            </Button>
+          )}
+        </CardContent>
+        <CardFooter className="justify-center">
+          <Button variant="ghost" onClick={() => navigate('/')}>
+            <Home className="mr-2 h-4 w-4" /> Retour au Site
+          </Button>
+        </CardFooter>
+      </Card>
+
+      {status === 'enroll' && (
+        <TotpSetupDialog
+          isOpen={isSetupDialogOpen}
+          onOpenChange={setIsSetupDialogOpen}
+          onSetupComplete={() => {
+            setIsSetupDialogOpen(false);
+            onSatisfied();
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default StaffMfaPrompt;
@@ -0,0 +1,100 @@
+import React, { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { cn } from '@/lib/utils';
+import { MarkdownBlock, MarkdownInline, parseMarkdown } from '@/lib/markdown';
+
+interface MarkdownContentProps {
+  content: string;
+  className?: string;
+}
+
+const headingClasses: Record<number, string> = {
+  1: 'text-2xl font-bold',
+  2: 'text-xl font-bold',
+  3: 'text-lg font-semibold',
+  4: 'text-base font-semibold',
+  5: 'text-sm font-semibold',
+  6: 'text-sm font-semibold text-gray-600 dark:text-gray-400',
+};
+
+const linkClassName = 'text-blue-600 dark:text-blue-400 underline underline-offset-2 hover:text-blue-800 dark:hover:text-blue-300 break-words';
+
+const renderInline = (nodes: MarkdownInline[]): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={index}>{node.value}</React.Fragment>;
+      case 'break':
+        return <br key={index} />;
+      case 'strong':
+        return <strong key={index} className="font-semibold">{renderInline(node.children)}</strong>;
+      case 'emphasis':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'delete':
+        return <del key={index}>{renderInline(node.children)}</del>;
+      case 'code':
+        return (
+          <code key={index} className="rounded bg-gray-100 dark:bg-gray-700 px-1 py-0.5 font-mono text-[0.9em]">
+            {node.value}
+          </code>
+        );
+      case 'link':
+        // Links within the site stay in the app; others open in a new tab without passing the referrer
+        return node.href.startsWith('/') ? (
+          <Link key={index} to={node.href} className={linkClassName}>{renderInline(node.children)}</Link>
+        ) : (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer nofollow ugc" className={linkClassName}>
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+
+const renderBlocks = (blocks: MarkdownBlock[]): React.ReactNode[] =>
+  blocks.map((block, index) => {
+    switch (block.type) {
+      case 'paragraph':
+        return <p key={index}>{renderInline(block.children)}</p>;
+      case 'heading': {
+        const Tag = `h${block.level}` as 'h1';
+        return <Tag key={index} className={cn('text-gray-800 dark:text-white', headingClasses[block.level])}>{renderInline(block.children)}</Tag>;
+      }
+      case 'blockquote':
+        return (
+          <blockquote key={index} className="space-y-2 border-l-4 border-gray-300 dark:border-gray-600 pl-4 italic text-gray-600 dark:text-gray-400">
+            {renderBlocks(block.children)}
+          </blockquote>
+        );
+      case 'list': {
+        const items = block.items.map((item, itemIndex) => (
+          <li key={itemIndex} className="space-y-2">{renderBlocks(item)}</li>
+        ));
+        return block.ordered ? (
+          <ol key={index} start={block.start} className="list-decimal space-y-1 pl-6">{items}</ol>
+        ) : (
+          <ul key={index} className="list-disc space-y-1 pl-6">{items}</ul>
+        );
+      }
+      case 'code':
+        return (
+          <pre key={index} className="overflow-x-auto rounded-md bg-gray-100 dark:bg-gray-900 p-3 text-sm">
+            <code className="font-mono" data-language={block.language || undefined}>{block.value}</code>
+          </pre>
+        );
+      case 'rule':
+        return <hr key={index} className="border-gray-200 dark:border-gray-700" />;
+    }
+  });
+
+// Renders member-written Markdown (topics, replies, bios). No HTML from the source is ever interpreted.
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ content, className }) => {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+
+  return (
+    <div className={cn('space-y-3 break-words text-gray-700 dark:text-gray-300', className)}>
+      {renderBlocks(blocks)}
+    </div>
+  );
+};
+
+export default MarkdownContent;
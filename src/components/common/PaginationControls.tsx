@@ -0,0 +1,87 @@
+import React from 'react';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+} from '@/components/ui/pagination';
+import { cn } from '@/lib/utils';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+
+interface PaginationControlsProps {
+  page: number; // 1-based
+  totalPages: number;
+  onPageChange: (page: number) => void;
+  className?: string;
+}
+
+// Returns the page numbers to display, with null standing for an ellipsis
+const getVisiblePages = (page: number, totalPages: number): (number | null)[] => {
+  if (totalPages <= 7) {
+    return Array.from({ length: totalPages }, (_, i) => i + 1);
+  }
+  const pages: (number | null)[] = [1];
+  const start = Math.max(2, page - 1);
+  const end = Math.min(totalPages - 1, page + 1);
+  if (start > 2) pages.push(null);
+  for (let p = start; p <= end; p++) pages.push(p);
+  if (end < totalPages - 1) pages.push(null);
+  pages.push(totalPages);
+  return pages;
+};
+
+const PaginationControls: React.FC<PaginationControlsProps> = ({ page, totalPages, onPageChange, className }) => {
+  if (totalPages <= 1) return null;
+
+  const goTo = (e: React.MouseEvent, target: number) => {
+    e.preventDefault();
+    if (target >= 1 && target <= totalPages && target !== page) {
+      onPageChange(target);
+    }
+  };
+
+  return (
+    <Pagination className={className}>
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationLink
+            href="#"
+            size="default"
+            aria-label="Page précédente"
+            onClick={(e) => goTo(e, page - 1)}
+            className={cn('gap-1 pl-2.5', page === 1 && 'pointer-events-none opacity-50')}
+          >
+            <ChevronLeft className="h-4 w-4" />
+            <span>Précédent</span>
+          </PaginationLink>
+        </PaginationItem>
+        {getVisiblePages(page, totalPages).map((p, index) => (
+          <PaginationItem key={p ?? `ellipsis-${index}`}>
+            {p === null ? (
+              <PaginationEllipsis />
+            ) : (
+              <PaginationLink href="#" isActive={p === page} onClick={(e) => goTo(e, p)}>
+                {p}
+              </PaginationLink>
+            )}
+          </PaginationItem>
+        ))}
+        <PaginationItem>
+          <PaginationLink
+            href="#"
+            size="default"
+            aria-label="Page suivante"
+            onClick={(e) => goTo(e, page + 1)}
+            className={cn('gap-1 pr-2.5', page === totalPages && 'pointer-events-none opacity-50')}
+          >
+            <span>Suivant</span>
+            <ChevronRight className="h-4 w-4" />
+          </PaginationLink>
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+};
+
+export default PaginationControls;
@@ -0,0 +1,139 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { FileText, Paperclip, Upload, X } from 'lucide-react';
+import {
+  ATTACHMENT_MAX_COUNT,
+  ATTACHMENT_MAX_SIZE,
+  ATTACHMENT_MIME_TYPES,
+  formatFileSize,
+  isImageType,
+  validateAttachment,
+} from '@/lib/attachments';
+
+interface AttachmentDropzoneProps {
+  files: File[];
+  onChange: (files: File[]) => void;
+  disabled?: boolean;
+}
+
+// Picks the files to attach to a new topic; they are uploaded once the topic exists
+const AttachmentDropzone: React.FC<AttachmentDropzoneProps> = ({ files, onChange, disabled }) => {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  // Local previews for the selected images, released when the selection changes
+  const previews = useMemo(
+    () => files.map((file) => (isImageType(file.type) ? URL.createObjectURL(file) : null)),
+    [files]
+  );
+  useEffect(() => () => previews.forEach((url) => url && URL.revokeObjectURL(url)), [previews]);
+
+  const addFiles = (incoming: File[]) => {
+    const accepted: File[] = [];
+    const errors: string[] = [];
+    for (const file of incoming) {
+      const error = validateAttachment(file);
+      if (error) {
+        errors.push(error);
+      } else if (files.length + accepted.length >= ATTACHMENT_MAX_COUNT) {
+        errors.push(`Vous ne pouvez pas joindre plus de ${ATTACHMENT_MAX_COUNT} fichiers.`);
+        break;
+      } else {
+        accepted.push(file);
+      }
+    }
+    if (errors.length > 0) {
+      toast({ variant: "destructive", title: "Fichier refusé", description: errors.join(' ') });
+    }
+    if (accepted.length > 0) {
+      onChange([...files, ...accepted]);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (!disabled) addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(e.target.files ?? []));
+    e.target.value = '';
+  };
+
+  return (
+    <div className="space-y-3">
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          if (!disabled) setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={cn(
+          'flex flex-col items-center justify-center gap-2 rounded-md border-2 border-dashed p-6 text-center text-sm text-gray-600 dark:text-gray-400 dark:border-gray-600',
+          isDragging && 'border-green-500 bg-green-50 dark:bg-green-900/20'
+        )}
+      >
+        <Upload className="h-6 w-6 text-gray-400 dark:text-gray-500" />
+        <p>Glissez-déposez vos fichiers ici, ou</p>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={disabled || files.length >= ATTACHMENT_MAX_COUNT}
+          onClick={() => inputRef.current?.click()}
+          className="dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700"
+        >
+          <Paperclip className="mr-2 h-4 w-4" />
+          Choisir des fichiers
+        </Button>
+        <p className="text-xs text-gray-500 dark:text-gray-500">
+          Images, PDF, texte ou documents Word / OpenDocument — {formatFileSize(ATTACHMENT_MAX_SIZE)} maximum par fichier, {ATTACHMENT_MAX_COUNT} fichiers au plus.
+        </p>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept={ATTACHMENT_MIME_TYPES.join(',')}
+          onChange={handleInputChange}
+          className="hidden"
+        />
+      </div>
+
+      {files.length > 0 && (
+        <ul className="space-y-2">
+          {files.map((file, index) => (
+            <li key={`${file.name}-${index}`} className="flex items-center gap-3 rounded-md border p-2 dark:border-gray-600">
+              {previews[index] ? (
+                <img src={previews[index]!} alt={file.name} className="h-12 w-12 flex-shrink-0 rounded object-cover" />
+              ) : (
+                <FileText className="h-12 w-12 flex-shrink-0 p-2 text-gray-400 dark:text-gray-500" />
+              )}
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm text-gray-800 dark:text-gray-200">{file.name}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{formatFileSize(file.size)}</p>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                disabled={disabled}
+                aria-label={`Retirer ${file.name}`}
+                onClick={() => onChange(files.filter((_, i) => i !== index))}
+                className="dark:text-gray-300 dark:hover:bg-gray-700"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AttachmentDropzone;
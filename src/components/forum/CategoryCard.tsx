@@ -0,0 +1,54 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Eye, FolderKanban, Lock } from 'lucide-react';
+import { FORUM_ROLE_LABELS, ForumCategory } from '@/lib/forum';
+
+interface CategoryCardProps {
+  category: ForumCategory;
+  canPost: boolean;
+}
+
+const CategoryCard: React.FC<CategoryCardProps> = ({ category, canPost }) => (
+  <Card className="hover:shadow-xl transition-shadow duration-300 ease-in-out dark:bg-gray-800 flex flex-col">
+    <CardHeader>
+      <div className="flex items-center text-blue-600 dark:text-blue-400 mb-2">
+        <FolderKanban className="h-7 w-7 mr-3 flex-shrink-0" />
+        <CardTitle className="text-2xl font-semibold leading-tight">{category.name}</CardTitle>
+      </div>
+      {category.description && (
+        <CardDescription className="text-gray-600 dark:text-gray-400 line-clamp-2">
+          {category.description}
+        </CardDescription>
+      )}
+      {(category.min_read_role !== 'USER' || !canPost) && (
+        <div className="flex flex-wrap gap-x-4 gap-y-1 pt-2 text-xs text-gray-500 dark:text-gray-400">
+          {category.min_read_role !== 'USER' && (
+            <span className="flex items-center" title="Visibilité de la section">
+              <Eye className="mr-1 h-3.5 w-3.5" />
+              {FORUM_ROLE_LABELS[category.min_read_role]}
+            </span>
+          )}
+          {!canPost && (
+            <span className="flex items-center" title="Création de sujets réservée">
+              <Lock className="mr-1 h-3.5 w-3.5" />
+              Publication : {FORUM_ROLE_LABELS[category.min_post_role].toLowerCase()}
+            </span>
+          )}
+        </div>
+      )}
+    </CardHeader>
+    <CardContent className="flex-grow flex flex-col justify-end">
+      {/* Placeholder for post count or last activity - to be implemented later */}
+      {/* <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">X Sujets • Y Messages</p> */}
+      <Button asChild variant="outline" className="w-full mt-auto border-blue-500 text-blue-500 hover:bg-blue-500 hover:text-white dark:border-blue-400 dark:text-blue-400 dark:hover:bg-blue-500 dark:hover:text-white">
+        <Link to={`/forum/categorie/${category.slug}`}>
+          Explorer {category.name}
+        </Link>
+      </Button>
+    </CardContent>
+  </Card>
+);
+
+export default CategoryCard;
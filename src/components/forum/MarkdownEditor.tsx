@@ -0,0 +1,140 @@
+import React, { useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea, TextareaProps } from '@/components/ui/textarea';
+import MarkdownContent from '@/components/common/MarkdownContent';
+import { cn } from '@/lib/utils';
+import { Bold, Italic, Link2, List, ListOrdered, Quote, SquareCode } from 'lucide-react';
+
+interface MarkdownEditorProps extends Omit<TextareaProps, 'value' | 'onChange'> {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+interface Edit {
+  text: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+// Wraps the selection in `marker`, or inserts `placeholder` wrapped and selected when nothing is selected
+const wrapSelection = (value: string, start: number, end: number, marker: string, placeholder: string): Edit => {
+  const selected = value.slice(start, end) || placeholder;
+  return {
+    text: value.slice(0, start) + marker + selected + marker + value.slice(end),
+    selectionStart: start + marker.length,
+    selectionEnd: start + marker.length + selected.length,
+  };
+};
+
+// Prefixes every line touched by the selection; `prefix` receives the line index for numbered lists
+const prefixLines = (value: string, start: number, end: number, prefix: (index: number) => string): Edit => {
+  const lineStart = value.lastIndexOf('\n', start - 1) + 1;
+  const lineEnd = value.indexOf('\n', end) === -1 ? value.length : value.indexOf('\n', end);
+  const block = value.slice(lineStart, lineEnd).split('\n').map((line, index) => prefix(index) + line).join('\n');
+  return {
+    text: value.slice(0, lineStart) + block + value.slice(lineEnd),
+    selectionStart: lineStart,
+    selectionEnd: lineStart + block.length,
+  };
+};
+
+const insertLink = (value: string, start: number, end: number): Edit => {
+  const label = value.slice(start, end) || 'texte du lien';
+  const url = 'https://';
+  const text = value.slice(0, start) + `[${label}](${url})` + value.slice(end);
+  const urlStart = start + label.length + 3;
+  return { text, selectionStart: urlStart, selectionEnd: urlStart + url.length };
+};
+
+// Fenced block on its own lines, whatever surrounds the selection
+const insertCodeBlock = (value: string, start: number, end: number): Edit => {
+  const code = value.slice(start, end) || 'code';
+  const before = start > 0 && value[start - 1] !== '\n' ? '\n' : '';
+  const after = end < value.length && value[end] !== '\n' ? '\n' : '';
+  const opening = `${before}\`\`\`\n`;
+  return {
+    text: value.slice(0, start) + opening + code + '\n```' + after + value.slice(end),
+    selectionStart: start + opening.length,
+    selectionEnd: start + opening.length + code.length,
+  };
+};
+
+const TOOLBAR_ACTIONS: { label: string; icon: React.ElementType; apply: (value: string, start: number, end: number) => Edit }[] = [
+  { label: 'Gras', icon: Bold, apply: (value, start, end) => wrapSelection(value, start, end, '**', 'texte en gras') },
+  { label: 'Italique', icon: Italic, apply: (value, start, end) => wrapSelection(value, start, end, '*', 'texte en italique') },
+  { label: 'Liste à puces', icon: List, apply: (value, start, end) => prefixLines(value, start, end, () => '- ') },
+  { label: 'Liste numérotée', icon: ListOrdered, apply: (value, start, end) => prefixLines(value, start, end, (index) => `${index + 1}. `) },
+  { label: 'Lien', icon: Link2, apply: insertLink },
+  { label: 'Citation', icon: Quote, apply: (value, start, end) => prefixLines(value, start, end, () => '> ') },
+  { label: 'Bloc de code', icon: SquareCode, apply: insertCodeBlock },
+];
+
+// Textarea with a Markdown formatting toolbar and a live preview rendered by MarkdownContent
+const MarkdownEditor = React.forwardRef<HTMLTextAreaElement, MarkdownEditorProps>(
+  ({ value, onChange, className, disabled, maxLength, ...props }, ref) => {
+    const textareaRef = useRef<HTMLTextAreaElement | null>(null);
+
+    const setRefs = (element: HTMLTextAreaElement | null) => {
+      textareaRef.current = element;
+      if (typeof ref === 'function') ref(element);
+      else if (ref) ref.current = element;
+    };
+
+    const applyAction = (apply: (value: string, start: number, end: number) => Edit) => {
+      const textarea = textareaRef.current;
+      if (!textarea) return;
+      const edit = apply(value, textarea.selectionStart, textarea.selectionEnd);
+      if (maxLength !== undefined && edit.text.length > maxLength) return;
+      onChange(edit.text);
+      // Restore the selection once React has rendered the new value
+      requestAnimationFrame(() => {
+        textarea.focus();
+        textarea.setSelectionRange(edit.selectionStart, edit.selectionEnd);
+      });
+    };
+
+    return (
+      <div className="rounded-md border dark:border-gray-600">
+        <div className="flex flex-wrap gap-1 border-b p-1 dark:border-gray-600" role="toolbar" aria-label="Mise en forme">
+          {TOOLBAR_ACTIONS.map(({ label, icon: Icon, apply }) => (
+            <Button
+              key={label}
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 dark:text-gray-300 dark:hover:bg-gray-700"
+              title={label}
+              aria-label={label}
+              disabled={disabled}
+              onClick={() => applyAction(apply)}
+            >
+              <Icon className="h-4 w-4" />
+            </Button>
+          ))}
+        </div>
+        <div className="grid md:grid-cols-2">
+          <Textarea
+            ref={setRefs}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            disabled={disabled}
+            maxLength={maxLength}
+            className={cn('rounded-none border-0 shadow-none focus-visible:ring-0 dark:bg-gray-700 dark:text-white', className)}
+            {...props}
+          />
+          <div className="border-t md:border-t-0 md:border-l p-3 dark:border-gray-600" aria-live="polite">
+            <p className="mb-2 text-xs font-medium uppercase tracking-wide text-gray-500 dark:text-gray-400">Aperçu</p>
+            {value.trim() ? (
+              <MarkdownContent content={value} className="text-sm" />
+            ) : (
+              <p className="text-sm italic text-gray-400 dark:text-gray-500">L'aperçu de votre message s'affichera ici.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  }
+);
+MarkdownEditor.displayName = 'MarkdownEditor';
+
+export default MarkdownEditor;
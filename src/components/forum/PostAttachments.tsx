@@ -0,0 +1,158 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { Download, FileText, Loader2, Paperclip, Trash2 } from 'lucide-react';
+import {
+  ATTACHMENTS_BUCKET,
+  ATTACHMENT_URL_TTL_SECONDS,
+  ForumAttachment,
+  formatFileSize,
+  isImageType,
+  purgeDeletedAttachmentFiles,
+} from '@/lib/attachments';
+
+interface PostAttachmentsProps {
+  postId: string;
+  canDelete: boolean;
+}
+
+type AttachmentWithUrl = ForumAttachment & { url: string | null };
+
+// Files of a topic: image thumbnails and download links, both through short-lived signed URLs
+const PostAttachments: React.FC<PostAttachmentsProps> = ({ postId, canDelete }) => {
+  const { toast } = useToast();
+  const [attachments, setAttachments] = useState<AttachmentWithUrl[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const fetchAttachments = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('forum_attachments')
+        .select('*')
+        .eq('post_id', postId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      // Documents are signed with their original name so the download keeps it
+      const rows = await Promise.all(
+        ((data as ForumAttachment[]) || []).map(async (row) => {
+          const { data: signed } = await supabase.storage
+            .from(ATTACHMENTS_BUCKET)
+            .createSignedUrl(row.storage_path, ATTACHMENT_URL_TTL_SECONDS, isImageType(row.mime_type) ? undefined : { download: row.file_name });
+          return { ...row, url: signed?.signedUrl || null };
+        })
+      );
+      setAttachments(rows);
+    } catch (err: any) {
+      console.error('Error fetching attachments:', err);
+      toast({ variant: "destructive", title: "Erreur", description: "Impossible de charger les pièces jointes." });
+    } finally {
+      setLoading(false);
+    }
+  }, [postId, toast]);
+
+  useEffect(() => {
+    fetchAttachments();
+  }, [fetchAttachments]);
+
+  const handleDelete = async (attachment: AttachmentWithUrl) => {
+    setDeletingId(attachment.id);
+    try {
+      const { error } = await supabase.from('forum_attachments').delete().eq('id', attachment.id);
+      if (error) throw error;
+      purgeDeletedAttachmentFiles();
+      setAttachments((current) => current.filter((a) => a.id !== attachment.id));
+      toast({ title: "Pièce jointe supprimée", description: `« ${attachment.file_name} » a été supprimé.` });
+    } catch (err: any) {
+      console.error('Error deleting attachment:', err);
+      toast({ variant: "destructive", title: "Erreur", description: err.message || "Impossible de supprimer la pièce jointe." });
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-400 dark:text-gray-500" />
+      </div>
+    );
+  }
+
+  if (attachments.length === 0) return null;
+
+  const images = attachments.filter((a) => isImageType(a.mime_type));
+  const documents = attachments.filter((a) => !isImageType(a.mime_type));
+
+  const deleteButton = (attachment: AttachmentWithUrl) =>
+    canDelete && (
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        aria-label={`Supprimer ${attachment.file_name}`}
+        disabled={deletingId === attachment.id}
+        onClick={() => handleDelete(attachment)}
+        className="h-8 w-8 text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:bg-gray-700"
+      >
+        {deletingId === attachment.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+      </Button>
+    );
+
+  return (
+    <div className="space-y-3 border-t pt-4 dark:border-gray-700">
+      <h3 className="flex items-center text-sm font-semibold text-gray-700 dark:text-gray-300">
+        <Paperclip className="mr-2 h-4 w-4" />
+        Pièces jointes ({attachments.length})
+      </h3>
+
+      {images.length > 0 && (
+        <div className="flex flex-wrap gap-3">
+          {images.map((image) => (
+            <figure key={image.id} className="w-32 space-y-1">
+              {image.url ? (
+                <a href={image.url} target="_blank" rel="noopener noreferrer" title={image.file_name}>
+                  <img src={image.url} alt={image.file_name} loading="lazy" className="h-32 w-32 rounded-md border object-cover dark:border-gray-600" />
+                </a>
+              ) : (
+                <div className="flex h-32 w-32 items-center justify-center rounded-md border text-xs text-gray-500 dark:border-gray-600">Indisponible</div>
+              )}
+              <figcaption className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+                <span className="truncate flex-1">{image.file_name}</span>
+                {deleteButton(image)}
+              </figcaption>
+            </figure>
+          ))}
+        </div>
+      )}
+
+      {documents.length > 0 && (
+        <ul className="space-y-2">
+          {documents.map((file) => (
+            <li key={file.id} className="flex items-center gap-3 rounded-md border p-2 dark:border-gray-600">
+              <FileText className="h-6 w-6 flex-shrink-0 text-gray-400 dark:text-gray-500" />
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm text-gray-800 dark:text-gray-200">{file.file_name}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{formatFileSize(file.size_bytes)}</p>
+              </div>
+              {file.url && (
+                <Button asChild variant="outline" size="sm" className="dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700">
+                  <a href={file.url} rel="noopener noreferrer">
+                    <Download className="mr-2 h-4 w-4" />
+                    Télécharger
+                  </a>
+                </Button>
+              )}
+              {deleteButton(file)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PostAttachments;
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/lib/supabaseClient';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import ReportDialog from '@/components/forum/ReportDialog';
+import MarkdownEditor from '@/components/forum/MarkdownEditor';
+import MarkdownContent from '@/components/common/MarkdownContent';
+import { Edit, Trash2, Loader2, Save } from 'lucide-react';
+import { ForumReply, REPLY_MAX_LENGTH, formatForumDate, getAuthorDisplayName } from '@/lib/forum';
+
+interface ReplyItemProps {
+  reply: ForumReply;
+  canEdit: boolean;
+  canReport: boolean;
+  onUpdated: () => void;
+  onDeleted: () => void;
+}
+
+const ReplyItem: React.FC<ReplyItemProps> = ({ reply, canEdit, canReport, onUpdated, onDeleted }) => {
+  const { toast } = useToast();
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(reply.content);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const authorName = getAuthorDisplayName(reply.author_username, reply.author_full_name);
+  const wasEdited = new Date(reply.updated_at).getTime() - new Date(reply.created_at).getTime() > 1000;
+
+  const handleSave = async () => {
+    const content = draft.trim();
+    if (!content) {
+      toast({ variant: "destructive", title: "Erreur", description: "La réponse ne peut pas être vide." });
+      return;
+    }
+    if (content.length > REPLY_MAX_LENGTH) {
+      toast({ variant: "destructive", title: "Erreur", description: `La réponse ne peut pas dépasser ${REPLY_MAX_LENGTH} caractères.` });
+      return;
+    }
+    if (content === reply.content) {
+      setIsEditing(false);
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from('forum_replies')
+        .update({ content })
+        .eq('id', reply.id);
+      if (error) throw error;
+      toast({ title: "Succès", description: "Votre réponse a été modifiée." });
+      setIsEditing(false);
+      onUpdated();
+    } catch (err: any) {
+      console.error("Error updating reply:", err);
+      toast({ variant: "destructive", title: "Erreur de mise à jour", description: err.message || "Impossible de modifier la réponse." });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    setIsDeleting(true);
+    try {
+      const { error } = await supabase
+        .from('forum_replies')
+        .delete()
+        .eq('id', reply.id);
+      if (error) throw error;
+      toast({ title: "Succès", description: "Votre réponse a été supprimée." });
+      onDeleted();
+    } catch (err: any) {
+      console.error("Error deleting reply:", err);
+      toast({ variant: "destructive", title: "Erreur de suppression", description: err.message || "Impossible de supprimer la réponse." });
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <li className="flex gap-4 px-6 py-5">
+      <Avatar className="h-10 w-10 flex-shrink-0">
+        <AvatarImage src={reply.author_avatar_url || undefined} alt={authorName} />
+        <AvatarFallback className="bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+          {authorName.charAt(0).toUpperCase()}
+        </AvatarFallback>
+      </Avatar>
+      <div className="flex-grow min-w-0">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            <Link to={`/profil/${reply.author_id}`} className="font-semibold text-gray-800 dark:text-gray-200 hover:underline">
+              {authorName}
+            </Link>
+            {' • '}
+            {formatForumDate(reply.created_at)}
+            {wasEdited && <span className="italic"> (modifié)</span>}
+          </p>
+          {canEdit && !isEditing && (
+            <div className="flex gap-1">
+              <Button variant="ghost" size="sm" onClick={() => { setDraft(reply.content); setIsEditing(true); }} className="text-gray-600 dark:text-gray-300">
+                <Edit className="mr-1.5 h-4 w-4" /> Modifier
+              </Button>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="ghost" size="sm" disabled={isDeleting} className="text-red-600 hover:text-red-700 dark:text-red-400">
+                    {isDeleting ? <Loader2 className="mr-1.5 h-4 w-4 animate-spin" /> : <Trash2 className="mr-1.5 h-4 w-4" />}
+                    Supprimer
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Supprimer cette réponse ?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Cette action est irréversible.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Annuler</AlertDialogCancel>
+                    <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700 dark:bg-red-500 dark:hover:bg-red-700">
+                      Oui, supprimer
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          )}
+          {canReport && <ReportDialog targetType="reply" targetId={reply.id} />}
+        </div>
+        {isEditing ? (
+          <div className="mt-2 space-y-2">
+            <MarkdownEditor
+              value={draft}
+              onChange={setDraft}
+              rows={5}
+              maxLength={REPLY_MAX_LENGTH}
+            />
+            <div className="flex gap-2 justify-end">
+              <Button type="button" variant="outline" onClick={() => setIsEditing(false)} disabled={isSaving}>
+                Annuler
+              </Button>
+              <Button type="button" onClick={handleSave} disabled={isSaving} className="bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 text-white">
+                {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                Enregistrer
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <MarkdownContent content={reply.content} className="mt-2" />
+        )}
+      </div>
+    </li>
+  );
+};
+
+export default ReplyItem;
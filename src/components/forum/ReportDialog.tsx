@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { supabase } from '@/lib/supabaseClient';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogClose,
+} from '@/components/ui/dialog';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useToast } from '@/hooks/use-toast';
+import { Flag, Loader2 } from 'lucide-react';
+import {
+  REPORT_COMMENT_MAX_LENGTH,
+  REPORT_REASONS,
+  REPORT_REASON_LABELS,
+  ReportTargetType,
+} from '@/lib/moderation';
+
+const reportSchema = z.object({
+  reason: z.enum(REPORT_REASONS, { errorMap: () => ({ message: "Veuillez choisir un motif." }) }),
+  comment: z.string()
+    .trim()
+    .max(REPORT_COMMENT_MAX_LENGTH, { message: `Le commentaire ne peut pas dépasser ${REPORT_COMMENT_MAX_LENGTH} caractères.` })
+    .optional(),
+}).refine((data) => data.reason !== 'other' || !!data.comment, {
+  message: "Précisez le motif du signalement.",
+  path: ['comment'],
+});
+
+type ReportFormData = z.infer<typeof reportSchema>;
+
+interface ReportDialogProps {
+  targetType: ReportTargetType;
+  targetId: string;
+}
+
+const ReportDialog: React.FC<ReportDialogProps> = ({ targetType, targetId }) => {
+  const { authUser } = useAuth();
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<ReportFormData>({
+    resolver: zodResolver(reportSchema),
+    defaultValues: { comment: '' },
+  });
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) {
+      form.reset({ comment: '' });
+    }
+  };
+
+  const onSubmit = async (data: ReportFormData) => {
+    if (!authUser) return;
+    setIsSubmitting(true);
+    try {
+      const { error } = await supabase.from('content_reports').insert({
+        reporter_id: authUser.id,
+        target_type: targetType,
+        post_id: targetType === 'post' ? targetId : null,
+        reply_id: targetType === 'reply' ? targetId : null,
+        reason: data.reason,
+        comment: data.comment || null,
+      });
+
+      if (error) {
+        // 23505: unique_violation, this member already has an open report on this content
+        if (error.code === '23505') {
+          toast({ title: "Déjà signalé", description: "Vous avez déjà signalé ce contenu. Les modérateurs vont l'examiner." });
+          handleOpenChange(false);
+          return;
+        }
+        throw error;
+      }
+
+      toast({ title: "Signalement envoyé", description: "Merci, les modérateurs vont examiner ce contenu." });
+      handleOpenChange(false);
+    } catch (err: any) {
+      console.error("Error reporting content:", err);
+      toast({ variant: "destructive", title: "Erreur", description: err.message || "Impossible d'envoyer le signalement." });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-gray-500 hover:text-orange-600 dark:text-gray-400 dark:hover:text-orange-400">
+          <Flag className="mr-1.5 h-4 w-4" /> Signaler
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[450px] dark:bg-gray-800">
+        <DialogHeader>
+          <DialogTitle className="dark:text-white">
+            {targetType === 'post' ? 'Signaler ce sujet' : 'Signaler cette réponse'}
+          </DialogTitle>
+          <DialogDescription className="dark:text-gray-400">
+            Votre signalement sera transmis aux modérateurs. L'auteur du contenu ne saura pas qui l'a signalé.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="dark:text-gray-300">Motif</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger className="dark:bg-gray-700 dark:border-gray-600 dark:text-white">
+                        <SelectValue placeholder="Sélectionner un motif" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent className="dark:bg-gray-800 dark:border-gray-700 dark:text-white">
+                      {REPORT_REASONS.map((reason) => (
+                        <SelectItem key={reason} value={reason} className="hover:dark:bg-gray-700">
+                          {REPORT_REASON_LABELS[reason]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="comment"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="dark:text-gray-300">Commentaire</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="Expliquez brièvement le problème..."
+                      rows={4}
+                      maxLength={REPORT_COMMENT_MAX_LENGTH}
+                      {...field}
+                      className="dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline" className="dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700">
+                  Annuler
+                </Button>
+              </DialogClose>
+              <Button type="submit" disabled={isSubmitting} className="bg-orange-600 hover:bg-orange-700 text-white dark:bg-orange-500 dark:hover:bg-orange-600">
+                {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Flag className="mr-2 h-4 w-4" />}
+                Envoyer le signalement
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReportDialog;
@@ -1,11 +1,19 @@
 import { Outlet, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
-import { LogOut, Home, Users, Settings, ShieldCheck, MessageSquareText, FolderKanban, ListOrdered, ShieldAlert } from 'lucide-react';
+import { LogOut, Home, Users, Settings, ShieldCheck, MessageSquareText, FolderKanban, ListOrdered, ShieldAlert, Ticket, UserCheck } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
+import { usePermission } from '@/hooks/usePermission';
+import { ROLE_LABELS } from '@/lib/roles';
 
 const AdminLayout = () => {
   const navigate = useNavigate();
-  const { signOut, profile, canAdminister, canModerate } = useAuth();
+  const { signOut, profile } = useAuth();
+  const canViewUsers = usePermission('user.view');
+  const canApproveUsers = usePermission('user.approve');
+  const canManageSections = usePermission('section.manage');
+  const canViewReports = usePermission('report.view');
+  const canManageSettings = usePermission('settings.manage');
+  const canManageInvites = usePermission('invite.manage');
 
   const handleSignOut = async () => {
     await signOut();
@@ -22,7 +30,7 @@ const AdminLayout = () => {
           </h1>
           {profile && (
             <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
-              Rôle : <span className="font-semibold">{profile.role}</span>
+              Rôle : <span className="font-semibold">{profile.role ? ROLE_LABELS[profile.role] : 'Inconnu'}</span>
             </p>
           )}
         </div>
@@ -36,30 +44,49 @@ const AdminLayout = () => {
             Tableau de Bord
           </Button>
 
-          {/* User and Section Management for ADMIN/SUPER_ADMIN */}
-          {canAdminister && (
-            <>
-              <Button
-                variant="ghost"
-                className="w-full justify-start text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
-                onClick={() => navigate('/admin/users')}
-              >
-                <Users className="mr-3 h-5 w-5" />
-                Gestion des Utilisateurs
-              </Button>
-              <Button
-                variant="ghost"
-                className="w-full justify-start text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
-                onClick={() => navigate('/admin/sections')}
-              >
-                <ListOrdered className="mr-3 h-5 w-5" />
-                Gestion des Sections
-              </Button>
-            </>
+          {/* Each entry is shown to the holders of the permission its route requires, see App.tsx */}
+          {canViewUsers && (
+            <Button
+              variant="ghost"
+              className="w-full justify-start text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+              onClick={() => navigate('/admin/users')}
+            >
+              <Users className="mr-3 h-5 w-5" />
+              Gestion des Utilisateurs
+            </Button>
+          )}
+          {canApproveUsers && (
+            <Button
+              variant="ghost"
+              className="w-full justify-start text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+              onClick={() => navigate('/admin/approbations')}
+            >
+              <UserCheck className="mr-3 h-5 w-5" />
+              Demandes d'inscription
+            </Button>
+          )}
+          {canManageInvites && (
+            <Button
+              variant="ghost"
+              className="w-full justify-start text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+              onClick={() => navigate('/admin/invitations')}
+            >
+              <Ticket className="mr-3 h-5 w-5" />
+              Invitations
+            </Button>
+          )}
+          {canManageSections && (
+            <Button
+              variant="ghost"
+              className="w-full justify-start text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+              onClick={() => navigate('/admin/sections')}
+            >
+              <ListOrdered className="mr-3 h-5 w-5" />
+              Gestion des Sections
+            </Button>
           )}
           
-          {/* Moderation for MODERATOR, ADMIN, SUPER_ADMIN */}
-          {canModerate && ( // This check is a bit redundant if AdminRoute already protects /admin for canModerate, but good for clarity
+          {canViewReports && (
             <Button
               variant="ghost"
               className="w-full justify-start text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
@@ -89,15 +116,16 @@ const AdminLayout = () => {
             <FolderKanban className="mr-3 h-5 w-5" />
             Gestion des Catégories
           </Button>
-           <Button
-            variant="ghost"
-            disabled
-            title="Prochainement"
-            className="w-full justify-start text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
-          >
-            <Settings className="mr-3 h-5 w-5" />
-            Paramètres du Site
-          </Button>
+          {canManageSettings && (
+            <Button
+              variant="ghost"
+              className="w-full justify-start text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+              onClick={() => navigate('/admin/parametres')}
+            >
+              <Settings className="mr-3 h-5 w-5" />
+              Paramètres du Site
+            </Button>
+          )}
         </nav>
         <div className="p-4 space-y-2 border-t border-gray-200 dark:border-gray-700">
           <Button
@@ -1,11 +1,13 @@
 import { Outlet, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth'; 
+import { usePermission } from '@/hooks/usePermission';
 import { Button } from '@/components/ui/button';
-import { LogOut, Home, Users, Settings, MessageSquare, LayoutGrid, ShieldCheck } from 'lucide-react';
+import { LogOut, Home, Users, Settings, MessageSquare, LayoutGrid, ShieldCheck, BookUser } from 'lucide-react';
 
 const MainLayout = () => {
   const navigate = useNavigate();
-  const { signOut, canModerate, profile } = useAuth(); // Get signOut, canModerate and profile
+  const { signOut, profile } = useAuth(); // Get signOut and profile
+  const canAccessAdmin = usePermission('admin.access');
 
   const handleSignOut = async () => {
     await signOut();
@@ -39,6 +41,14 @@ const MainLayout = () => {
             <LayoutGrid className="mr-3 h-5 w-5" />
             Forum
           </Button>
+          <Button
+            variant="ghost"
+            className="w-full justify-start text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+            onClick={() => navigate('/membres')}
+          >
+            <BookUser className="mr-3 h-5 w-5" />
+            Membres
+          </Button>
           <Button
             variant="ghost"
             className="w-full justify-start text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
@@ -58,8 +68,8 @@ const MainLayout = () => {
             Paramètres
           </Button>
 
-          {/* Admin Panel Link - Conditionally Rendered if user can moderate */}
-          {canModerate && (
+          {/* Admin Panel Link - Conditionally Rendered if user can access the admin panel */}
+          {canAccessAdmin && (
             <>
               <hr className="my-2 border-gray-200 dark:border-gray-700" />
               <Button
@@ -0,0 +1,181 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Save, ZoomIn, ZoomOut } from 'lucide-react';
+import { AvatarCrop, renderAvatar } from '@/lib/avatars';
+
+interface AvatarCropDialogProps {
+  file: File | null;
+  isSaving: boolean;
+  onCancel: () => void;
+  onCropped: (blob: Blob) => void;
+}
+
+const VIEWPORT = 256; // Crop area, in CSS pixels
+const MAX_ZOOM = 3;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Square crop with drag to move and a zoom slider; the circle shows how the avatar will look
+const AvatarCropDialog: React.FC<AvatarCropDialogProps> = ({ file, isSaving, onCancel, onCropped }) => {
+  const { toast } = useToast();
+  const imageRef = useRef<HTMLImageElement>(null);
+  const dragStart = useRef<{ pointer: Point; offset: Point } | null>(null);
+  const [source, setSource] = useState<string | null>(null);
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [offset, setOffset] = useState<Point>({ x: 0, y: 0 }); // Image position in the viewport
+  const [isRendering, setIsRendering] = useState(false);
+
+  useEffect(() => {
+    setNaturalSize(null);
+    setZoom(1);
+    if (!file) {
+      setSource(null);
+      return;
+    }
+    const url = URL.createObjectURL(file);
+    setSource(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  // At zoom 1 the shorter side of the image fills the viewport
+  const scale = naturalSize ? (VIEWPORT / Math.min(naturalSize.width, naturalSize.height)) * zoom : 1;
+
+  const clampOffset = (point: Point, currentScale: number): Point => {
+    if (!naturalSize) return point;
+    const minX = VIEWPORT - naturalSize.width * currentScale;
+    const minY = VIEWPORT - naturalSize.height * currentScale;
+    return {
+      x: Math.min(0, Math.max(minX, point.x)),
+      y: Math.min(0, Math.max(minY, point.y)),
+    };
+  };
+
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const { naturalWidth: width, naturalHeight: height } = e.currentTarget;
+    const initialScale = VIEWPORT / Math.min(width, height);
+    setNaturalSize({ width, height });
+    setOffset({ x: (VIEWPORT - width * initialScale) / 2, y: (VIEWPORT - height * initialScale) / 2 });
+  };
+
+  // Zooms around the center of the viewport
+  const handleZoomChange = (nextZoom: number) => {
+    if (!naturalSize) return;
+    const nextScale = (scale / zoom) * nextZoom;
+    const center = VIEWPORT / 2;
+    setOffset(clampOffset({
+      x: center - ((center - offset.x) / scale) * nextScale,
+      y: center - ((center - offset.y) / scale) * nextScale,
+    }, nextScale));
+    setZoom(nextZoom);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = { pointer: { x: e.clientX, y: e.clientY }, offset };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragStart.current) return;
+    const { pointer, offset: startOffset } = dragStart.current;
+    setOffset(clampOffset({ x: startOffset.x + e.clientX - pointer.x, y: startOffset.y + e.clientY - pointer.y }, scale));
+  };
+
+  const handleConfirm = async () => {
+    if (!imageRef.current || !naturalSize) return;
+    const crop: AvatarCrop = { x: -offset.x / scale, y: -offset.y / scale, size: VIEWPORT / scale };
+    setIsRendering(true);
+    try {
+      onCropped(await renderAvatar(imageRef.current, crop));
+    } catch (err: any) {
+      console.error('Error rendering avatar:', err);
+      toast({ variant: "destructive", title: "Erreur", description: err.message || "Impossible de préparer l'image." });
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  const isBusy = isSaving || isRendering;
+
+  return (
+    <Dialog open={!!file} onOpenChange={(open) => !open && !isBusy && onCancel()}>
+      <DialogContent className="sm:max-w-[400px] dark:bg-gray-800">
+        <DialogHeader>
+          <DialogTitle className="dark:text-white">Recadrer la photo</DialogTitle>
+          <DialogDescription className="dark:text-gray-400">
+            Faites glisser l'image et ajustez le zoom pour choisir la partie à afficher.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col items-center gap-4">
+          <div
+            className="relative touch-none select-none overflow-hidden rounded-md bg-gray-100 dark:bg-gray-900 cursor-move"
+            style={{ width: VIEWPORT, height: VIEWPORT }}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={() => { dragStart.current = null; }}
+            onPointerCancel={() => { dragStart.current = null; }}
+          >
+            {source && (
+              <img
+                ref={imageRef}
+                src={source}
+                alt="Aperçu de la photo"
+                draggable={false}
+                onLoad={handleImageLoad}
+                className="absolute max-w-none"
+                style={naturalSize ? {
+                  left: offset.x,
+                  top: offset.y,
+                  width: naturalSize.width * scale,
+                  height: naturalSize.height * scale,
+                } : { visibility: 'hidden' }}
+              />
+            )}
+            <div className="pointer-events-none absolute inset-0 rounded-full shadow-[0_0_0_9999px_rgba(0,0,0,0.45)]" />
+          </div>
+
+          <label className="flex w-full items-center gap-3 text-gray-600 dark:text-gray-300">
+            <ZoomOut className="h-4 w-4 flex-shrink-0" />
+            <span className="sr-only">Zoom</span>
+            <input
+              type="range"
+              min={1}
+              max={MAX_ZOOM}
+              step={0.01}
+              value={zoom}
+              disabled={!naturalSize || isBusy}
+              onChange={(e) => handleZoomChange(Number(e.target.value))}
+              className="w-full accent-green-600"
+            />
+            <ZoomIn className="h-4 w-4 flex-shrink-0" />
+          </label>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel} disabled={isBusy} className="dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700">
+            Annuler
+          </Button>
+          <Button type="button" onClick={handleConfirm} disabled={!naturalSize || isBusy} className="bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 text-white">
+            {isBusy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Enregistrer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AvatarCropDialog;
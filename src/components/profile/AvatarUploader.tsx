@@ -0,0 +1,134 @@
+import React, { useRef, useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import AvatarCropDialog from '@/components/profile/AvatarCropDialog';
+import { Camera, Loader2, Trash2 } from 'lucide-react';
+import { AVATAR_SOURCE_TYPES, removeAvatarFile, uploadAvatar, validateAvatarSource } from '@/lib/avatars';
+
+interface AvatarUploaderProps {
+  userId: string;
+  avatarUrl: string | null;
+  displayName: string;
+}
+
+// Lets members pick, crop and remove their own profile picture
+const AvatarUploader: React.FC<AvatarUploaderProps> = ({ userId, avatarUrl, displayName }) => {
+  const { toast } = useToast();
+  const { refreshCurrentUserProfile } = useAuth();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRemoving, setIsRemoving] = useState(false);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const error = validateAvatarSource(file);
+    if (error) {
+      toast({ variant: "destructive", title: "Image refusée", description: error });
+      return;
+    }
+    setSelectedFile(file);
+  };
+
+  // Once the profile points to the new picture, the previous file is removed from the bucket
+  const saveAvatarUrl = async (url: string | null) => {
+    const { error } = await supabase.from('profiles').update({ avatar_url: url }).eq('id', userId);
+    if (error) throw error;
+    await removeAvatarFile(userId, avatarUrl).catch((err) => console.error("Error removing previous avatar file:", err));
+    await refreshCurrentUserProfile();
+  };
+
+  const handleCropped = async (blob: Blob) => {
+    setIsSaving(true);
+    try {
+      const url = await uploadAvatar(userId, blob);
+      await saveAvatarUrl(url);
+      setSelectedFile(null);
+      toast({ title: "Succès", description: "Votre photo de profil a été mise à jour." });
+    } catch (err: any) {
+      console.error("Error uploading avatar:", err);
+      toast({ variant: "destructive", title: "Erreur", description: err.message || "Impossible d'enregistrer la photo de profil." });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    setIsRemoving(true);
+    try {
+      await saveAvatarUrl(null);
+      toast({ title: "Succès", description: "Votre photo de profil a été supprimée." });
+    } catch (err: any) {
+      console.error("Error removing avatar:", err);
+      toast({ variant: "destructive", title: "Erreur", description: err.message || "Impossible de supprimer la photo de profil." });
+    } finally {
+      setIsRemoving(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col sm:flex-row items-center gap-4">
+      <Avatar className="h-20 w-20">
+        <AvatarImage src={avatarUrl || undefined} alt={displayName} />
+        <AvatarFallback className="text-2xl bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+          {displayName.charAt(0).toUpperCase()}
+        </AvatarFallback>
+      </Avatar>
+      <div className="flex flex-wrap gap-2">
+        <Button type="button" variant="outline" onClick={() => inputRef.current?.click()} disabled={isSaving || isRemoving}>
+          <Camera className="mr-2 h-4 w-4" />
+          {avatarUrl ? 'Changer la photo' : 'Ajouter une photo'}
+        </Button>
+        {avatarUrl && (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button type="button" variant="ghost" disabled={isSaving || isRemoving} className="text-red-600 hover:text-red-700 dark:text-red-400">
+                {isRemoving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
+                Supprimer la photo
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent className="dark:bg-gray-800">
+              <AlertDialogHeader>
+                <AlertDialogTitle className="dark:text-white">Supprimer votre photo de profil ?</AlertDialogTitle>
+                <AlertDialogDescription className="dark:text-gray-400">
+                  Vos initiales seront affichées à la place.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel className="dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700">Annuler</AlertDialogCancel>
+                <AlertDialogAction onClick={handleRemove} className="bg-red-600 hover:bg-red-700 dark:bg-red-500 dark:hover:bg-red-700">
+                  Oui, supprimer
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
+        <input ref={inputRef} type="file" accept={AVATAR_SOURCE_TYPES.join(',')} onChange={handleFileChange} className="hidden" />
+      </div>
+      <AvatarCropDialog
+        file={selectedFile}
+        isSaving={isSaving}
+        onCancel={() => setSelectedFile(null)}
+        onCropped={handleCropped}
+      />
+    </div>
+  );
+};
+
+export default AvatarUploader;
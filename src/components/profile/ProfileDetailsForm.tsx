@@ -0,0 +1,283 @@
+import React, { useEffect, useState } from 'react';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { supabase } from '@/lib/supabaseClient';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import MarkdownEditor from '@/components/forum/MarkdownEditor';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { Loader2, Plus, Save, Trash2 } from 'lucide-react';
+import {
+  BIO_MAX_LENGTH,
+  CONTACT_LINKS_MAX,
+  CONTACT_LINK_LABEL_MAX_LENGTH,
+  CONTACT_LINK_URL_MAX_LENGTH,
+  CONTACT_LINK_URL_PATTERN,
+  LOCATION_MAX_LENGTH,
+  PROFILE_VISIBILITIES,
+  PROFILE_VISIBILITY_LABELS,
+  ProfileDetails,
+} from '@/lib/profileDetails';
+
+const visibilitySchema = z.enum(PROFILE_VISIBILITIES);
+
+const profileDetailsFormSchema = z.object({
+  full_name: z.string().trim().max(100, "Le nom complet ne peut pas dépasser 100 caractères."),
+  full_name_visibility: visibilitySchema,
+  location: z.string().trim().max(LOCATION_MAX_LENGTH, `La localisation ne peut pas dépasser ${LOCATION_MAX_LENGTH} caractères.`),
+  location_visibility: visibilitySchema,
+  bio: z.string().max(BIO_MAX_LENGTH, `La biographie ne peut pas dépasser ${BIO_MAX_LENGTH} caractères.`),
+  bio_visibility: visibilitySchema,
+  contact_links: z.array(z.object({
+    label: z.string().trim()
+      .min(1, "Donnez un nom au lien.")
+      .max(CONTACT_LINK_LABEL_MAX_LENGTH, `Le nom du lien ne peut pas dépasser ${CONTACT_LINK_LABEL_MAX_LENGTH} caractères.`),
+    url: z.string().trim()
+      .max(CONTACT_LINK_URL_MAX_LENGTH, `L'adresse ne peut pas dépasser ${CONTACT_LINK_URL_MAX_LENGTH} caractères.`)
+      .regex(CONTACT_LINK_URL_PATTERN, "L'adresse doit commencer par https://, http:// ou mailto:."),
+  })).max(CONTACT_LINKS_MAX, `Vous ne pouvez pas ajouter plus de ${CONTACT_LINKS_MAX} liens.`),
+  links_visibility: visibilitySchema,
+});
+type ProfileDetailsFormValues = z.infer<typeof profileDetailsFormSchema>;
+type VisibilityFieldName = 'full_name_visibility' | 'location_visibility' | 'bio_visibility' | 'links_visibility';
+
+interface ProfileDetailsFormProps {
+  userId: string;
+}
+
+const ProfileDetailsForm: React.FC<ProfileDetailsFormProps> = ({ userId }) => {
+  const { toast } = useToast();
+  const { refreshCurrentUserProfile } = useAuth();
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<ProfileDetailsFormValues>({
+    resolver: zodResolver(profileDetailsFormSchema),
+    defaultValues: {
+      full_name: '',
+      full_name_visibility: 'members',
+      location: '',
+      location_visibility: 'members',
+      bio: '',
+      bio_visibility: 'members',
+      contact_links: [],
+      links_visibility: 'members',
+    },
+  });
+  const links = useFieldArray({ control: form.control, name: 'contact_links' });
+
+  useEffect(() => {
+    const fetchDetails = async () => {
+      setIsLoading(true);
+      try {
+        // No row until the first save: the defaults apply
+        const { data, error } = await supabase
+          .from('profile_details')
+          .select('*')
+          .eq('user_id', userId)
+          .maybeSingle();
+
+        if (error) throw error;
+        const details = data as ProfileDetails | null;
+        form.reset({
+          full_name: details?.full_name ?? '',
+          full_name_visibility: details?.full_name_visibility ?? 'members',
+          location: details?.location ?? '',
+          location_visibility: details?.location_visibility ?? 'members',
+          bio: details?.bio ?? '',
+          bio_visibility: details?.bio_visibility ?? 'members',
+          contact_links: details?.contact_links ?? [],
+          links_visibility: details?.links_visibility ?? 'members',
+        });
+      } catch (err: any) {
+        console.error("Error fetching profile details:", err);
+        toast({ variant: "destructive", title: "Erreur", description: "Impossible de charger les informations de votre profil." });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchDetails();
+  }, [userId, form, toast]);
+
+  const onSubmit = async (values: ProfileDetailsFormValues) => {
+    setIsSubmitting(true);
+    try {
+      const { error: detailsError } = await supabase.from('profile_details').upsert({
+        user_id: userId,
+        full_name: values.full_name || null,
+        bio: values.bio.trim() || null,
+        location: values.location || null,
+        contact_links: values.contact_links,
+        full_name_visibility: values.full_name_visibility,
+        bio_visibility: values.bio_visibility,
+        location_visibility: values.location_visibility,
+        links_visibility: values.links_visibility,
+      });
+      if (detailsError) throw detailsError;
+
+      toast({ title: "Succès", description: "Votre profil a été mis à jour." });
+      await refreshCurrentUserProfile();
+    } catch (err: any) {
+      console.error("Error updating profile details:", err);
+      toast({
+        variant: "destructive",
+        title: "Erreur de mise à jour",
+        description: err.message || "Échec de la mise à jour du profil.",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Who may see the field next to it
+  const renderVisibilityField = (name: VisibilityFieldName) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <Select onValueChange={field.onChange} value={field.value}>
+          <SelectTrigger className="h-8 w-[210px] text-xs dark:bg-gray-700 dark:border-gray-600 dark:text-white" aria-label="Visibilité">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="dark:bg-gray-800 dark:border-gray-700 dark:text-white">
+            {PROFILE_VISIBILITIES.map((visibility) => (
+              <SelectItem key={visibility} value={visibility}>{PROFILE_VISIBILITY_LABELS[visibility]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    />
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-8 w-8 animate-spin text-gray-400 dark:text-gray-500" />
+      </div>
+    );
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <FormField
+          control={form.control}
+          name="full_name"
+          render={({ field }) => (
+            <FormItem>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <FormLabel className="text-gray-700 dark:text-gray-300">Nom complet</FormLabel>
+                {renderVisibilityField('full_name_visibility')}
+              </div>
+              <FormControl>
+                <Input placeholder="Prénom Nom" {...field} className="dark:bg-gray-700 dark:border-gray-600 dark:text-white" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="location"
+          render={({ field }) => (
+            <FormItem>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <FormLabel className="text-gray-700 dark:text-gray-300">Localisation</FormLabel>
+                {renderVisibilityField('location_visibility')}
+              </div>
+              <FormControl>
+                <Input placeholder="Fédération ou section locale" maxLength={LOCATION_MAX_LENGTH} {...field} className="dark:bg-gray-700 dark:border-gray-600 dark:text-white" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="bio"
+          render={({ field }) => (
+            <FormItem>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <FormLabel className="text-gray-700 dark:text-gray-300">Biographie</FormLabel>
+                {renderVisibilityField('bio_visibility')}
+              </div>
+              <FormControl>
+                <MarkdownEditor placeholder="Présentez-vous en quelques lignes..." rows={6} maxLength={BIO_MAX_LENGTH} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm font-medium text-gray-700 dark:text-gray-300">Liens de contact</p>
+            {renderVisibilityField('links_visibility')}
+          </div>
+          <p className="text-sm text-muted-foreground">Site web, réseaux sociaux ou adresse e-mail publique ({CONTACT_LINKS_MAX} au maximum).</p>
+          {links.fields.map((link, index) => (
+            <div key={link.id} className="flex flex-col sm:flex-row gap-2 sm:items-start">
+              <FormField
+                control={form.control}
+                name={`contact_links.${index}.label`}
+                render={({ field }) => (
+                  <FormItem className="sm:w-1/3">
+                    <FormControl>
+                      <Input placeholder="Nom (ex. Site web)" aria-label="Nom du lien" maxLength={CONTACT_LINK_LABEL_MAX_LENGTH} {...field} className="dark:bg-gray-700 dark:border-gray-600 dark:text-white" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`contact_links.${index}.url`}
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormControl>
+                      <Input placeholder="https://..." aria-label="Adresse du lien" maxLength={CONTACT_LINK_URL_MAX_LENGTH} {...field} className="dark:bg-gray-700 dark:border-gray-600 dark:text-white" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="button" variant="ghost" size="icon" aria-label="Retirer le lien" onClick={() => links.remove(index)} className="text-red-600 hover:text-red-700 dark:text-red-400">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => links.append({ label: '', url: '' })}
+            disabled={links.fields.length >= CONTACT_LINKS_MAX}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Ajouter un lien
+          </Button>
+        </div>
+
+        <div className="flex justify-end pt-2">
+          <Button type="submit" disabled={isSubmitting} className="bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 text-white">
+            {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Enregistrer
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default ProfileDetailsForm;
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { AlertTriangle, KeyRound, Loader2, RefreshCw } from 'lucide-react';
+import RecoveryCodesList from '@/components/profile/RecoveryCodesList';
+
+interface RecoveryCodesDialogProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  onRegenerated: () => void;
+  accountLabel?: string | null;
+}
+
+// Regenerates the recovery codes from the profile page; the previous codes stop working
+const RecoveryCodesDialog: React.FC<RecoveryCodesDialogProps> = ({ isOpen, onOpenChange, onRegenerated, accountLabel }) => {
+  const { toast } = useToast();
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [codes, setCodes] = useState<string[]>([]);
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) setCodes([]);
+    onOpenChange(open);
+  };
+
+  const handleRegenerate = async () => {
+    setIsGenerating(true);
+    try {
+      const { data, error } = await supabase.rpc('generate_totp_recovery_codes');
+      if (error) throw error;
+      setCodes((data as string[]) ?? []);
+      onRegenerated();
+    } catch (err: any) {
+      console.error("Error regenerating recovery codes:", err);
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: err.message || "Impossible de générer de nouveaux codes de récupération.",
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-xl flex items-center">
+            <KeyRound className="h-6 w-6 mr-2 text-primary" />Codes de récupération
+          </DialogTitle>
+        </DialogHeader>
+        {codes.length === 0 ? (
+          <DialogDescription className="flex items-start">
+            <AlertTriangle className="h-5 w-5 mr-2 mt-0.5 flex-shrink-0 text-yellow-500" />
+            Générer de nouveaux codes invalide tous vos codes actuels, y compris ceux que vous n'avez pas encore utilisés.
+          </DialogDescription>
+        ) : (
+          <>
+            <DialogDescription>
+              Conservez ces codes en lieu sûr. Ils ne seront plus affichés après la fermeture de cette fenêtre et chaque code ne peut être utilisé qu'une seule fois.
+            </DialogDescription>
+            <RecoveryCodesList codes={codes} accountLabel={accountLabel} />
+          </>
+        )}
+        <DialogFooter>
+          {codes.length === 0 ? (
+            <>
+              <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>Annuler</Button>
+              <Button type="button" onClick={handleRegenerate} disabled={isGenerating}>
+                {isGenerating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+                Générer de nouveaux codes
+              </Button>
+            </>
+          ) : (
+            <Button type="button" onClick={() => handleOpenChange(false)} className="bg-green-600 hover:bg-green-700 text-white">
+              J'ai sauvegardé mes codes
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecoveryCodesDialog;
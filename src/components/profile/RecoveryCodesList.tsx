@@ -0,0 +1,43 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { Copy, Download } from 'lucide-react';
+import { downloadRecoveryCodes } from '@/lib/mfa';
+
+interface RecoveryCodesListProps {
+  codes: string[];
+  accountLabel?: string | null;
+}
+
+// Freshly generated recovery codes: only shown once, so the member copies or downloads them here
+const RecoveryCodesList: React.FC<RecoveryCodesListProps> = ({ codes, accountLabel }) => {
+  const { toast } = useToast();
+
+  const handleCopyAll = () => {
+    navigator.clipboard.writeText(codes.join("\n"))
+      .then(() => toast({ title: "Copié!", description: "Tous les codes de récupération copiés." }))
+      .catch(() => toast({ variant: "destructive", title: "Erreur", description: "Impossible de copier les codes." }));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-2 bg-gray-100 dark:bg-gray-800 p-4 rounded-md">
+        {codes.map(code => (
+          <div key={code} className="font-mono text-base p-2 border border-dashed dark:border-gray-700 rounded text-center">
+            {code}
+          </div>
+        ))}
+      </div>
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Button type="button" variant="outline" className="flex-1" onClick={handleCopyAll}>
+          <Copy className="mr-2 h-4 w-4" /> Copier tous les codes
+        </Button>
+        <Button type="button" variant="outline" className="flex-1" onClick={() => downloadRecoveryCodes(codes, accountLabel)}>
+          <Download className="mr-2 h-4 w-4" /> Télécharger (.txt)
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default RecoveryCodesList;
@@ -0,0 +1,190 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { History, Loader2, LogOut, MonitorSmartphone } from 'lucide-react';
+import SignInEventsTable from '@/components/profile/SignInEventsTable';
+import { ActiveSession, SignInEvent, aalLabel, describeUserAgent, formatSecurityDate } from '@/lib/security';
+
+const RECENT_SIGN_INS_LIMIT = 20;
+
+interface SecuritySettingsProps {
+  userId: string;
+}
+
+// "Sécurité" tab of the settings page: active sessions and recent sign-ins of the current user
+const SecuritySettings: React.FC<SecuritySettingsProps> = ({ userId }) => {
+  const { toast } = useToast();
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [events, setEvents] = useState<SignInEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+  const [isSigningOut, setIsSigningOut] = useState(false);
+
+  const fetchSecurityData = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [sessionsResult, eventsResult] = await Promise.all([
+        supabase.rpc('get_my_active_sessions'),
+        supabase
+          .from('sign_in_events')
+          .select('*')
+          .eq('user_id', userId)
+          .order('signed_in_at', { ascending: false })
+          .limit(RECENT_SIGN_INS_LIMIT),
+      ]);
+      if (sessionsResult.error) throw sessionsResult.error;
+      if (eventsResult.error) throw eventsResult.error;
+      setSessions((sessionsResult.data as ActiveSession[]) ?? []);
+      setEvents((eventsResult.data as SignInEvent[]) ?? []);
+    } catch (err: any) {
+      console.error("Error fetching security data:", err);
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: "Impossible de charger vos sessions et connexions.",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId, toast]);
+
+  useEffect(() => {
+    fetchSecurityData();
+  }, [fetchSecurityData]);
+
+  const handleSignOutOthers = async () => {
+    setIsSigningOut(true);
+    try {
+      const { error } = await supabase.auth.signOut({ scope: 'others' });
+      if (error) throw error;
+      toast({
+        title: "Sessions fermées",
+        description: "Vous avez été déconnecté de tous vos autres appareils.",
+      });
+      setIsConfirmOpen(false);
+      fetchSecurityData();
+    } catch (err: any) {
+      console.error("Error signing out other sessions:", err);
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: err.message || "Impossible de fermer les autres sessions.",
+      });
+    } finally {
+      setIsSigningOut(false);
+    }
+  };
+
+  const otherSessionsCount = sessions.filter((session) => !session.is_current).length;
+
+  return (
+    <div className="space-y-6">
+      <Card className="dark:bg-gray-800">
+        <CardHeader className="flex flex-col md:flex-row md:items-start md:justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="text-2xl flex items-center">
+              <MonitorSmartphone className="h-6 w-6 mr-2 text-primary" />Sessions actives
+            </CardTitle>
+            <CardDescription>
+              Les appareils actuellement connectés à votre compte.
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => setIsConfirmOpen(true)}
+            disabled={isLoading || otherSessionsCount === 0}
+          >
+            <LogOut className="mr-2 h-4 w-4" /> Se déconnecter partout ailleurs
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : sessions.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400 py-4 text-center">Aucune session active.</p>
+          ) : (
+            <ul className="divide-y dark:divide-gray-700">
+              {sessions.map((session) => (
+                <li key={session.id} className="py-3 flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                  <div>
+                    <p className="font-medium text-gray-800 dark:text-gray-200 flex items-center gap-2" title={session.user_agent ?? undefined}>
+                      {describeUserAgent(session.user_agent)}
+                      {session.is_current && <Badge>Cet appareil</Badge>}
+                    </p>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      {session.ip ?? 'IP inconnue'} · Connecté le {formatSecurityDate(session.created_at)} · Dernière activité le {formatSecurityDate(session.last_active_at)}
+                    </p>
+                  </div>
+                  <Badge variant={session.aal === 'aal2' ? 'default' : 'secondary'} className="w-fit">{aalLabel(session.aal)}</Badge>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="dark:bg-gray-800">
+        <CardHeader>
+          <CardTitle className="text-2xl flex items-center">
+            <History className="h-6 w-6 mr-2 text-primary" />Connexions récentes
+          </CardTitle>
+          <CardDescription>
+            Vos {RECENT_SIGN_INS_LIMIT} dernières connexions. Si vous ne reconnaissez pas l'une d'elles, changez votre mot de passe et fermez vos autres sessions.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : (
+            <SignInEventsTable events={events} />
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={isConfirmOpen} onOpenChange={setIsConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Se déconnecter partout ailleurs ?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {otherSessionsCount > 1
+                ? `Vos ${otherSessionsCount} autres sessions seront fermées.`
+                : "Votre autre session sera fermée."} Cet appareil reste connecté.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSigningOut}>Annuler</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleSignOutOthers();
+              }}
+              disabled={isSigningOut}
+            >
+              {isSigningOut && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Confirmer
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default SecuritySettings;
@@ -0,0 +1,42 @@
+import React from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { SignInEvent, aalLabel, describeUserAgent, formatSecurityDate } from '@/lib/security';
+
+interface SignInEventsTableProps {
+  events: SignInEvent[];
+}
+
+// Sign-in history, used by the "Sécurité" settings tab and the admin history dialog
+const SignInEventsTable: React.FC<SignInEventsTableProps> = ({ events }) => {
+  if (events.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400 py-4 text-center">Aucune connexion enregistrée.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow className="dark:border-gray-700">
+          <TableHead className="dark:text-gray-300">Date</TableHead>
+          <TableHead className="dark:text-gray-300">Appareil</TableHead>
+          <TableHead className="dark:text-gray-300">Adresse IP</TableHead>
+          <TableHead className="dark:text-gray-300">Vérification</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {events.map((event) => (
+          <TableRow key={event.id} className="dark:border-gray-700">
+            <TableCell className="whitespace-nowrap">{formatSecurityDate(event.signed_in_at)}</TableCell>
+            <TableCell title={event.user_agent ?? undefined}>{describeUserAgent(event.user_agent)}</TableCell>
+            <TableCell className="font-mono text-xs">{event.ip ?? '—'}</TableCell>
+            <TableCell>
+              <Badge variant={event.aal === 'aal2' ? 'default' : 'secondary'}>{aalLabel(event.aal)}</Badge>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default SignInEventsTable;
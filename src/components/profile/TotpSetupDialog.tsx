@@ -15,6 +15,7 @@ import { useToast } from '@/hooks/use-toast';
 import { Loader2, ShieldCheck, AlertTriangle, KeyRound, Copy } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
 import { Label } from '../ui/label';
+import RecoveryCodesList from '@/components/profile/RecoveryCodesList';
 
 interface TotpSetupDialogProps {
   isOpen: boolean;
@@ -30,25 +31,9 @@ type EnrollResponseData = {
   };
 };
 
-type VerifyResponseData = {
-  id: string;
-  factor_type: 'totp';
-  status: 'verified';
-  friendly_name?: string;
-  created_at: string;
-  updated_at: string;
-  totp?: { // This part might not be present on verify, but recovery codes are
-    recovery_codes: string[];
-  };
-  // Supabase might return recovery codes at a higher level in the response
-  // For example, directly in the data object of verify response
-  recovery_codes?: string[]; 
-};
-
-
 const TotpSetupDialog: React.FC<TotpSetupDialogProps> = ({ isOpen, onOpenChange, onSetupComplete }) => {
   const { toast } = useToast();
-  const { refreshCurrentUserProfile } = useAuth();
+  const { authUser, refreshCurrentUserProfile } = useAuth();
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
@@ -114,8 +99,8 @@ const TotpSetupDialog: React.FC<TotpSetupDialogProps> = ({ isOpen, onOpenChange,
       const { data: challengeData, error: challengeError } = await supabase.auth.mfa.challenge({ factorId });
       if (challengeError) throw challengeError;
 
-      // Then, verify
-      const { data: verifyData, error: verifyError } = await supabase.auth.mfa.verify({
+      // Then, verify: the session is now aal2, which generating recovery codes requires
+      const { error: verifyError } = await supabase.auth.mfa.verify({
         factorId,
         challengeId: challengeData.id,
         code: verificationCode,
@@ -132,21 +117,20 @@ const TotpSetupDialog: React.FC<TotpSetupDialogProps> = ({ isOpen, onOpenChange,
       
       await refreshCurrentUserProfile();
 
-      const typedVerifyData = verifyData as VerifyResponseData;
-      // Supabase docs say recovery codes are returned on successful verification of the *first* MFA factor.
-      // Let's assume they are in verifyData.totp.recovery_codes or verifyData.recovery_codes
-      const codes = typedVerifyData.recovery_codes || (typedVerifyData.totp && typedVerifyData.totp.recovery_codes);
+      // Supabase Auth has no recovery codes: ours are generated and stored (hashed) by the database
+      const { data: codes, error: codesError } = await supabase.rpc('generate_totp_recovery_codes');
+      if (codesError) {
+        console.error("Error generating recovery codes:", codesError);
+      }
 
       if (codes && codes.length > 0) {
-        setRecoveryCodes(codes);
+        setRecoveryCodes(codes as string[]);
         setStep('recoveryCodes');
       } else {
-        // This case should ideally not happen if it's the first MFA factor.
-        // If it does, it means Supabase didn't return recovery codes as expected.
-        toast({ title: "A2F Activée!", description: "L'authentification à deux facteurs est maintenant activée." });
+        // The codes can still be generated later from the profile page
+        toast({ title: "A2F Activée!", description: "L'authentification à deux facteurs est maintenant activée. Générez vos codes de récupération depuis votre profil." });
         setStep('completed'); 
         onSetupComplete(); // Notify parent
-        // onOpenChange(false); // Close dialog if no recovery codes
       }
 
     } catch (err: any) {
@@ -221,28 +205,7 @@ const TotpSetupDialog: React.FC<TotpSetupDialogProps> = ({ isOpen, onOpenChange,
             Ces codes de récupération sont votre unique moyen d'accéder à votre compte si vous perdez l'accès à votre application d'authentification.
             Conservez-les en lieu sûr et secret. Chaque code ne peut être utilisé qu'une seule fois.
           </DialogDescription>
-          <div className="space-y-2 bg-gray-100 dark:bg-gray-800 p-4 rounded-md max-h-60 overflow-y-auto">
-            {recoveryCodes.map((code, index) => (
-              <div key={index} className="font-mono text-lg p-2 border border-dashed dark:border-gray-700 rounded flex justify-between items-center">
-                <span>{code.slice(0,4)} - {code.slice(4)}</span>
-                 <Button variant="ghost" size="sm" onClick={() => handleCopyToClipboard(code)} title="Copier le code">
-                  <Copy className="h-4 w-4" />
-                </Button>
-              </div>
-            ))}
-          </div>
-           <Button 
-              variant="outline" 
-              className="w-full mt-4"
-              onClick={() => {
-                const codesText = recoveryCodes.join("\n");
-                navigator.clipboard.writeText(codesText)
-                  .then(() => toast({ title: "Copié!", description: "Tous les codes de récupération copiés." }))
-                  .catch(() => toast({ variant: "destructive", title: "Erreur", description: "Impossible de copier les codes." }));
-              }}
-            >
-              <Copy className="mr-2 h-4 w-4" /> Copier tous les codes
-            </Button>
+          <RecoveryCodesList codes={recoveryCodes} accountLabel={authUser?.email} />
         </>
       );
     }
@@ -1,6 +1,8 @@
 import { createContext, useContext, useEffect, useState, ReactNode, useCallback, useRef } from 'react';
 import { supabase } from '@/lib/supabaseClient';
 import { Session, User } from '@supabase/supabase-js';
+import { Role, normalizeRole } from '@/lib/roles';
+import { PublicProfileDetails } from '@/lib/profileDetails';
 
 // Define the structure of the profile data we expect
 export interface Profile {
@@ -9,8 +11,10 @@ export interface Profile {
   full_name: string | null;
   avatar_url: string | null;
   status: 'pending_approval' | 'approved' | 'rejected' | null;
-  role: 'user' | 'admin' | 'moderator' | null;
+  role: Role | null; // Normalized, whatever casing is stored in the database
   is_totp_enabled: boolean; // Kept for TOTP status
+  must_change_password: boolean; // Set with a temporary password, see ChangePasswordPage
+  rejection_reason: string | null; // Shown at login when status is 'rejected'
   // Add other profile fields as needed
 }
 
@@ -44,7 +48,7 @@ export const UserProvider = ({ children }: { children: ReactNode }) => {
     
     const queryPromise = supabase
       .from('profiles')
-      .select('id, username, full_name, avatar_url, status, role, is_totp_enabled') // Removed phone_number
+      .select('id, username, avatar_url, status, role, is_totp_enabled, must_change_password, rejection_reason')
       .eq('id', userId)
       .single();
 
@@ -71,15 +75,22 @@ export const UserProvider = ({ children }: { children: ReactNode }) => {
         return null;
       }
 
+      // full_name lives in profile_details, the owner reads it through get_profile_details
+      const { data: details, error: detailsError } = await supabase.rpc('get_profile_details', { p_user_id: userId });
+      if (detailsError) {
+        console.error(`[UserProvider] fetchProfile: Error fetching full name for user ${userId}: ${detailsError.message}`);
+      }
+      const full_name = ((details as PublicProfileDetails[] | null) || [])[0]?.full_name ?? null;
+
       if (typeof data.status === 'undefined' || typeof data.role === 'undefined' || typeof data.is_totp_enabled === 'undefined') {
         console.warn(`[UserProvider] fetchProfile: Profile data for user ID ${userId} is incomplete. Data:`, data);
         // Ensure default for is_totp_enabled if somehow missing, though DB has DEFAULT FALSE
-        const completeData = { ...data, is_totp_enabled: data.is_totp_enabled ?? false };
+        const completeData = { ...data, full_name, role: normalizeRole(data.role), is_totp_enabled: data.is_totp_enabled ?? false, must_change_password: data.must_change_password ?? false, rejection_reason: data.rejection_reason ?? null };
         return completeData as Profile;
       }
       
       console.log(`[UserProvider] fetchProfile: Profile fetched and validated for user ${userId}:`, data);
-      return data as Profile;
+      return { ...data, full_name, role: normalizeRole(data.role) } as Profile;
     } catch (e: any) {
       if (e.message && e.message.includes('timed out')) {
         console.error(`[UserProvider] fetchProfile: Supabase query for user ${userId} explicitly TIMED OUT. ${e.message}`);
@@ -10,9 +10,7 @@ interface AuthInfo {
   isUser: boolean;
   isModerator: boolean;
   isAdmin: boolean;
-  isSuperAdmin: boolean; // Assuming SUPER_ADMIN is a role
-  canModerate: boolean; // MODERATOR, ADMIN, SUPER_ADMIN
-  canAdminister: boolean; // ADMIN, SUPER_ADMIN
+  isSuperAdmin: boolean;
   signOut: () => Promise<void>;
   refreshCurrentUserProfile: () => Promise<void>; // Added
 }
@@ -22,14 +20,12 @@ export const useAuth = (): AuthInfo => {
 
   const role = context.profile?.role ?? null;
 
-  // Adjusted role checks based on typical hierarchy
+  // `profile.role` is already normalized by UserContext, see `@/lib/roles`.
+  // Access checks go through `usePermission()`, see `@/lib/permissions`.
   const isUser = role === 'USER';
   const isModerator = role === 'MODERATOR';
   const isAdmin = role === 'ADMIN';
-  const isSuperAdmin = role === 'SUPER_ADMIN'; // Define if this role exists
-
-  const canModerate = isModerator || isAdmin || isSuperAdmin;
-  const canAdminister = isAdmin || isSuperAdmin;
+  const isSuperAdmin = role === 'SUPER_ADMIN';
 
   return {
     authUser: context.user,
@@ -41,8 +37,6 @@ export const useAuth = (): AuthInfo => {
     isModerator,
     isAdmin,
     isSuperAdmin,
-    canModerate,
-    canAdminister,
     signOut: context.signOut,
     refreshCurrentUserProfile: context.refreshCurrentUserProfile, // Expose refresh function
   };
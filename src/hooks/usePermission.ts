@@ -0,0 +1,9 @@
+import { useAuth } from '@/hooks/useAuth';
+import { Permission, hasPermission } from '@/lib/permissions';
+
+// Whether the signed-in member holds `permission`. Accounts that are not approved hold none,
+// like in `public.has_permission()`.
+export const usePermission = (permission: Permission): boolean => {
+  const { profile, role } = useAuth();
+  return profile?.status === 'approved' && hasPermission(role, permission);
+};
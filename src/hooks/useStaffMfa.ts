@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import { useAuth } from '@/hooks/useAuth';
+
+// - `satisfied`: aal2 session, or no TOTP factor while the `require_staff_totp` setting is off
+// - `challenge`: the member has a TOTP factor but the session is still aal1
+// - `enroll`: no TOTP factor while the setting makes it mandatory
+export type StaffMfaStatus = 'loading' | 'satisfied' | 'challenge' | 'enroll';
+
+// Two-factor step-up required from staff (MODERATOR and above) before the admin panel.
+// Same rule as `public.staff_mfa_satisfied()` and `requirePermission` in the Edge Functions.
+export const useStaffMfa = (enabled: boolean) => {
+  const { session } = useAuth();
+  const accessToken = session?.access_token;
+  const [status, setStatus] = useState<StaffMfaStatus>('loading');
+  const [factorId, setFactorId] = useState<string | null>(null);
+  const statusRef = useRef<StaffMfaStatus>('loading');
+  statusRef.current = status;
+
+  const check = useCallback(async () => {
+    try {
+      const { data: aal, error: aalError } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+      if (aalError) throw aalError;
+
+      if (aal.currentLevel === 'aal2') {
+        setStatus('satisfied');
+        return;
+      }
+
+      if (aal.nextLevel === 'aal2') {
+        const { data: factors, error: factorsError } = await supabase.auth.mfa.listFactors();
+        if (factorsError) throw factorsError;
+        setFactorId(factors.totp.find(factor => factor.status === 'verified')?.id ?? null);
+        setStatus('challenge');
+        return;
+      }
+
+      const { data: setting, error: settingError } = await supabase
+        .from('site_settings')
+        .select('value')
+        .eq('key', 'require_staff_totp')
+        .maybeSingle();
+      if (settingError) throw settingError;
+      setStatus(setting?.value === true ? 'enroll' : 'satisfied');
+    } catch (err: any) {
+      // Fail closed: without a verified session, ask for the code
+      console.error("[useStaffMfa] Error checking the assurance level:", err);
+      setStatus('challenge');
+    }
+  }, []);
+
+  // Checked again whenever the session changes, e.g. once the code is verified (the token becomes aal2).
+  // Not while enrolling: the setup dialog still has to show the recovery codes, it calls `recheck` when done.
+  useEffect(() => {
+    if (enabled && accessToken && statusRef.current !== 'enroll') {
+      check();
+    }
+  }, [enabled, accessToken, check]);
+
+  return { status, factorId, recheck: check };
+};
@@ -0,0 +1,38 @@
+// Approval workflow, see supabase/migrations/add_approval_decisions.sql
+
+// Row returned by the `get_pending_approvals` RPC
+export interface PendingApplicant {
+  id: string;
+  username: string | null;
+  full_name: string | null;
+  email: string | null;
+  email_confirmed_at: string | null;
+  created_at: string;
+  previous_rejection_reason: string | null;
+}
+
+export type ApprovalDecisionValue = 'approved' | 'rejected' | 'pending_approval';
+
+// Row returned by the `get_approval_decisions` RPC
+export interface ApprovalDecision {
+  id: string;
+  user_id: string;
+  username: string | null;
+  decision: ApprovalDecisionValue;
+  note: string | null;
+  decided_by: string | null;
+  decided_by_username: string | null;
+  decided_at: string;
+}
+
+export const APPROVAL_DECISION_LABELS: Record<ApprovalDecisionValue, string> = {
+  approved: 'Approuvé',
+  rejected: 'Refusé',
+  pending_approval: 'Remis en attente',
+};
+
+// Message shown to a rejected applicant by LoginPage and ProtectedRoute
+export const getRejectionMessage = (reason: string | null | undefined): string =>
+  reason
+    ? `L'accès à votre compte a été refusé. Motif : ${reason}`
+    : "L'accès à votre compte a été refusé. Veuillez contacter un administrateur.";
@@ -0,0 +1,103 @@
+// Files attached to forum topics, see supabase/migrations/create_forum_attachments.sql
+import { supabase } from '@/lib/supabaseClient';
+import { invokeEdgeFunction } from '@/lib/functions';
+
+export const ATTACHMENTS_BUCKET = 'forum-attachments';
+
+// Mirror the bucket settings; Storage rejects anything else anyway
+export const ATTACHMENT_MAX_SIZE = 10 * 1024 * 1024;
+export const ATTACHMENT_MAX_COUNT = 5;
+export const ATTACHMENT_MIME_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+  'application/vnd.oasis.opendocument.text',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+];
+
+// Signed URLs are requested when a topic is opened
+export const ATTACHMENT_URL_TTL_SECONDS = 60 * 60;
+
+// Row of the `forum_attachments` table
+export interface ForumAttachment {
+  id: string;
+  post_id: string;
+  user_id: string;
+  storage_path: string;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  created_at: string;
+}
+
+export const isImageType = (mimeType: string) => mimeType.startsWith('image/');
+
+// 1536 -> "1,5 Ko"
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} o`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toLocaleString('fr-FR', { maximumFractionDigits: 1 })} Ko`;
+  return `${(bytes / (1024 * 1024)).toLocaleString('fr-FR', { maximumFractionDigits: 1 })} Mo`;
+};
+
+// French error message, or null when the file can be attached
+export const validateAttachment = (file: File): string | null => {
+  if (!ATTACHMENT_MIME_TYPES.includes(file.type)) {
+    return `« ${file.name} » n'est pas un type de fichier accepté (images, PDF, texte ou documents Word / OpenDocument).`;
+  }
+  if (file.size > ATTACHMENT_MAX_SIZE) {
+    return `« ${file.name} » dépasse la taille maximale de ${formatFileSize(ATTACHMENT_MAX_SIZE)}.`;
+  }
+  return null;
+};
+
+// Objects are named `<post_id>/<uuid>.<ext>`: the folder drives the access rules,
+// the original name is kept in `forum_attachments.file_name`
+const buildStoragePath = (postId: string, file: File) => {
+  const extension = file.name.includes('.') ? file.name.split('.').pop()!.toLowerCase().replace(/[^a-z0-9]/g, '') : '';
+  return `${postId}/${crypto.randomUUID()}${extension ? `.${extension}` : ''}`;
+};
+
+// Uploads the files of a topic the caller just created. Returns the names of the files that failed,
+// the others are attached. The row comes first: the bucket only accepts the object it names,
+// and it is deleted again if the upload fails.
+export const uploadPostAttachments = async (postId: string, userId: string, files: File[]): Promise<string[]> => {
+  const failed: string[] = [];
+  for (const file of files) {
+    const storagePath = buildStoragePath(postId, file);
+    try {
+      const { error: insertError } = await supabase.from('forum_attachments').insert({
+        post_id: postId,
+        user_id: userId,
+        storage_path: storagePath,
+        file_name: file.name.slice(0, 255),
+        mime_type: file.type,
+        size_bytes: file.size,
+      });
+      if (insertError) throw insertError;
+
+      const { error: uploadError } = await supabase.storage
+        .from(ATTACHMENTS_BUCKET)
+        .upload(storagePath, file, { contentType: file.type });
+      if (uploadError) {
+        await supabase.from('forum_attachments').delete().eq('storage_path', storagePath);
+        throw uploadError;
+      }
+    } catch (err: any) {
+      console.error(`Error uploading attachment ${file.name}:`, err);
+      failed.push(file.name);
+    }
+  }
+  return failed;
+};
+
+// Deleting a row, or the topic or section holding it, queues its stored file: the
+// `purge-attachment-files` Edge Function removes the queued files. Failures are only logged,
+// the next call picks the files up.
+export const purgeDeletedAttachmentFiles = () =>
+  invokeEdgeFunction('purge-attachment-files', {}).catch((err) => {
+    console.error('Error purging deleted attachment files:', err);
+  });
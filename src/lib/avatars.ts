@@ -0,0 +1,75 @@
+// Profile pictures, see supabase/migrations/create_avatars_bucket.sql
+import { supabase } from '@/lib/supabaseClient';
+
+export const AVATARS_BUCKET = 'avatars';
+
+// Stored pictures are square, AVATAR_SIZE pixels wide
+export const AVATAR_SIZE = 256;
+// The picked file is resized in the browser, so it may be larger than the bucket limit (2 MB)
+export const AVATAR_SOURCE_MAX_SIZE = 15 * 1024 * 1024;
+export const AVATAR_SOURCE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+// Square area of the source image, in source pixels
+export interface AvatarCrop {
+  x: number;
+  y: number;
+  size: number;
+}
+
+// French error message, or null when the file can be used as a profile picture
+export const validateAvatarSource = (file: File): string | null => {
+  if (!AVATAR_SOURCE_TYPES.includes(file.type)) {
+    return 'Choisissez une image JPEG, PNG, WebP ou GIF.';
+  }
+  if (file.size > AVATAR_SOURCE_MAX_SIZE) {
+    return "L'image est trop volumineuse (15 Mo maximum).";
+  }
+  return null;
+};
+
+// Draws the cropped area at AVATAR_SIZE and encodes it, as WebP when the browser supports it
+export const renderAvatar = (image: HTMLImageElement, crop: AvatarCrop): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = AVATAR_SIZE;
+    canvas.height = AVATAR_SIZE;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      reject(new Error("Votre navigateur ne permet pas de redimensionner l'image."));
+      return;
+    }
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(image, crop.x, crop.y, crop.size, crop.size, 0, 0, AVATAR_SIZE, AVATAR_SIZE);
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Impossible de générer l'image."))),
+      'image/webp',
+      0.9
+    );
+  });
+
+// Uploads the picture under the member's folder and returns its public URL.
+// Each upload gets a new name so browsers do not keep showing the previous picture.
+export const uploadAvatar = async (userId: string, blob: Blob): Promise<string> => {
+  const extension = blob.type === 'image/webp' ? 'webp' : blob.type === 'image/jpeg' ? 'jpg' : 'png';
+  const path = `${userId}/${Date.now()}.${extension}`;
+  const { error } = await supabase.storage.from(AVATARS_BUCKET).upload(path, blob, { contentType: blob.type });
+  if (error) throw error;
+  return supabase.storage.from(AVATARS_BUCKET).getPublicUrl(path).data.publicUrl;
+};
+
+// Object name of a picture stored in the member's own folder, null for any other URL
+export const avatarStoragePath = (userId: string, url: string | null): string | null => {
+  const match = url?.match(/\/storage\/v1\/object\/public\/avatars\/([^?#]+)/);
+  if (!match) return null;
+  const path = decodeURIComponent(match[1]);
+  return path.split('/')[0] === userId ? path : null;
+};
+
+// Removes a replaced or cleared picture from the bucket. `avatar_url` can be set to anything,
+// so only files of the member's own folder are touched.
+export const removeAvatarFile = async (userId: string, url: string | null) => {
+  const path = avatarStoragePath(userId, url);
+  if (!path) return;
+  const { error } = await supabase.storage.from(AVATARS_BUCKET).remove([path]);
+  if (error) throw error;
+};
@@ -0,0 +1,143 @@
+// Shared types and helpers for the forum pages.
+
+import { Role, hasMinimumRole } from '@/lib/roles';
+
+// Describes who a section's minimum role lets in
+export const FORUM_ROLE_LABELS: Record<Role, string> = {
+  USER: 'Tous les membres',
+  MODERATOR: 'Modérateurs et plus',
+  ADMIN: 'Administrateurs et plus',
+  SUPER_ADMIN: 'Super administrateurs',
+};
+
+export type ForumAction = 'read' | 'post' | 'reply';
+
+export interface ForumCategory {
+  id: string;
+  name: string;
+  description: string | null;
+  slug: string;
+  created_at: string;
+  parent_id: string | null;
+  position: number;
+  min_read_role: Role;
+  min_post_role: Role;
+  min_reply_role: Role;
+}
+
+export type CategoryPermissions = Pick<ForumCategory, 'min_read_role' | 'min_post_role' | 'min_reply_role'>;
+
+// A top-level section with its subsections
+export type ForumCategoryNode<T extends ForumCategory = ForumCategory> = T & { children: T[] };
+
+// One row returned by the `get_category_topics` RPC
+export interface TopicSummary {
+  id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+  is_pinned: boolean;
+  is_locked: boolean;
+  author_id: string;
+  author_username: string | null;
+  author_full_name: string | null;
+  author_avatar_url: string | null;
+  reply_count: number;
+  last_activity_at: string;
+  total_count: number;
+}
+
+export type TopicSort = 'newest' | 'active';
+
+// A topic as stored in `forum_posts`, with its category
+export interface ForumPostDetail {
+  id: string;
+  user_id: string;
+  category_id: string;
+  title: string;
+  content: string;
+  created_at: string;
+  updated_at: string;
+  is_pinned: boolean;
+  is_locked: boolean;
+  forum_categories: (Pick<ForumCategory, 'name' | 'slug'> & CategoryPermissions) | null;
+}
+
+export interface AuthorProfile {
+  id: string;
+  username: string | null;
+  full_name: string | null;
+  avatar_url: string | null;
+}
+
+// One row returned by the `get_post_replies` RPC
+export interface ForumReply {
+  id: string;
+  post_id: string;
+  content: string;
+  created_at: string;
+  updated_at: string;
+  author_id: string;
+  author_username: string | null;
+  author_full_name: string | null;
+  author_avatar_url: string | null;
+  total_count: number;
+}
+
+export const TOPICS_PAGE_SIZE = 20;
+export const REPLIES_PAGE_SIZE = 20;
+export const TITLE_MAX_LENGTH = 200;
+export const POST_MAX_LENGTH = 20000;
+export const REPLY_MAX_LENGTH = 10000;
+
+export const getAuthorDisplayName = (username: string | null, fullName: string | null) =>
+  username || fullName || 'Membre inconnu';
+
+export const formatForumDate = (value: string) =>
+  new Date(value).toLocaleString('fr-FR', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+// "Annonces Générales" -> "annonces-generales"
+export const slugify = (value: string) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+// Appends -2, -3... until the slug is not taken
+export const makeUniqueSlug = (base: string, takenSlugs: string[]) => {
+  if (!takenSlugs.includes(base)) return base;
+  let suffix = 2;
+  while (takenSlugs.includes(`${base}-${suffix}`)) {
+    suffix += 1;
+  }
+  return `${base}-${suffix}`;
+};
+
+export const compareCategories = (a: ForumCategory, b: ForumCategory) =>
+  a.position - b.position || a.name.localeCompare(b.name, 'fr');
+
+// Groups sections under their parent, both levels sorted by position.
+// A section whose parent is not in the list is shown at the top level.
+export const buildCategoryTree = <T extends ForumCategory>(categories: T[]): ForumCategoryNode<T>[] => {
+  const ids = new Set(categories.map((c) => c.id));
+  const sorted = [...categories].sort(compareCategories);
+  return sorted
+    .filter((c) => !c.parent_id || !ids.has(c.parent_id))
+    .map((root) => ({ ...root, children: sorted.filter((c) => c.parent_id === root.id) }));
+};
+
+// Mirrors `public.can_access_forum_category()`: RLS enforces it, the UI only hides what would fail
+export const canAccessCategory = (role: string | null | undefined, category: CategoryPermissions, action: ForumAction) => {
+  if (!hasMinimumRole(role, category.min_read_role)) return false;
+  if (action === 'post') return hasMinimumRole(role, category.min_post_role);
+  if (action === 'reply') return hasMinimumRole(role, category.min_reply_role);
+  return true;
+};
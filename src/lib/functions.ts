@@ -0,0 +1,19 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabaseClient';
+
+// Invokes an Edge Function and surfaces the `{ error: "..." }` message our functions answer with
+// (see `supabase/functions/_shared/admin.ts`) instead of the generic non-2xx error.
+export const invokeEdgeFunction = async <T = unknown>(name: string, body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const errorBody = await error.context.json().catch(() => null);
+      if (errorBody && typeof errorBody.error === 'string') {
+        throw new Error(errorBody.error);
+      }
+    }
+    throw error;
+  }
+  return data as T;
+};
@@ -0,0 +1,51 @@
+// Invite codes, see supabase/migrations/create_invite_codes_table.sql
+
+import { Role } from '@/lib/roles';
+
+// Row of the `invite_codes` table
+export interface InviteCode {
+  id: string;
+  code: string;
+  email: string | null;
+  role: Role;
+  max_uses: number | null;
+  use_count: number;
+  expires_at: string | null;
+  revoked_at: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+// Result of the `check_invite_code` RPC
+export type InviteCodeCheck = 'valid' | 'invalid' | 'revoked' | 'expired' | 'exhausted' | 'email_mismatch';
+
+export const INVITE_CODE_CHECK_MESSAGES: Record<Exclude<InviteCodeCheck, 'valid'>, string> = {
+  invalid: "Ce code d'invitation n'existe pas.",
+  revoked: "Ce code d'invitation a été révoqué.",
+  expired: "Ce code d'invitation a expiré.",
+  exhausted: "Ce code d'invitation a déjà été utilisé le nombre de fois autorisé.",
+  email_mismatch: "Ce code d'invitation est réservé à une autre adresse e-mail.",
+};
+
+export type InviteStatus = 'active' | 'revoked' | 'expired' | 'exhausted';
+
+export const INVITE_STATUS_LABELS: Record<InviteStatus, string> = {
+  active: 'Active',
+  revoked: 'Révoquée',
+  expired: 'Expirée',
+  exhausted: 'Épuisée',
+};
+
+// Same order of checks as `check_invite_code`
+export const getInviteStatus = (invite: InviteCode, now: Date = new Date()): InviteStatus => {
+  if (invite.revoked_at) return 'revoked';
+  if (invite.expires_at && new Date(invite.expires_at) <= now) return 'expired';
+  if (invite.max_uses !== null && invite.use_count >= invite.max_uses) return 'exhausted';
+  return 'active';
+};
+
+// Query parameter of SignUpPage prefilling the code
+export const INVITE_CODE_PARAM = 'invitation';
+
+export const buildInviteLink = (code: string): string =>
+  `${window.location.origin}/inscription?${INVITE_CODE_PARAM}=${encodeURIComponent(code)}`;
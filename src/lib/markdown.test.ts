@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { MarkdownBlock, parseInline, parseMarkdown } from './markdown';
+
+describe('parseInline', () => {
+  it('parses emphasis, strong and strikethrough', () => {
+    expect(parseInline('**gras** et *italique* ~~barré~~')).toEqual([
+      { type: 'strong', children: [{ type: 'text', value: 'gras' }] },
+      { type: 'text', value: ' et ' },
+      { type: 'emphasis', children: [{ type: 'text', value: 'italique' }] },
+      { type: 'text', value: ' ' },
+      { type: 'delete', children: [{ type: 'text', value: 'barré' }] },
+    ]);
+  });
+
+  it('nests emphasis and keeps unmatched delimiters as text', () => {
+    expect(parseInline('*a **b** c*')).toEqual([
+      {
+        type: 'emphasis',
+        children: [
+          { type: 'text', value: 'a ' },
+          { type: 'strong', children: [{ type: 'text', value: 'b' }] },
+          { type: 'text', value: ' c' },
+        ],
+      },
+    ]);
+    expect(parseInline('** pas gras** 2 * 3')).toEqual([{ type: 'text', value: '** pas gras** 2 * 3' }]);
+  });
+
+  it('does not open emphasis inside words with underscores', () => {
+    expect(parseInline('nom_de_variable')).toEqual([{ type: 'text', value: 'nom_de_variable' }]);
+  });
+
+  it('parses code spans and escapes', () => {
+    expect(parseInline('`*x*` \\*y\\*')).toEqual([
+      { type: 'code', value: '*x*' },
+      { type: 'text', value: ' *y*' },
+    ]);
+  });
+
+  it('parses links and drops unsafe targets', () => {
+    expect(parseInline('[le *site*](https://example.org)')).toEqual([
+      {
+        type: 'link',
+        href: 'https://example.org',
+        children: [{ type: 'text', value: 'le ' }, { type: 'emphasis', children: [{ type: 'text', value: 'site' }] }],
+      },
+    ]);
+    expect(parseInline('[clic](javascript:alert(1))')).toEqual([{ type: 'text', value: 'clic' }]);
+  });
+
+  it('links bare addresses without the trailing punctuation', () => {
+    expect(parseInline('Voir https://example.org/page.')).toEqual([
+      { type: 'text', value: 'Voir ' },
+      { type: 'link', href: 'https://example.org/page', children: [{ type: 'text', value: 'https://example.org/page' }] },
+      { type: 'text', value: '.' },
+    ]);
+  });
+
+  it('stays linear on pathological input', () => {
+    const inputs = [
+      'a ' + '*x '.repeat(20000),
+      '**x '.repeat(20000),
+      '_a *b '.repeat(10000) + '* _'.repeat(10000),
+      '['.repeat(50000),
+      '[a](b'.repeat(10000),
+      '`a``b'.repeat(10000),
+    ];
+    for (const input of inputs) {
+      const start = performance.now();
+      parseInline(input);
+      expect(performance.now() - start).toBeLessThan(1000);
+    }
+  });
+});
+
+describe('parseMarkdown', () => {
+  it('parses blocks', () => {
+    expect(parseMarkdown('# Titre\n\n- un\n- deux\n\n> cité')).toEqual([
+      { type: 'heading', level: 1, children: [{ type: 'text', value: 'Titre' }] },
+      {
+        type: 'list',
+        ordered: false,
+        start: 1,
+        items: [
+          [{ type: 'paragraph', children: [{ type: 'text', value: 'un' }] }],
+          [{ type: 'paragraph', children: [{ type: 'text', value: 'deux' }] }],
+        ],
+      },
+      { type: 'blockquote', children: [{ type: 'paragraph', children: [{ type: 'text', value: 'cité' }] }] },
+    ]);
+  });
+
+  it('keeps deeply nested quotes and lists as text', () => {
+    const depthOf = (blocks: MarkdownBlock[]): number =>
+      Math.max(0, ...blocks.map((block) => {
+        if (block.type === 'blockquote') return 1 + depthOf(block.children);
+        if (block.type === 'list') return 1 + Math.max(0, ...block.items.map(depthOf));
+        return 0;
+      }));
+
+    for (const input of ['>'.repeat(9997) + ' x', '- '.repeat(4999), '> - '.repeat(3000) + 'x']) {
+      const start = performance.now();
+      const blocks = parseMarkdown(input);
+      expect(performance.now() - start).toBeLessThan(1000);
+      expect(depthOf(blocks)).toBeLessThanOrEqual(16);
+    }
+
+    expect(parseMarkdown('>>> x')).toEqual([
+      { type: 'blockquote', children: [{ type: 'blockquote', children: [{ type: 'blockquote', children: [{ type: 'paragraph', children: [{ type: 'text', value: 'x' }] }] }] }] },
+    ]);
+  });
+});
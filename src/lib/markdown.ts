@@ -0,0 +1,381 @@
+// Markdown subset used by topics, replies and profile bios.
+// The parser only produces a tree of known nodes; MarkdownContent renders it as React elements,
+// so raw HTML in a message is always displayed as text. Link targets go through `sanitizeUrl`.
+
+export type MarkdownInline =
+  | { type: 'text'; value: string }
+  | { type: 'strong' | 'emphasis' | 'delete'; children: MarkdownInline[] }
+  | { type: 'code'; value: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'break' };
+
+export type MarkdownBlock =
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownBlock[][] }
+  | { type: 'code'; language: string | null; value: string }
+  | { type: 'rule' };
+
+// Only web, mail and same-site links are kept; anything else (javascript:, data:, ...) is dropped
+export const sanitizeUrl = (url: string): string | null => {
+  const trimmed = url.trim();
+  if (!trimmed || /[\s\u0000-\u001f\u007f]/.test(trimmed)) return null;
+  if (/^(https?:|mailto:)/i.test(trimmed)) return trimmed;
+  if (trimmed.startsWith('#') || (trimmed.startsWith('/') && !trimmed.startsWith('//'))) return trimmed;
+  return null;
+};
+
+// ---------------------------------------------------------------------------
+// Inline content
+
+const ESCAPABLE = /[\\`*_~[\]()#+\-.!>|]/;
+const BARE_URL = /https?:\/\/[^\s<>"]+/iy;
+
+const isWordChar = (char: string | undefined) => !!char && /[\p{L}\p{N}]/u.test(char);
+const isSpace = (char: string | undefined) => char === undefined || /\s/.test(char);
+
+// Index of the closing character of every balanced pair, computed once so that unclosed
+// brackets do not rescan the rest of the message. `\` skips the next character when `escapes` is set.
+const matchPairs = (text: string, open: string, close: string, escapes: boolean): Map<number, number> => {
+  const pairs = new Map<number, number>();
+  const stack: number[] = [];
+  for (let index = 0; index < text.length; index++) {
+    if (escapes && text[index] === '\\') { index++; continue; }
+    if (text[index] === open) stack.push(index);
+    if (text[index] === close && stack.length > 0) pairs.set(stack.pop()!, index);
+  }
+  return pairs;
+};
+
+// A run of `*`, `_` or `~` that may still open or close emphasis
+interface DelimiterRun {
+  type: 'delimiter';
+  char: string;
+  length: number;
+}
+
+type InlineItem = MarkdownInline | DelimiterRun;
+
+// Unmatched delimiters become text again, and neighbouring texts are merged
+const toNodes = (items: InlineItem[]): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  for (const item of items) {
+    const node: MarkdownInline = item.type === 'delimiter' ? { type: 'text', value: item.char.repeat(item.length) } : item;
+    const last = nodes[nodes.length - 1];
+    if (node.type === 'text' && last?.type === 'text') {
+      nodes[nodes.length - 1] = { type: 'text', value: last.value + node.value };
+    } else if (node.type !== 'text' || node.value) {
+      nodes.push(node);
+    }
+  }
+  return nodes;
+};
+
+// Single pass over the text: emphasis runs are matched with a stack of openers (as in CommonMark),
+// link labels are parsed in place, so the work stays linear whatever the input.
+export const parseInline = (text: string): MarkdownInline[] => {
+  const brackets = matchPairs(text, '[', ']', true);
+  const parens = matchPairs(text, '(', ')', false);
+  // Next occurrence of each code fence, so that unclosed fences do not rescan the message
+  const fences = new Map<string, number>();
+
+  const items: InlineItem[] = [];
+  let buffer = '';
+  const openers: { run: DelimiterRun; index: number }[] = [];
+  // Openers below this height have already failed to match a closer of that character
+  let openersBottom: Record<string, number> = {};
+  // Link whose label is being parsed: wrapped when its `]` is reached, links cannot nest
+  let link: {
+    href: string | null;
+    start: number;
+    labelEnd: number;
+    end: number;
+    openers: number;
+    openersBottom: Record<string, number>;
+  } | null = null;
+
+  const flush = () => {
+    if (buffer) items.push({ type: 'text', value: buffer });
+    buffer = '';
+  };
+
+  const truncateOpeners = (height: number) => {
+    openers.length = height;
+    for (const char of Object.keys(openersBottom)) {
+      openersBottom[char] = Math.min(openersBottom[char], height);
+    }
+  };
+
+  const findFence = (fence: string, from: number): number => {
+    const cached = fences.get(fence);
+    if (cached !== undefined && (cached === -1 || cached >= from)) return cached;
+    const index = text.indexOf(fence, from);
+    fences.set(fence, index);
+    return index;
+  };
+
+  const handleRun = (char: string, length: number, before: string | undefined, after: string | undefined) => {
+    // Emphasis content cannot start or end with a space, and `_` does not work inside words
+    const canOpen = !isSpace(after) && !(char === '_' && isWordChar(before));
+    const canClose = !isSpace(before) && !(char === '_' && isWordChar(after));
+    const minLength = char === '~' ? 2 : 1;
+    let remaining = length;
+
+    if (canClose) {
+      const bottom = Math.max(openersBottom[char] ?? 0, link ? link.openers : 0);
+      let k = openers.length - 1;
+      while (remaining >= minLength && k >= bottom) {
+        const opener = openers[k];
+        if (opener.run.char !== char || opener.run.length < minLength || opener.index === items.length - 1) {
+          k--;
+          continue;
+        }
+
+        const used = char === '~' ? 2 : Math.min(2, opener.run.length, remaining);
+        const children = toNodes(items.splice(opener.index + 1));
+        items.push(
+          used === 1
+            ? { type: 'emphasis', children }
+            : { type: char === '~' ? 'delete' : 'strong', children },
+        );
+        opener.run.length -= used;
+        remaining -= used;
+        if (opener.run.length === 0) {
+          items.splice(opener.index, 1);
+          truncateOpeners(k);
+          k--;
+        } else {
+          truncateOpeners(k + 1);
+        }
+      }
+      // The search went down to the bottom without a match
+      if (remaining >= minLength) openersBottom[char] = openers.length;
+    }
+
+    if (remaining === 0) return;
+    const run: DelimiterRun = { type: 'delimiter', char, length: remaining };
+    items.push(run);
+    if (canOpen && remaining >= minLength) openers.push({ run, index: items.length - 1 });
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+
+    if (link && i === link.labelEnd) {
+      flush();
+      const children = toNodes(items.splice(link.start));
+      // Searches inside the label stopped at the link, the ones outside still hold
+      openersBottom = link.openersBottom;
+      truncateOpeners(link.openers);
+      if (link.href) {
+        items.push({ type: 'link', href: link.href, children });
+      } else {
+        items.push(...children);
+      }
+      i = link.end;
+      link = null;
+      continue;
+    }
+
+    if (char === '\\' && i + 1 < text.length && ESCAPABLE.test(text[i + 1])) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '\n') {
+      flush();
+      items.push({ type: 'break' });
+      i++;
+      continue;
+    }
+
+    if (char === '`') {
+      let length = 1;
+      while (text[i + length] === '`') length++;
+      const fence = text.slice(i, i + length);
+      const close = findFence(fence, i + length);
+      if (close !== -1 && close + length <= (link ? link.labelEnd : text.length)) {
+        flush();
+        items.push({ type: 'code', value: text.slice(i + length, close).replace(/^ (.+) $/, '$1') });
+        i = close + length;
+        continue;
+      }
+      buffer += fence;
+      i += length;
+      continue;
+    }
+
+    if (char === '*' || char === '_' || char === '~') {
+      let length = 1;
+      while (text[i + length] === char) length++;
+      if (char === '~' && length < 2) {
+        buffer += char;
+        i++;
+        continue;
+      }
+      flush();
+      handleRun(char, length, text[i - 1], text[i + length]);
+      i += length;
+      continue;
+    }
+
+    if (char === '[' && !link) {
+      const labelEnd = brackets.get(i);
+      const urlEnd = labelEnd === undefined ? undefined : parens.get(labelEnd + 1);
+      if (labelEnd !== undefined && urlEnd !== undefined) {
+        flush();
+        link = {
+          href: sanitizeUrl(text.slice(labelEnd + 2, urlEnd)),
+          start: items.length,
+          labelEnd,
+          end: urlEnd + 1,
+          openers: openers.length,
+          openersBottom: { ...openersBottom },
+        };
+        i++;
+        continue;
+      }
+    }
+
+    if ((char === 'h' || char === 'H') && !link && !isWordChar(text[i - 1])) {
+      BARE_URL.lastIndex = i;
+      const match = BARE_URL.exec(text);
+      if (match) {
+        // Trailing punctuation and emphasis markers belong to the sentence, not to the address
+        const url = match[0].replace(/[.,;:!?)\]*_~]+$/, '');
+        flush();
+        items.push({ type: 'link', href: url, children: [{ type: 'text', value: url }] });
+        i += url.length;
+        continue;
+      }
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flush();
+  return toNodes(items);
+};
+
+// ---------------------------------------------------------------------------
+// Blocks
+
+const FENCE = /^\s{0,3}(`{3,}|~{3,})\s*([\w+-]*)\s*$/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^\s{0,3}>\s?/;
+const LIST_ITEM = /^(\s{0,3})([-*+]|\d{1,9}[.)])\s+(.*)$/;
+
+const isBlank = (line: string) => line.trim() === '';
+
+// Quotes and list items parse their content recursively: deeper levels are kept as plain text
+const MAX_NESTING_DEPTH = 16;
+
+const startsBlock = (line: string) =>
+  FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line);
+
+const parseBlocks = (source: string, depth: number): MarkdownBlock[] => {
+  if (depth >= MAX_NESTING_DEPTH) {
+    const text = source.trim();
+    return text ? [{ type: 'paragraph', children: parseInline(text) }] : [];
+  }
+
+  const lines = source.split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !(lines[i].trim().startsWith(fence[1][0].repeat(fence[1].length)) && FENCE.test(lines[i]))) {
+        body.push(lines[i]);
+        i++;
+      }
+      i++; // Closing fence, or the end of the message
+      blocks.push({ type: 'code', language: fence[2] || null, value: body.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        body.push(lines[i].replace(QUOTE, ''));
+        i++;
+      }
+      blocks.push({ type: 'blockquote', children: parseBlocks(body.join('\n'), depth + 1) });
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      const ordered = /\d/.test(item[2]);
+      const items: string[][] = [];
+      while (i < lines.length) {
+        const current = lines[i].match(LIST_ITEM);
+        if (current && /\d/.test(current[2]) === ordered) {
+          items.push([current[3]]);
+          i++;
+          continue;
+        }
+        // Indented lines continue the current item; a blank line only if the list goes on after it
+        if (!isBlank(lines[i]) && /^\s{2,}/.test(lines[i])) {
+          items[items.length - 1].push(lines[i].replace(/^\s{2,4}/, ''));
+          i++;
+          continue;
+        }
+        if (isBlank(lines[i]) && i + 1 < lines.length && (/^\s{2,}\S/.test(lines[i + 1]) || lines[i + 1].match(LIST_ITEM))) {
+          items[items.length - 1].push('');
+          i++;
+          continue;
+        }
+        break;
+      }
+      blocks.push({
+        type: 'list',
+        ordered,
+        start: ordered ? parseInt(item[2], 10) : 1,
+        items: items.map((itemLines) => parseBlocks(itemLines.join('\n'), depth + 1)),
+      });
+      continue;
+    }
+
+    const paragraph: string[] = [line.trim()];
+    i++;
+    while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines[i])) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+};
+
+export const parseMarkdown = (source: string): MarkdownBlock[] =>
+  parseBlocks(source.replace(/\r\n?/g, '\n'), 0);
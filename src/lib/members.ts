@@ -0,0 +1,26 @@
+// Shared types and labels for the member directory (`/membres`).
+
+import { Role } from '@/lib/roles';
+
+export const MEMBERS_PAGE_SIZE = 24;
+
+export type MemberSort = 'alphabetical' | 'most_active' | 'recently_active';
+
+export const MEMBER_SORT_LABELS: Record<MemberSort, string> = {
+  alphabetical: 'Ordre alphabétique',
+  most_active: 'Plus de messages',
+  recently_active: 'Actifs récemment',
+};
+
+// One row returned by the `get_member_directory` RPC
+export interface MemberSummary {
+  id: string;
+  username: string | null;
+  full_name: string | null;
+  avatar_url: string | null;
+  role: Role | null;
+  created_at: string | null;
+  post_count: number;
+  last_post_at: string | null;
+  total_count: number;
+}
@@ -0,0 +1,34 @@
+// TOTP recovery codes, see supabase/migrations/add_totp_recovery_codes.sql
+
+// Row returned by the `get_totp_recovery_codes_status` RPC
+export interface RecoveryCodesStatus {
+  remaining_count: number;
+  generated_at: string | null;
+}
+
+// Recovery codes are 10 letters/digits, shown as `xxxxx-xxxxx`; TOTP codes are 6 digits
+export const isRecoveryCodeFormat = (value: string): boolean =>
+  value.replace(/[^a-zA-Z0-9]/g, '').length === 10;
+
+export const downloadRecoveryCodes = (codes: string[], accountLabel?: string | null) => {
+  const lines = [
+    'Codes de récupération A2F',
+    accountLabel ? `Compte : ${accountLabel}` : null,
+    `Générés le : ${new Date().toLocaleString('fr-FR')}`,
+    '',
+    'Chaque code ne peut être utilisé qu\'une seule fois, à la place du code de votre application d\'authentification.',
+    '',
+    ...codes,
+    '',
+  ].filter((line): line is string => line !== null);
+
+  const blob = new Blob([lines.join('\n')], { type: 'text/plain;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'codes-recuperation-a2f.txt';
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
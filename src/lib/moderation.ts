@@ -0,0 +1,48 @@
+// Shared types and labels for content reports and the moderation queue.
+
+export const REPORT_REASONS = ['spam', 'harassment', 'inappropriate', 'off_topic', 'other'] as const;
+export type ReportReason = typeof REPORT_REASONS[number];
+
+export const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+  spam: 'Spam ou publicité',
+  harassment: 'Harcèlement ou propos insultants',
+  inappropriate: 'Contenu inapproprié',
+  off_topic: 'Hors sujet',
+  other: 'Autre',
+};
+
+export type ReportTargetType = 'post' | 'reply';
+export type ReportStatus = 'open' | 'resolved' | 'dismissed';
+
+export const REPORT_STATUS_LABELS: Record<ReportStatus, string> = {
+  open: 'En attente',
+  resolved: 'Résolu',
+  dismissed: 'Rejeté',
+};
+
+export type ModerationAction = 'resolve' | 'dismiss' | 'delete_content' | 'lock_topic';
+
+export const REPORT_COMMENT_MAX_LENGTH = 1000;
+export const REPORTS_PAGE_SIZE = 20;
+
+// One row returned by the `get_content_reports` RPC
+export interface ContentReport {
+  id: string;
+  target_type: ReportTargetType;
+  post_id: string | null;
+  reply_id: string | null;
+  post_title: string | null;
+  is_locked: boolean | null;
+  content_excerpt: string; // Empty once the topic is deleted
+  content_author_id: string | null;
+  content_author_username: string | null;
+  reporter_id: string;
+  reporter_username: string | null;
+  reason: ReportReason;
+  comment: string | null;
+  status: ReportStatus;
+  handled_by_username: string | null;
+  handled_at: string | null;
+  created_at: string;
+  total_count: number;
+}
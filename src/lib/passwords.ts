@@ -0,0 +1,19 @@
+import * as z from 'zod';
+
+// Password rules shared by sign-up, the forgotten password flow and the forced password change.
+
+export const PASSWORD_MIN_LENGTH = 6;
+export const PASSWORD_TOO_SHORT_MESSAGE = `Le mot de passe doit contenir au moins ${PASSWORD_MIN_LENGTH} caractères.`;
+
+// Routes of the password pages, also used as `redirectTo` of the reset e-mails
+export const FORGOT_PASSWORD_PATH = '/mot-de-passe-oublie';
+export const NEW_PASSWORD_PATH = '/nouveau-mot-de-passe';
+
+export const newPasswordSchema = z.object({
+  password: z.string().min(PASSWORD_MIN_LENGTH, PASSWORD_TOO_SHORT_MESSAGE),
+  confirmPassword: z.string(),
+}).refine(values => values.password === values.confirmPassword, {
+  message: "Les mots de passe ne correspondent pas.",
+  path: ['confirmPassword'],
+});
+export type NewPasswordFormValues = z.infer<typeof newPasswordSchema>;
@@ -0,0 +1,3 @@
+// The permission registry lives with the Edge Functions so that they deploy on their own,
+// see `supabase/functions/_shared/permissions.ts`
+export * from '../../supabase/functions/_shared/permissions.ts';
@@ -0,0 +1,46 @@
+// Biography, location and contact links with per-field privacy,
+// see supabase/migrations/add_profile_details.sql
+
+export const PROFILE_VISIBILITIES = ['members', 'moderators', 'hidden'] as const;
+export type ProfileFieldVisibility = typeof PROFILE_VISIBILITIES[number];
+
+export const PROFILE_VISIBILITY_LABELS: Record<ProfileFieldVisibility, string> = {
+  members: 'Visible par les membres',
+  moderators: 'Modérateurs uniquement',
+  hidden: 'Masqué',
+};
+
+// Mirror the table constraints
+export const BIO_MAX_LENGTH = 2000;
+export const LOCATION_MAX_LENGTH = 100;
+export const CONTACT_LINKS_MAX = 5;
+export const CONTACT_LINK_LABEL_MAX_LENGTH = 50;
+export const CONTACT_LINK_URL_MAX_LENGTH = 300;
+export const CONTACT_LINK_URL_PATTERN = /^(https?:\/\/|mailto:)\S+$/i;
+
+export interface ContactLink {
+  label: string;
+  url: string;
+}
+
+// Row of the `profile_details` table, only readable by its owner and by user editors
+export interface ProfileDetails {
+  user_id: string;
+  full_name: string | null;
+  bio: string | null;
+  location: string | null;
+  contact_links: ContactLink[];
+  full_name_visibility: ProfileFieldVisibility;
+  bio_visibility: ProfileFieldVisibility;
+  location_visibility: ProfileFieldVisibility;
+  links_visibility: ProfileFieldVisibility;
+  updated_at: string;
+}
+
+// Row returned by the `get_profile_details` RPC, fields hidden from the caller are null
+export interface PublicProfileDetails {
+  full_name: string | null;
+  bio: string | null;
+  location: string | null;
+  contact_links: ContactLink[];
+}
@@ -0,0 +1,3 @@
+// The role model lives with the Edge Functions so that they deploy on their own,
+// see `supabase/functions/_shared/roles.ts`
+export * from '../../supabase/functions/_shared/roles.ts';
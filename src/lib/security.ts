@@ -0,0 +1,58 @@
+// Sign-in history and active sessions, see supabase/migrations/create_sign_in_events_table.sql
+
+// Row of the `sign_in_events` table
+export interface SignInEvent {
+  id: string;
+  user_id: string;
+  session_id: string | null;
+  signed_in_at: string;
+  user_agent: string | null;
+  ip: string | null;
+  aal: string;
+}
+
+// Row returned by the `get_my_active_sessions` RPC
+export interface ActiveSession {
+  id: string;
+  created_at: string;
+  last_active_at: string;
+  user_agent: string | null;
+  ip: string | null;
+  aal: string;
+  is_current: boolean;
+}
+
+export const AAL_LABELS: Record<string, string> = {
+  aal1: 'Mot de passe',
+  aal2: 'Mot de passe + A2F',
+};
+
+export const aalLabel = (aal: string): string => AAL_LABELS[aal] ?? aal;
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/Android/, 'Android'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+// Short "Browser sur System" label; the raw user agent is kept for the title attribute
+export const describeUserAgent = (userAgent: string | null): string => {
+  if (!userAgent) return 'Appareil inconnu';
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && system) return `${browser} sur ${system}`;
+  return browser ?? system ?? 'Appareil inconnu';
+};
+
+export const formatSecurityDate = (value: string): string =>
+  new Date(value).toLocaleString('fr-FR', { dateStyle: 'short', timeStyle: 'short' });
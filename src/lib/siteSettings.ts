@@ -0,0 +1,30 @@
+// Site-wide settings stored in `public.site_settings` (one JSON value per key), see
+// supabase/migrations/add_staff_mfa_enforcement.sql
+
+export interface SiteSettings {
+  require_staff_totp: boolean; // TOTP mandatory for MODERATOR and above
+}
+
+export type SiteSettingKey = keyof SiteSettings;
+
+export const DEFAULT_SITE_SETTINGS: SiteSettings = {
+  require_staff_totp: false,
+};
+
+export const SITE_SETTING_LABELS: Record<SiteSettingKey, { title: string; description: string }> = {
+  require_staff_totp: {
+    title: "A2F obligatoire pour l'équipe",
+    description: "Les modérateurs et administrateurs sans A2F devront l'activer avant d'accéder au panneau d'administration.",
+  },
+};
+
+// Rows of `site_settings` -> settings object, unknown keys ignored and missing keys defaulted
+export const parseSiteSettings = (rows: { key: string; value: unknown }[] | null): SiteSettings => {
+  const settings = { ...DEFAULT_SITE_SETTINGS };
+  for (const row of rows ?? []) {
+    if (row.key in settings) {
+      (settings as Record<string, unknown>)[row.key] = row.value;
+    }
+  }
+  return settings;
+};
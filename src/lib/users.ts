@@ -0,0 +1,23 @@
+// Filters, sorting and paging of the admin user list, see the `get_all_user_details` RPC.
+
+export const USERS_PAGE_SIZE = 25;
+
+export type UserStatus = 'pending_approval' | 'approved' | 'rejected';
+
+export const USER_STATUS_LABELS: Record<UserStatus, string> = {
+  pending_approval: 'En attente',
+  approved: 'Approuvé',
+  rejected: 'Refusé',
+};
+
+export const USER_SORTS = ['created_at_desc', 'created_at_asc', 'username_asc', 'username_desc', 'email_asc', 'email_desc'] as const;
+export type UserSort = typeof USER_SORTS[number];
+
+export const USER_SORT_LABELS: Record<UserSort, string> = {
+  created_at_desc: 'Inscription (récentes)',
+  created_at_asc: 'Inscription (anciennes)',
+  username_asc: "Nom d'utilisateur (A-Z)",
+  username_desc: "Nom d'utilisateur (Z-A)",
+  email_asc: 'Email (A-Z)',
+  email_desc: 'Email (Z-A)',
+};
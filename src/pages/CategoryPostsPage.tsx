@@ -0,0 +1,263 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { supabase } from '@/lib/supabaseClient';
+import { useAuth } from '@/hooks/useAuth';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import PaginationControls from '@/components/common/PaginationControls';
+import { ArrowLeft, FolderKanban, Loader2, AlertTriangle, MessageSquare, MessagesSquare, MessageSquarePlus, Clock, Pin, Lock } from 'lucide-react';
+import {
+  FORUM_ROLE_LABELS,
+  ForumCategory,
+  TopicSummary,
+  TopicSort,
+  TOPICS_PAGE_SIZE,
+  canAccessCategory,
+  formatForumDate,
+  getAuthorDisplayName,
+} from '@/lib/forum';
+
+const CategoryPostsPage = () => {
+  const { categorySlug } = useParams<{ categorySlug: string }>();
+  const { role } = useAuth();
+
+  const [category, setCategory] = useState<ForumCategory | null>(null);
+  const [topics, setTopics] = useState<TopicSummary[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [page, setPage] = useState(1);
+  const [sort, setSort] = useState<TopicSort>('newest');
+  const [loadingCategory, setLoadingCategory] = useState(true);
+  const [loadingTopics, setLoadingTopics] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchCategory = async () => {
+      setLoadingCategory(true);
+      setError(null);
+      setCategory(null);
+      setTopics([]);
+      setPage(1);
+      try {
+        const { data, error: categoryError } = await supabase
+          .from('forum_categories')
+          .select('*')
+          .eq('slug', categorySlug)
+          .maybeSingle();
+
+        if (categoryError) {
+          throw categoryError;
+        }
+        if (!data) {
+          setError("Cette catégorie n'existe pas ou a été supprimée.");
+          return;
+        }
+        setCategory(data as ForumCategory);
+      } catch (err: any) {
+        console.error('Error fetching category:', err);
+        setError('Impossible de charger la catégorie. Veuillez réessayer plus tard.');
+      } finally {
+        setLoadingCategory(false);
+      }
+    };
+
+    if (categorySlug) {
+      fetchCategory();
+    }
+  }, [categorySlug]);
+
+  useEffect(() => {
+    if (!category) return;
+
+    const fetchTopics = async () => {
+      setLoadingTopics(true);
+      setError(null);
+      try {
+        const { data, error: topicsError } = await supabase.rpc('get_category_topics', {
+          p_category_id: category.id,
+          p_sort: sort,
+          p_limit: TOPICS_PAGE_SIZE,
+          p_offset: (page - 1) * TOPICS_PAGE_SIZE,
+        });
+
+        if (topicsError) {
+          throw topicsError;
+        }
+        const rows = (data as TopicSummary[]) || [];
+        setTopics(rows);
+        setTotalCount(rows.length > 0 ? Number(rows[0].total_count) : 0);
+      } catch (err: any) {
+        console.error('Error fetching topics:', err);
+        setError('Impossible de charger les sujets de cette catégorie. Veuillez réessayer plus tard.');
+      } finally {
+        setLoadingTopics(false);
+      }
+    };
+
+    fetchTopics();
+  }, [category, page, sort]);
+
+  const handleSortChange = (value: string) => {
+    setSort(value as TopicSort);
+    setPage(1);
+  };
+
+  const totalPages = Math.ceil(totalCount / TOPICS_PAGE_SIZE);
+  const loading = loadingCategory || loadingTopics;
+
+  return (
+    <div className="container mx-auto py-8 px-4 md:px-6">
+      <Button asChild variant="ghost" className="mb-4 text-gray-600 dark:text-gray-300">
+        <Link to="/forum">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Retour au forum
+        </Link>
+      </Button>
+
+      {category && (
+        <header className="mb-8">
+          <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+            <div>
+              <h1 className="text-4xl font-extrabold text-gray-800 dark:text-white flex items-center">
+                <FolderKanban className="mr-3 h-9 w-9 text-blue-600 dark:text-blue-400" />
+                {category.name}
+              </h1>
+              {category.description && (
+                <p className="mt-2 text-lg text-gray-600 dark:text-gray-300">{category.description}</p>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-gray-600 dark:text-gray-400">Trier par</span>
+              <Select value={sort} onValueChange={handleSortChange}>
+                <SelectTrigger className="w-[180px] dark:bg-gray-800 dark:border-gray-600 dark:text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="dark:bg-gray-800 dark:border-gray-700 dark:text-white">
+                  <SelectItem value="newest">Plus récents</SelectItem>
+                  <SelectItem value="active">Plus actifs</SelectItem>
+                </SelectContent>
+              </Select>
+              {canAccessCategory(role, category, 'post') ? (
+                <Button asChild className="bg-green-600 hover:bg-green-700 dark:bg-green-500 dark:hover:bg-green-600">
+                  <Link to={`/forum/nouveau-sujet?categorie=${category.slug}`}>
+                    <MessageSquarePlus className="mr-2 h-5 w-5" />
+                    Nouveau Sujet
+                  </Link>
+                </Button>
+              ) : (
+                <span className="flex items-center text-sm text-gray-500 dark:text-gray-400" title="Création de sujets réservée">
+                  <Lock className="mr-1.5 h-4 w-4" />
+                  {FORUM_ROLE_LABELS[category.min_post_role]}
+                </span>
+              )}
+            </div>
+          </div>
+        </header>
+      )}
+
+      {loading && (
+        <div className="flex justify-center items-center py-10">
+          <Loader2 className="h-12 w-12 animate-spin text-blue-600" />
+          <p className="ml-4 text-lg text-gray-600 dark:text-gray-300">Chargement des sujets...</p>
+        </div>
+      )}
+
+      {error && (
+        <Card className="bg-red-50 border-red-500 dark:bg-red-900/30 dark:border-red-700">
+          <CardHeader>
+            <div className="flex items-center text-red-600 dark:text-red-400">
+              <AlertTriangle className="h-6 w-6 mr-2" />
+              <CardTitle>Erreur</CardTitle>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <p className="text-red-700 dark:text-red-300">{error}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {!loading && !error && category && topics.length === 0 && (
+        <div className="text-center py-10">
+          <MessageSquare className="mx-auto h-16 w-16 text-gray-400 dark:text-gray-500 mb-4" />
+          <p className="text-xl text-gray-600 dark:text-gray-300">Aucun sujet dans cette catégorie pour le moment.</p>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">Soyez le premier à lancer la discussion.</p>
+        </div>
+      )}
+
+      {!loading && !error && topics.length > 0 && (
+        <>
+          <Card className="dark:bg-gray-800">
+            <CardHeader>
+              <CardDescription className="text-gray-600 dark:text-gray-400">
+                {totalCount} {totalCount > 1 ? 'sujets' : 'sujet'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="p-0">
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                {topics.map((topic) => {
+                  const authorName = getAuthorDisplayName(topic.author_username, topic.author_full_name);
+                  return (
+                    <li key={topic.id} className="flex flex-col sm:flex-row sm:items-center gap-4 px-6 py-4 hover:bg-gray-50 dark:hover:bg-gray-700/40 transition-colors">
+                      <div className="flex items-center gap-3 flex-grow min-w-0">
+                        <Avatar className="h-10 w-10 flex-shrink-0">
+                          <AvatarImage src={topic.author_avatar_url || undefined} alt={authorName} />
+                          <AvatarFallback className="bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                            {authorName.charAt(0).toUpperCase()}
+                          </AvatarFallback>
+                        </Avatar>
+                        <div className="min-w-0">
+                          <div className="flex items-center gap-2 min-w-0">
+                            {topic.is_pinned && (
+                              <Pin className="h-4 w-4 flex-shrink-0 text-amber-500" aria-label="Sujet épinglé" />
+                            )}
+                            {topic.is_locked && (
+                              <Lock className="h-4 w-4 flex-shrink-0 text-gray-500 dark:text-gray-400" aria-label="Sujet verrouillé" />
+                            )}
+                            <Link
+                              to={`/forum/sujet/${topic.id}`}
+                              className="block text-lg font-semibold text-gray-800 dark:text-white hover:text-blue-600 dark:hover:text-blue-400 truncate"
+                            >
+                              {topic.title}
+                            </Link>
+                          </div>
+                          <p className="text-sm text-gray-500 dark:text-gray-400">
+                            Par{' '}
+                            <Link to={`/profil/${topic.author_id}`} className="hover:underline">
+                              {authorName}
+                            </Link>
+                            {' • '}
+                            {formatForumDate(topic.created_at)}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex sm:flex-col sm:items-end gap-4 sm:gap-1 text-sm text-gray-500 dark:text-gray-400 flex-shrink-0">
+                        <span className="flex items-center">
+                          <MessagesSquare className="mr-1.5 h-4 w-4" />
+                          {topic.reply_count} {Number(topic.reply_count) > 1 ? 'réponses' : 'réponse'}
+                        </span>
+                        <span className="flex items-center" title="Dernière activité">
+                          <Clock className="mr-1.5 h-4 w-4" />
+                          {formatForumDate(topic.last_activity_at)}
+                        </span>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            </CardContent>
+          </Card>
+          <PaginationControls page={page} totalPages={totalPages} onPageChange={setPage} className="mt-6" />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CategoryPostsPage;
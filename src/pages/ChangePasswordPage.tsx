@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import { Navigate, useNavigate } from 'react-router-dom';
+import { supabase } from '@/lib/supabaseClient';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import NewPasswordForm from '@/components/auth/NewPasswordForm';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { KeyRound, LogOut } from 'lucide-react';
+
+// Shown instead of the site while `profile.must_change_password` is set (temporary password given by an administrator)
+const ChangePasswordPage = () => {
+  const { toast } = useToast();
+  const { profile, refreshCurrentUserProfile, signOut } = useAuth();
+  const navigate = useNavigate();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  if (profile && !profile.must_change_password) {
+    return <Navigate to="/" replace />;
+  }
+
+  const onSubmit = async (password: string) => {
+    setIsSubmitting(true);
+    try {
+      // The new password clears `must_change_password` in the database (trigger on auth.users)
+      const { error } = await supabase.auth.updateUser({ password });
+      if (error) throw error;
+
+      await refreshCurrentUserProfile();
+      toast({ title: "Mot de passe modifié", description: "Votre nouveau mot de passe est enregistré." });
+      navigate('/', { replace: true });
+    } catch (err: any) {
+      console.error("Error changing password:", err);
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: err.message || "Impossible de modifier le mot de passe.",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    await signOut();
+    navigate('/connexion', { replace: true });
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gradient-to-br from-slate-900 to-slate-800 p-4">
+      <Card className="w-full max-w-md shadow-2xl bg-slate-800/50 backdrop-blur-lg border-slate-700">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-4 p-3 bg-blue-600/20 rounded-full w-fit">
+            <KeyRound className="h-10 w-10 text-blue-400" />
+          </div>
+          <CardTitle className="text-3xl font-bold text-slate-100">Nouveau mot de passe</CardTitle>
+          <CardDescription className="text-slate-400">
+            Un administrateur vous a attribué un mot de passe temporaire. Choisissez votre propre mot de passe pour continuer.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <NewPasswordForm isSubmitting={isSubmitting} onSubmit={onSubmit} />
+        </CardContent>
+        <CardFooter className="justify-center">
+          <Button type="button" variant="ghost" onClick={handleSignOut} className="text-slate-400 hover:text-slate-100">
+            <LogOut className="mr-2 h-4 w-4" /> Se déconnecter
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+};
+
+export default ChangePasswordPage;
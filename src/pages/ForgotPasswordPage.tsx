@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/lib/supabaseClient';
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AlertCircle, CheckCircle, KeyRound } from 'lucide-react';
+import { NEW_PASSWORD_PATH } from '@/lib/passwords';
+
+const ForgotPasswordPage = () => {
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+    setSuccessMessage(null);
+
+    // The redirect URL must be allowed in the Supabase Auth settings (Redirect URLs)
+    const { error: resetError } = await supabase.auth.resetPasswordForEmail(email.trim(), {
+      redirectTo: `${window.location.origin}${NEW_PASSWORD_PATH}`,
+    });
+
+    setLoading(false);
+
+    if (resetError) {
+      console.error("ForgotPasswordPage - Supabase resetPasswordForEmail error:", resetError);
+      setError(resetError.message || "Impossible d'envoyer l'e-mail de réinitialisation. Veuillez réessayer.");
+      return;
+    }
+
+    // Same message whether or not the address has an account
+    setSuccessMessage("Si un compte existe pour cette adresse, un e-mail contenant un lien de réinitialisation vient d'être envoyé.");
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gradient-to-br from-slate-900 to-slate-800 p-4">
+      <Card className="w-full max-w-md shadow-2xl bg-slate-800/50 backdrop-blur-lg border-slate-700">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-4 p-3 bg-blue-600/20 rounded-full w-fit">
+            <KeyRound className="h-10 w-10 text-blue-400" />
+          </div>
+          <CardTitle className="text-3xl font-bold text-slate-100">Mot de passe oublié</CardTitle>
+          <CardDescription className="text-slate-400">
+            Indiquez votre adresse e-mail pour recevoir un lien de réinitialisation.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {successMessage ? (
+            <div className="flex items-center p-3 text-sm text-green-300 bg-green-900/30 rounded-md border border-green-700">
+              <CheckCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+              <span>{successMessage}</span>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div className="space-y-2">
+                <Label htmlFor="email" className="text-slate-300">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="votreadresse@email.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  className="bg-slate-700 border-slate-600 text-slate-100 placeholder-slate-500 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              {error && (
+                <div className="flex items-center p-3 text-sm text-red-400 bg-red-900/30 rounded-md border border-red-700">
+                  <AlertCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+                  <span>{error}</span>
+                </div>
+              )}
+              <Button type="submit" className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-3 text-base" disabled={loading}>
+                {loading ? 'Envoi en cours...' : 'Envoyer le lien'}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+        <CardFooter className="flex flex-col items-center space-y-4 pt-6">
+          <Link to="/connexion" className="text-sm text-blue-400 hover:text-blue-300 hover:underline">
+            Retour à la connexion
+          </Link>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+};
+
+export default ForgotPasswordPage;
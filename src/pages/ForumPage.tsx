@@ -1,19 +1,39 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '@/lib/supabaseClient';
 import { Link } from 'react-router-dom';
-import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { FolderKanban, MessageSquarePlus, Loader2, AlertTriangle } from 'lucide-react'; // Added Loader2 and AlertTriangle
+import CategoryCard from '@/components/forum/CategoryCard';
+import { useAuth } from '@/hooks/useAuth';
+import { ForumCategory, buildCategoryTree, canAccessCategory } from '@/lib/forum';
 
-interface ForumCategory {
-  id: string;
-  name: string;
-  description: string | null;
-  slug: string;
-  created_at: string;
+// Consecutive top-level sections without subsections share one grid;
+// a section with subsections gets its own heading.
+interface CategoryGroup {
+  parent: ForumCategory | null;
+  categories: ForumCategory[];
 }
 
+const groupCategories = (categories: ForumCategory[]): CategoryGroup[] => {
+  const groups: CategoryGroup[] = [];
+  for (const { children, ...root } of buildCategoryTree(categories)) {
+    if (children.length > 0) {
+      groups.push({ parent: root, categories: children });
+      continue;
+    }
+    const last = groups[groups.length - 1];
+    if (last && !last.parent) {
+      last.categories.push(root);
+    } else {
+      groups.push({ parent: null, categories: [root] });
+    }
+  }
+  return groups;
+};
+
 const ForumPage = () => {
+  const { role } = useAuth();
   const [categories, setCategories] = useState<ForumCategory[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -26,6 +46,7 @@ const ForumPage = () => {
         const { data, error: categoriesError } = await supabase
           .from('forum_categories')
           .select('*')
+          .order('position', { ascending: true })
           .order('name', { ascending: true });
 
         if (categoriesError) {
@@ -43,6 +64,10 @@ const ForumPage = () => {
     fetchCategories();
   }, []);
 
+  const groups = groupCategories(categories);
+  // Sections the user cannot read are already filtered out by RLS
+  const canPostSomewhere = categories.some((category) => canAccessCategory(role, category, 'post'));
+
   return (
     <div className="container mx-auto py-8 px-4 md:px-6">
       <header className="mb-10">
@@ -55,13 +80,14 @@ const ForumPage = () => {
               Parcourez les catégories et participez aux discussions.
             </p>
           </div>
-          <Button /* onClick={() => navigate('/forum/nouveau-sujet')} // TODO: Implement create post page */
-            className="bg-green-600 hover:bg-green-700 dark:bg-green-500 dark:hover:bg-green-600"
-            disabled // Temporarily disabled until functionality is ready
-          >
-            <MessageSquarePlus className="mr-2 h-5 w-5" />
-            Nouveau Sujet
-          </Button>
+          {canPostSomewhere && (
+            <Button asChild className="bg-green-600 hover:bg-green-700 dark:bg-green-500 dark:hover:bg-green-600">
+              <Link to="/forum/nouveau-sujet">
+                <MessageSquarePlus className="mr-2 h-5 w-5" />
+                Nouveau Sujet
+              </Link>
+            </Button>
+          )}
         </div>
       </header>
 
@@ -95,31 +121,34 @@ const ForumPage = () => {
       )}
 
       {!loading && !error && categories.length > 0 && (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {categories.map((category) => (
-            <Card key={category.id} className="hover:shadow-xl transition-shadow duration-300 ease-in-out dark:bg-gray-800 flex flex-col">
-              <CardHeader>
-                <div className="flex items-center text-blue-600 dark:text-blue-400 mb-2">
-                  <FolderKanban className="h-7 w-7 mr-3 flex-shrink-0" />
-                  <CardTitle className="text-2xl font-semibold leading-tight">{category.name}</CardTitle>
+        <div className="space-y-10">
+          {groups.map((group) =>
+            group.parent ? (
+              <section key={group.parent.id}>
+                <div className="mb-4 pb-2 border-b dark:border-gray-700">
+                  <h2 className="text-2xl font-bold text-gray-800 dark:text-white">
+                    <Link to={`/forum/categorie/${group.parent.slug}`} className="hover:text-blue-600 dark:hover:text-blue-400">
+                      {group.parent.name}
+                    </Link>
+                  </h2>
+                  {group.parent.description && (
+                    <p className="mt-1 text-gray-600 dark:text-gray-400">{group.parent.description}</p>
+                  )}
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {group.categories.map((category) => (
+                    <CategoryCard key={category.id} category={category} canPost={canAccessCategory(role, category, 'post')} />
+                  ))}
                 </div>
-                {category.description && (
-                  <CardDescription className="text-gray-600 dark:text-gray-400 line-clamp-2">
-                    {category.description}
-                  </CardDescription>
-                )}
-              </CardHeader>
-              <CardContent className="flex-grow flex flex-col justify-end">
-                {/* Placeholder for post count or last activity - to be implemented later */}
-                {/* <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">X Sujets • Y Messages</p> */}
-                <Button asChild variant="outline" className="w-full mt-auto border-blue-500 text-blue-500 hover:bg-blue-500 hover:text-white dark:border-blue-400 dark:text-blue-400 dark:hover:bg-blue-500 dark:hover:text-white">
-                  <Link to={`/forum/categorie/${category.slug}`}>
-                    Explorer {category.name}
-                  </Link>
-                </Button>
-              </CardContent>
-            </Card>
-          ))}
+              </section>
+            ) : (
+              <div key={group.categories[0].id} className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {group.categories.map((category) => (
+                  <CategoryCard key={category.id} category={category} canPost={canAccessCategory(role, category, 'post')} />
+                ))}
+              </div>
+            )
+          )}
         </div>
       )}
     </div>
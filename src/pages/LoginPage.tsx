@@ -12,7 +12,24 @@ import { useState, useEffect } from 'react';
     } from "@/components/ui/card";
     import { Input } from "@/components/ui/input";
     import { Label } from "@/components/ui/label";
-    import { AlertCircle, LogIn, Info } from 'lucide-react';
+    import { AlertCircle, LogIn, Info, ShieldCheck } from 'lucide-react';
+    import { FORGOT_PASSWORD_PATH } from '@/lib/passwords';
+    import { invokeEdgeFunction } from '@/lib/functions';
+    import { getRejectionMessage } from '@/lib/approvals';
+
+    // Verified TOTP factor of the signed-in user when the session still needs a second factor (aal1 -> aal2)
+    const getPendingTotpFactorId = async (): Promise<string | null> => {
+      const { data: aal, error: aalError } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+      if (aalError || !aal || aal.nextLevel !== 'aal2' || aal.currentLevel === 'aal2') {
+        return null;
+      }
+      const { data: factors, error: factorsError } = await supabase.auth.mfa.listFactors();
+      if (factorsError) {
+        console.error("LoginPage - listFactors error:", factorsError);
+        return null;
+      }
+      return factors.totp.find(factor => factor.status === 'verified')?.id ?? null;
+    };
 
     const LoginPage = () => {
       const [email, setEmail] = useState('');
@@ -20,6 +37,9 @@ import { useState, useEffect } from 'react';
       const [error, setError] = useState<string | null>(null);
       const [infoMessage, setInfoMessage] = useState<string | null>(null);
       const [loading, setLoading] = useState(false);
+      const [mfaFactorId, setMfaFactorId] = useState<string | null>(null);
+      const [mfaCode, setMfaCode] = useState('');
+      const [useRecoveryCode, setUseRecoveryCode] = useState(false);
       const navigate = useNavigate();
       const location = useLocation();
 
@@ -30,6 +50,13 @@ import { useState, useEffect } from 'react';
         }
       }, [location, navigate]);
 
+      // Resume the second step when a password-only session is still waiting for its TOTP code
+      useEffect(() => {
+        getPendingTotpFactorId().then(factorId => {
+          if (factorId) setMfaFactorId(factorId);
+        });
+      }, []);
+
       const handleLogin = async (e: React.FormEvent) => {
         e.preventDefault();
         setLoading(true);
@@ -49,36 +76,13 @@ import { useState, useEffect } from 'react';
         }
 
         if (signInData.user) {
-          const { data: profile, error: profileError } = await supabase
-            .from('profiles')
-            .select('status')
-            .eq('id', signInData.user.id)
-            .single();
-
-          if (profileError || !profile) {
+          const factorId = await getPendingTotpFactorId();
+          if (factorId) {
             setLoading(false);
-            console.error("LoginPage - Profile fetch error:", profileError);
-            setError("Impossible de récupérer les informations du profil. Veuillez réessayer.");
-            await supabase.auth.signOut(); 
+            setMfaFactorId(factorId);
             return;
           }
-
-          if (profile.status === 'approved') {
-            setLoading(false);
-            navigate('/'); 
-          } else if (profile.status === 'pending_approval') {
-            setLoading(false);
-            setError("Votre compte est en attente d'approbation par un administrateur.");
-            await supabase.auth.signOut(); 
-          } else if (profile.status === 'rejected') {
-            setLoading(false);
-            setError("L'accès à votre compte a été refusé. Veuillez contacter un administrateur.");
-            await supabase.auth.signOut(); 
-          } else {
-            setLoading(false);
-            setError("Statut de compte inconnu. Veuillez contacter un administrateur.");
-            await supabase.auth.signOut(); 
-          }
+          await finishLogin(signInData.user.id);
         } else {
           setLoading(false);
           // Ce cas est peu probable si signInError est null, mais par sécurité
@@ -87,6 +91,81 @@ import { useState, useEffect } from 'react';
         }
       };
 
+      // Account status checks, once the password (and the TOTP code, if enabled) are verified
+      const finishLogin = async (userId: string, redirectTo = '/') => {
+        const { data: profile, error: profileError } = await supabase
+          .from('profiles')
+          .select('status, rejection_reason')
+          .eq('id', userId)
+          .single();
+
+        if (profileError || !profile) {
+          setLoading(false);
+          console.error("LoginPage - Profile fetch error:", profileError);
+          setError("Impossible de récupérer les informations du profil. Veuillez réessayer.");
+          await supabase.auth.signOut(); 
+          return;
+        }
+
+        if (profile.status === 'approved') {
+          setLoading(false);
+          navigate(redirectTo); 
+        } else if (profile.status === 'pending_approval') {
+          setLoading(false);
+          setError("Votre compte est en attente d'approbation par un administrateur.");
+          await supabase.auth.signOut(); 
+        } else if (profile.status === 'rejected') {
+          setLoading(false);
+          setError(getRejectionMessage(profile.rejection_reason));
+          await supabase.auth.signOut(); 
+        } else {
+          setLoading(false);
+          setError("Statut de compte inconnu. Veuillez contacter un administrateur.");
+          await supabase.auth.signOut(); 
+        }
+      };
+
+      const handleVerifyMfa = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!mfaFactorId) return;
+        setLoading(true);
+        setError(null);
+
+        try {
+          if (useRecoveryCode) {
+            // Lost device: a valid code removes the TOTP factor, the session no longer needs aal2
+            await invokeEdgeFunction('redeem-totp-recovery-code', { code: mfaCode.trim() });
+            const { data: refreshed, error: refreshError } = await supabase.auth.refreshSession();
+            if (refreshError || !refreshed.user) throw refreshError ?? new Error("Session introuvable. Veuillez vous reconnecter.");
+            // Straight to the profile page, where the member can set up their new device
+            await finishLogin(refreshed.user.id, `/profil/${refreshed.user.id}`);
+            return;
+          }
+
+          const { data: verifyData, error: verifyError } = await supabase.auth.mfa.challengeAndVerify({
+            factorId: mfaFactorId,
+            code: mfaCode.trim(),
+          });
+          if (verifyError) throw verifyError;
+          await finishLogin(verifyData.user.id);
+        } catch (err: any) {
+          setLoading(false);
+          console.error("LoginPage - MFA verification error:", err);
+          setError(useRecoveryCode
+            ? err.message || "Code de récupération invalide ou déjà utilisé."
+            : "Code A2F invalide ou expiré. Veuillez réessayer.");
+          setMfaCode('');
+        }
+      };
+
+      const handleCancelMfa = async () => {
+        await supabase.auth.signOut();
+        setMfaFactorId(null);
+        setMfaCode('');
+        setUseRecoveryCode(false);
+        setError(null);
+      };
+
       return (
         <div className="flex items-center justify-center min-h-screen bg-gradient-to-br from-slate-900 to-slate-800 p-4">
           <Card className="w-full max-w-md shadow-2xl bg-slate-800/50 backdrop-blur-lg border-slate-700">
@@ -106,41 +185,89 @@ import { useState, useEffect } from 'react';
                   <span>{infoMessage}</span>
                 </div>
               )}
-              <form onSubmit={handleLogin} className="space-y-6">
-                <div className="space-y-2">
-                  <Label htmlFor="email" className="text-slate-300">Email</Label>
-                  <Input
-                    id="email"
-                    type="email"
-                    placeholder="votreadresse@email.com"
-                    value={email}
-                    onChange={(e) => setEmail(e.target.value)}
-                    required
-                    className="bg-slate-700 border-slate-600 text-slate-100 placeholder-slate-500 focus:ring-blue-500 focus:border-blue-500"
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="password" className="text-slate-300">Mot de passe</Label>
-                  <Input
-                    id="password"
-                    type="password"
-                    placeholder="********"
-                    value={password}
-                    onChange={(e) => setPassword(e.target.value)}
-                    required
-                    className="bg-slate-700 border-slate-600 text-slate-100 placeholder-slate-500 focus:ring-blue-500 focus:border-blue-500"
-                  />
-                </div>
-                {error && (
-                  <div className="flex items-center p-3 text-sm text-red-400 bg-red-900/30 rounded-md border border-red-700">
-                    <AlertCircle className="h-5 w-5 mr-2 flex-shrink-0" />
-                    <span>{error}</span>
+              {mfaFactorId ? (
+                <form onSubmit={handleVerifyMfa} className="space-y-6">
+                  <div className="flex items-center text-slate-300">
+                    <ShieldCheck className="h-5 w-5 mr-2 flex-shrink-0 text-blue-400" />
+                    <span className="text-sm">
+                      {useRecoveryCode
+                        ? "Entrez l'un de vos codes de récupération. L'A2F sera désactivée et vous pourrez la configurer à nouveau."
+                        : "Entrez le code à 6 chiffres de votre application d'authentification."}
+                    </span>
                   </div>
-                )}
-                <Button type="submit" className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-3 text-base" disabled={loading}>
-                  {loading ? 'Connexion en cours...' : 'Se connecter'}
-                </Button>
-              </form>
+                  <div className="space-y-2">
+                    <Label htmlFor="mfa-code" className="text-slate-300">{useRecoveryCode ? 'Code de récupération' : 'Code A2F'}</Label>
+                    <Input
+                      id="mfa-code"
+                      type="text"
+                      placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+                      value={mfaCode}
+                      onChange={(e) => setMfaCode(useRecoveryCode ? e.target.value.slice(0, 11) : e.target.value.replace(/\D/g, '').slice(0, 6))}
+                      autoComplete="one-time-code"
+                      autoFocus
+                      required
+                      className="text-center tracking-[0.3em] bg-slate-700 border-slate-600 text-slate-100 placeholder-slate-500 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
+                  {error && (
+                    <div className="flex items-center p-3 text-sm text-red-400 bg-red-900/30 rounded-md border border-red-700">
+                      <AlertCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+                      <span>{error}</span>
+                    </div>
+                  )}
+                  <Button type="submit" className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-3 text-base" disabled={loading || !mfaCode.trim()}>
+                    {loading ? 'Vérification...' : 'Vérifier'}
+                  </Button>
+                  <div className="flex justify-between text-sm">
+                    <button
+                      type="button"
+                      onClick={() => { setUseRecoveryCode(!useRecoveryCode); setMfaCode(''); setError(null); }}
+                      className="text-blue-400 hover:text-blue-300 hover:underline"
+                    >
+                      {useRecoveryCode ? "Utiliser l'application d'authentification" : 'Utiliser un code de récupération'}
+                    </button>
+                    <button type="button" onClick={handleCancelMfa} className="text-slate-400 hover:text-slate-300 hover:underline">
+                      Annuler
+                    </button>
+                  </div>
+                </form>
+              ) : (
+                <form onSubmit={handleLogin} className="space-y-6">
+                  <div className="space-y-2">
+                    <Label htmlFor="email" className="text-slate-300">Email</Label>
+                    <Input
+                      id="email"
+                      type="email"
+                      placeholder="votreadresse@email.com"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      required
+                      className="bg-slate-700 border-slate-600 text-slate-100 placeholder-slate-500 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="password" className="text-slate-300">Mot de passe</Label>
+                    <Input
+                      id="password"
+                      type="password"
+                      placeholder="********"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      required
+                      className="bg-slate-700 border-slate-600 text-slate-100 placeholder-slate-500 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
+                  {error && (
+                    <div className="flex items-center p-3 text-sm text-red-400 bg-red-900/30 rounded-md border border-red-700">
+                      <AlertCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+                      <span>{error}</span>
+                    </div>
+                  )}
+                  <Button type="submit" className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-3 text-base" disabled={loading}>
+                    {loading ? 'Connexion en cours...' : 'Se connecter'}
+                  </Button>
+                </form>
+              )}
             </CardContent>
             <CardFooter className="flex flex-col items-center space-y-4 pt-6">
               <p className="text-sm text-slate-400">
@@ -149,9 +276,9 @@ import { useState, useEffect } from 'react';
                   S'inscrire ici
                 </Link>
               </p>
-              <a href="#" className="text-sm text-blue-400 hover:text-blue-300 hover:underline">
+              <Link to={FORGOT_PASSWORD_PATH} className="text-sm text-blue-400 hover:text-blue-300 hover:underline">
                 Mot de passe oublié ?
-              </a>
+              </Link>
                <p className="text-xs text-center text-slate-500 px-4">
                 L'inscription est soumise à validation par un administrateur.
               </p>
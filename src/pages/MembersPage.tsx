@@ -0,0 +1,205 @@
+import { FormEvent, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/lib/supabaseClient';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import PaginationControls from '@/components/common/PaginationControls';
+import { AlertTriangle, CalendarDays, Loader2, MessageSquare, Search, Users } from 'lucide-react';
+import { ROLE_LABELS, Role, normalizeRole } from '@/lib/roles';
+import { getAuthorDisplayName } from '@/lib/forum';
+import { MEMBERS_PAGE_SIZE, MEMBER_SORT_LABELS, MemberSort, MemberSummary } from '@/lib/members';
+
+const roleBadgeVariants: Record<Role, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  USER: 'outline',
+  MODERATOR: 'secondary',
+  ADMIN: 'destructive',
+  SUPER_ADMIN: 'destructive',
+};
+
+const MembersPage = () => {
+  const [members, setMembers] = useState<MemberSummary[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [page, setPage] = useState(1);
+  const [sort, setSort] = useState<MemberSort>('alphabetical');
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchMembers = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const { data, error: membersError } = await supabase.rpc('get_member_directory', {
+          p_search: search || null,
+          p_sort: sort,
+          p_limit: MEMBERS_PAGE_SIZE,
+          p_offset: (page - 1) * MEMBERS_PAGE_SIZE,
+        });
+
+        if (membersError) {
+          throw membersError;
+        }
+        const rows = ((data as MemberSummary[]) || []).map((row) => ({ ...row, role: normalizeRole(row.role) }));
+        setMembers(rows);
+        setTotalCount(rows.length > 0 ? Number(rows[0].total_count) : 0);
+      } catch (err: any) {
+        console.error('Error fetching members:', err);
+        setError("Impossible de charger l'annuaire des membres. Veuillez réessayer plus tard.");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchMembers();
+  }, [page, sort, search]);
+
+  const handleSortChange = (value: string) => {
+    setSort(value as MemberSort);
+    setPage(1);
+  };
+
+  const handleSearch = (e: FormEvent) => {
+    e.preventDefault();
+    setSearch(searchInput.trim());
+    setPage(1);
+  };
+
+  const totalPages = Math.ceil(totalCount / MEMBERS_PAGE_SIZE);
+
+  return (
+    <div className="container mx-auto py-8 px-4 md:px-6">
+      <header className="mb-8">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <div>
+            <h1 className="text-4xl font-extrabold text-gray-800 dark:text-white flex items-center">
+              <Users className="mr-3 h-9 w-9 text-green-600 dark:text-green-400" />
+              Annuaire des Membres
+            </h1>
+            <p className="mt-2 text-lg text-gray-600 dark:text-gray-300">
+              Connectez-vous avec d'autres membres du PRCF.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <form onSubmit={handleSearch} className="flex gap-2">
+              <Input
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                placeholder="Rechercher un membre..."
+                className="w-56 dark:bg-gray-800 dark:border-gray-600 dark:text-white"
+              />
+              <Button type="submit" variant="outline" size="icon" aria-label="Rechercher">
+                <Search className="h-4 w-4" />
+              </Button>
+            </form>
+            <Select value={sort} onValueChange={handleSortChange}>
+              <SelectTrigger className="w-[190px] dark:bg-gray-800 dark:border-gray-600 dark:text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="dark:bg-gray-800 dark:border-gray-700 dark:text-white">
+                {(Object.keys(MEMBER_SORT_LABELS) as MemberSort[]).map((value) => (
+                  <SelectItem key={value} value={value}>{MEMBER_SORT_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </header>
+
+      {loading && (
+        <div className="flex justify-center items-center py-10">
+          <Loader2 className="h-12 w-12 animate-spin text-green-600" />
+          <p className="ml-4 text-lg text-gray-600 dark:text-gray-300">Chargement des membres...</p>
+        </div>
+      )}
+
+      {error && (
+        <Card className="bg-red-50 border-red-500 dark:bg-red-900/30 dark:border-red-700">
+          <CardHeader>
+            <div className="flex items-center text-red-600 dark:text-red-400">
+              <AlertTriangle className="h-6 w-6 mr-2" />
+              <CardTitle>Erreur</CardTitle>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <p className="text-red-700 dark:text-red-300">{error}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {!loading && !error && members.length === 0 && (
+        <div className="text-center py-10">
+          <Users className="mx-auto h-16 w-16 text-gray-400 dark:text-gray-500 mb-4" />
+          <p className="text-xl text-gray-600 dark:text-gray-300">
+            {search ? `Aucun membre ne correspond à « ${search} ».` : 'Aucun membre pour le moment.'}
+          </p>
+        </div>
+      )}
+
+      {!loading && !error && members.length > 0 && (
+        <>
+          <p className="mb-4 text-sm text-gray-600 dark:text-gray-400">
+            {totalCount} {totalCount > 1 ? 'membres' : 'membre'}
+          </p>
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+            {members.map((member) => {
+              const displayName = getAuthorDisplayName(member.username, member.full_name);
+              const postCount = Number(member.post_count);
+              return (
+                <Link key={member.id} to={`/profil/${member.id}`} className="group">
+                  <Card className="h-full dark:bg-gray-800 transition-shadow group-hover:shadow-lg">
+                    <CardContent className="flex items-center gap-4 p-4">
+                      <Avatar className="h-14 w-14 flex-shrink-0">
+                        <AvatarImage src={member.avatar_url || undefined} alt={displayName} />
+                        <AvatarFallback className="bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300 text-lg">
+                          {displayName.charAt(0).toUpperCase()}
+                        </AvatarFallback>
+                      </Avatar>
+                      <div className="min-w-0 space-y-1">
+                        <p className="font-semibold text-gray-800 dark:text-white truncate group-hover:text-green-600 dark:group-hover:text-green-400">
+                          {member.username || 'Membre sans pseudo'}
+                        </p>
+                        {member.full_name && (
+                          <p className="text-sm text-gray-600 dark:text-gray-300 truncate">{member.full_name}</p>
+                        )}
+                        {member.role && (
+                          <Badge variant={roleBadgeVariants[member.role]}>{ROLE_LABELS[member.role]}</Badge>
+                        )}
+                        <div className="flex flex-wrap gap-x-3 text-xs text-gray-500 dark:text-gray-400">
+                          <span className="flex items-center">
+                            <MessageSquare className="mr-1 h-3.5 w-3.5" />
+                            {postCount} {postCount > 1 ? 'messages' : 'message'}
+                          </span>
+                          {member.created_at && (
+                            <span className="flex items-center" title="Membre depuis">
+                              <CalendarDays className="mr-1 h-3.5 w-3.5" />
+                              {new Date(member.created_at).toLocaleDateString('fr-FR')}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                </Link>
+              );
+            })}
+          </div>
+          <PaginationControls page={page} totalPages={totalPages} onPageChange={setPage} className="mt-6" />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MembersPage;
@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { supabase } from '@/lib/supabaseClient';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import NewPasswordForm from '@/components/auth/NewPasswordForm';
+import { useAuth } from '@/hooks/useAuth';
+import { AlertCircle, KeyRound, Loader2 } from 'lucide-react';
+import { FORGOT_PASSWORD_PATH } from '@/lib/passwords';
+
+// Error sent back by Supabase Auth in the URL fragment when the link is invalid or expired
+const readLinkError = (): string | null => {
+  const params = new URLSearchParams(window.location.hash.replace(/^#/, ''));
+  return params.get('error_description') ?? params.get('error');
+};
+
+// Target of the reset e-mails: the link opens a recovery session (handled by supabase-js and
+// UserContext), which lets the member choose a new password before signing in again.
+const NewPasswordPage = () => {
+  const { session, isLoadingAuth, signOut } = useAuth();
+  const navigate = useNavigate();
+  const [linkError] = useState<string | null>(readLinkError);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const onSubmit = async (password: string) => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const { error: updateError } = await supabase.auth.updateUser({ password });
+      if (updateError) throw updateError;
+
+      // Back to the login page, so the usual checks (approval, TOTP) apply to the next sign-in
+      await signOut();
+      navigate('/connexion', { replace: true, state: { message: "Votre mot de passe a été mis à jour. Vous pouvez maintenant vous connecter." } });
+    } catch (err: any) {
+      console.error("NewPasswordPage - Error updating password:", err);
+      setError(err.message || "Impossible de mettre à jour le mot de passe.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderContent = () => {
+    if (isLoadingAuth) {
+      return (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-400" />
+        </div>
+      );
+    }
+
+    if (!session) {
+      return (
+        <div className="flex items-center p-3 text-sm text-red-400 bg-red-900/30 rounded-md border border-red-700">
+          <AlertCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+          <span>
+            {linkError
+              ? `Ce lien de réinitialisation n'est pas valide : ${linkError}.`
+              : "Ce lien de réinitialisation n'est pas valide ou a expiré."}{' '}
+            Veuillez en demander un nouveau.
+          </span>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        {error && (
+          <div className="flex items-center p-3 text-sm text-red-400 bg-red-900/30 rounded-md border border-red-700">
+            <AlertCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+        <NewPasswordForm isSubmitting={isSubmitting} onSubmit={onSubmit} />
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gradient-to-br from-slate-900 to-slate-800 p-4">
+      <Card className="w-full max-w-md shadow-2xl bg-slate-800/50 backdrop-blur-lg border-slate-700">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-4 p-3 bg-blue-600/20 rounded-full w-fit">
+            <KeyRound className="h-10 w-10 text-blue-400" />
+          </div>
+          <CardTitle className="text-3xl font-bold text-slate-100">Nouveau mot de passe</CardTitle>
+          <CardDescription className="text-slate-400">
+            Choisissez le nouveau mot de passe de votre compte.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {renderContent()}
+        </CardContent>
+        <CardFooter className="flex flex-col items-center space-y-4 pt-6">
+          {!isLoadingAuth && !session && (
+            <Link to={FORGOT_PASSWORD_PATH} className="text-sm text-blue-400 hover:text-blue-300 hover:underline">
+              Demander un nouveau lien
+            </Link>
+          )}
+          <Link to="/connexion" className="text-sm text-blue-400 hover:text-blue-300 hover:underline">
+            Retour à la connexion
+          </Link>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+};
+
+export default NewPasswordPage;
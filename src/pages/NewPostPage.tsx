@@ -0,0 +1,228 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { supabase } from '@/lib/supabaseClient';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import MarkdownEditor from '@/components/forum/MarkdownEditor';
+import AttachmentDropzone from '@/components/forum/AttachmentDropzone';
+import { ArrowLeft, Loader2, MessageSquarePlus, Send } from 'lucide-react';
+import { ForumCategory, POST_MAX_LENGTH, TITLE_MAX_LENGTH, buildCategoryTree, canAccessCategory } from '@/lib/forum';
+import { uploadPostAttachments } from '@/lib/attachments';
+
+const newPostSchema = z.object({
+  category_id: z.string().uuid({ message: "Veuillez choisir une catégorie." }),
+  title: z.string()
+    .trim()
+    .min(5, { message: "Le titre doit contenir au moins 5 caractères." })
+    .max(TITLE_MAX_LENGTH, { message: `Le titre ne peut pas dépasser ${TITLE_MAX_LENGTH} caractères.` }),
+  content: z.string()
+    .trim()
+    .min(10, { message: "Le message doit contenir au moins 10 caractères." })
+    .max(POST_MAX_LENGTH, { message: `Le message ne peut pas dépasser ${POST_MAX_LENGTH} caractères.` }),
+});
+
+type NewPostFormData = z.infer<typeof newPostSchema>;
+
+const NewPostPage = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { authUser, role } = useAuth();
+  const { toast } = useToast();
+
+  const [categories, setCategories] = useState<ForumCategory[]>([]);
+  const [loadingCategories, setLoadingCategories] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [attachments, setAttachments] = useState<File[]>([]);
+
+  const form = useForm<NewPostFormData>({
+    resolver: zodResolver(newPostSchema),
+    defaultValues: {
+      category_id: '',
+      title: '',
+      content: '',
+    },
+  });
+
+  useEffect(() => {
+    const fetchCategories = async () => {
+      setLoadingCategories(true);
+      try {
+        const { data, error } = await supabase
+          .from('forum_categories')
+          .select('*')
+          .order('position', { ascending: true })
+          .order('name', { ascending: true });
+
+        if (error) throw error;
+        // Subsections right after their parent, in the order chosen by the admins,
+        // keeping only the sections the user may post in
+        const fetched = buildCategoryTree((data as ForumCategory[]) || [])
+          .flatMap(({ children, ...root }) => [root, ...children])
+          .filter((category) => canAccessCategory(role, category, 'post'));
+        setCategories(fetched);
+
+        // Preselect the category the user came from (?categorie=<slug>)
+        const preselected = fetched.find((c) => c.slug === searchParams.get('categorie'));
+        if (preselected) {
+          form.setValue('category_id', preselected.id);
+        }
+      } catch (err: any) {
+        console.error('Error fetching categories:', err);
+        toast({ variant: "destructive", title: "Erreur", description: "Impossible de charger les catégories du forum." });
+      } finally {
+        setLoadingCategories(false);
+      }
+    };
+
+    fetchCategories();
+  }, [form, searchParams, toast, role]);
+
+  const onSubmit = async (data: NewPostFormData) => {
+    if (!authUser) return;
+    setIsSubmitting(true);
+    try {
+      const { data: inserted, error } = await supabase
+        .from('forum_posts')
+        .insert({
+          user_id: authUser.id,
+          category_id: data.category_id,
+          title: data.title,
+          content: data.content,
+        })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+
+      // The topic is published even if some files cannot be uploaded
+      const failedUploads = await uploadPostAttachments(inserted.id, authUser.id, attachments);
+      if (failedUploads.length > 0) {
+        toast({
+          variant: "destructive",
+          title: "Pièces jointes non envoyées",
+          description: `Votre sujet a été publié, mais ces fichiers n'ont pas pu être joints : ${failedUploads.join(', ')}.`,
+        });
+      } else {
+        toast({ title: "Sujet publié", description: "Votre sujet a été créé avec succès." });
+      }
+      navigate(`/forum/sujet/${inserted.id}`);
+    } catch (err: any) {
+      console.error('Error creating post:', err);
+      toast({
+        variant: "destructive",
+        title: "Erreur lors de la publication",
+        description: err.message || "Une erreur est survenue lors de la création du sujet.",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto py-8 px-4 md:px-6">
+      <Button asChild variant="ghost" className="mb-4 text-gray-600 dark:text-gray-300">
+        <Link to="/forum">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Retour au forum
+        </Link>
+      </Button>
+
+      <Card className="max-w-3xl mx-auto dark:bg-gray-800 shadow-md">
+        <CardHeader>
+          <CardTitle className="text-2xl text-gray-800 dark:text-white flex items-center">
+            <MessageSquarePlus className="mr-2 h-6 w-6 text-green-600 dark:text-green-400" />
+            Nouveau Sujet
+          </CardTitle>
+          <CardDescription className="text-gray-600 dark:text-gray-400">
+            Choisissez une catégorie, donnez un titre clair à votre sujet et rédigez votre message.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-5">
+              <FormField
+                control={form.control}
+                name="category_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="dark:text-gray-300">Catégorie</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value} disabled={loadingCategories}>
+                      <FormControl>
+                        <SelectTrigger className="dark:bg-gray-700 dark:border-gray-600 dark:text-white">
+                          <SelectValue placeholder={loadingCategories ? "Chargement des catégories..." : "Sélectionner une catégorie"} />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent className="dark:bg-gray-800 dark:border-gray-700 dark:text-white">
+                        {categories.map((category) => (
+                          <SelectItem key={category.id} value={category.id} className="hover:dark:bg-gray-700">
+                            {category.parent_id ? `— ${category.name}` : category.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="title"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="dark:text-gray-300">Titre</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Titre de votre sujet" maxLength={TITLE_MAX_LENGTH} {...field} className="dark:bg-gray-700 dark:border-gray-600 dark:text-white" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="content"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="dark:text-gray-300">Message</FormLabel>
+                    <FormControl>
+                      <MarkdownEditor placeholder="Rédigez votre message..." rows={12} maxLength={POST_MAX_LENGTH} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="space-y-2">
+                <p className="text-sm font-medium dark:text-gray-300">Pièces jointes</p>
+                <AttachmentDropzone files={attachments} onChange={setAttachments} disabled={isSubmitting} />
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => navigate(-1)} disabled={isSubmitting} className="dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700">
+                  Annuler
+                </Button>
+                <Button type="submit" disabled={isSubmitting || loadingCategories} className="bg-green-600 hover:bg-green-700 dark:bg-green-500 dark:hover:bg-green-600 text-white">
+                  {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+                  {isSubmitting ? 'Publication...' : 'Publier le sujet'}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default NewPostPage;
@@ -0,0 +1,326 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { supabase } from '@/lib/supabaseClient';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import PaginationControls from '@/components/common/PaginationControls';
+import MarkdownContent from '@/components/common/MarkdownContent';
+import MarkdownEditor from '@/components/forum/MarkdownEditor';
+import ReplyItem from '@/components/forum/ReplyItem';
+import ReportDialog from '@/components/forum/ReportDialog';
+import PostAttachments from '@/components/forum/PostAttachments';
+import { usePermission } from '@/hooks/usePermission';
+import { ArrowLeft, Loader2, AlertTriangle, MessagesSquare, Send, Pin, Lock } from 'lucide-react';
+import {
+  AuthorProfile,
+  ForumPostDetail,
+  ForumReply,
+  REPLIES_PAGE_SIZE,
+  REPLY_MAX_LENGTH,
+  canAccessCategory,
+  formatForumDate,
+  getAuthorDisplayName,
+} from '@/lib/forum';
+
+const PostDetailPage = () => {
+  const { postId } = useParams<{ postId: string }>();
+  const { authUser, role } = useAuth();
+  const { toast } = useToast();
+  const canDeleteAnyPost = usePermission('post.delete');
+
+  const [post, setPost] = useState<ForumPostDetail | null>(null);
+  const [author, setAuthor] = useState<AuthorProfile | null>(null);
+  const [loadingPost, setLoadingPost] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [replies, setReplies] = useState<ForumReply[]>([]);
+  const [totalReplies, setTotalReplies] = useState(0);
+  const [page, setPage] = useState(1);
+  const [loadingReplies, setLoadingReplies] = useState(false);
+
+  const [replyContent, setReplyContent] = useState('');
+  const [isSubmittingReply, setIsSubmittingReply] = useState(false);
+
+  useEffect(() => {
+    const fetchPost = async () => {
+      setLoadingPost(true);
+      setError(null);
+      setPost(null);
+      setAuthor(null);
+      setPage(1);
+      try {
+        const { data, error: postError } = await supabase
+          .from('forum_posts')
+          .select('id, user_id, category_id, title, content, created_at, updated_at, is_pinned, is_locked, forum_categories(name, slug, min_read_role, min_post_role, min_reply_role)')
+          .eq('id', postId)
+          .maybeSingle();
+
+        if (postError) {
+          throw postError;
+        }
+        if (!data) {
+          setError("Ce sujet n'existe pas ou a été supprimé.");
+          return;
+        }
+        const fetchedPost = data as unknown as ForumPostDetail;
+        setPost(fetchedPost);
+
+        const { data: authorData, error: authorError } = await supabase
+          .from('profiles')
+          .select('id, username, avatar_url')
+          .eq('id', fetchedPost.user_id)
+          .maybeSingle();
+        if (authorError) {
+          console.error('Error fetching post author:', authorError);
+        }
+        // full_name lives in profile_details: only fetched, as its visibility allows, when there is no username
+        let authorFullName: string | null = null;
+        if (authorData && !authorData.username) {
+          const { data: fullName, error: fullNameError } = await supabase.rpc('visible_full_name', { p_user_id: fetchedPost.user_id });
+          if (fullNameError) {
+            console.error('Error fetching post author name:', fullNameError);
+          }
+          authorFullName = (fullName as string | null) ?? null;
+        }
+        setAuthor(authorData ? ({ ...authorData, full_name: authorFullName } as AuthorProfile) : null);
+      } catch (err: any) {
+        console.error('Error fetching post:', err);
+        setError('Impossible de charger ce sujet. Veuillez réessayer plus tard.');
+      } finally {
+        setLoadingPost(false);
+      }
+    };
+
+    if (postId) {
+      fetchPost();
+    }
+  }, [postId]);
+
+  const fetchReplies = useCallback(async (targetPage: number) => {
+    if (!postId) return;
+    setLoadingReplies(true);
+    try {
+      const { data, error: repliesError } = await supabase.rpc('get_post_replies', {
+        p_post_id: postId,
+        p_limit: REPLIES_PAGE_SIZE,
+        p_offset: (targetPage - 1) * REPLIES_PAGE_SIZE,
+      });
+
+      if (repliesError) {
+        throw repliesError;
+      }
+      const rows = (data as ForumReply[]) || [];
+      setReplies(rows);
+      setTotalReplies(rows.length > 0 ? Number(rows[0].total_count) : 0);
+      // The page may have been emptied by a deletion: fall back to the previous one
+      if (rows.length === 0 && targetPage > 1) {
+        setPage(targetPage - 1);
+      }
+    } catch (err: any) {
+      console.error('Error fetching replies:', err);
+      toast({ variant: "destructive", title: "Erreur", description: "Impossible de charger les réponses." });
+    } finally {
+      setLoadingReplies(false);
+    }
+  }, [postId, toast]);
+
+  useEffect(() => {
+    if (post) {
+      fetchReplies(page);
+    }
+  }, [post, page, fetchReplies]);
+
+  const handleSubmitReply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!post || !authUser) return;
+
+    const content = replyContent.trim();
+    if (!content) {
+      toast({ variant: "destructive", title: "Erreur", description: "La réponse ne peut pas être vide." });
+      return;
+    }
+    if (content.length > REPLY_MAX_LENGTH) {
+      toast({ variant: "destructive", title: "Erreur", description: `La réponse ne peut pas dépasser ${REPLY_MAX_LENGTH} caractères.` });
+      return;
+    }
+
+    setIsSubmittingReply(true);
+    try {
+      const { error: insertError } = await supabase
+        .from('forum_replies')
+        .insert({ post_id: post.id, user_id: authUser.id, content });
+      if (insertError) throw insertError;
+
+      toast({ title: "Succès", description: "Votre réponse a été publiée." });
+      setReplyContent('');
+      // Jump to the page holding the new reply
+      const lastPage = Math.ceil((totalReplies + 1) / REPLIES_PAGE_SIZE);
+      if (lastPage === page) {
+        fetchReplies(page);
+      } else {
+        setPage(lastPage);
+      }
+    } catch (err: any) {
+      console.error('Error posting reply:', err);
+      toast({ variant: "destructive", title: "Erreur de publication", description: err.message || "Impossible de publier la réponse." });
+    } finally {
+      setIsSubmittingReply(false);
+    }
+  };
+
+  if (loadingPost) {
+    return (
+      <div className="flex justify-center items-center py-10">
+        <Loader2 className="h-12 w-12 animate-spin text-blue-600" />
+        <p className="ml-4 text-lg text-gray-600 dark:text-gray-300">Chargement du sujet...</p>
+      </div>
+    );
+  }
+
+  if (error || !post) {
+    return (
+      <div className="container mx-auto py-8 px-4 md:px-6">
+        <Card className="bg-red-50 border-red-500 dark:bg-red-900/30 dark:border-red-700">
+          <CardHeader>
+            <div className="flex items-center text-red-600 dark:text-red-400">
+              <AlertTriangle className="h-6 w-6 mr-2" />
+              <CardTitle>Erreur</CardTitle>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <p className="text-red-700 dark:text-red-300">{error || "Ce sujet est introuvable."}</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const authorName = getAuthorDisplayName(author?.username ?? null, author?.full_name ?? null);
+  const totalPages = Math.ceil(totalReplies / REPLIES_PAGE_SIZE);
+  const canReply = !!post.forum_categories && canAccessCategory(role, post.forum_categories, 'reply');
+
+  return (
+    <div className="container mx-auto py-8 px-4 md:px-6 space-y-6">
+      <Button asChild variant="ghost" className="text-gray-600 dark:text-gray-300">
+        <Link to={post.forum_categories ? `/forum/categorie/${post.forum_categories.slug}` : '/forum'}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          {post.forum_categories ? `Retour à ${post.forum_categories.name}` : 'Retour au forum'}
+        </Link>
+      </Button>
+
+      {/* Opening post */}
+      <Card className="dark:bg-gray-800 shadow-md">
+        <CardHeader className="border-b dark:border-gray-700">
+          <CardTitle className="text-3xl font-bold text-gray-800 dark:text-white flex items-center gap-2">
+            {post.is_pinned && <Pin className="h-6 w-6 flex-shrink-0 text-amber-500" aria-label="Sujet épinglé" />}
+            {post.is_locked && <Lock className="h-6 w-6 flex-shrink-0 text-gray-500 dark:text-gray-400" aria-label="Sujet verrouillé" />}
+            {post.title}
+          </CardTitle>
+          <div className="flex items-center gap-3 pt-3">
+            <Avatar className="h-10 w-10">
+              <AvatarImage src={author?.avatar_url || undefined} alt={authorName} />
+              <AvatarFallback className="bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                {authorName.charAt(0).toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
+            <CardDescription className="text-gray-500 dark:text-gray-400">
+              Par{' '}
+              <Link to={`/profil/${post.user_id}`} className="font-semibold text-gray-800 dark:text-gray-200 hover:underline">
+                {authorName}
+              </Link>
+              {' • '}
+              {formatForumDate(post.created_at)}
+            </CardDescription>
+            {authUser && authUser.id !== post.user_id && (
+              <div className="ml-auto">
+                <ReportDialog targetType="post" targetId={post.id} />
+              </div>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="pt-6 space-y-6">
+          <MarkdownContent content={post.content} />
+          <PostAttachments postId={post.id} canDelete={authUser?.id === post.user_id || canDeleteAnyPost} />
+        </CardContent>
+      </Card>
+
+      {/* Replies */}
+      <Card className="dark:bg-gray-800 shadow-md">
+        <CardHeader>
+          <CardTitle className="text-xl text-gray-800 dark:text-white flex items-center">
+            <MessagesSquare className="mr-2 h-6 w-6 text-blue-500 dark:text-blue-400" />
+            {totalReplies} {totalReplies > 1 ? 'réponses' : 'réponse'}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {loadingReplies ? (
+            <div className="flex justify-center items-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+            </div>
+          ) : replies.length === 0 ? (
+            <p className="text-center text-gray-500 dark:text-gray-400 py-8">
+              Aucune réponse pour le moment. Lancez la discussion !
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700 border-t dark:border-gray-700">
+              {replies.map((reply) => (
+                <ReplyItem
+                  key={reply.id}
+                  reply={reply}
+                  canEdit={authUser?.id === reply.author_id && !post.is_locked && canReply}
+                  canReport={!!authUser && authUser.id !== reply.author_id}
+                  onUpdated={() => fetchReplies(page)}
+                  onDeleted={() => fetchReplies(page)}
+                />
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <PaginationControls page={page} totalPages={totalPages} onPageChange={setPage} />
+
+      {/* Reply form */}
+      {post.is_locked || !canReply ? (
+        <p className="flex items-center justify-center text-gray-500 dark:text-gray-400 py-4">
+          <Lock className="mr-2 h-4 w-4" />
+          {post.is_locked
+            ? "Ce sujet est verrouillé : il n'est plus possible d'y répondre."
+            : "Les réponses à ce sujet sont réservées à certains rôles."}
+        </p>
+      ) : (
+        <Card className="dark:bg-gray-800 shadow-md">
+          <CardHeader>
+            <CardTitle className="text-lg text-gray-800 dark:text-white">Répondre</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmitReply} className="space-y-4">
+              <MarkdownEditor
+                value={replyContent}
+                onChange={setReplyContent}
+                placeholder="Votre réponse..."
+                rows={5}
+                maxLength={REPLY_MAX_LENGTH}
+              />
+              <div className="flex justify-end">
+                <Button
+                  type="submit"
+                  disabled={isSubmittingReply || !replyContent.trim()}
+                  className="bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 text-white"
+                >
+                  {isSubmittingReply ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+                  Publier la réponse
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default PostDetailPage;
@@ -1,15 +1,22 @@
-import { useParams } from 'react-router-dom';
+import { Link, useParams } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input'; // Added Input import
-import { Loader2, Edit, UserCircle, ShieldCheck, ShieldOff } from 'lucide-react';
-import { useEffect, useState } from 'react';
+import { Loader2, Edit, UserCircle, ShieldCheck, ShieldOff, KeyRound, RefreshCw, Camera, BookOpen, MapPin, Link2 } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
 import { supabase } from '@/lib/supabaseClient';
 import { Profile } from '@/contexts/UserContext';
+import { ROLE_LABELS, normalizeRole } from '@/lib/roles';
 import UsernameEditForm from '@/components/profile/UsernameEditForm';
+import AvatarUploader from '@/components/profile/AvatarUploader';
+import MarkdownContent from '@/components/common/MarkdownContent';
+import { PublicProfileDetails } from '@/lib/profileDetails';
+import { sanitizeUrl } from '@/lib/markdown';
 import TotpSetupDialog from '@/components/profile/TotpSetupDialog';
+import RecoveryCodesDialog from '@/components/profile/RecoveryCodesDialog';
+import { RecoveryCodesStatus } from '@/lib/mfa';
 import { useToast } from '@/hooks/use-toast';
 import {
   AlertDialog,
@@ -34,11 +41,33 @@ const ProfilePage = () => {
   const [error, setError] = useState<string | null>(null);
   
   const [isEditingUsername, setIsEditingUsername] = useState(false);
+  const [details, setDetails] = useState<PublicProfileDetails | null>(null);
   
   const [isTotpSetupDialogOpen, setIsTotpSetupDialogOpen] = useState(false);
   const [isDisablingTotp, setIsDisablingTotp] = useState(false);
   const [totpCodeForDisable, setTotpCodeForDisable] = useState(''); // State for TOTP code input
+  const [recoveryCodesStatus, setRecoveryCodesStatus] = useState<RecoveryCodesStatus | null>(null);
+  const [isRecoveryCodesDialogOpen, setIsRecoveryCodesDialogOpen] = useState(false);
 
+  const isOwnProfile = !!authUser && userId === authUser.id;
+  const isOwnTotpEnabled = isOwnProfile && !!currentUserProfile?.is_totp_enabled;
+
+  const fetchRecoveryCodesStatus = useCallback(async () => {
+    const { data, error: statusError } = await supabase.rpc('get_totp_recovery_codes_status');
+    if (statusError) {
+      console.error("Error fetching recovery codes status:", statusError);
+      return;
+    }
+    setRecoveryCodesStatus((data as RecoveryCodesStatus[] | null)?.[0] ?? null);
+  }, []);
+
+  useEffect(() => {
+    if (isOwnTotpEnabled) {
+      fetchRecoveryCodesStatus();
+    } else {
+      setRecoveryCodesStatus(null);
+    }
+  }, [isOwnTotpEnabled, fetchRecoveryCodesStatus]);
 
   useEffect(() => {
     const fetchProfile = async () => {
@@ -59,7 +88,7 @@ const ProfilePage = () => {
       try {
         const { data, error: fetchError } = await supabase
           .from('profiles')
-          .select('id, username, full_name, avatar_url, status, role, is_totp_enabled')
+          .select('id, username, avatar_url, status, role, is_totp_enabled')
           .eq('id', userId)
           .single();
 
@@ -68,7 +97,8 @@ const ProfilePage = () => {
           setError(`Erreur lors de la récupération du profil: ${fetchError.message}`);
           setProfileData(null);
         } else {
-          setProfileData(data as Profile);
+          // full_name lives in profile_details, it comes with the details below
+          setProfileData({ ...data, full_name: null, role: normalizeRole(data.role) } as Profile);
         }
       } catch (e: any) {
         console.error("Exception fetching profile:", e);
@@ -84,6 +114,23 @@ const ProfilePage = () => {
     }
   }, [userId, authUser?.id, currentUserProfile, isLoadingCurrentUserAuth]);
 
+  // Biography, location, links and full name, as the member's privacy settings allow
+  useEffect(() => {
+    const fetchDetails = async () => {
+      setDetails(null);
+      if (!userId) return;
+      try {
+        const { data, error: detailsError } = await supabase.rpc('get_profile_details', { p_user_id: userId });
+        if (detailsError) throw detailsError;
+        setDetails(((data as PublicProfileDetails[]) || [])[0] ?? null);
+      } catch (err: any) {
+        console.error("Error fetching profile details:", err);
+      }
+    };
+
+    fetchDetails();
+  }, [userId, currentUserProfile?.full_name]);
+
   useEffect(() => {
     if (userId === authUser?.id && currentUserProfile) {
       setProfileData(currentUserProfile);
@@ -190,24 +237,43 @@ const ProfilePage = () => {
   }
 
   const canEdit = authUser?.id === profileData.id;
+  const fullName = details?.full_name ?? null;
+  const contactLinks = (details?.contact_links ?? []).filter((link) => sanitizeUrl(link.url));
 
   return (
     <div className="container mx-auto py-8 px-4 md:px-6">
       <Card className="max-w-2xl mx-auto dark:bg-gray-800 shadow-xl rounded-lg overflow-hidden">
         <CardHeader className="text-center border-b dark:border-gray-700 pb-6 bg-gray-50 dark:bg-gray-800/50 p-6">
           <Avatar className="w-32 h-32 mx-auto mb-4 border-4 border-primary-focus dark:border-primary shadow-lg rounded-full">
-            <AvatarImage src={profileData.avatar_url || undefined} alt={profileData.username || profileData.full_name || 'User Avatar'} />
+            <AvatarImage src={profileData.avatar_url || undefined} alt={profileData.username || fullName || 'User Avatar'} />
             <AvatarFallback className="text-4xl bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
-              {(profileData.username || profileData.full_name || 'U').charAt(0).toUpperCase()}
+              {(profileData.username || fullName || 'U').charAt(0).toUpperCase()}
             </AvatarFallback>
           </Avatar>
-          <CardTitle className="text-3xl font-bold text-gray-900 dark:text-white">{profileData.full_name || profileData.username || 'Utilisateur Anonyme'}</CardTitle>
+          <CardTitle className="text-3xl font-bold text-gray-900 dark:text-white">{fullName || profileData.username || 'Utilisateur Anonyme'}</CardTitle>
           <CardDescription className="text-gray-500 dark:text-gray-400 mt-1">
-            Rôle: <span className="font-medium text-primary">{profileData.role}</span>
+            Rôle: <span className="font-medium text-primary">{profileData.role ? ROLE_LABELS[profileData.role] : 'Non défini'}</span>
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-8 p-6 md:p-8">
-          
+
+          {/* Avatar Section */}
+          {canEdit && (
+            <div className="border dark:border-gray-700 rounded-lg p-4 shadow-sm">
+              <div className="flex items-center mb-4">
+                <Camera className="h-6 w-6 mr-3 text-primary" />
+                <h3 className="text-xl font-semibold text-gray-800 dark:text-gray-200">Photo de profil</h3>
+              </div>
+              <div className="ml-9">
+                <AvatarUploader
+                  userId={profileData.id}
+                  avatarUrl={profileData.avatar_url}
+                  displayName={profileData.username || fullName || 'U'}
+                />
+              </div>
+            </div>
+          )}
+
           {/* Username Section */}
           <div className="border dark:border-gray-700 rounded-lg p-4 shadow-sm">
             <div className="flex items-center justify-between mb-2">
@@ -247,6 +313,17 @@ const ProfilePage = () => {
               {profileData.is_totp_enabled ? (
                 <>
                   <p className="text-green-600 dark:text-green-400 ml-9 mb-3">L'A2F (TOTP) est activée sur votre compte.</p>
+                  <div className="ml-9 mb-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                    <p className="text-sm text-gray-600 dark:text-gray-400 flex items-center">
+                      <KeyRound className="h-4 w-4 mr-2" />
+                      {recoveryCodesStatus && recoveryCodesStatus.remaining_count > 0
+                        ? `${recoveryCodesStatus.remaining_count} code(s) de récupération disponible(s).`
+                        : "Aucun code de récupération disponible : générez-en pour ne pas perdre l'accès à votre compte."}
+                    </p>
+                    <Button variant="outline" size="sm" onClick={() => setIsRecoveryCodesDialogOpen(true)}>
+                      <RefreshCw className="mr-1.5 h-4 w-4" /> Régénérer les codes
+                    </Button>
+                  </div>
                   <AlertDialog>
                     <AlertDialogTrigger asChild>
                        <Button variant="destructive" className="w-full sm:w-auto" disabled={isDisablingTotp}>
@@ -301,12 +378,51 @@ const ProfilePage = () => {
             </div>
           )}
 
-          {/* Biography Section (Placeholder) */}
-          <div className="border dark:border-gray-700 rounded-lg p-4 shadow-sm">
-            <h3 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-2">Biographie</h3>
-            <p className="text-gray-600 dark:text-gray-400 italic">
-              Biographie non encore disponible. L'utilisateur pourra bientôt l'ajouter.
-            </p>
+          {/* Biography Section */}
+          <div className="border dark:border-gray-700 rounded-lg p-4 shadow-sm space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center">
+                <BookOpen className="h-6 w-6 mr-3 text-primary" />
+                <h3 className="text-xl font-semibold text-gray-800 dark:text-gray-200">Biographie</h3>
+              </div>
+              {canEdit && (
+                <Button asChild variant="ghost" size="sm" className="text-primary hover:text-primary-focus">
+                  <Link to="/parametre"><Edit className="mr-1.5 h-4 w-4" /> Modifier</Link>
+                </Button>
+              )}
+            </div>
+            <div className="ml-9 space-y-4">
+              {details?.bio ? (
+                <MarkdownContent content={details.bio} />
+              ) : (
+                <p className="text-gray-600 dark:text-gray-400 italic">
+                  {canEdit ? "Vous n'avez pas encore rédigé de biographie." : 'Aucune biographie à afficher.'}
+                </p>
+              )}
+              {details?.location && (
+                <p className="flex items-center text-gray-700 dark:text-gray-300">
+                  <MapPin className="h-4 w-4 mr-2 flex-shrink-0 text-gray-500 dark:text-gray-400" />
+                  {details.location}
+                </p>
+              )}
+              {contactLinks.length > 0 && (
+                <ul className="space-y-1">
+                  {contactLinks.map((link, index) => (
+                    <li key={index} className="flex items-center">
+                      <Link2 className="h-4 w-4 mr-2 flex-shrink-0 text-gray-500 dark:text-gray-400" />
+                      <a
+                        href={sanitizeUrl(link.url)!}
+                        target="_blank"
+                        rel="noopener noreferrer nofollow ugc"
+                        className="text-blue-600 dark:text-blue-400 hover:underline break-all"
+                      >
+                        {link.label}
+                      </a>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
           </div>
           
           {/* Activity Section (Placeholder) */}
@@ -327,9 +443,18 @@ const ProfilePage = () => {
           onSetupComplete={() => {
             setIsTotpSetupDialogOpen(false); 
             // No need to call refreshCurrentUserProfile here, TotpSetupDialog handles it
+            fetchRecoveryCodesStatus();
           }}
         />
       )}
+      {canEdit && (
+        <RecoveryCodesDialog
+          isOpen={isRecoveryCodesDialogOpen}
+          onOpenChange={setIsRecoveryCodesDialogOpen}
+          onRegenerated={fetchRecoveryCodesStatus}
+          accountLabel={authUser?.email}
+        />
+      )}
     </div>
   );
 };
@@ -1,11 +1,16 @@
 import { useAuth } from '@/hooks/useAuth';
+import { usePermission } from '@/hooks/usePermission';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import AdminDashboardPage from './admin/AdminDashboardPage'; // To embed admin content
-import { Loader2, UserCircle, ShieldAlert } from 'lucide-react';
+import SecuritySettings from '@/components/profile/SecuritySettings';
+import ProfileDetailsForm from '@/components/profile/ProfileDetailsForm';
+import { Loader2, UserCircle, ShieldAlert, Lock } from 'lucide-react';
+import { ROLE_LABELS } from '@/lib/roles';
 
 const SettingsPage = () => {
-  const { profile, isLoadingAuth, canModerate } = useAuth();
+  const { profile, isLoadingAuth } = useAuth();
+  const canViewDashboard = usePermission('dashboard.view');
 
   if (isLoadingAuth) {
     return (
@@ -29,12 +34,16 @@ const SettingsPage = () => {
     <div className="container mx-auto py-8 px-4 md:px-6">
       <h1 className="text-3xl font-bold text-gray-800 dark:text-white mb-8">Paramètres du compte</h1>
       <Tabs defaultValue="profile" className="w-full">
-        <TabsList className="grid w-full grid-cols-1 md:grid-cols-2 lg:max-w-md mb-6">
+        <TabsList className={`grid w-full grid-cols-1 ${canViewDashboard ? 'md:grid-cols-3 lg:max-w-2xl' : 'md:grid-cols-2 lg:max-w-md'} mb-6`}>
           <TabsTrigger value="profile" className="flex items-center gap-2">
             <UserCircle className="h-5 w-5" />
             Mon Profil
           </TabsTrigger>
-          {canModerate && (
+          <TabsTrigger value="security" className="flex items-center gap-2">
+            <Lock className="h-5 w-5" />
+            Sécurité
+          </TabsTrigger>
+          {canViewDashboard && (
             <TabsTrigger value="admin_dashboard" className="flex items-center gap-2">
               <ShieldAlert className="h-5 w-5" />
               Tableau de Bord Admin
@@ -47,26 +56,19 @@ const SettingsPage = () => {
             <CardHeader>
               <CardTitle className="text-2xl">Gestion du Profil</CardTitle>
               <CardDescription>
-                Modifiez les informations de votre profil public.
+                Modifiez les informations de votre profil public et choisissez qui peut voir chacune d'elles.
+                Le nom d'utilisateur et la photo de profil se modifient depuis votre page de profil.
               </CardDescription>
             </CardHeader>
-            <CardContent className="space-y-4">
-              {/* Placeholder for profile editing form */}
-              <div className="p-6 border border-dashed rounded-md dark:border-gray-700">
-                <p className="text-gray-600 dark:text-gray-400">
-                  Ici, vous pourrez bientôt modifier votre nom d'utilisateur, votre nom complet, votre avatar et d'autres informations personnelles.
-                </p>
-                <p className="mt-2 text-sm text-gray-500 dark:text-gray-500">
-                  Par exemple : changer votre photo de profil, mettre à jour votre biographie, etc.
-                </p>
-              </div>
-              <div>
+            <CardContent className="space-y-8">
+              <ProfileDetailsForm userId={profile.id} />
+              <div className="border-t pt-6 dark:border-gray-700">
                 <h3 className="font-semibold text-lg mb-2 dark:text-gray-200">Informations actuelles :</h3>
                 <ul className="list-disc list-inside space-y-1 text-gray-700 dark:text-gray-300">
                   <li>Nom d'utilisateur: <span className="font-medium">{profile.username || 'Non défini'}</span></li>
                   <li>Nom complet: <span className="font-medium">{profile.full_name || 'Non défini'}</span></li>
                   <li>Email (non modifiable ici): <span className="font-medium">{profile.id /* Actually user.email from authUser would be better here, but profile.id is a placeholder */}</span></li>
-                  <li>Rôle: <span className="font-medium">{profile.role}</span></li>
+                  <li>Rôle: <span className="font-medium">{profile.role ? ROLE_LABELS[profile.role] : 'Non défini'}</span></li>
                   <li>Statut: <span className="font-medium">{profile.status}</span></li>
                 </ul>
               </div>
@@ -74,7 +76,11 @@ const SettingsPage = () => {
           </Card>
         </TabsContent>
 
-        {canModerate && (
+        <TabsContent value="security">
+          <SecuritySettings userId={profile.id} />
+        </TabsContent>
+
+        {canViewDashboard && (
           <TabsContent value="admin_dashboard">
             {/* Embed the existing AdminDashboardPage content here */}
             <AdminDashboardPage />
@@ -1,6 +1,6 @@
 import { useState } from 'react';
     import { supabase } from '@/lib/supabaseClient';
-    import { useNavigate, Link } from 'react-router-dom';
+    import { useNavigate, Link, useSearchParams } from 'react-router-dom';
     import { Button } from "@/components/ui/button";
     import {
       Card,
@@ -13,12 +13,16 @@ import { useState } from 'react';
     import { Input } from "@/components/ui/input";
     import { Label } from "@/components/ui/label";
     import { AlertCircle, UserPlus, CheckCircle } from 'lucide-react';
+    import { PASSWORD_MIN_LENGTH, PASSWORD_TOO_SHORT_MESSAGE } from '@/lib/passwords';
+    import { INVITE_CODE_CHECK_MESSAGES, INVITE_CODE_PARAM, InviteCodeCheck } from '@/lib/invites';
 
     const SignUpPage = () => {
       const [email, setEmail] = useState('');
       const [password, setPassword] = useState('');
       const [username, setUsername] = useState('');
       const [fullName, setFullName] = useState('');
+      const [searchParams] = useSearchParams();
+      const [inviteCode, setInviteCode] = useState(searchParams.get(INVITE_CODE_PARAM) ?? '');
       const [error, setError] = useState<string | null>(null);
       const [successMessage, setSuccessMessage] = useState<string | null>(null);
       const [loading, setLoading] = useState(false);
@@ -30,8 +34,8 @@ import { useState } from 'react';
         setError(null);
         setSuccessMessage(null);
 
-        if (password.length < 6) {
-          setError("Le mot de passe doit contenir au moins 6 caractères.");
+        if (password.length < PASSWORD_MIN_LENGTH) {
+          setError(PASSWORD_TOO_SHORT_MESSAGE);
           setLoading(false);
           return;
         }
@@ -46,6 +50,26 @@ import { useState } from 'react';
           return;
         }
 
+        // Checked here for a clear message; handle_new_user checks it again and ignores an invalid code
+        const trimmedInviteCode = inviteCode.trim();
+        if (trimmedInviteCode) {
+          const { data: check, error: checkError } = await supabase.rpc('check_invite_code', {
+            p_code: trimmedInviteCode,
+            p_email: email,
+          });
+          if (checkError) {
+            console.error("Error checking invite code:", checkError);
+            setError("Impossible de vérifier le code d'invitation. Veuillez réessayer.");
+            setLoading(false);
+            return;
+          }
+          if (check !== 'valid') {
+            setError(INVITE_CODE_CHECK_MESSAGES[check as Exclude<InviteCodeCheck, 'valid'>] ?? INVITE_CODE_CHECK_MESSAGES.invalid);
+            setLoading(false);
+            return;
+          }
+        }
+
         const { data, error: signUpError } = await supabase.auth.signUp({
           email,
           password,
@@ -53,6 +77,7 @@ import { useState } from 'react';
             data: {
               username: username.trim(),
               full_name: fullName.trim(),
+              ...(trimmedInviteCode ? { invite_code: trimmedInviteCode } : {}),
               // avatar_url can be added here if collected, or updated later by user/admin
             },
           },
@@ -64,8 +89,10 @@ import { useState } from 'react';
           setError(signUpError.message || "Une erreur s'est produite lors de l'inscription.");
         } else if (data.user) {
           // The trigger handle_new_user will create the profile entry.
-          // The profile status will default to 'pending_approval'.
-          setSuccessMessage("Inscription réussie ! Votre compte est en attente d'approbation par un administrateur. Vous serez notifié une fois approuvé.");
+          // The profile status will default to 'pending_approval', or 'approved' with a valid invite code.
+          setSuccessMessage(trimmedInviteCode
+            ? "Inscription réussie ! Grâce à votre invitation, votre compte est approuvé : vous pouvez vous connecter."
+            : "Inscription réussie ! Votre compte est en attente d'approbation par un administrateur. Vous serez notifié une fois approuvé.");
           // Optionally, clear form or redirect after a delay
           // setTimeout(() => navigate('/connexion'), 5000);
         } else {
@@ -82,7 +109,7 @@ import { useState } from 'react';
               </div>
               <CardTitle className="text-3xl font-bold text-slate-100">Créer un compte</CardTitle>
               <CardDescription className="text-slate-400">
-                Rejoignez le forum du PRCF. Votre compte nécessitera une approbation administrateur.
+                Rejoignez le forum du PRCF. Sans code d'invitation, votre compte nécessitera une approbation administrateur.
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -144,6 +171,18 @@ import { useState } from 'react';
                       className="bg-slate-700 border-slate-600 text-slate-100 placeholder-slate-500 focus:ring-green-500 focus:border-green-500"
                     />
                   </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="inviteCode" className="text-slate-300">Code d'invitation (facultatif)</Label>
+                    <Input
+                      id="inviteCode"
+                      type="text"
+                      placeholder="XXXX-XXXX-XXXX"
+                      value={inviteCode}
+                      onChange={(e) => setInviteCode(e.target.value.toUpperCase())}
+                      autoComplete="off"
+                      className="bg-slate-700 border-slate-600 text-slate-100 placeholder-slate-500 focus:ring-green-500 focus:border-green-500 font-mono tracking-wider"
+                    />
+                  </div>
                   {error && (
                     <div className="flex items-center p-3 text-sm text-red-400 bg-red-900/30 rounded-md border border-red-700">
                       <AlertCircle className="h-5 w-5 mr-2" />
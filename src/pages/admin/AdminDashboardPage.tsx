@@ -1,19 +1,56 @@
 import { useEffect, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useUser } from "@/contexts/UserContext";
 import { supabase } from "@/lib/supabaseClient";
-import { BarChart, Users, MessageSquareText, FolderKanban, UserCheck, Loader2 } from "lucide-react";
+import ActivityChart, { ActivityPoint } from "@/components/admin/ActivityChart";
+import { BarChart, Users, MessageSquareText, MessagesSquare, FolderKanban, UserCheck, Loader2 } from "lucide-react";
+
+// New rows per period, as returned by `get_admin_dashboard_stats`
+interface PeriodFigures {
+  total: number;
+  today: number;
+  yesterday: number;
+  month: number;
+  previous_month: number;
+}
 
 interface DashboardStats {
-  totalUsers: number;
-  pendingApprovalUsers: number;
-  forumTopics: number;
-  activeCategories: number;
+  users: PeriodFigures;
+  topics: PeriodFigures;
+  replies: PeriodFigures;
+  pending_approval_users: number;
+  categories: number;
+  timeline: ActivityPoint[];
 }
 
+const EMPTY_FIGURES: PeriodFigures = { total: 0, today: 0, yesterday: 0, month: 0, previous_month: 0 };
+
+const formatSigned = (value: number) => (value > 0 ? `+${value}` : `${value}`);
+
+// "+3 aujourd'hui (+1 vs hier)"
+const describeDay = (figures: PeriodFigures) =>
+  `${formatSigned(figures.today)} aujourd'hui (${formatSigned(figures.today - figures.yesterday)} vs hier)`;
+
+// "+25% depuis le mois dernier", comparing the month so far with the same span of the previous month
+const describeMonth = (figures: PeriodFigures) => {
+  if (figures.previous_month === 0) {
+    return figures.month > 0 ? `${formatSigned(figures.month)} ce mois-ci` : "Aucun nouveau ce mois-ci";
+  }
+  const percent = Math.round(((figures.month - figures.previous_month) / figures.previous_month) * 100);
+  return `${formatSigned(percent)}% depuis le mois dernier`;
+};
+
 const AdminDashboardPage = () => {
   const { profile: adminProfile } = useUser();
   const [stats, setStats] = useState<DashboardStats | null>(null);
+  const [periodDays, setPeriodDays] = useState("30");
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -22,28 +59,20 @@ const AdminDashboardPage = () => {
       setIsLoading(true);
       setError(null);
       try {
-        const { count: totalUsersCount, error: totalUsersError } = await supabase
-          .from('profiles')
-          .select('*', { count: 'exact', head: true });
-
-        if (totalUsersError) throw totalUsersError;
-
-        const { count: pendingUsersCount, error: pendingUsersError } = await supabase
-          .from('profiles')
-          .select('*', { count: 'exact', head: true })
-          .eq('status', 'pending_approval');
-
-        if (pendingUsersError) throw pendingUsersError;
+        const { data, error: statsError } = await supabase.rpc('get_admin_dashboard_stats', {
+          p_days: Number(periodDays),
+        });
 
-        // Placeholder values for forum topics and active categories
-        const forumTopicsCount = 0; 
-        const activeCategoriesCount = 0;
+        if (statsError) throw statsError;
 
+        const raw = data as Partial<DashboardStats>;
         setStats({
-          totalUsers: totalUsersCount || 0,
-          pendingApprovalUsers: pendingUsersCount || 0,
-          forumTopics: forumTopicsCount,
-          activeCategories: activeCategoriesCount,
+          users: { ...EMPTY_FIGURES, ...raw.users },
+          topics: { ...EMPTY_FIGURES, ...raw.topics },
+          replies: { ...EMPTY_FIGURES, ...raw.replies },
+          pending_approval_users: raw.pending_approval_users ?? 0,
+          categories: raw.categories ?? 0,
+          timeline: raw.timeline ?? [],
         });
       } catch (err: any) {
         console.error("Error fetching dashboard stats:", err);
@@ -54,9 +83,9 @@ const AdminDashboardPage = () => {
     };
 
     fetchDashboardStats();
-  }, []);
+  }, [periodDays]);
 
-  const renderStatCardContent = (value: number | undefined, loading: boolean, description: string) => {
+  const renderStatCardContent = (value: number | undefined, loading: boolean, description: string, detail?: string) => {
     if (loading) {
       return <Loader2 className="h-6 w-6 animate-spin text-gray-500 dark:text-gray-400" />;
     }
@@ -67,6 +96,7 @@ const AdminDashboardPage = () => {
       <>
         <div className="text-2xl font-bold text-gray-900 dark:text-white">{value}</div>
         <p className="text-xs text-gray-500 dark:text-gray-400">{description}</p>
+        {detail && <p className="text-xs text-gray-500 dark:text-gray-400">{detail}</p>}
       </>
     );
   };
@@ -86,7 +116,7 @@ const AdminDashboardPage = () => {
 
       {error && <p className="text-red-500 dark:text-red-400 bg-red-100 dark:bg-red-900/30 p-3 rounded-md">{error}</p>}
 
-      <div className="grid gap-4 md:gap-6 md:grid-cols-2 lg:grid-cols-4">
+      <div className="grid gap-4 md:gap-6 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5">
         <Card className="dark:bg-gray-800 shadow-md hover:shadow-lg transition-shadow duration-300">
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium text-gray-700 dark:text-gray-300">
@@ -95,7 +125,7 @@ const AdminDashboardPage = () => {
             <Users className="h-5 w-5 text-blue-500 dark:text-blue-400" />
           </CardHeader>
           <CardContent>
-            {renderStatCardContent(stats?.totalUsers, isLoading, stats && stats.totalUsers > 0 ? "+X% depuis le mois dernier" : "Aucun utilisateur")}
+            {renderStatCardContent(stats?.users.total, isLoading, stats ? describeMonth(stats.users) : "", stats ? describeDay(stats.users) : undefined)}
           </CardContent>
         </Card>
         <Card className="dark:bg-gray-800 shadow-md hover:shadow-lg transition-shadow duration-300">
@@ -106,7 +136,18 @@ const AdminDashboardPage = () => {
             <MessageSquareText className="h-5 w-5 text-green-500 dark:text-green-400" />
           </CardHeader>
           <CardContent>
-            {renderStatCardContent(stats?.forumTopics, isLoading, stats && stats.forumTopics > 0 ? "+Y nouveaux aujourd'hui" : "Aucun sujet (à implémenter)")}
+            {renderStatCardContent(stats?.topics.total, isLoading, stats ? describeMonth(stats.topics) : "", stats ? describeDay(stats.topics) : undefined)}
+          </CardContent>
+        </Card>
+        <Card className="dark:bg-gray-800 shadow-md hover:shadow-lg transition-shadow duration-300">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              Réponses
+            </CardTitle>
+            <MessagesSquare className="h-5 w-5 text-amber-500 dark:text-amber-400" />
+          </CardHeader>
+          <CardContent>
+            {renderStatCardContent(stats?.replies.total, isLoading, stats ? describeMonth(stats.replies) : "", stats ? describeDay(stats.replies) : undefined)}
           </CardContent>
         </Card>
         <Card className="dark:bg-gray-800 shadow-md hover:shadow-lg transition-shadow duration-300">
@@ -117,7 +158,7 @@ const AdminDashboardPage = () => {
             <FolderKanban className="h-5 w-5 text-yellow-500 dark:text-yellow-400" />
           </CardHeader>
           <CardContent>
-            {renderStatCardContent(stats?.activeCategories, isLoading, "Actuellement gérées (à implémenter)")}
+            {renderStatCardContent(stats?.categories, isLoading, "Catégories du forum")}
           </CardContent>
         </Card>
         <Card className="dark:bg-gray-800 shadow-md hover:shadow-lg transition-shadow duration-300">
@@ -128,25 +169,41 @@ const AdminDashboardPage = () => {
             <UserCheck className="h-5 w-5 text-red-500 dark:text-red-400" />
           </CardHeader>
           <CardContent>
-            {renderStatCardContent(stats?.pendingApprovalUsers, isLoading, stats?.pendingApprovalUsers === 1 ? "Utilisateur à vérifier" : "Utilisateurs à vérifier")}
+            {renderStatCardContent(stats?.pending_approval_users, isLoading, stats?.pending_approval_users === 1 ? "Utilisateur à vérifier" : "Utilisateurs à vérifier")}
           </CardContent>
         </Card>
       </div>
 
       <Card className="dark:bg-gray-800 shadow-md">
-        <CardHeader>
-          <CardTitle className="text-xl text-gray-800 dark:text-white">Activité Récente du Site</CardTitle>
-          <CardDescription className="text-gray-600 dark:text-gray-400">
-            Aperçu de l'engagement des utilisateurs (données fictives).
-          </CardDescription>
+        <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 space-y-0">
+          <div>
+            <CardTitle className="text-xl text-gray-800 dark:text-white">Activité Récente du Site</CardTitle>
+            <CardDescription className="text-gray-600 dark:text-gray-400">
+              Inscriptions, nouveaux sujets et réponses par jour.
+            </CardDescription>
+          </div>
+          <Select value={periodDays} onValueChange={setPeriodDays}>
+            <SelectTrigger className="w-[180px] dark:bg-gray-700 dark:border-gray-600 dark:text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="dark:bg-gray-800 dark:border-gray-700 dark:text-white">
+              <SelectItem value="7">7 derniers jours</SelectItem>
+              <SelectItem value="30">30 derniers jours</SelectItem>
+              <SelectItem value="90">90 derniers jours</SelectItem>
+            </SelectContent>
+          </Select>
         </CardHeader>
-        <CardContent className="h-64 flex items-center justify-center bg-gray-50 dark:bg-gray-700/50 rounded-md">
+        <CardContent>
           {isLoading ? (
-            <Loader2 className="h-12 w-12 md:h-16 md:w-16 animate-spin text-gray-400 dark:text-gray-500" />
+            <div className="h-72 flex items-center justify-center bg-gray-50 dark:bg-gray-700/50 rounded-md">
+              <Loader2 className="h-12 w-12 md:h-16 md:w-16 animate-spin text-gray-400 dark:text-gray-500" />
+            </div>
+          ) : stats && stats.timeline.length > 0 ? (
+            <ActivityChart data={stats.timeline} />
           ) : (
-            <div className="text-center">
-              <BarChart className="h-24 w-24 md:h-32 md:w-32 text-gray-400 dark:text-gray-500 mx-auto" />
-              <p className="mt-4 text-gray-500 dark:text-gray-400">Données graphiques à venir...</p>
+            <div className="h-72 flex flex-col items-center justify-center bg-gray-50 dark:bg-gray-700/50 rounded-md">
+              <BarChart className="h-24 w-24 md:h-32 md:w-32 text-gray-400 dark:text-gray-500" />
+              <p className="mt-4 text-gray-500 dark:text-gray-400">Aucune donnée d'activité disponible.</p>
             </div>
           )}
         </CardContent>
@@ -0,0 +1,187 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Badge } from "@/components/ui/badge";
+import { UserCheck, Loader2, History, Inbox } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { supabase } from "@/lib/supabaseClient";
+import { formatForumDate } from "@/lib/forum";
+import ApplicantCard from "@/components/admin/ApplicantCard";
+import { APPROVAL_DECISION_LABELS, ApprovalDecision, ApprovalDecisionValue, PendingApplicant } from "@/lib/approvals";
+
+const DECISIONS_LIMIT = 50;
+
+const decisionBadgeVariants: Record<ApprovalDecisionValue, 'default' | 'destructive' | 'secondary'> = {
+  approved: 'default',
+  rejected: 'destructive',
+  pending_approval: 'secondary',
+};
+
+const ApprovalsPage = () => {
+  const [applicants, setApplicants] = useState<PendingApplicant[]>([]);
+  const [decisions, setDecisions] = useState<ApprovalDecision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingDecision, setPendingDecision] = useState<{ userId: string; decision: 'approved' | 'rejected' } | null>(null);
+
+  const fetchApprovals = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [applicantsResult, decisionsResult] = await Promise.all([
+        supabase.rpc('get_pending_approvals'),
+        supabase.rpc('get_approval_decisions', { p_limit: DECISIONS_LIMIT }),
+      ]);
+      if (applicantsResult.error) throw applicantsResult.error;
+      if (decisionsResult.error) throw decisionsResult.error;
+      setApplicants((applicantsResult.data as PendingApplicant[]) || []);
+      setDecisions((decisionsResult.data as ApprovalDecision[]) || []);
+    } catch (err: any) {
+      console.error("Error fetching approvals:", err);
+      setError("Impossible de charger les demandes d'inscription. Veuillez réessayer plus tard.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchApprovals();
+  }, [fetchApprovals]);
+
+  const handleDecide = async (applicant: PendingApplicant, decision: 'approved' | 'rejected', note: string) => {
+    setPendingDecision({ userId: applicant.id, decision });
+    try {
+      const { error: decisionError } = await supabase.rpc('decide_user_approval', {
+        p_user_id: applicant.id,
+        p_decision: decision,
+        p_note: note.trim() || null,
+      });
+
+      if (decisionError) throw decisionError;
+
+      const name = applicant.username || applicant.email || applicant.id;
+      toast({
+        title: "Succès",
+        description: decision === 'approved' ? `L'inscription de ${name} a été approuvée.` : `L'inscription de ${name} a été refusée.`,
+      });
+      await fetchApprovals();
+    } catch (err: any) {
+      console.error("Error deciding on applicant:", err);
+      toast({ variant: "destructive", title: "Erreur", description: err.message || "Impossible d'enregistrer la décision." });
+    } finally {
+      setPendingDecision(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <header className="pb-4 border-b dark:border-gray-700">
+        <h1 className="text-3xl font-bold text-gray-800 dark:text-white flex items-center">
+          <UserCheck className="mr-3 h-8 w-8 text-green-500" />
+          Demandes d'inscription
+        </h1>
+        <p className="mt-1 text-gray-600 dark:text-gray-300">
+          Approuver ou refuser les nouveaux membres. Le motif d'un refus est affiché au demandeur lors de sa connexion.
+        </p>
+      </header>
+
+      {isLoading ? (
+        <div className="flex justify-center py-10">
+          <Loader2 className="h-10 w-10 animate-spin text-gray-400 dark:text-gray-500" />
+        </div>
+      ) : error ? (
+        <p className="text-red-500 dark:text-red-400 bg-red-100 dark:bg-red-900/30 p-4 rounded-md text-center">{error}</p>
+      ) : (
+        <Tabs defaultValue="queue" className="w-full">
+          <TabsList className="mb-4">
+            <TabsTrigger value="queue" className="flex items-center gap-2">
+              <Inbox className="h-4 w-4" />
+              En attente ({applicants.length})
+            </TabsTrigger>
+            <TabsTrigger value="history" className="flex items-center gap-2">
+              <History className="h-4 w-4" />
+              Historique
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="queue">
+            {applicants.length === 0 ? (
+              <Card className="dark:bg-gray-800 shadow-md">
+                <CardContent className="min-h-[200px] flex items-center justify-center">
+                  <div className="text-center text-gray-500 dark:text-gray-400">
+                    <UserCheck className="mx-auto h-12 w-12 mb-2" />
+                    <p>Aucune demande en attente.</p>
+                  </div>
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="grid gap-4 md:grid-cols-2">
+                {applicants.map((applicant) => (
+                  <ApplicantCard
+                    key={applicant.id}
+                    applicant={applicant}
+                    pendingDecision={pendingDecision?.userId === applicant.id ? pendingDecision.decision : null}
+                    onDecide={handleDecide}
+                  />
+                ))}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="history">
+            <Card className="dark:bg-gray-800 shadow-md">
+              <CardHeader>
+                <CardTitle className="text-xl text-gray-800 dark:text-white">Décisions récentes</CardTitle>
+                <CardDescription className="text-gray-600 dark:text-gray-400">
+                  Les {DECISIONS_LIMIT} derniers changements de statut, quelle que soit leur origine.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {decisions.length === 0 ? (
+                  <p className="text-gray-500 dark:text-gray-400 text-center py-8">Aucune décision enregistrée.</p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow className="dark:border-gray-700">
+                          <TableHead className="dark:text-gray-300">Date</TableHead>
+                          <TableHead className="dark:text-gray-300">Membre</TableHead>
+                          <TableHead className="dark:text-gray-300">Décision</TableHead>
+                          <TableHead className="dark:text-gray-300">Note</TableHead>
+                          <TableHead className="dark:text-gray-300">Par</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {decisions.map((decision) => (
+                          <TableRow key={decision.id} className="dark:border-gray-700">
+                            <TableCell className="whitespace-nowrap dark:text-gray-300">{formatForumDate(decision.decided_at)}</TableCell>
+                            <TableCell>
+                              <Link to={`/profil/${decision.user_id}`} className="text-blue-600 dark:text-blue-400 hover:underline">
+                                {decision.username || decision.user_id}
+                              </Link>
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant={decisionBadgeVariants[decision.decision]}>{APPROVAL_DECISION_LABELS[decision.decision]}</Badge>
+                            </TableCell>
+                            <TableCell className="dark:text-gray-300 max-w-xs break-words">{decision.note || '—'}</TableCell>
+                            <TableCell className="dark:text-gray-300">
+                              {decision.decided_by ? decision.decided_by_username || decision.decided_by : 'Système'}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      )}
+    </div>
+  );
+};
+
+export default ApprovalsPage;
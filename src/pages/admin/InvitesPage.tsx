@@ -0,0 +1,226 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Ticket, Loader2, Copy, Link2, Ban } from "lucide-react";
+import { supabase } from "@/lib/supabaseClient";
+import { toast } from "@/hooks/use-toast";
+import { CreateInviteDialog } from "@/components/admin/CreateInviteDialog";
+import { ROLE_LABELS } from "@/lib/roles";
+import { INVITE_STATUS_LABELS, InviteCode, InviteStatus, buildInviteLink, getInviteStatus } from "@/lib/invites";
+
+interface InviteRedemption {
+  invite_id: string;
+  user_id: string;
+  redeemed_at: string;
+  profiles: { username: string | null } | null;
+}
+
+const getStatusBadgeVariant = (status: InviteStatus) => {
+  switch (status) {
+    case 'active':
+      return 'default';
+    case 'revoked':
+      return 'destructive';
+    default:
+      return 'secondary';
+  }
+};
+
+const InvitesPage = () => {
+  const [invites, setInvites] = useState<InviteCode[]>([]);
+  const [redemptions, setRedemptions] = useState<InviteRedemption[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const fetchInvites = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [invitesResult, redemptionsResult] = await Promise.all([
+        supabase.from('invite_codes').select('*').order('created_at', { ascending: false }),
+        supabase
+          .from('invite_redemptions')
+          .select('invite_id, user_id, redeemed_at, profiles(username)')
+          .order('redeemed_at', { ascending: true }),
+      ]);
+      if (invitesResult.error) throw invitesResult.error;
+      if (redemptionsResult.error) throw redemptionsResult.error;
+      setInvites((invitesResult.data as InviteCode[]) ?? []);
+      setRedemptions((redemptionsResult.data as unknown as InviteRedemption[]) ?? []);
+    } catch (err: any) {
+      console.error("Error fetching invites:", err);
+      toast({ title: "Erreur", description: "Impossible de charger les invitations.", variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchInvites();
+  }, [fetchInvites]);
+
+  const handleCopy = async (text: string, description: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({ title: "Copié", description });
+    } catch (err: any) {
+      console.error("Error copying invite:", err);
+    }
+  };
+
+  const handleRevoke = async (invite: InviteCode) => {
+    if (!window.confirm(`Révoquer l'invitation ${invite.code} ? Elle ne pourra plus être utilisée.`)) {
+      return;
+    }
+    setRevokingId(invite.id);
+    try {
+      const { data, error } = await supabase
+        .from('invite_codes')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', invite.id)
+        .select('id');
+
+      if (error) throw error;
+      // RLS filters the row out instead of failing when the update is not allowed
+      if (!data || data.length === 0) {
+        throw new Error("Révocation refusée. Vérifiez vos droits et votre session A2F.");
+      }
+
+      toast({ title: "Invitation révoquée", description: invite.code });
+      fetchInvites();
+    } catch (err: any) {
+      console.error("Error revoking invite:", err);
+      toast({ title: "Erreur", description: err.message || "Impossible de révoquer l'invitation.", variant: "destructive" });
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const activeCount = invites.filter((invite) => getInviteStatus(invite) === 'active').length;
+
+  return (
+    <div className="space-y-6 p-4 md:p-6">
+      <header className="flex flex-col md:flex-row justify-between items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-800 dark:text-white">
+            Invitations
+          </h1>
+          <p className="mt-1 text-md text-gray-600 dark:text-gray-300">
+            Les inscriptions avec un code valide sont approuvées automatiquement ; les autres restent en attente d'approbation.
+          </p>
+        </div>
+        <CreateInviteDialog onInviteCreated={fetchInvites} />
+      </header>
+
+      <Card className="dark:bg-gray-800 shadow-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center text-xl text-gray-800 dark:text-white">
+            <Ticket className="mr-2 h-6 w-6 text-blue-500 dark:text-blue-400" />
+            Codes d'invitation
+          </CardTitle>
+          <CardDescription className="text-gray-600 dark:text-gray-400">
+            {invites.length > 0 ? `${invites.length} invitations, dont ${activeCount} actives.` : "Aucune invitation pour le moment."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : invites.length > 0 && (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="dark:border-gray-700">
+                    <TableHead className="dark:text-gray-300">Code</TableHead>
+                    <TableHead className="dark:text-gray-300">Rôle</TableHead>
+                    <TableHead className="dark:text-gray-300">Destinataire</TableHead>
+                    <TableHead className="dark:text-gray-300">Utilisations</TableHead>
+                    <TableHead className="dark:text-gray-300">Expire le</TableHead>
+                    <TableHead className="dark:text-gray-300">Statut</TableHead>
+                    <TableHead className="dark:text-gray-300">Utilisée par</TableHead>
+                    <TableHead className="text-right dark:text-gray-300">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {invites.map((invite) => {
+                    const status = getInviteStatus(invite);
+                    const usedBy = redemptions.filter((redemption) => redemption.invite_id === invite.id);
+                    return (
+                      <TableRow key={invite.id} className="dark:border-gray-700 hover:dark:bg-gray-700/50">
+                        <TableCell className="font-mono text-sm dark:text-gray-200 whitespace-nowrap">{invite.code}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{ROLE_LABELS[invite.role] ?? invite.role}</Badge>
+                        </TableCell>
+                        <TableCell className="dark:text-gray-300">{invite.email || 'Tous'}</TableCell>
+                        <TableCell className="dark:text-gray-300">
+                          {invite.use_count} / {invite.max_uses ?? '∞'}
+                        </TableCell>
+                        <TableCell className="dark:text-gray-300 whitespace-nowrap">
+                          {invite.expires_at ? new Date(invite.expires_at).toLocaleString('fr-FR', { dateStyle: 'short', timeStyle: 'short' }) : 'Jamais'}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={getStatusBadgeVariant(status)}>{INVITE_STATUS_LABELS[status]}</Badge>
+                        </TableCell>
+                        <TableCell className="dark:text-gray-300">
+                          {usedBy.length === 0 ? (
+                            <span className="text-muted-foreground">—</span>
+                          ) : (
+                            <ul className="space-y-1">
+                              {usedBy.map((redemption) => (
+                                <li key={redemption.user_id} className="text-sm">
+                                  <Link to={`/profil/${redemption.user_id}`} className="text-blue-600 dark:text-blue-400 hover:underline">
+                                    {redemption.profiles?.username || redemption.user_id}
+                                  </Link>
+                                  <span className="text-xs text-muted-foreground"> le {new Date(redemption.redeemed_at).toLocaleDateString('fr-FR')}</span>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Copier le code"
+                            onClick={() => handleCopy(invite.code, "Le code d'invitation a été copié.")}
+                            className="dark:text-gray-400 dark:hover:bg-gray-700"
+                          >
+                            <Copy className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Copier le lien d'inscription"
+                            onClick={() => handleCopy(buildInviteLink(invite.code), "Le lien d'inscription a été copié.")}
+                            className="dark:text-gray-400 dark:hover:bg-gray-700"
+                          >
+                            <Link2 className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Révoquer"
+                            onClick={() => handleRevoke(invite)}
+                            disabled={status !== 'active' || revokingId === invite.id}
+                            className="text-red-600 dark:text-red-500 hover:text-red-700 dark:hover:bg-red-700/50"
+                          >
+                            {revokingId === invite.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Ban className="h-4 w-4" />}
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default InvitesPage;
@@ -1,11 +1,119 @@
+import { FormEvent, useCallback, useEffect, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { ShieldAlert, Search, Filter } from "lucide-react";
+import { ShieldAlert, Search, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import { supabase } from "@/lib/supabaseClient";
+import PaginationControls from "@/components/common/PaginationControls";
+import ReportCard from "@/components/admin/ReportCard";
+import {
+  ContentReport,
+  ModerationAction,
+  REPORTS_PAGE_SIZE,
+  REPORT_REASONS,
+  REPORT_REASON_LABELS,
+  REPORT_STATUS_LABELS,
+  ReportStatus,
+} from "@/lib/moderation";
+import { purgeDeletedAttachmentFiles } from "@/lib/attachments";
+
+// Select value standing for "no filter"
+const ALL = "all";
+
+const actionSuccessMessages: Record<ModerationAction, string> = {
+  resolve: "Le signalement a été marqué comme résolu.",
+  dismiss: "Le signalement a été rejeté.",
+  delete_content: "Le contenu a été supprimé.",
+  lock_topic: "Le sujet a été verrouillé.",
+};
 
 const ModerationPage = () => {
-  // TODO: Fetch reported content or other moderation tasks
-  // For now, it's a placeholder.
+  const [reports, setReports] = useState<ContentReport[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [page, setPage] = useState(1);
+  const [status, setStatus] = useState<string>("open");
+  const [targetType, setTargetType] = useState(ALL);
+  const [reason, setReason] = useState(ALL);
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingAction, setPendingAction] = useState<{ reportId: string; action: ModerationAction } | null>(null);
+
+  const fetchReports = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const { data, error: reportsError } = await supabase.rpc('get_content_reports', {
+        p_status: status === ALL ? null : status,
+        p_target_type: targetType === ALL ? null : targetType,
+        p_reason: reason === ALL ? null : reason,
+        p_search: search || null,
+        p_limit: REPORTS_PAGE_SIZE,
+        p_offset: (page - 1) * REPORTS_PAGE_SIZE,
+      });
+
+      if (reportsError) throw reportsError;
+
+      const rows = (data as ContentReport[]) || [];
+      setReports(rows);
+      setTotalCount(rows.length > 0 ? Number(rows[0].total_count) : 0);
+    } catch (err: any) {
+      console.error("Error fetching content reports:", err);
+      setError("Impossible de charger les signalements. Veuillez réessayer plus tard.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status, targetType, reason, search, page]);
+
+  useEffect(() => {
+    fetchReports();
+  }, [fetchReports]);
+
+  // Any filter change starts over from the first page
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const handleSearch = (e: FormEvent) => {
+    e.preventDefault();
+    setSearch(searchInput.trim());
+    setPage(1);
+  };
+
+  const handleAction = async (report: ContentReport, action: ModerationAction) => {
+    setPendingAction({ reportId: report.id, action });
+    try {
+      const { error: actionError } = await supabase.rpc('moderate_content_report', {
+        p_report_id: report.id,
+        p_action: action,
+      });
+
+      if (actionError) throw actionError;
+      if (action === 'delete_content' && report.target_type === 'post') {
+        purgeDeletedAttachmentFiles();
+      }
+
+      toast({ title: "Succès", description: actionSuccessMessages[action] });
+      await fetchReports();
+    } catch (err: any) {
+      console.error("Error handling content report:", err);
+      toast({ variant: "destructive", title: "Erreur", description: err.message || "Impossible de traiter le signalement." });
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const totalPages = Math.max(1, Math.ceil(totalCount / REPORTS_PAGE_SIZE));
 
   return (
     <div className="space-y-6">
@@ -22,14 +130,50 @@ const ModerationPage = () => {
       <Card className="dark:bg-gray-800 shadow-md">
         <CardHeader>
           <CardTitle className="text-xl text-gray-800 dark:text-white">Filtres et Recherche</CardTitle>
-          <div className="flex space-x-2 pt-2">
-            <Input placeholder="Rechercher par utilisateur ou mot-clé..." className="max-w-xs dark:bg-gray-700 dark:border-gray-600 dark:text-white" />
-            <Button variant="outline" className="dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700">
-              <Filter className="mr-2 h-4 w-4" /> Filtrer par type
-            </Button>
-             <Button className="bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 text-white">
-              <Search className="mr-2 h-4 w-4" /> Rechercher
-            </Button>
+          <div className="flex flex-wrap gap-2 pt-2">
+            <Select value={status} onValueChange={updateFilter(setStatus)}>
+              <SelectTrigger className="w-[160px] dark:bg-gray-700 dark:border-gray-600 dark:text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="dark:bg-gray-800 dark:border-gray-700 dark:text-white">
+                {(Object.keys(REPORT_STATUS_LABELS) as ReportStatus[]).map((value) => (
+                  <SelectItem key={value} value={value}>{REPORT_STATUS_LABELS[value]}</SelectItem>
+                ))}
+                <SelectItem value={ALL}>Tous les statuts</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={targetType} onValueChange={updateFilter(setTargetType)}>
+              <SelectTrigger className="w-[160px] dark:bg-gray-700 dark:border-gray-600 dark:text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="dark:bg-gray-800 dark:border-gray-700 dark:text-white">
+                <SelectItem value={ALL}>Tous les types</SelectItem>
+                <SelectItem value="post">Sujets</SelectItem>
+                <SelectItem value="reply">Réponses</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={reason} onValueChange={updateFilter(setReason)}>
+              <SelectTrigger className="w-[220px] dark:bg-gray-700 dark:border-gray-600 dark:text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="dark:bg-gray-800 dark:border-gray-700 dark:text-white">
+                <SelectItem value={ALL}>Tous les motifs</SelectItem>
+                {REPORT_REASONS.map((value) => (
+                  <SelectItem key={value} value={value}>{REPORT_REASON_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <form onSubmit={handleSearch} className="flex gap-2">
+              <Input
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                placeholder="Rechercher par utilisateur ou mot-clé..."
+                className="max-w-xs dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+              />
+              <Button type="submit" className="bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 text-white">
+                <Search className="mr-2 h-4 w-4" /> Rechercher
+              </Button>
+            </form>
           </div>
         </CardHeader>
       </Card>
@@ -38,39 +182,38 @@ const ModerationPage = () => {
         <CardHeader>
           <CardTitle className="text-xl text-gray-800 dark:text-white">Contenus Signalés</CardTitle>
           <CardDescription className="text-gray-600 dark:text-gray-400">
-            Liste des messages et sujets nécessitant une attention. (Fonctionnalité à venir)
+            {totalCount === 1 ? "1 signalement" : `${totalCount} signalements`} correspondant aux filtres.
           </CardDescription>
         </CardHeader>
-        <CardContent className="min-h-[200px] flex items-center justify-center bg-gray-50 dark:bg-gray-700/30 rounded-b-md">
-          {/* Placeholder for reported items list */}
-          <div className="text-center text-gray-500 dark:text-gray-400">
-            <ShieldAlert className="mx-auto h-12 w-12 mb-2" />
-            <p>Aucun contenu signalé pour le moment.</p>
-            <p className="text-sm">Tout est en ordre !</p>
-          </div>
-        </CardContent>
+        {(isLoading || error || reports.length === 0) && (
+          <CardContent className="min-h-[200px] flex items-center justify-center bg-gray-50 dark:bg-gray-700/30 rounded-b-md">
+            {isLoading ? (
+              <Loader2 className="h-10 w-10 animate-spin text-gray-400 dark:text-gray-500" />
+            ) : error ? (
+              <p className="text-red-500 dark:text-red-400">{error}</p>
+            ) : (
+              <div className="text-center text-gray-500 dark:text-gray-400">
+                <ShieldAlert className="mx-auto h-12 w-12 mb-2" />
+                <p>Aucun contenu signalé pour le moment.</p>
+                {status === "open" && <p className="text-sm">Tout est en ordre !</p>}
+              </div>
+            )}
+          </CardContent>
+        )}
       </Card>
 
-      {/* Example of a reported item card - to be dynamic later */}
-      {/*
-      <Card className="dark:bg-gray-800 shadow-md">
-        <CardHeader className="flex flex-row items-start justify-between">
-          <div>
-            <CardTitle className="text-lg text-red-600 dark:text-red-400">Sujet: "Problème urgent!"</CardTitle>
-            <CardDescription className="text-xs text-gray-500 dark:text-gray-400">Signalé par: UtilisateurTest il y a 1h</CardDescription>
-          </div>
-          <span className="text-xs px-2 py-1 bg-yellow-200 text-yellow-800 rounded-full dark:bg-yellow-700 dark:text-yellow-200">En attente</span>
-        </CardHeader>
-        <CardContent>
-          <p className="text-sm text-gray-700 dark:text-gray-300 mb-3">"Ce sujet contient des propos inappropriés..."</p>
-          <div className="flex space-x-2">
-            <Button size="sm" variant="outline" className="dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700">Voir le Sujet</Button>
-            <Button size="sm" className="bg-green-600 hover:bg-green-700 dark:bg-green-500 dark:hover:bg-green-600 text-white">Marquer comme résolu</Button>
-            <Button size="sm" variant="destructive">Supprimer le Sujet</Button>
-          </div>
-        </CardContent>
-      </Card>
-      */}
+      {!isLoading && !error && reports.map((report) => (
+        <ReportCard
+          key={report.id}
+          report={report}
+          pendingAction={pendingAction?.reportId === report.id ? pendingAction.action : null}
+          onAction={handleAction}
+        />
+      ))}
+
+      {!isLoading && !error && (
+        <PaginationControls page={page} totalPages={totalPages} onPageChange={setPage} />
+      )}
     </div>
   );
 };
@@ -1,116 +1,301 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
-import { FolderPlus, ListOrdered, Edit3, Trash2, PlusCircle } from "lucide-react";
-// import { useAuth } from "@/hooks/useAuth"; // To check for ADMIN/SUPER_ADMIN specifically if needed
+import { FolderPlus, ListOrdered, Edit3, Trash2, Loader2, MessageSquare, GripVertical, CornerDownRight, Lock } from "lucide-react";
+import { usePermission } from "@/hooks/usePermission";
+import { toast } from "@/hooks/use-toast";
+import { supabase } from "@/lib/supabaseClient";
+import { ForumCategory, buildCategoryTree, compareCategories } from "@/lib/forum";
+import { SectionFormDialog } from "@/components/admin/SectionFormDialog";
+import { DeleteSectionDialog } from "@/components/admin/DeleteSectionDialog";
+
+// A section with the number of topics it holds
+interface ManagedSection extends ForumCategory {
+  topic_count: number;
+}
+
+// Puts a section before `beforeId` (or at the end) among the children of `parentId`
+// and renumbers the levels it left and joined.
+const moveSection = (
+  sections: ManagedSection[],
+  draggedId: string,
+  parentId: string | null,
+  beforeId: string | null
+): ManagedSection[] => {
+  const dragged = sections.find((s) => s.id === draggedId);
+  if (!dragged) return sections;
+
+  const levelOf = (levelParentId: string | null) =>
+    sections
+      .filter((s) => s.id !== draggedId && s.parent_id === levelParentId)
+      .sort(compareCategories);
+
+  const targetLevel = levelOf(parentId);
+  const insertAt = beforeId ? targetLevel.findIndex((s) => s.id === beforeId) : -1;
+  targetLevel.splice(insertAt === -1 ? targetLevel.length : insertAt, 0, { ...dragged, parent_id: parentId });
+
+  const updates = new Map<string, Pick<ForumCategory, 'parent_id' | 'position'>>();
+  targetLevel.forEach((s, index) => updates.set(s.id, { parent_id: parentId, position: index }));
+  if (dragged.parent_id !== parentId) {
+    levelOf(dragged.parent_id).forEach((s, index) => updates.set(s.id, { parent_id: s.parent_id, position: index }));
+  }
+
+  return sections.map((s) => (updates.has(s.id) ? { ...s, ...updates.get(s.id) } : s));
+};
 
 const SectionManagementPage = () => {
-  // const { canAdminister } = useAuth();
-  // if (!canAdminister) { return <p>Accès refusé. Seuls les administrateurs peuvent gérer les sections.</p>; }
+  const canManageSections = usePermission('section.manage');
+
+  const [sections, setSections] = useState<ManagedSection[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [isFormDialogOpen, setIsFormDialogOpen] = useState(false);
+  const [sectionToEdit, setSectionToEdit] = useState<ForumCategory | null>(null);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [sectionToDelete, setSectionToDelete] = useState<ManagedSection | null>(null);
 
-  // TODO: Fetch existing sections, implement CRUD operations via Edge Functions or RLS.
-  // For now, it's a placeholder with UI elements.
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [isSavingOrder, setIsSavingOrder] = useState(false);
+
+  const tree = useMemo(() => buildCategoryTree(sections), [sections]);
+  const draggedSection = sections.find((s) => s.id === draggedId) || null;
+  // Only one level of nesting: a section holding subsections stays at the top level
+  const draggedHasChildren = !!draggedSection && sections.some((s) => s.parent_id === draggedSection.id);
+
+  const sectionsForMove = useMemo(
+    () => sections.filter((s) => s.id !== sectionToDelete?.id),
+    [sections, sectionToDelete]
+  );
+
+  const fetchSections = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const { data, error: sectionsError } = await supabase
+        .from('forum_categories')
+        .select('*, forum_posts(count)')
+        .order('position', { ascending: true })
+        .order('name', { ascending: true });
+
+      if (sectionsError) throw sectionsError;
+
+      const rows = (data || []) as (ForumCategory & { forum_posts: { count: number }[] })[];
+      setSections(rows.map(({ forum_posts, ...section }) => ({
+        ...section,
+        topic_count: forum_posts?.[0]?.count ?? 0,
+      })));
+    } catch (err: any) {
+      console.error("Error fetching sections:", err);
+      setError("Erreur lors de la récupération des sections du forum.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSections();
+  }, [fetchSections]);
+
+  const canDropInto = (parentId: string | null) =>
+    !!draggedSection && (parentId === null || (!draggedHasChildren && parentId !== draggedSection.id));
+
+  const handleDrop = async (parentId: string | null, beforeId: string | null) => {
+    const droppedId = draggedId;
+    setDraggedId(null);
+    setDropTargetId(null);
+    if (!droppedId || beforeId === droppedId || !canDropInto(parentId)) return;
+
+    const reordered = moveSection(sections, droppedId, parentId, beforeId);
+    setSections(reordered);
+    setIsSavingOrder(true);
+    try {
+      const { error: reorderError } = await supabase.rpc('reorder_forum_categories', {
+        p_layout: reordered.map(({ id, parent_id, position }) => ({ id, parent_id, position })),
+      });
+      if (reorderError) throw reorderError;
+    } catch (err: any) {
+      console.error("Error saving section order:", err);
+      toast({
+        title: "Erreur de réorganisation",
+        description: err.message || "Impossible d'enregistrer le nouvel ordre des sections.",
+        variant: "destructive",
+      });
+      fetchSections();
+    } finally {
+      setIsSavingOrder(false);
+    }
+  };
+
+  const renderDropZone = (key: string, parentId: string | null, label: string) => {
+    if (!canDropInto(parentId)) return null;
+    return (
+      <li
+        key={key}
+        onDragOver={(e) => { e.preventDefault(); setDropTargetId(key); }}
+        onDragLeave={() => setDropTargetId(null)}
+        onDrop={(e) => { e.preventDefault(); handleDrop(parentId, null); }}
+        className={`p-3 border-2 border-dashed rounded-md text-sm text-center text-gray-500 dark:text-gray-400 ${dropTargetId === key ? 'border-purple-500 bg-purple-50 dark:bg-purple-900/20' : 'border-gray-300 dark:border-gray-600'}`}
+      >
+        {label}
+      </li>
+    );
+  };
+
+  const renderSectionRow = (section: ManagedSection) => {
+    const isChild = !!section.parent_id;
+    return (
+      <li
+        key={section.id}
+        draggable={canManageSections && !isSavingOrder}
+        onDragStart={(e) => {
+          e.dataTransfer.effectAllowed = 'move';
+          e.dataTransfer.setData('text/plain', section.id);
+          setDraggedId(section.id);
+        }}
+        onDragEnd={() => { setDraggedId(null); setDropTargetId(null); }}
+        onDragOver={(e) => {
+          if (canDropInto(section.parent_id) && draggedId !== section.id) {
+            e.preventDefault();
+            setDropTargetId(section.id);
+          }
+        }}
+        onDragLeave={() => setDropTargetId(null)}
+        onDrop={(e) => { e.preventDefault(); handleDrop(section.parent_id, section.id); }}
+        className={`flex flex-col sm:flex-row items-start sm:items-center justify-between p-4 bg-gray-50 dark:bg-gray-700/30 rounded-md shadow-sm hover:shadow-lg transition-shadow duration-200 border-t-2 ${dropTargetId === section.id ? 'border-purple-500' : 'border-transparent'} ${draggedId === section.id ? 'opacity-50' : ''} ${isChild ? 'ml-8' : ''}`}
+      >
+        <div className="flex items-start mb-2 sm:mb-0 min-w-0">
+          {canManageSections && (
+            <GripVertical className="mr-2 mt-0.5 h-5 w-5 flex-shrink-0 text-gray-400 cursor-grab" aria-label="Déplacer la section" />
+          )}
+          {isChild && <CornerDownRight className="mr-2 mt-0.5 h-4 w-4 flex-shrink-0 text-gray-400" />}
+          <div className="min-w-0">
+            <h3 className="font-semibold text-gray-800 dark:text-white">{section.name}</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              /{section.slug}{section.description ? ` - ${section.description}` : ''}
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400 flex flex-wrap items-center gap-x-3 mt-1">
+              <span className="flex items-center">
+                <MessageSquare className="mr-1 h-3 w-3" />
+                {section.topic_count} {section.topic_count > 1 ? 'sujets' : 'sujet'}
+              </span>
+              {(section.min_read_role !== 'USER' || section.min_post_role !== 'USER' || section.min_reply_role !== 'USER') && (
+                <span className="flex items-center" title="Accès minimum : lecture / sujets / réponses">
+                  <Lock className="mr-1 h-3 w-3" />
+                  {[section.min_read_role, section.min_post_role, section.min_reply_role].join(' / ')}
+                </span>
+              )}
+            </p>
+          </div>
+        </div>
+        <div className="flex space-x-2 flex-shrink-0">
+          <Button variant="outline" size="sm" onClick={() => openEditDialog(section)} disabled={!canManageSections} className="dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700">
+            <Edit3 className="h-4 w-4 sm:mr-1" /> <span className="hidden sm:inline">Modifier</span>
+          </Button>
+          <Button variant="destructive" size="sm" onClick={() => openDeleteDialog(section)} disabled={!canManageSections}>
+            <Trash2 className="h-4 w-4 sm:mr-1" /> <span className="hidden sm:inline">Supprimer</span>
+          </Button>
+        </div>
+      </li>
+    );
+  };
+
+  const openCreateDialog = () => {
+    setSectionToEdit(null);
+    setIsFormDialogOpen(true);
+  };
+
+  const openEditDialog = (section: ForumCategory) => {
+    setSectionToEdit(section);
+    setIsFormDialogOpen(true);
+  };
+
+  const openDeleteDialog = (section: ManagedSection) => {
+    setSectionToDelete(section);
+    setIsDeleteDialogOpen(true);
+  };
 
   return (
     <div className="space-y-8">
-      <header className="pb-4 border-b dark:border-gray-700">
-        <h1 className="text-3xl font-bold text-gray-800 dark:text-white flex items-center">
-          <ListOrdered className="mr-3 h-8 w-8 text-purple-500" />
-          Gestion des Sections du Forum
-        </h1>
-        <p className="mt-1 text-gray-600 dark:text-gray-300">
-          Créer, modifier, et organiser les sections et catégories du forum.
-        </p>
+      <header className="pb-4 border-b dark:border-gray-700 flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-800 dark:text-white flex items-center">
+            <ListOrdered className="mr-3 h-8 w-8 text-purple-500" />
+            Gestion des Sections du Forum
+          </h1>
+          <p className="mt-1 text-gray-600 dark:text-gray-300">
+            Créer, modifier, et organiser les sections et catégories du forum.
+          </p>
+        </div>
+        <Button
+          onClick={openCreateDialog}
+          disabled={!canManageSections}
+          className="bg-green-600 hover:bg-green-700 dark:bg-green-500 dark:hover:bg-green-600 text-white"
+        >
+          <FolderPlus className="mr-2 h-5 w-5" />
+          Créer une Section
+        </Button>
       </header>
 
+      {!canManageSections && (
+        <p className="text-sm text-amber-700 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/30 p-3 rounded-md">
+          Seuls les administrateurs peuvent créer, modifier ou supprimer des sections.
+        </p>
+      )}
+
       <Card className="dark:bg-gray-800 shadow-md">
         <CardHeader>
           <CardTitle className="text-xl text-gray-800 dark:text-white flex items-center">
-            <PlusCircle className="mr-2 h-6 w-6 text-green-500" />
-            Créer une Nouvelle Section
+            Sections Existantes
+            {isSavingOrder && <Loader2 className="ml-2 h-5 w-5 animate-spin text-purple-500" />}
           </CardTitle>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <div>
-            <label htmlFor="sectionTitle" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Titre de la Section</label>
-            <Input id="sectionTitle" placeholder="Ex: Annonces Générales" className="dark:bg-gray-700 dark:border-gray-600 dark:text-white" />
-          </div>
-          <div>
-            <label htmlFor="sectionSlug" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Slug (pour l'URL, ex: annonces-generales)</label>
-            <Input id="sectionSlug" placeholder="Ex: annonces-generales" className="dark:bg-gray-700 dark:border-gray-600 dark:text-white" />
-          </div>
-          <div>
-            <label htmlFor="sectionDescription" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Description</label>
-            <Textarea id="sectionDescription" placeholder="Courte description de la section..." className="dark:bg-gray-700 dark:border-gray-600 dark:text-white" />
-          </div>
-          <Button className="bg-green-600 hover:bg-green-700 dark:bg-green-500 dark:hover:bg-green-600 text-white">
-            <FolderPlus className="mr-2 h-5 w-5" />
-            Créer la Section
-          </Button>
-        </CardContent>
-      </Card>
-
-      <Card className="dark:bg-gray-800 shadow-md">
-        <CardHeader>
-          <CardTitle className="text-xl text-gray-800 dark:text-white">Sections Existantes</CardTitle>
           <CardDescription className="text-gray-600 dark:text-gray-400">
-            Gérer les sections actuelles du forum. (Liste fictive pour démonstration)
+            {sections.length > 0 ? `${sections.length} section(s) dans le forum.` : "Gérer les sections actuelles du forum."}
+            {canManageSections && sections.length > 1 && " Faites glisser une section pour changer son ordre ou la placer dans une autre section."}
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <ul className="space-y-3">
-            {/* Placeholder list item 1 */}
-            <li className="flex flex-col sm:flex-row items-start sm:items-center justify-between p-4 bg-gray-50 dark:bg-gray-700/30 rounded-md shadow-sm hover:shadow-lg transition-shadow duration-200">
-              <div className="mb-2 sm:mb-0">
-                <h3 className="font-semibold text-gray-800 dark:text-white">Discussions Générales</h3>
-                <p className="text-sm text-gray-500 dark:text-gray-400">/discussions-generales - Pour parler de tout et de rien.</p>
-              </div>
-              <div className="flex space-x-2 flex-shrink-0">
-                <Button variant="outline" size="sm" className="dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700">
-                  <Edit3 className="h-4 w-4 sm:mr-1" /> <span className="hidden sm:inline">Modifier</span>
-                </Button>
-                <Button variant="destructive" size="sm">
-                  <Trash2 className="h-4 w-4 sm:mr-1" /> <span className="hidden sm:inline">Supprimer</span>
-                </Button>
-              </div>
-            </li>
-            {/* Placeholder list item 2 */}
-            <li className="flex flex-col sm:flex-row items-start sm:items-center justify-between p-4 bg-gray-50 dark:bg-gray-700/30 rounded-md shadow-sm hover:shadow-lg transition-shadow duration-200">
-              <div className="mb-2 sm:mb-0">
-                <h3 className="font-semibold text-gray-800 dark:text-white">Support Technique</h3>
-                <p className="text-sm text-gray-500 dark:text-gray-400">/support-technique - Aide et questions techniques.</p>
-              </div>
-              <div className="flex space-x-2 flex-shrink-0">
-                <Button variant="outline" size="sm" className="dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700">
-                  <Edit3 className="h-4 w-4 sm:mr-1" /> <span className="hidden sm:inline">Modifier</span>
-                </Button>
-                <Button variant="destructive" size="sm">
-                  <Trash2 className="h-4 w-4 sm:mr-1" /> <span className="hidden sm:inline">Supprimer</span>
-                </Button>
-              </div>
-            </li>
-             {/* Placeholder list item 3 */}
-            <li className="flex flex-col sm:flex-row items-start sm:items-center justify-between p-4 bg-gray-50 dark:bg-gray-700/30 rounded-md shadow-sm hover:shadow-lg transition-shadow duration-200">
-              <div className="mb-2 sm:mb-0">
-                <h3 className="font-semibold text-gray-800 dark:text-white">Annonces du PRCF</h3>
-                <p className="text-sm text-gray-500 dark:text-gray-400">/annonces-prcf - Informations importantes et communiqués.</p>
-              </div>
-              <div className="flex space-x-2 flex-shrink-0">
-                <Button variant="outline" size="sm" className="dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700">
-                  <Edit3 className="h-4 w-4 sm:mr-1" /> <span className="hidden sm:inline">Modifier</span>
-                </Button>
-                <Button variant="destructive" size="sm">
-                  <Trash2 className="h-4 w-4 sm:mr-1" /> <span className="hidden sm:inline">Supprimer</span>
-                </Button>
-              </div>
-            </li>
-          </ul>
-           <div className="text-center mt-6">
-             <p className="text-sm text-gray-500 dark:text-gray-400">Plus de fonctionnalités de gestion à venir.</p>
-           </div>
+          {isLoading ? (
+            <div className="flex justify-center items-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-purple-500" />
+            </div>
+          ) : error ? (
+            <p className="text-red-500 dark:text-red-400 bg-red-100 dark:bg-red-900/30 p-4 rounded-md text-center">{error}</p>
+          ) : sections.length === 0 ? (
+            <p className="text-gray-500 dark:text-gray-400 text-center py-8">
+              Aucune section pour le moment. Créez la première section du forum.
+            </p>
+          ) : (
+            <ul className="space-y-3">
+              {tree.map(({ children, ...root }) => [
+                renderSectionRow(root),
+                ...children.map(renderSectionRow),
+                draggedId && draggedId !== root.id
+                  ? renderDropZone(`nest-${root.id}`, root.id, `Déposer ici pour en faire une sous-section de "${root.name}"`)
+                  : null,
+              ])}
+              {draggedId && renderDropZone('end', null, 'Déposer ici pour en faire une section principale, en fin de liste')}
+            </ul>
+          )}
         </CardContent>
       </Card>
+
+      <SectionFormDialog
+        section={sectionToEdit}
+        existingSections={sections}
+        isOpen={isFormDialogOpen}
+        onOpenChange={setIsFormDialogOpen}
+        onSectionSaved={fetchSections}
+      />
+      <DeleteSectionDialog
+        section={sectionToDelete}
+        topicCount={sectionToDelete?.topic_count ?? 0}
+        otherSections={sectionsForMove}
+        isOpen={isDeleteDialogOpen}
+        onOpenChange={setIsDeleteDialogOpen}
+        onSectionDeleted={fetchSections}
+      />
     </div>
   );
 };
@@ -0,0 +1,122 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Settings, ShieldCheck, Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { toast } from "@/hooks/use-toast";
+import { supabase } from "@/lib/supabaseClient";
+import { DEFAULT_SITE_SETTINGS, SITE_SETTING_LABELS, SiteSettingKey, SiteSettings, parseSiteSettings } from "@/lib/siteSettings";
+
+const SiteSettingsPage = () => {
+  const { authUser } = useAuth();
+  const [settings, setSettings] = useState<SiteSettings>(DEFAULT_SITE_SETTINGS);
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingKey, setSavingKey] = useState<SiteSettingKey | null>(null);
+
+  const fetchSettings = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase.from('site_settings').select('key, value');
+      if (error) throw error;
+      setSettings(parseSiteSettings(data));
+    } catch (err: any) {
+      console.error("Error fetching site settings:", err);
+      toast({ title: "Erreur", description: "Impossible de charger les paramètres du site.", variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  const updateSetting = async <K extends SiteSettingKey>(key: K, value: SiteSettings[K]) => {
+    setSavingKey(key);
+    try {
+      const { data, error } = await supabase
+        .from('site_settings')
+        .update({ value, updated_at: new Date().toISOString(), updated_by: authUser?.id ?? null })
+        .eq('key', key)
+        .select('key');
+
+      if (error) throw error;
+      // RLS filters the row out instead of failing when the update is not allowed
+      if (!data || data.length === 0) {
+        throw new Error("Modification refusée. Vérifiez vos droits et votre session A2F.");
+      }
+
+      setSettings((current) => ({ ...current, [key]: value }));
+      toast({ title: "Paramètre enregistré", description: SITE_SETTING_LABELS[key].title });
+    } catch (err: any) {
+      console.error("Error updating site setting:", err);
+      toast({ title: "Erreur", description: err.message || "Impossible d'enregistrer le paramètre.", variant: "destructive" });
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <header className="pb-4 border-b dark:border-gray-700">
+        <h1 className="text-3xl font-bold text-gray-800 dark:text-white flex items-center">
+          <Settings className="mr-3 h-8 w-8 text-gray-500" />
+          Paramètres du Site
+        </h1>
+        <p className="mt-1 text-gray-600 dark:text-gray-300">
+          Réglages communs à tout le forum.
+        </p>
+      </header>
+
+      <Card className="dark:bg-gray-800 shadow-md">
+        <CardHeader>
+          <CardTitle className="text-xl text-gray-800 dark:text-white flex items-center">
+            <ShieldCheck className="mr-2 h-6 w-6 text-green-500" />
+            Sécurité
+          </CardTitle>
+          <CardDescription className="text-gray-600 dark:text-gray-400">
+            Les modérateurs et administrateurs ayant activé l'A2F doivent toujours valider leur code avant d'accéder au panneau d'administration.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : (
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+              <div>
+                <p className="font-medium text-gray-800 dark:text-gray-200">{SITE_SETTING_LABELS.require_staff_totp.title}</p>
+                <p className="text-sm text-gray-600 dark:text-gray-400">{SITE_SETTING_LABELS.require_staff_totp.description}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                {savingKey === 'require_staff_totp' && <Loader2 className="h-4 w-4 animate-spin text-primary" />}
+                <Select
+                  value={settings.require_staff_totp ? 'required' : 'optional'}
+                  onValueChange={(value) => updateSetting('require_staff_totp', value === 'required')}
+                  disabled={savingKey !== null}
+                >
+                  <SelectTrigger className="w-[180px] dark:bg-gray-700 dark:border-gray-600 dark:text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="dark:bg-gray-800 dark:border-gray-700 dark:text-white">
+                    <SelectItem value="optional">Facultative</SelectItem>
+                    <SelectItem value="required">Obligatoire</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default SiteSettingsPage;
@@ -1,10 +1,18 @@
-import { useEffect, useState, useCallback } from "react";
+import { FormEvent, useEffect, useState, useCallback } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { supabase } from "@/lib/supabaseClient";
-import { Users, Loader2, ShieldCheck, ShieldAlert, UserCog, Trash2, MoreVertical } from "lucide-react";
+import { Users, Loader2, ShieldCheck, ShieldAlert, UserCog, Trash2, MoreVertical, History, Search, X } from "lucide-react";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -15,8 +23,14 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { CreateUserDialog } from "@/components/admin/CreateUserDialog";
 import { EditUserDialog } from "@/components/admin/EditUserDialog";
+import { SignInHistoryDialog } from "@/components/admin/SignInHistoryDialog";
 import { toast } from '@/hooks/use-toast';
 import { useUser } from "@/contexts/UserContext"; // Import useUser
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { ROLES, ROLE_LABELS, Role, hasMinimumRole, normalizeRole } from "@/lib/roles";
+import { usePermission } from "@/hooks/usePermission";
+import PaginationControls from "@/components/common/PaginationControls";
+import { USERS_PAGE_SIZE, USER_SORTS, USER_SORT_LABELS, USER_STATUS_LABELS, UserSort, UserStatus } from "@/lib/users";
 
 export type UserProfile = {
   id: string;
@@ -25,33 +39,55 @@ export type UserProfile = {
   username: string | null;
   full_name: string | null;
   avatar_url: string | null;
-  status: 'pending_approval' | 'approved' | 'rejected' | null;
-  role: 'user' | 'moderator' | 'admin' | 'SUPER_ADMIN' | null; // Added SUPER_ADMIN
+  status: UserStatus | null;
+  role: Role | null;
 };
 
+// Row returned by the paginated `get_all_user_details` RPC
+type UserDetailsRow = UserProfile & { total_count: number };
+
 const UserManagementPage = () => {
   const [users, setUsers] = useState<UserProfile[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [page, setPage] = useState(1);
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [roleFilter, setRoleFilter] = useState<Role | null>(null);
+  const [statusFilter, setStatusFilter] = useState<UserStatus | null>(null);
+  const [sort, setSort] = useState<UserSort>('created_at_desc');
   const [isLoading, setIsLoading] = useState(true); // Keep this for data fetching state
   const [error, setError] = useState<string | null>(null);
   
   const [isEditUserDialogOpen, setIsEditUserDialogOpen] = useState(false);
   const [selectedUserForEdit, setSelectedUserForEdit] = useState<UserProfile | null>(null);
+  const [selectedUserForHistory, setSelectedUserForHistory] = useState<UserProfile | null>(null);
   const [currentAdminUserId, setCurrentAdminUserId] = useState<string | null>(null);
 
   const { user: contextUser, profile: contextProfile, isLoadingAuth: isAuthLoading } = useUser();
+  const canViewUsers = usePermission('user.view');
+  const canManageSuperAdmins = usePermission('user.manage_super_admins');
 
   const fetchUsers = useCallback(async () => {
     console.log("UserManagementPage: fetchUsers called.");
     setIsLoading(true);
     setError(null);
     try {
-      const { data, error: rpcError } = await supabase.rpc('get_all_user_details');
+      const { data, error: rpcError } = await supabase.rpc('get_all_user_details', {
+        p_search: search || null,
+        p_role: roleFilter,
+        p_status: statusFilter,
+        p_sort: sort,
+        p_limit: USERS_PAGE_SIZE,
+        p_offset: (page - 1) * USERS_PAGE_SIZE,
+      });
       if (rpcError) {
         console.error("UserManagementPage: Error from get_all_user_details RPC:", rpcError);
         throw rpcError;
       }
       console.log("UserManagementPage: Users fetched successfully:", data);
-      setUsers(data as UserProfile[] || []);
+      const rows = (data as UserDetailsRow[]) || [];
+      setUsers(rows.map((row) => ({ ...row, role: normalizeRole(row.role) })));
+      setTotalCount(rows.length > 0 ? Number(rows[0].total_count) : 0);
     } catch (err: any) {
       console.error("UserManagementPage: Error fetching users in fetchUsers catch block:", err);
       const errorMessage = err.message || "Erreur lors de la récupération de la liste des utilisateurs.";
@@ -64,13 +100,13 @@ const UserManagementPage = () => {
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [search, roleFilter, statusFilter, sort, page]);
 
   useEffect(() => {
     console.log("UserManagementPage: useEffect triggered. isAuthLoading:", isAuthLoading, "ContextUser:", !!contextUser, "ContextProfile Role:", contextProfile?.role);
     if (!isAuthLoading && contextUser && contextProfile) {
       setCurrentAdminUserId(contextUser.id);
-      if (contextProfile.role === 'admin' || contextProfile.role === 'SUPER_ADMIN') {
+      if (canViewUsers) {
         console.log("UserManagementPage: Admin authenticated, calling fetchUsers.");
         fetchUsers();
       } else {
@@ -89,17 +125,17 @@ const UserManagementPage = () => {
       // Optionally set a loading message or keep existing loader
       setIsLoading(true); // Ensure main loader shows while auth is processing
     }
-  }, [isAuthLoading, contextUser, contextProfile, fetchUsers]);
+  }, [isAuthLoading, contextUser, contextProfile, canViewUsers, fetchUsers]);
 
 
   const getRoleBadgeVariant = (role: UserProfile['role']) => {
     switch (role) {
-      case 'admin':
+      case 'ADMIN':
       case 'SUPER_ADMIN':
         return 'destructive';
-      case 'moderator':
+      case 'MODERATOR':
         return 'secondary';
-      case 'user':
+      case 'USER':
       default:
         return 'outline';
     }
@@ -120,10 +156,11 @@ const UserManagementPage = () => {
   
   const handleApproveUser = async (userId: string) => {
     try {
-      const { error: updateError } = await supabase
-        .from('profiles')
-        .update({ status: 'approved' })
-        .eq('id', userId);
+      // Same path as the approvals queue, so the decision is checked and recorded the same way
+      const { error: updateError } = await supabase.rpc('decide_user_approval', {
+        p_user_id: userId,
+        p_decision: 'approved',
+      });
       if (updateError) throw updateError;
       toast({ title: "Succès", description: "Utilisateur approuvé." });
       fetchUsers();
@@ -141,9 +178,9 @@ const UserManagementPage = () => {
     if (userId === currentAdminUserId && contextProfile?.role === 'SUPER_ADMIN' && newRole !== 'SUPER_ADMIN') {
         // Potentially add a check if they are the *only* SUPER_ADMIN
         // For now, let's assume a SUPER_ADMIN can change their own role if needed, but be cautious.
-        // If it's a regular admin, they shouldn't demote themselves from 'admin' easily.
+        // If it's a regular admin, they shouldn't demote themselves from 'ADMIN' easily.
     }
-    if (userId === currentAdminUserId && contextProfile?.role === 'admin' && newRole !== 'admin') {
+    if (userId === currentAdminUserId && contextProfile?.role === 'ADMIN' && newRole !== 'ADMIN') {
          toast({ title: "Action non autorisée", description: "Les administrateurs ne peuvent pas changer leur propre rôle directement de cette manière.", variant: "destructive" });
          return;
     }
@@ -154,7 +191,7 @@ const UserManagementPage = () => {
         .update({ role: newRole })
         .eq('id', userId);
       if (updateError) throw updateError;
-      toast({ title: "Succès", description: `Rôle de l'utilisateur mis à jour en ${newRole}.` });
+      toast({ title: "Succès", description: `Rôle de l'utilisateur mis à jour en ${ROLE_LABELS[newRole]}.` });
       fetchUsers();
     } catch (err: any) {
       toast({ title: "Erreur", description: err.message || "Impossible de changer le rôle.", variant: "destructive" });
@@ -174,7 +211,16 @@ const UserManagementPage = () => {
         body: { userIdToDelete: userId },
       });
 
-      if (functionError) throw functionError;
+      if (functionError) {
+        // The function answers { error: "..." }, e.g. when the caller may not delete this account
+        if (functionError instanceof FunctionsHttpError) {
+          const errorBody = await functionError.context.json().catch(() => null);
+          if (errorBody && typeof errorBody.error === 'string') {
+            throw new Error(errorBody.error);
+          }
+        }
+        throw functionError;
+      }
 
       toast({ title: "Succès", description: `Utilisateur ${userEmail || userId} supprimé.` });
       fetchUsers();
@@ -188,12 +234,52 @@ const UserManagementPage = () => {
     }
   };
 
+  // Only holders of 'user.manage_super_admins' can change or delete a SUPER_ADMIN
+  const canChangeRoleOf = (user: UserProfile) => user.role !== 'SUPER_ADMIN' || canManageSuperAdmins;
+
   const openEditDialog = (user: UserProfile) => {
     setSelectedUserForEdit(user);
     setIsEditUserDialogOpen(true);
   };
 
-  if (isAuthLoading || (isLoading && users.length === 0 && !error) ) { 
+  // Any filter change starts over from the first page
+  const updateFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const handleSearch = (e: FormEvent) => {
+    e.preventDefault();
+    setSearch(searchInput.trim());
+    setPage(1);
+  };
+
+  const clearFilters = () => {
+    setSearchInput("");
+    setSearch("");
+    setRoleFilter(null);
+    setStatusFilter(null);
+    setPage(1);
+  };
+
+  const hasFilters = !!search || roleFilter !== null || statusFilter !== null;
+  const totalPages = Math.max(1, Math.ceil(totalCount / USERS_PAGE_SIZE));
+
+  const renderChip = (label: string, isActive: boolean, onClick: () => void) => (
+    <Button
+      key={label}
+      type="button"
+      size="sm"
+      variant={isActive ? "default" : "outline"}
+      onClick={onClick}
+      className="h-7 rounded-full px-3 text-xs dark:border-gray-600"
+    >
+      {label}
+    </Button>
+  );
+
+  // The first load only: later fetches keep the filters mounted and show the loader in the table
+  if (isAuthLoading || (isLoading && users.length === 0 && !error && !hasFilters && page === 1)) { 
     return (
       <div className="flex items-center justify-center h-64">
         <Loader2 className="h-12 w-12 animate-spin text-primary" />
@@ -214,7 +300,7 @@ const UserManagementPage = () => {
             Gestion des Utilisateurs
           </h1>
           <p className="mt-1 text-md text-gray-600 dark:text-gray-300">
-            Visualiser, modifier et gérer les comptes utilisateurs. ({users.length} utilisateurs)
+            Visualiser, modifier et gérer les comptes utilisateurs.
           </p>
         </div>
         <CreateUserDialog onUserCreated={fetchUsers} />
@@ -227,13 +313,60 @@ const UserManagementPage = () => {
             Liste des Utilisateurs
           </CardTitle>
           <CardDescription className="text-gray-600 dark:text-gray-400">
-            {users.length > 0 ? `Total de ${users.length} utilisateurs.` : "Aucun utilisateur trouvé."}
+            {totalCount > 0
+              ? `${totalCount === 1 ? "1 utilisateur" : `${totalCount} utilisateurs`}${hasFilters ? " correspondant aux filtres" : " au total"}.`
+              : "Aucun utilisateur trouvé."}
           </CardDescription>
+          <div className="flex flex-col gap-3 pt-2">
+            <div className="flex flex-wrap gap-2">
+              <form onSubmit={handleSearch} className="flex gap-2">
+                <Input
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                  placeholder="Email, nom d'utilisateur ou nom complet..."
+                  className="w-72 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                />
+                <Button type="submit" className="bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 text-white">
+                  <Search className="mr-2 h-4 w-4" /> Rechercher
+                </Button>
+              </form>
+              <Select value={sort} onValueChange={updateFilter((value: string) => setSort(value as UserSort))}>
+                <SelectTrigger className="w-[220px] dark:bg-gray-700 dark:border-gray-600 dark:text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="dark:bg-gray-800 dark:border-gray-700 dark:text-white">
+                  {USER_SORTS.map((value) => (
+                    <SelectItem key={value} value={value}>{USER_SORT_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {hasFilters && (
+                <Button type="button" variant="ghost" onClick={clearFilters} className="dark:text-gray-300 dark:hover:bg-gray-700">
+                  <X className="mr-2 h-4 w-4" /> Réinitialiser
+                </Button>
+              )}
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm text-gray-500 dark:text-gray-400 w-14">Rôle :</span>
+              {renderChip("Tous", roleFilter === null, () => updateFilter(setRoleFilter)(null))}
+              {ROLES.map((role) => renderChip(ROLE_LABELS[role], roleFilter === role, () => updateFilter(setRoleFilter)(role)))}
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm text-gray-500 dark:text-gray-400 w-14">Statut :</span>
+              {renderChip("Tous", statusFilter === null, () => updateFilter(setStatusFilter)(null))}
+              {(Object.keys(USER_STATUS_LABELS) as UserStatus[]).map((status) =>
+                renderChip(USER_STATUS_LABELS[status], statusFilter === status, () => updateFilter(setStatusFilter)(status)))}
+            </div>
+          </div>
         </CardHeader>
         <CardContent>
-          {users.length === 0 && !isLoading ? (
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : users.length === 0 ? (
             <p className="text-gray-500 dark:text-gray-400 text-center py-8">
-              Aucun utilisateur à afficher. Vérifiez les permissions ou réessayez.
+              {hasFilters ? "Aucun utilisateur ne correspond à ces filtres." : "Aucun utilisateur à afficher. Vérifiez les permissions ou réessayez."}
             </p>
           ) : (
             <div className="overflow-x-auto">
@@ -257,13 +390,13 @@ const UserManagementPage = () => {
                       </TableCell>
                       <TableCell className="dark:text-gray-300">{user.email || 'Non fourni'}</TableCell>
                       <TableCell>
-                        <Badge variant={getRoleBadgeVariant(user.role)} className="capitalize">
-                          {user.role?.replace('SUPER_ADMIN', 'Super Admin') || 'N/A'}
+                        <Badge variant={getRoleBadgeVariant(user.role)}>
+                          {user.role ? ROLE_LABELS[user.role] : 'N/A'}
                         </Badge>
                       </TableCell>
                       <TableCell>
                         <Badge variant={getStatusBadgeVariant(user.status)} className="capitalize">
-                          {user.status?.replace('_', ' ') || 'N/A'}
+                          {user.status ? USER_STATUS_LABELS[user.status] : 'N/A'}
                         </Badge>
                       </TableCell>
                       <TableCell className="dark:text-gray-300">
@@ -281,6 +414,9 @@ const UserManagementPage = () => {
                             <DropdownMenuItem onClick={() => openEditDialog(user)} className="dark:text-gray-300 dark:hover:!bg-gray-700">
                               <UserCog className="mr-2 h-4 w-4" /> Modifier
                             </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => setSelectedUserForHistory(user)} className="dark:text-gray-300 dark:hover:!bg-gray-700">
+                              <History className="mr-2 h-4 w-4" /> Historique de connexion
+                            </DropdownMenuItem>
                             {user.status === 'pending_approval' && (
                               <DropdownMenuItem onClick={() => handleApproveUser(user.id)} className="dark:text-gray-300 dark:hover:!bg-gray-700">
                                 <ShieldCheck className="mr-2 h-4 w-4" /> Approuver
@@ -288,28 +424,28 @@ const UserManagementPage = () => {
                             )}
                             <DropdownMenuSeparator className="dark:bg-gray-700" />
                             <DropdownMenuItem 
-                                onClick={() => handleChangeRole(user.id, 'moderator')} 
+                                onClick={() => handleChangeRole(user.id, 'MODERATOR')} 
                                 className="dark:text-gray-300 dark:hover:!bg-gray-700" 
-                                disabled={(user.id === currentAdminUserId && (contextProfile?.role === 'admin' || contextProfile?.role === 'SUPER_ADMIN')) || user.role === 'moderator'}>
+                                disabled={user.id === currentAdminUserId || !canChangeRoleOf(user) || user.role === 'MODERATOR'}>
                                <ShieldAlert className="mr-2 h-4 w-4" /> Passer Modérateur
                             </DropdownMenuItem>
                              <DropdownMenuItem 
-                                onClick={() => handleChangeRole(user.id, 'admin')} 
+                                onClick={() => handleChangeRole(user.id, 'ADMIN')} 
                                 className="dark:text-gray-300 dark:hover:!bg-gray-700" 
-                                disabled={user.role === 'admin' || user.role === 'SUPER_ADMIN'}>
+                                disabled={!canChangeRoleOf(user) || hasMinimumRole(user.role, 'ADMIN')}>
                                <ShieldAlert className="mr-2 h-4 w-4" /> Passer Admin
                             </DropdownMenuItem>
                             <DropdownMenuItem 
-                                onClick={() => handleChangeRole(user.id, 'user')} 
+                                onClick={() => handleChangeRole(user.id, 'USER')} 
                                 className="dark:text-gray-300 dark:hover:!bg-gray-700" 
-                                disabled={(user.id === currentAdminUserId && (contextProfile?.role === 'admin' || contextProfile?.role === 'SUPER_ADMIN')) || user.role === 'user'}>
+                                disabled={user.id === currentAdminUserId || !canChangeRoleOf(user) || user.role === 'USER'}>
                                <ShieldAlert className="mr-2 h-4 w-4" /> Passer Utilisateur
                             </DropdownMenuItem>
                             <DropdownMenuSeparator className="dark:bg-gray-700"/>
                             <DropdownMenuItem 
                               onClick={() => handleDeleteUser(user.id, user.email)} 
                               className="text-red-600 dark:text-red-500 hover:!text-red-700 dark:hover:!text-red-400 dark:hover:!bg-red-700/50"
-                              disabled={user.id === currentAdminUserId}
+                              disabled={user.id === currentAdminUserId || !canChangeRoleOf(user)}
                             >
                               <Trash2 className="mr-2 h-4 w-4" /> Supprimer
                             </DropdownMenuItem>
@@ -322,6 +458,7 @@ const UserManagementPage = () => {
               </Table>
             </div>
           )}
+          <PaginationControls page={page} totalPages={totalPages} onPageChange={setPage} className="mt-4" />
         </CardContent>
       </Card>
       <EditUserDialog 
@@ -333,6 +470,13 @@ const UserManagementPage = () => {
           setSelectedUserForEdit(null);
         }} 
       />
+      <SignInHistoryDialog
+        user={selectedUserForHistory}
+        isOpen={selectedUserForHistory !== null}
+        onOpenChange={(open) => {
+          if (!open) setSelectedUserForHistory(null);
+        }}
+      />
     </div>
   );
 };
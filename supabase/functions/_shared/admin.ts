@@ -0,0 +1,164 @@
+import { createClient, SupabaseClient, User } from 'https://esm.sh/@supabase/supabase-js@2';
+import { Permission, hasPermission } from './permissions.ts';
+import { normalizeRole, Role } from './roles.ts';
+
+// Shared helpers for the Edge Functions: CORS, JSON responses and caller authorization.
+// Every function running with the service-role key must call `requirePermission` (or `requireUser`,
+// for actions on the caller's own account) before doing anything.
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+export interface Caller {
+  user: User;
+  role: Role;
+}
+
+// Error carrying the HTTP status to answer with, turned into a JSON response by `errorResponse`
+export class HttpError extends Error {
+  status: number;
+  details?: unknown;
+
+  constructor(status: number, message: string, details?: unknown) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+export const jsonResponse = (body: unknown, status = 200): Response =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+export const errorResponse = (error: unknown): Response => {
+  if (error instanceof HttpError) {
+    return jsonResponse(
+      error.details === undefined ? { error: error.message } : { error: error.message, details: error.details },
+      error.status,
+    );
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  console.error('Edge Function: Unexpected error:', error);
+  return jsonResponse({ error: 'Internal server error: ' + message }, 500);
+};
+
+// Answers CORS preflight requests, returns null for any other request
+export const handleCors = (req: Request): Response | null =>
+  req.method === 'OPTIONS' ? new Response('ok', { headers: corsHeaders }) : null;
+
+export const createAdminClient = (): SupabaseClient => {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    console.error('CRITICAL: Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY environment variables in Edge Function.');
+    throw new HttpError(500, 'Server configuration error: Missing Supabase credentials.');
+  }
+
+  return createClient(supabaseUrl, serviceRoleKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  });
+};
+
+export const readJson = async <T>(req: Request): Promise<T> => {
+  try {
+    return await req.json();
+  } catch (error) {
+    throw new HttpError(400, 'Invalid JSON payload: ' + (error instanceof Error ? error.message : String(error)));
+  }
+};
+
+const readJwt = (req: Request): string => {
+  const authHeader = req.headers.get('Authorization') ?? '';
+  const jwt = authHeader.replace(/^Bearer\s+/i, '').trim();
+  if (!jwt) {
+    throw new HttpError(401, 'Authentification requise.');
+  }
+  return jwt;
+};
+
+// Authenticator assurance level of an access token already verified with `auth.getUser`
+const readAal = (jwt: string): string => {
+  try {
+    const payload = jwt.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    return JSON.parse(atob(payload)).aal ?? 'aal1';
+  } catch {
+    return 'aal1';
+  }
+};
+
+// Same rule as `public.staff_mfa_satisfied()`: an aal2 session, or no TOTP factor while
+// the `require_staff_totp` site setting is off
+const requireStaffMfa = async (jwt: string, user: User, supabaseAdmin: SupabaseClient): Promise<void> => {
+  if (readAal(jwt) === 'aal2') return;
+
+  if (user.factors?.some(factor => factor.status === 'verified')) {
+    throw new HttpError(403, 'Vérification en deux étapes requise. Validez votre code A2F puis réessayez.', { code: 'mfa_required' });
+  }
+
+  const { data: setting, error: settingError } = await supabaseAdmin
+    .from('site_settings')
+    .select('value')
+    .eq('key', 'require_staff_totp')
+    .maybeSingle();
+
+  if (settingError) {
+    console.error('Edge Function: Error reading the require_staff_totp setting:', settingError);
+    throw new HttpError(500, 'Impossible de vérifier les paramètres de sécurité.');
+  }
+  if (setting?.value === true) {
+    throw new HttpError(403, 'L\'A2F est obligatoire pour l\'équipe. Activez-la depuis votre profil puis réessayez.', { code: 'mfa_enrollment_required' });
+  }
+};
+
+// Verifies the caller's JWT, whatever their role or status
+export const requireUser = async (req: Request, supabaseAdmin: SupabaseClient): Promise<User> => {
+  const jwt = readJwt(req);
+
+  const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(jwt);
+  if (userError || !user) {
+    throw new HttpError(401, 'Session invalide ou expirée. Veuillez vous reconnecter.');
+  }
+  return user;
+};
+
+// Verifies the caller's JWT, checks their approved profile holds `permission` and their session
+// passed the two-factor step-up
+export const requirePermission = async (
+  req: Request,
+  supabaseAdmin: SupabaseClient,
+  permission: Permission,
+): Promise<Caller> => {
+  const user = await requireUser(req, supabaseAdmin);
+
+  const { data: profile, error: profileError } = await supabaseAdmin
+    .from('profiles')
+    .select('role, status')
+    .eq('id', user.id)
+    .maybeSingle();
+
+  if (profileError) {
+    console.error(`Edge Function: Error fetching caller profile ${user.id}:`, profileError);
+    throw new HttpError(500, 'Impossible de vérifier les droits de l\'appelant.');
+  }
+
+  const role = normalizeRole(profile?.role);
+  if (!profile || profile.status !== 'approved' || !role || !hasPermission(role, permission)) {
+    console.warn(`Edge Function: Rejected call from user ${user.id} (role: ${profile?.role}, status: ${profile?.status}, permission: ${permission}).`);
+    throw new HttpError(403, 'Vous n\'avez pas les droits nécessaires pour cette action.');
+  }
+
+  // Every permission belongs to staff roles (MODERATOR and above), which need the two-factor step-up
+  await requireStaffMfa(readJwt(req), user, supabaseAdmin);
+
+  return { user, role };
+};
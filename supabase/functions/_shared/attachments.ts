@@ -0,0 +1,48 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { HttpError } from './admin.ts';
+
+// Files of deleted forum attachments, queued in the same transaction as the delete
+// (see supabase/migrations/queue_forum_attachment_file_removal.sql).
+
+// Same bucket as `ATTACHMENTS_BUCKET` in src/lib/attachments.ts
+export const ATTACHMENTS_BUCKET = 'forum-attachments';
+
+// Queued paths go in the query string when they are dequeued: keep the batches small
+const PURGE_BATCH_SIZE = 100;
+
+// Removes every queued file with the service role and returns how many were removed
+export const purgeDeletedAttachmentFiles = async (supabaseAdmin: SupabaseClient): Promise<number> => {
+  let removed = 0;
+  for (;;) {
+    const { data: queued, error: queueError } = await supabaseAdmin
+      .from('forum_attachment_file_removals')
+      .select('storage_path')
+      .order('queued_at')
+      .limit(PURGE_BATCH_SIZE);
+
+    if (queueError) {
+      console.error('Error reading the attachment file removal queue:', queueError);
+      throw new HttpError(500, `Queue lookup error: ${queueError.message}`);
+    }
+    if (!queued || queued.length === 0) return removed;
+
+    const storagePaths = queued.map((row: { storage_path: string }) => row.storage_path);
+    const { error: removeError } = await supabaseAdmin.storage.from(ATTACHMENTS_BUCKET).remove(storagePaths);
+    if (removeError) {
+      console.error('Error removing queued attachment files:', removeError);
+      throw new HttpError(500, `Storage error: ${removeError.message}`);
+    }
+
+    const { error: dequeueError } = await supabaseAdmin
+      .from('forum_attachment_file_removals')
+      .delete()
+      .in('storage_path', storagePaths);
+    if (dequeueError) {
+      console.error('Error dequeuing removed attachment files:', dequeueError);
+      throw new HttpError(500, `Queue update error: ${dequeueError.message}`);
+    }
+
+    removed += storagePaths.length;
+    if (storagePaths.length < PURGE_BATCH_SIZE) return removed;
+  }
+};
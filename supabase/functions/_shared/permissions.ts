@@ -0,0 +1,41 @@
+// Named permissions and the roles granting them, shared by the Edge Functions and the frontend
+// (`src/lib/permissions.ts` re-exports it). The `public.role_permissions` table behind
+// `public.has_permission()` holds the same registry: keep both in sync.
+// Only relative `.ts` imports from `_shared`, so the functions bundle it without the frontend tree.
+
+import { ROLES, Role, normalizeRole, roleRank } from './roles.ts';
+
+// Lowest role granting each permission; every higher role inherits it
+export const PERMISSIONS = {
+  'admin.access': 'MODERATOR',
+  'dashboard.view': 'MODERATOR',
+  'report.view': 'MODERATOR',
+  'report.resolve': 'MODERATOR',
+  'post.lock': 'MODERATOR',
+  'post.pin': 'MODERATOR',
+  'post.delete': 'MODERATOR',
+  'user.approve': 'MODERATOR',
+  'section.manage': 'ADMIN',
+  'settings.manage': 'ADMIN',
+  'invite.manage': 'ADMIN',
+  'user.view': 'ADMIN',
+  'user.create': 'ADMIN',
+  'user.edit': 'ADMIN',
+  'user.delete': 'ADMIN',
+  'user.manage_super_admins': 'SUPER_ADMIN',
+} as const satisfies Record<string, Role>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+// The set of permissions of each role
+export const ROLE_PERMISSIONS = Object.fromEntries(
+  ROLES.map((role) => [
+    role,
+    (Object.keys(PERMISSIONS) as Permission[]).filter((permission) => roleRank(role) >= roleRank(PERMISSIONS[permission])),
+  ]),
+) as Record<Role, Permission[]>;
+
+export const hasPermission = (role: unknown, permission: Permission): boolean => {
+  const normalized = normalizeRole(role);
+  return !!normalized && ROLE_PERMISSIONS[normalized].includes(permission);
+};
@@ -0,0 +1,29 @@
+// Canonical member roles, shared by the Edge Functions and the frontend (`src/lib/roles.ts` re-exports it).
+// Keep this module free of imports so Deno and Vite can both load it as is.
+
+// Roles ranked from lowest to highest, as in `public.role_rank()`
+export const ROLES = ['USER', 'MODERATOR', 'ADMIN', 'SUPER_ADMIN'] as const;
+export type Role = typeof ROLES[number];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  USER: 'Membre',
+  MODERATOR: 'Modérateur',
+  ADMIN: 'Administrateur',
+  SUPER_ADMIN: 'Super administrateur',
+};
+
+// Accepts legacy values ('admin', 'super_admin', ...) and returns null for anything unknown
+export const normalizeRole = (value: unknown): Role | null => {
+  if (typeof value !== 'string') return null;
+  const upper = value.trim().toUpperCase();
+  return (ROLES as readonly string[]).includes(upper) ? (upper as Role) : null;
+};
+
+// 1 for USER up to 4 for SUPER_ADMIN, 0 for no or an unknown role
+export const roleRank = (role: unknown): number => {
+  const normalized = normalizeRole(role);
+  return normalized ? ROLES.indexOf(normalized) + 1 : 0;
+};
+
+export const hasMinimumRole = (role: unknown, minRole: Role): boolean =>
+  roleRank(role) >= roleRank(minRole);
@@ -1,70 +1,51 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
-import { createClient, SupabaseClient, PostgrestError } from 'https://esm.sh/@supabase/supabase-js@2';
+import { PostgrestError } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  createAdminClient,
+  errorResponse,
+  handleCors,
+  HttpError,
+  jsonResponse,
+  readJson,
+  requirePermission,
+} from '../_shared/admin.ts';
+import { hasPermission } from '../_shared/permissions.ts';
+import { normalizeRole } from '../_shared/roles.ts';
 
 interface CreateUserPayload {
   email: string;
   password?: string;
   full_name: string;
   username: string;
-  role: 'user' | 'moderator' | 'admin';
+  role: string; // Any casing, normalized with `normalizeRole`
 }
 
-const supabaseUrl = Deno.env.get('SUPABASE_URL');
-const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
-
-if (!supabaseUrl || !serviceRoleKey) {
-  console.error('CRITICAL: Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY environment variables in Edge Function.');
-}
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-  'Access-Control-Allow-Methods': 'POST, OPTIONS',
-};
-
 serve(async (req: Request) => {
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders });
-  }
+  const preflight = handleCors(req);
+  if (preflight) return preflight;
 
-  if (!supabaseUrl || !serviceRoleKey) {
-    console.error('Edge Function: Server configuration error: Missing Supabase credentials.');
-    return new Response(JSON.stringify({ error: 'Server configuration error: Missing Supabase credentials.' }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      status: 500,
-    });
-  }
-  
-  let payload: CreateUserPayload;
   try {
-    payload = await req.json();
-  } catch (error) {
-    console.error('Edge Function: Invalid JSON payload:', error.message);
-    return new Response(JSON.stringify({ error: 'Invalid JSON payload: ' + error.message }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      status: 400,
-    });
-  }
+    const supabaseAdmin = createAdminClient();
+    const caller = await requirePermission(req, supabaseAdmin, 'user.create');
 
-  const { email, password, full_name, username, role } = payload;
+    const payload = await readJson<CreateUserPayload>(req);
+    const { email, password, full_name, username } = payload;
+    const role = normalizeRole(payload.role);
 
-  if (!email || !password || !full_name || !username || !role) {
-    console.error('Edge Function: Missing required fields in payload:', payload);
-    return new Response(JSON.stringify({ error: 'Missing required fields: email, password, full_name, username, role are required.' }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      status: 400,
-    });
-  }
+    if (!email || !password || !full_name || !username || !payload.role) {
+      console.error('Edge Function: Missing required fields in payload:', payload);
+      throw new HttpError(400, 'Missing required fields: email, password, full_name, username, role are required.');
+    }
 
-  try {
-    const supabaseAdmin: SupabaseClient = createClient(supabaseUrl, serviceRoleKey, {
-      auth: {
-        autoRefreshToken: false,
-        persistSession: false,
-      },
-    });
+    if (!role) {
+      throw new HttpError(400, `Invalid role: ${payload.role}.`);
+    }
+
+    if (role === 'SUPER_ADMIN' && !hasPermission(caller.role, 'user.manage_super_admins')) {
+      throw new HttpError(403, 'Seul un super administrateur peut créer un autre super administrateur.');
+    }
 
-    console.log('Edge Function: Attempting to create user in auth:', email);
+    console.log(`Edge Function: Attempting to create user in auth: ${email} (requested by ${caller.user.id})`);
     const { data: authUserResponse, error: authError } = await supabaseAdmin.auth.admin.createUser({
       email: email,
       password: password,
@@ -83,18 +64,12 @@ serve(async (req: Request) => {
         errorMessage = "Le mot de passe doit contenir au moins 6 caractères.";
         statusCode = 400;
       }
-      return new Response(JSON.stringify({ error: errorMessage, details: authError }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: statusCode,
-      });
+      return jsonResponse({ error: errorMessage, details: authError }, statusCode);
     }
 
     if (!authUserResponse || !authUserResponse.user) {
       console.error('Edge Function: User creation did not return a user object.');
-      return new Response(JSON.stringify({ error: 'User creation failed: No user object returned from auth.' }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 500,
-      });
+      return jsonResponse({ error: 'User creation failed: No user object returned from auth.' }, 500);
     }
 
     const newUserId = authUserResponse.user.id;
@@ -119,7 +94,6 @@ serve(async (req: Request) => {
     const { error: profileError } = await supabaseAdmin
       .from('profiles')
       .update({
-        full_name: full_name,
         username: username,
         role: role,
         status: 'approved',
@@ -158,23 +132,24 @@ serve(async (req: Request) => {
       }
       
       console.log(`Edge Function: Determined statusCode: ${statusCode}, errorMessage: ${errorMessage}. PREPARING TO SEND THIS RESPONSE.`);
-      return new Response(JSON.stringify({ error: errorMessage, details: profileError }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: statusCode,
-      });
+      return jsonResponse({ error: errorMessage, details: profileError }, statusCode);
     }
 
     console.log(`Edge Function: Profile for user ${newUserId} updated successfully.`);
-    return new Response(JSON.stringify({ message: 'User created and profile updated successfully', userId: newUserId }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      status: 201,
-    });
+
+    // Le nom complet est stocké dans profile_details, avec son réglage de visibilité
+    const { error: detailsError } = await supabaseAdmin
+      .from('profile_details')
+      .upsert({ user_id: newUserId, full_name: full_name });
+
+    if (detailsError) {
+      console.error(`Edge Function: Profile details upsert error for user ${newUserId}:`, JSON.stringify(detailsError, null, 2));
+      return jsonResponse({ error: `Erreur lors de l'enregistrement du nom complet: ${detailsError.message}. L'utilisateur a été créé.`, details: detailsError }, 500);
+    }
+
+    return jsonResponse({ message: 'User created and profile updated successfully', userId: newUserId }, 201);
 
   } catch (error) {
-    console.error('Edge Function: Unexpected error in main try-catch block:', error, JSON.stringify(error, null, 2));
-    return new Response(JSON.stringify({ error: 'Internal server error: ' + error.message, details: error }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      status: 500,
-    });
+    return errorResponse(error);
   }
 });
@@ -1,63 +1,83 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
-import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  createAdminClient,
+  errorResponse,
+  handleCors,
+  HttpError,
+  jsonResponse,
+  readJson,
+  requirePermission,
+} from '../_shared/admin.ts';
+import { purgeDeletedAttachmentFiles } from '../_shared/attachments.ts';
+import { hasPermission } from '../_shared/permissions.ts';
+import { normalizeRole } from '../_shared/roles.ts';
 
 interface DeleteUserPayload {
   userIdToDelete: string;
 }
 
-// IMPORTANT: These environment variables must be set in your Supabase project's Edge Function settings
-const supabaseUrl = Deno.env.get('SUPABASE_URL');
-const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
-
-if (!supabaseUrl || !serviceRoleKey) {
-  console.error('Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY environment variables.');
-}
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*', // Or your specific frontend URL
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-  'Access-Control-Allow-Methods': 'POST, OPTIONS',
-};
+// Same bucket as `AVATARS_BUCKET` in src/lib/avatars.ts
+const AVATARS_BUCKET = 'avatars';
+const STORAGE_REMOVE_BATCH_SIZE = 1000;
 
 serve(async (req: Request) => {
   // Handle CORS preflight requests
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders });
-  }
+  const preflight = handleCors(req);
+  if (preflight) return preflight;
 
-  if (!supabaseUrl || !serviceRoleKey) {
-    return new Response(JSON.stringify({ error: 'Server configuration error: Missing Supabase credentials.' }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      status: 500,
-    });
-  }
-  
-  let payload: DeleteUserPayload;
   try {
-    payload = await req.json();
-  } catch (error) {
-    return new Response(JSON.stringify({ error: 'Invalid JSON payload: ' + error.message }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      status: 400,
-    });
-  }
+    const supabaseAdmin = createAdminClient();
+    const caller = await requirePermission(req, supabaseAdmin, 'user.delete');
 
-  const { userIdToDelete } = payload;
+    const { userIdToDelete } = await readJson<DeleteUserPayload>(req);
 
-  if (!userIdToDelete) {
-    return new Response(JSON.stringify({ error: 'Missing required field: userIdToDelete is required.' }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      status: 400,
-    });
-  }
+    if (!userIdToDelete) {
+      throw new HttpError(400, 'Missing required field: userIdToDelete is required.');
+    }
 
-  try {
-    const supabaseAdmin: SupabaseClient = createClient(supabaseUrl, serviceRoleKey, {
-      auth: {
-        autoRefreshToken: false,
-        persistSession: false,
-      },
-    });
+    if (userIdToDelete === caller.user.id) {
+      throw new HttpError(403, 'Vous ne pouvez pas supprimer votre propre compte administrateur.');
+    }
+
+    const { data: targetProfile, error: targetError } = await supabaseAdmin
+      .from('profiles')
+      .select('role')
+      .eq('id', userIdToDelete)
+      .maybeSingle();
+
+    if (targetError) {
+      console.error(`Error fetching profile of user ${userIdToDelete}:`, targetError);
+      throw new HttpError(500, `Profile lookup error: ${targetError.message}`);
+    }
+
+    // Only a SUPER_ADMIN can delete another SUPER_ADMIN
+    if (normalizeRole(targetProfile?.role) === 'SUPER_ADMIN' && !hasPermission(caller.role, 'user.manage_super_admins')) {
+      throw new HttpError(403, 'Seul un super administrateur peut supprimer un autre super administrateur.');
+    }
+
+    // Their profile pictures, removed through the Storage API as well (see remove_avatar_files_through_storage.sql).
+    // A listing returns one page: list again until the folder is empty.
+    for (;;) {
+      const { data: avatarFiles, error: avatarListError } = await supabaseAdmin.storage
+        .from(AVATARS_BUCKET)
+        .list(userIdToDelete, { limit: STORAGE_REMOVE_BATCH_SIZE });
+
+      if (avatarListError) {
+        console.error(`Error listing the avatar files of user ${userIdToDelete}:`, avatarListError);
+        throw new HttpError(500, `Storage error: ${avatarListError.message}`);
+      }
+      if (!avatarFiles || avatarFiles.length === 0) break;
+
+      const { data: removedAvatars, error: avatarRemoveError } = await supabaseAdmin.storage
+        .from(AVATARS_BUCKET)
+        .remove(avatarFiles.map((file: { name: string }) => `${userIdToDelete}/${file.name}`));
+      if (avatarRemoveError) {
+        console.error(`Error removing the avatar files of user ${userIdToDelete}:`, avatarRemoveError);
+        throw new HttpError(500, `Storage error: ${avatarRemoveError.message}`);
+      }
+      // Nothing left that can be removed (entries that are not files)
+      if (!removedAvatars || removedAvatars.length === 0) break;
+    }
 
     // Delete the user from auth.users
     // The corresponding profile in public.profiles should be deleted automatically
@@ -69,27 +89,23 @@ serve(async (req: Request) => {
       console.error(`Supabase auth.admin.deleteUser error for user ${userIdToDelete}:`, deleteError);
       // Check if the error is because the user does not exist (e.g., already deleted)
       if (deleteError.message.toLowerCase().includes('user not found')) {
-         return new Response(JSON.stringify({ error: `User not found: ${deleteError.message}` }), {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 404, // Not Found
-        });
+        throw new HttpError(404, `User not found: ${deleteError.message}`);
       }
-      return new Response(JSON.stringify({ error: `Auth error: ${deleteError.message}` }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: deleteError.status || 500,
-      });
+      throw new HttpError(deleteError.status || 500, `Auth error: ${deleteError.message}`);
     }
 
-    return new Response(JSON.stringify({ message: 'User deleted successfully', userId: userIdToDelete }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      status: 200, // OK
-    });
+    // Their topics went with the account and queued their attachment files. The account is gone
+    // whatever happens here: files left in the queue are removed by the next purge.
+    try {
+      const removedFiles = await purgeDeletedAttachmentFiles(supabaseAdmin);
+      console.log(`${removedFiles} attachment file(s) removed after deleting user ${userIdToDelete}.`);
+    } catch (purgeError) {
+      console.error(`Error purging the attachment files of user ${userIdToDelete}:`, purgeError);
+    }
 
+    console.log(`User ${userIdToDelete} deleted by ${caller.user.id}.`);
+    return jsonResponse({ message: 'User deleted successfully', userId: userIdToDelete }, 200);
   } catch (error) {
-    console.error('Unexpected error in Edge Function:', error);
-    return new Response(JSON.stringify({ error: 'Internal server error: ' + error.message }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      status: 500,
-    });
+    return errorResponse(error);
   }
 });
@@ -0,0 +1,31 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import {
+  createAdminClient,
+  errorResponse,
+  handleCors,
+  jsonResponse,
+  requireUser,
+} from '../_shared/admin.ts';
+import { purgeDeletedAttachmentFiles } from '../_shared/attachments.ts';
+
+// Removes the stored files of deleted forum attachments. Called by the app after deleting
+// attachments, topics or sections. Open to any signed-in member: only files whose rows are
+// already gone are queued.
+serve(async (req: Request) => {
+  const preflight = handleCors(req);
+  if (preflight) return preflight;
+
+  try {
+    const supabaseAdmin = createAdminClient();
+    const user = await requireUser(req, supabaseAdmin);
+
+    const removed = await purgeDeletedAttachmentFiles(supabaseAdmin);
+
+    if (removed > 0) {
+      console.log(`${removed} attachment file(s) removed after a call from ${user.id}.`);
+    }
+    return jsonResponse({ removed }, 200);
+  } catch (error) {
+    return errorResponse(error);
+  }
+});
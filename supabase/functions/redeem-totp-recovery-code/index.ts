@@ -0,0 +1,87 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import {
+  createAdminClient,
+  errorResponse,
+  handleCors,
+  HttpError,
+  jsonResponse,
+  readJson,
+  requireUser,
+} from '../_shared/admin.ts';
+
+interface RedeemRecoveryCodePayload {
+  code: string;
+}
+
+// Lost-device recovery: called at login with the password-only (aal1) session. A valid recovery
+// code removes the member's TOTP factors so they can finish signing in and set up a new device.
+// Repeated invalid codes lock redemption for a while.
+serve(async (req: Request) => {
+  const preflight = handleCors(req);
+  if (preflight) return preflight;
+
+  try {
+    const supabaseAdmin = createAdminClient();
+    const user = await requireUser(req, supabaseAdmin);
+
+    const { code } = await readJson<RedeemRecoveryCodePayload>(req);
+    if (!code) {
+      throw new HttpError(400, 'Missing required field: code is required.');
+    }
+
+    // 'valid', 'invalid' or 'locked' (too many invalid codes, see limit_totp_recovery_code_attempts.sql)
+    const { data: outcome, error: consumeError } = await supabaseAdmin.rpc('consume_totp_recovery_code', {
+      p_user_id: user.id,
+      p_code: code,
+    });
+
+    if (consumeError) {
+      console.error(`Error consuming recovery code for user ${user.id}:`, consumeError);
+      throw new HttpError(500, `Recovery code check error: ${consumeError.message}`);
+    }
+    if (outcome === 'locked') {
+      console.warn(`Recovery code submitted by user ${user.id} while locked out.`);
+      throw new HttpError(429, 'Trop de codes de récupération invalides. Réessayez dans 15 minutes.');
+    }
+    if (outcome !== 'valid') {
+      console.warn(`Invalid recovery code submitted by user ${user.id}.`);
+      throw new HttpError(400, 'Code de récupération invalide ou déjà utilisé.');
+    }
+
+    const { data: factorsData, error: factorsError } = await supabaseAdmin.auth.admin.mfa.listFactors({ userId: user.id });
+    if (factorsError) {
+      console.error(`Supabase auth.admin.mfa.listFactors error for user ${user.id}:`, factorsError);
+      throw new HttpError(500, `Auth error: ${factorsError.message}`);
+    }
+
+    for (const factor of factorsData.factors.filter(f => f.factor_type === 'totp')) {
+      const { error: deleteError } = await supabaseAdmin.auth.admin.mfa.deleteFactor({ id: factor.id, userId: user.id });
+      if (deleteError) {
+        console.error(`Supabase auth.admin.mfa.deleteFactor error for factor ${factor.id}:`, deleteError);
+        throw new HttpError(500, `Auth error: ${deleteError.message}`);
+      }
+    }
+
+    // Without a factor, the remaining codes are useless: a new set comes with the next TOTP setup
+    const { error: profileError } = await supabaseAdmin
+      .from('profiles')
+      .update({ is_totp_enabled: false })
+      .eq('id', user.id);
+    if (profileError) {
+      console.error(`Error clearing is_totp_enabled for user ${user.id}:`, profileError);
+    }
+
+    const { error: cleanupError } = await supabaseAdmin
+      .from('totp_recovery_codes')
+      .delete()
+      .eq('user_id', user.id);
+    if (cleanupError) {
+      console.error(`Error deleting recovery codes of user ${user.id}:`, cleanupError);
+    }
+
+    console.log(`Recovery code redeemed by user ${user.id}, TOTP factors removed.`);
+    return jsonResponse({ message: 'Recovery code accepted, TOTP disabled', userId: user.id }, 200);
+  } catch (error) {
+    return errorResponse(error);
+  }
+});
@@ -0,0 +1,110 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import {
+  createAdminClient,
+  errorResponse,
+  handleCors,
+  HttpError,
+  jsonResponse,
+  readJson,
+  requirePermission,
+} from '../_shared/admin.ts';
+import { roleRank } from '../_shared/roles.ts';
+
+type ResetMode = 'link' | 'temporary_password';
+
+interface ResetPasswordPayload {
+  userId: string;
+  mode: ResetMode;
+  redirectTo?: string; // Page the reset link opens, for the 'link' mode
+}
+
+const TEMPORARY_PASSWORD_LENGTH = 14;
+// No look-alike characters (0/O, 1/l/I) since the password is read out to the member
+const TEMPORARY_PASSWORD_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz23456789';
+
+const generateTemporaryPassword = (): string => {
+  const bytes = crypto.getRandomValues(new Uint32Array(TEMPORARY_PASSWORD_LENGTH));
+  return Array.from(bytes, byte => TEMPORARY_PASSWORD_ALPHABET[byte % TEMPORARY_PASSWORD_ALPHABET.length]).join('');
+};
+
+serve(async (req: Request) => {
+  const preflight = handleCors(req);
+  if (preflight) return preflight;
+
+  try {
+    const supabaseAdmin = createAdminClient();
+    const caller = await requirePermission(req, supabaseAdmin, 'user.edit');
+
+    const { userId, mode, redirectTo } = await readJson<ResetPasswordPayload>(req);
+
+    if (!userId || !mode) {
+      throw new HttpError(400, 'Missing required fields: userId and mode are required.');
+    }
+    if (mode !== 'link' && mode !== 'temporary_password') {
+      throw new HttpError(400, `Invalid mode: ${mode}. Expected 'link' or 'temporary_password'.`);
+    }
+
+    const { data: targetProfile, error: targetError } = await supabaseAdmin
+      .from('profiles')
+      .select('role')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (targetError) {
+      console.error(`Error fetching profile of user ${userId}:`, targetError);
+      throw new HttpError(500, `Profile lookup error: ${targetError.message}`);
+    }
+
+    // Same rule as `decide_user_approval()`: only members ranked strictly below the caller
+    if (!targetProfile) {
+      throw new HttpError(404, `User not found: ${userId}`);
+    }
+    if (roleRank(targetProfile.role) >= roleRank(caller.role)) {
+      throw new HttpError(403, 'Vous ne pouvez pas réinitialiser le mot de passe d\'un membre dont le rôle est égal ou supérieur au vôtre.');
+    }
+
+    const { data: { user: targetUser }, error: getUserError } = await supabaseAdmin.auth.admin.getUserById(userId);
+    if (getUserError || !targetUser) {
+      console.error(`Supabase auth.admin.getUserById error for user ${userId}:`, getUserError);
+      throw new HttpError(404, `User not found: ${getUserError?.message ?? userId}`);
+    }
+
+    if (mode === 'link') {
+      if (!targetUser.email) {
+        throw new HttpError(400, 'Ce compte n\'a pas d\'adresse e-mail.');
+      }
+
+      const { error: resetError } = await supabaseAdmin.auth.resetPasswordForEmail(targetUser.email, { redirectTo });
+      if (resetError) {
+        console.error(`Supabase resetPasswordForEmail error for user ${userId}:`, resetError);
+        throw new HttpError(resetError.status || 500, `Auth error: ${resetError.message}`);
+      }
+
+      console.log(`Password reset link sent to user ${userId} by ${caller.user.id}.`);
+      return jsonResponse({ message: 'Password reset link sent', userId, email: targetUser.email }, 200);
+    }
+
+    // Set the password first: changing it clears `must_change_password` (see add_forced_password_change.sql)
+    const temporaryPassword = generateTemporaryPassword();
+    const { error: updateError } = await supabaseAdmin.auth.admin.updateUserById(userId, { password: temporaryPassword });
+    if (updateError) {
+      console.error(`Supabase auth.admin.updateUserById error for user ${userId}:`, updateError);
+      throw new HttpError(updateError.status || 500, `Auth error: ${updateError.message}`);
+    }
+
+    const { error: flagError } = await supabaseAdmin
+      .from('profiles')
+      .update({ must_change_password: true })
+      .eq('id', userId);
+
+    if (flagError) {
+      console.error(`Error flagging user ${userId} for a password change:`, flagError);
+      throw new HttpError(500, `Profile update error: ${flagError.message}`);
+    }
+
+    console.log(`Temporary password set for user ${userId} by ${caller.user.id}.`);
+    return jsonResponse({ message: 'Temporary password set', userId, temporaryPassword }, 200);
+  } catch (error) {
+    return errorResponse(error);
+  }
+});
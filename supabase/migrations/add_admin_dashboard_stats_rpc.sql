@@ -0,0 +1,98 @@
+/*
+  # Admin Dashboard Statistics
+
+  Replaces the placeholder figures of `/admin` with real counts, computed in a
+  single round trip.
+
+  1. New Functions
+     - `public.get_admin_dashboard_stats(p_days integer)`:
+       - Returns a `jsonb` object:
+         - `users`, `topics`, `replies`: `{ total, today, yesterday, month, previous_month }`
+           where `today` / `yesterday` count the rows created on that calendar day, `month`
+           counts the current month up to now and `previous_month` the same span of the
+           previous month, so both deltas compare like with like.
+         - `pending_approval_users`: profiles waiting for approval.
+         - `categories`: number of forum sections.
+         - `timeline`: one `{ day, signups, topics, replies }` entry per day over the last
+           `p_days` days (default 30, at most 365), oldest first, days without activity included.
+       - `SECURITY DEFINER` so that sections restricted by role are counted too; the caller
+         must be a MODERATOR or above (same audience as the admin area).
+
+  2. Important Notes
+     - Days and months follow the time zone of the database session (UTC on Supabase).
+*/
+
+CREATE OR REPLACE FUNCTION public.get_admin_dashboard_stats(p_days integer DEFAULT 30)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  today_start timestamptz := date_trunc('day', now());
+  yesterday_start timestamptz := date_trunc('day', now()) - interval '1 day';
+  month_start timestamptz := date_trunc('month', now());
+  previous_month_start timestamptz := date_trunc('month', now()) - interval '1 month';
+  -- Same elapsed time into the previous month, capped at its end
+  previous_month_end timestamptz := LEAST(
+    date_trunc('month', now()) - interval '1 month' + (now() - date_trunc('month', now())),
+    date_trunc('month', now())
+  );
+  days integer := LEAST(GREATEST(COALESCE(p_days, 30), 1), 365);
+  result jsonb;
+BEGIN
+  IF NOT public.current_user_has_role('MODERATOR') THEN
+    RAISE EXCEPTION 'Only moderators and administrators can read the dashboard statistics.';
+  END IF;
+
+  WITH activity AS (
+    SELECT 'users' AS kind, created_at FROM public.profiles
+    UNION ALL
+    SELECT 'topics', created_at FROM public.forum_posts
+    UNION ALL
+    SELECT 'replies', created_at FROM public.forum_replies
+  ),
+  totals AS (
+    SELECT
+      kind,
+      jsonb_build_object(
+        'total', count(*),
+        'today', count(*) FILTER (WHERE created_at >= today_start),
+        'yesterday', count(*) FILTER (WHERE created_at >= yesterday_start AND created_at < today_start),
+        'month', count(*) FILTER (WHERE created_at >= month_start),
+        'previous_month', count(*) FILTER (WHERE created_at >= previous_month_start AND created_at < previous_month_end)
+      ) AS figures
+    FROM activity
+    GROUP BY kind
+  ),
+  timeline AS (
+    SELECT
+      d.day::date AS day,
+      count(a.created_at) FILTER (WHERE a.kind = 'users') AS signups,
+      count(a.created_at) FILTER (WHERE a.kind = 'topics') AS topics,
+      count(a.created_at) FILTER (WHERE a.kind = 'replies') AS replies
+    FROM generate_series(today_start - (days - 1) * interval '1 day', today_start, interval '1 day') AS d(day)
+    LEFT JOIN activity a
+      ON a.created_at >= d.day AND a.created_at < d.day + interval '1 day'
+    GROUP BY d.day
+  )
+  SELECT jsonb_build_object(
+    'users', COALESCE((SELECT figures FROM totals WHERE kind = 'users'), '{}'::jsonb),
+    'topics', COALESCE((SELECT figures FROM totals WHERE kind = 'topics'), '{}'::jsonb),
+    'replies', COALESCE((SELECT figures FROM totals WHERE kind = 'replies'), '{}'::jsonb),
+    'pending_approval_users', (SELECT count(*) FROM public.profiles WHERE status = 'pending_approval'),
+    'categories', (SELECT count(*) FROM public.forum_categories),
+    'timeline', COALESCE(
+      (SELECT jsonb_agg(jsonb_build_object('day', day, 'signups', signups, 'topics', topics, 'replies', replies) ORDER BY day)
+       FROM timeline),
+      '[]'::jsonb
+    )
+  )
+  INTO result;
+
+  RETURN result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_admin_dashboard_stats(integer) TO authenticated;
@@ -0,0 +1,245 @@
+/*
+  # Approval Workflow
+
+  Moderators review pending signups from an approvals queue and approve or reject them with a
+  note. A rejection reason is stored on the profile and shown to the applicant at login. Every
+  change of `profiles.status`, whatever its origin (queue, user edit dialog), is recorded with
+  who made it and when.
+
+  1. Modified Tables
+     - `profiles`: new `rejection_reason` (text), cleared when the status leaves `rejected`.
+
+  2. New Tables
+     - `approval_decisions`
+       - `id` (uuid, primary key)
+       - `user_id` (uuid, references `profiles`, cascade delete)
+       - `decision` (text, the new status: `approved`, `rejected` or `pending_approval`)
+       - `note` (text, optional; the rejection reason for a rejection)
+       - `decided_by` (uuid, references `profiles`, set null on delete; null for the service role)
+       - `decided_at` (timestamptz)
+
+  3. New Functions
+     - `public.sync_profile_rejection_reason()` (trigger, BEFORE UPDATE OF status on `profiles`).
+     - `public.record_approval_decision()` (trigger, AFTER UPDATE OF status on `profiles`). The note
+       is read from the transaction setting `app.approval_note`, set by `decide_user_approval()`.
+     - `public.decide_user_approval(p_user_id uuid, p_decision text, p_note text)`: approves or
+       rejects a member. Requires `user.approve` and `staff_mfa_satisfied()`; the target must rank
+       below the caller, and a rejection needs a note.
+     - `public.get_pending_approvals()`: signup data of the members awaiting approval.
+     - `public.get_approval_decisions(p_limit integer)`: latest decisions, with usernames.
+
+  4. Permissions
+     - `role_permissions`: `user.approve` is now granted from MODERATOR, mirroring
+       `supabase/functions/_shared/permissions.ts`.
+
+  5. Security
+     - RLS on `approval_decisions`: read by holders of `user.approve`, written by the trigger only.
+*/
+
+-- 1. Registry: `user.approve` from MODERATOR
+UPDATE public.role_permissions SET granted_from = 'MODERATOR' WHERE permission = 'user.approve';
+
+-- 2. Tables
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS rejection_reason text;
+
+CREATE TABLE IF NOT EXISTS public.approval_decisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  decision text NOT NULL CHECK (decision IN ('approved', 'rejected', 'pending_approval')),
+  note text,
+  decided_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  decided_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS approval_decisions_user_id_idx ON public.approval_decisions (user_id);
+CREATE INDEX IF NOT EXISTS approval_decisions_decided_at_idx ON public.approval_decisions (decided_at DESC);
+
+ALTER TABLE public.approval_decisions ENABLE ROW LEVEL SECURITY;
+
+-- 3. Status triggers
+CREATE OR REPLACE FUNCTION public.sync_profile_rejection_reason()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM 'rejected' THEN
+    NEW.rejection_reason := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_profile_rejection_reason ON public.profiles;
+CREATE TRIGGER sync_profile_rejection_reason
+  BEFORE UPDATE OF status ON public.profiles
+  FOR EACH ROW
+  EXECUTE PROCEDURE public.sync_profile_rejection_reason();
+
+CREATE OR REPLACE FUNCTION public.record_approval_decision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.approval_decisions (user_id, decision, note, decided_by)
+  VALUES (
+    NEW.id,
+    NEW.status,
+    COALESCE(NULLIF(current_setting('app.approval_note', true), ''), NEW.rejection_reason),
+    auth.uid()
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_approval_decision ON public.profiles;
+CREATE TRIGGER record_approval_decision
+  AFTER UPDATE OF status ON public.profiles
+  FOR EACH ROW
+  WHEN (NEW.status IS DISTINCT FROM OLD.status)
+  EXECUTE PROCEDURE public.record_approval_decision();
+
+-- 4. Decisions from the approvals queue
+CREATE OR REPLACE FUNCTION public.decide_user_approval(p_user_id uuid, p_decision text, p_note text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_note text := NULLIF(btrim(COALESCE(p_note, '')), '');
+  v_target_role text;
+BEGIN
+  IF NOT public.has_permission('user.approve') THEN
+    RAISE EXCEPTION 'Permission denied.';
+  END IF;
+
+  IF NOT public.staff_mfa_satisfied() THEN
+    RAISE EXCEPTION 'Please verify your session with your authenticator app first.';
+  END IF;
+
+  IF p_decision NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Invalid decision: %.', p_decision;
+  END IF;
+
+  IF p_decision = 'rejected' AND v_note IS NULL THEN
+    RAISE EXCEPTION 'A rejection reason is required.';
+  END IF;
+
+  IF p_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot decide on your own account.';
+  END IF;
+
+  SELECT role::text INTO v_target_role FROM public.profiles WHERE id = p_user_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found.';
+  END IF;
+
+  IF public.role_rank(v_target_role) >= public.role_rank(public.get_current_user_role()) THEN
+    RAISE EXCEPTION 'You cannot decide on a member whose role is equal to or higher than yours.';
+  END IF;
+
+  PERFORM set_config('app.approval_note', COALESCE(v_note, ''), true);
+
+  UPDATE public.profiles
+  SET status = p_decision,
+      rejection_reason = CASE WHEN p_decision = 'rejected' THEN v_note END
+  WHERE id = p_user_id;
+
+  PERFORM set_config('app.approval_note', '', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.decide_user_approval(uuid, text, text) TO authenticated;
+
+-- 5. Queue and history
+CREATE OR REPLACE FUNCTION public.get_pending_approvals()
+RETURNS TABLE (
+  id uuid,
+  username text,
+  full_name text,
+  email text,
+  email_confirmed_at timestamptz,
+  created_at timestamptz,
+  previous_rejection_reason text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission('user.approve') THEN
+    RAISE EXCEPTION 'Permission denied.';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.username::text,
+    p.full_name::text,
+    u.email::text,
+    u.email_confirmed_at,
+    u.created_at,
+    (SELECT d.note FROM public.approval_decisions d
+     WHERE d.user_id = p.id AND d.decision = 'rejected'
+     ORDER BY d.decided_at DESC LIMIT 1)
+  FROM public.profiles p
+  JOIN auth.users u ON u.id = p.id
+  WHERE p.status = 'pending_approval'
+  ORDER BY u.created_at ASC;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_approval_decisions(p_limit integer DEFAULT 50)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  username text,
+  decision text,
+  note text,
+  decided_by uuid,
+  decided_by_username text,
+  decided_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission('user.approve') THEN
+    RAISE EXCEPTION 'Permission denied.';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    d.id,
+    d.user_id,
+    applicant.username::text,
+    d.decision,
+    d.note,
+    d.decided_by,
+    decider.username::text,
+    d.decided_at
+  FROM public.approval_decisions d
+  LEFT JOIN public.profiles applicant ON applicant.id = d.user_id
+  LEFT JOIN public.profiles decider ON decider.id = d.decided_by
+  ORDER BY d.decided_at DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 50), 1), 200);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_pending_approvals() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_approval_decisions(integer) TO authenticated;
+
+-- 6. Policies
+DROP POLICY IF EXISTS "Approvers can view approval decisions" ON public.approval_decisions;
+CREATE POLICY "Approvers can view approval decisions"
+ON public.approval_decisions
+FOR SELECT
+TO authenticated
+USING (public.has_permission('user.approve'));
@@ -0,0 +1,117 @@
+/*
+  # Category Topic Listing
+
+  This migration backs the `/forum/categorie/:categorySlug` page, which lists the
+  topics (`forum_posts`) of a category with their author, reply count and last activity.
+
+  1. New Functions
+     - `public.is_approved_member()`:
+       - Returns `true` when the caller (`auth.uid()`) has an approved profile.
+       - `SECURITY DEFINER` so it can be used inside `profiles` policies without
+         triggering RLS recursion (see `fix_profiles_rls_recursion.sql`).
+     - `public.get_category_topics(p_category_id uuid, p_sort text, p_limit int, p_offset int)`:
+       - Returns one page of topics for a category, joined with the author's profile.
+       - `p_sort` accepts `'newest'` (creation date) or `'active'` (reply count, then last activity).
+       - Every row carries `total_count`, the number of topics in the category, for pagination.
+       - `SECURITY INVOKER`: the RLS policies of `forum_posts` and `profiles` still apply.
+
+  2. Security (RLS)
+     - `public.profiles`:
+       - New SELECT policy "Profiles: Approved members can view approved profiles".
+         Approved members need the username and avatar of other approved members to
+         display topic authors (and to open `/profil/:userId`). Until now only the
+         owner and admins could read a profile row.
+
+  3. Important Notes
+     - No replies table exists yet: `reply_count` is always 0 and `last_activity_at`
+       falls back to the topic's own timestamps. The function will be replaced once
+       replies are introduced.
+*/
+
+-- 1. Helper: is the caller an approved member?
+CREATE OR REPLACE FUNCTION public.is_approved_member()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles WHERE id = auth.uid() AND status = 'approved'
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_approved_member() TO authenticated;
+
+-- 2. Let approved members read the profiles of other approved members
+DROP POLICY IF EXISTS "Profiles: Approved members can view approved profiles" ON public.profiles;
+CREATE POLICY "Profiles: Approved members can view approved profiles"
+ON public.profiles
+FOR SELECT
+TO authenticated
+USING (
+  status = 'approved' AND public.is_approved_member()
+);
+
+-- 3. Paginated topic listing for a category
+CREATE OR REPLACE FUNCTION public.get_category_topics(
+  p_category_id uuid,
+  p_sort text DEFAULT 'newest',
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  author_id uuid,
+  author_username text,
+  author_full_name text,
+  author_avatar_url text,
+  reply_count bigint,
+  last_activity_at timestamptz,
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH topics AS (
+    SELECT
+      fp.id,
+      fp.title,
+      fp.created_at,
+      fp.updated_at,
+      fp.user_id AS author_id,
+      0::bigint AS reply_count, -- No replies table yet
+      GREATEST(fp.created_at, fp.updated_at) AS last_activity_at
+    FROM public.forum_posts fp
+    WHERE fp.category_id = p_category_id
+  )
+  SELECT
+    t.id,
+    t.title,
+    t.created_at,
+    t.updated_at,
+    t.author_id,
+    p.username::text,
+    p.full_name::text,
+    p.avatar_url::text,
+    t.reply_count,
+    t.last_activity_at,
+    count(*) OVER () AS total_count
+  FROM topics t
+  LEFT JOIN public.profiles p ON p.id = t.author_id
+  ORDER BY
+    CASE WHEN p_sort = 'active' THEN t.reply_count END DESC NULLS LAST,
+    CASE WHEN p_sort = 'active' THEN t.last_activity_at END DESC NULLS LAST,
+    t.created_at DESC
+  LIMIT GREATEST(p_limit, 1)
+  OFFSET GREATEST(p_offset, 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_category_topics(uuid, text, integer, integer) TO authenticated;
+
+COMMENT ON FUNCTION public.get_category_topics(uuid, text, integer, integer) IS 'Paginated list of the topics of a forum category with author, reply count and last activity. Sort: newest | active.';
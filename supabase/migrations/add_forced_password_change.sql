@@ -0,0 +1,66 @@
+/*
+  # Forced Password Change
+
+  An administrator can give a member a temporary password (Edge Function
+  `reset-user-password-admin`). The account is then flagged and the member must choose a new
+  password at their next login, before reaching the rest of the site.
+
+  1. New Columns
+     - `profiles.must_change_password` (boolean, NOT NULL, default false)
+
+  2. New Functions
+     - `public.protect_must_change_password()` (trigger on `profiles`): a signed-in member
+       cannot set or clear the flag on their own. Administrators (`user.edit`), the service
+       role and Supabase Auth itself can.
+     - `public.clear_must_change_password()` (trigger on `auth.users`): clears the flag as soon
+       as the member's password changes. The Edge Function sets the temporary password first,
+       then the flag, so its own password change does not clear it.
+*/
+
+-- 1. Column
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS must_change_password boolean NOT NULL DEFAULT false;
+
+-- 2. Members cannot clear the flag themselves
+CREATE OR REPLACE FUNCTION public.protect_must_change_password()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.must_change_password IS DISTINCT FROM OLD.must_change_password
+     AND auth.role() = 'authenticated'
+     AND NOT public.has_permission('user.edit') THEN
+    RAISE EXCEPTION 'Only administrators can change the forced password change flag.';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_must_change_password ON public.profiles;
+CREATE TRIGGER protect_must_change_password
+  BEFORE UPDATE OF must_change_password ON public.profiles
+  FOR EACH ROW
+  EXECUTE PROCEDURE public.protect_must_change_password();
+
+-- 3. A new password clears the flag
+CREATE OR REPLACE FUNCTION public.clear_must_change_password()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.profiles
+  SET must_change_password = false
+  WHERE id = NEW.id AND must_change_password;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS clear_must_change_password ON auth.users;
+CREATE TRIGGER clear_must_change_password
+  AFTER UPDATE OF encrypted_password ON auth.users
+  FOR EACH ROW
+  WHEN (NEW.encrypted_password IS DISTINCT FROM OLD.encrypted_password)
+  EXECUTE PROCEDURE public.clear_must_change_password();
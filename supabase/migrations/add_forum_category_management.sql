@@ -0,0 +1,64 @@
+/*
+  # Forum Section Management
+
+  Backs the admin page `/admin/sections`, which creates, edits and deletes the
+  sections of the forum (`forum_categories`). Create and edit go through the
+  "Allow admins to manage categories" policy (see `unify_forum_schema.sql`).
+
+  1. New Functions
+     - `public.delete_forum_category(p_category_id uuid, p_target_category_id uuid)`:
+       - Deletes a section. When `p_target_category_id` is given, the topics of the
+         section are first moved to that section; otherwise they are deleted with it
+         (`ON DELETE CASCADE`).
+       - `SECURITY DEFINER`: moving topics updates rows owned by other members, which
+         the `forum_posts` policies do not allow. The function checks itself that the
+         caller is an ADMIN or SUPER_ADMIN.
+       - Returns the number of topics that were moved.
+
+  2. Important Notes
+     - Slugs are generated from the title by the admin page; the `UNIQUE` constraint on
+       `forum_categories.slug` remains the final guarantee.
+*/
+
+CREATE OR REPLACE FUNCTION public.delete_forum_category(
+  p_category_id uuid,
+  p_target_category_id uuid DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  moved_count integer := 0;
+BEGIN
+  IF lower(COALESCE(public.get_current_user_role()::text, '')) NOT IN ('admin', 'super_admin') THEN
+    RAISE EXCEPTION 'Only administrators can delete forum sections.';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.forum_categories WHERE id = p_category_id) THEN
+    RAISE EXCEPTION 'Forum section % does not exist.', p_category_id;
+  END IF;
+
+  IF p_target_category_id IS NOT NULL THEN
+    IF p_target_category_id = p_category_id THEN
+      RAISE EXCEPTION 'Topics cannot be moved to the section being deleted.';
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM public.forum_categories WHERE id = p_target_category_id) THEN
+      RAISE EXCEPTION 'Target forum section % does not exist.', p_target_category_id;
+    END IF;
+
+    UPDATE public.forum_posts
+    SET category_id = p_target_category_id
+    WHERE category_id = p_category_id;
+    GET DIAGNOSTICS moved_count = ROW_COUNT;
+  END IF;
+
+  DELETE FROM public.forum_categories WHERE id = p_category_id;
+
+  RETURN moved_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.delete_forum_category(uuid, uuid) TO authenticated;
@@ -0,0 +1,105 @@
+/*
+  # Forum Section Ordering and Nesting
+
+  Lets administrators choose the order of the forum sections and group them
+  under a parent section, by dragging them in `/admin/sections`. ForumPage renders
+  the sections in that order.
+
+  1. Table Modifications
+     - `public.forum_categories`:
+       - `parent_id` (uuid, nullable, foreign key): References `forum_categories.id`.
+         `NULL` for a top-level section. Deleting a parent turns its subsections into
+         top-level sections (`ON DELETE SET NULL`).
+       - `position` (integer, default 0): Order of the section among its siblings.
+     - Existing sections are numbered alphabetically, with "Annonces Internes" first.
+
+  2. Constraints
+     - A section cannot be its own parent.
+     - Only one level of nesting: the parent must be a top-level section and a section
+       holding subsections cannot become a subsection. Checked by a deferred constraint
+       trigger so that a whole new layout can be saved in one transaction.
+
+  3. New Functions
+     - `public.reorder_forum_categories(p_layout jsonb)`:
+       - `p_layout` is an array of `{ "id", "parent_id", "position" }` objects.
+       - Applies the whole layout at once. ADMIN or SUPER_ADMIN only.
+       - `SECURITY INVOKER`: the "Allow admins to manage categories" policy applies.
+*/
+
+-- 1. New columns
+ALTER TABLE public.forum_categories
+  ADD COLUMN IF NOT EXISTS parent_id uuid REFERENCES public.forum_categories(id) ON DELETE SET NULL;
+ALTER TABLE public.forum_categories
+  ADD COLUMN IF NOT EXISTS position integer NOT NULL DEFAULT 0;
+
+ALTER TABLE public.forum_categories DROP CONSTRAINT IF EXISTS forum_categories_not_own_parent;
+ALTER TABLE public.forum_categories
+  ADD CONSTRAINT forum_categories_not_own_parent CHECK (parent_id IS NULL OR parent_id <> id);
+
+CREATE INDEX IF NOT EXISTS idx_forum_categories_parent_position ON public.forum_categories(parent_id, position);
+
+-- Initial order: internal announcements first, then alphabetical (only while no order was set)
+WITH ordered AS (
+  SELECT id, row_number() OVER (ORDER BY (slug = 'annonces-internes') DESC, name ASC) - 1 AS new_position
+  FROM public.forum_categories
+)
+UPDATE public.forum_categories c
+SET position = o.new_position
+FROM ordered o
+WHERE c.id = o.id
+  AND NOT EXISTS (SELECT 1 FROM public.forum_categories WHERE position <> 0);
+
+-- 2. One level of nesting only
+CREATE OR REPLACE FUNCTION public.check_forum_category_depth()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL THEN
+    IF EXISTS (
+      SELECT 1 FROM public.forum_categories
+      WHERE id = NEW.parent_id AND parent_id IS NOT NULL
+    ) THEN
+      RAISE EXCEPTION 'A subsection cannot contain other sections.';
+    END IF;
+    IF EXISTS (
+      SELECT 1 FROM public.forum_categories
+      WHERE parent_id = NEW.id
+    ) THEN
+      RAISE EXCEPTION 'A section holding subsections cannot become a subsection.';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_forum_category_depth ON public.forum_categories;
+CREATE CONSTRAINT TRIGGER check_forum_category_depth
+  AFTER INSERT OR UPDATE OF parent_id ON public.forum_categories
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE PROCEDURE public.check_forum_category_depth();
+
+-- 3. Save a whole layout
+CREATE OR REPLACE FUNCTION public.reorder_forum_categories(p_layout jsonb)
+RETURNS void
+LANGUAGE plpgsql
+VOLATILE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF lower(COALESCE(public.get_current_user_role()::text, '')) NOT IN ('admin', 'super_admin') THEN
+    RAISE EXCEPTION 'Only administrators can reorder forum sections.';
+  END IF;
+
+  UPDATE public.forum_categories c
+  SET parent_id = l.parent_id,
+      position = l.position
+  FROM jsonb_to_recordset(p_layout) AS l(id uuid, parent_id uuid, position integer)
+  WHERE c.id = l.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reorder_forum_categories(jsonb) TO authenticated;
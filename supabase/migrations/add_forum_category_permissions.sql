@@ -0,0 +1,173 @@
+/*
+  # Per-Section Forum Permissions
+
+  Until now every authenticated user could read every section and post anywhere.
+  Each section (`forum_categories`) now carries the minimum role needed to read it,
+  to open a topic in it and to reply to its topics. Roles are ranked
+  USER < MODERATOR < ADMIN < SUPER_ADMIN.
+
+  1. Table Modifications
+     - `public.forum_categories`:
+       - `min_read_role` (text, default 'USER'): Minimum role to see the section and its topics.
+       - `min_post_role` (text, default 'USER'): Minimum role to create a topic in the section.
+       - `min_reply_role` (text, default 'USER'): Minimum role to reply to a topic of the section.
+     - "Annonces Internes" (`annonces-internes`) is restricted to ADMIN for new topics.
+
+  2. New Functions
+     - `public.role_rank(p_role text)`: 1 for USER up to 4 for SUPER_ADMIN, 0 for anything
+       else. Case-insensitive, as `profiles.role` holds both casings depending on history.
+     - `public.current_user_has_role(p_min_role text)`: `true` when the caller's role ranks
+       at least `p_min_role`. `SECURITY DEFINER` to read `profiles` without RLS recursion.
+     - `public.can_access_forum_category(p_category_id uuid, p_action text)`: checks the
+       `'read'`, `'post'` or `'reply'` minimum role of a section for the caller. Reading
+       rights are always required as well. `SECURITY DEFINER`.
+
+  3. Row Level Security (RLS)
+     - `forum_categories`: SELECT limited to sections the caller can read.
+     - `forum_posts`: SELECT limited to readable sections; INSERT and UPDATE require the
+       right to post in the (target) section.
+     - `forum_replies`: SELECT limited to topics of readable sections; INSERT requires the
+       right to reply (and an unlocked topic).
+     - The "Allow admins to manage categories" policy is unchanged: admins still see and
+       manage every section.
+*/
+
+-- 1. Minimum roles per section
+ALTER TABLE public.forum_categories ADD COLUMN IF NOT EXISTS min_read_role text NOT NULL DEFAULT 'USER';
+ALTER TABLE public.forum_categories ADD COLUMN IF NOT EXISTS min_post_role text NOT NULL DEFAULT 'USER';
+ALTER TABLE public.forum_categories ADD COLUMN IF NOT EXISTS min_reply_role text NOT NULL DEFAULT 'USER';
+
+ALTER TABLE public.forum_categories DROP CONSTRAINT IF EXISTS forum_categories_min_roles_check;
+ALTER TABLE public.forum_categories
+  ADD CONSTRAINT forum_categories_min_roles_check CHECK (
+    min_read_role IN ('USER', 'MODERATOR', 'ADMIN', 'SUPER_ADMIN')
+    AND min_post_role IN ('USER', 'MODERATOR', 'ADMIN', 'SUPER_ADMIN')
+    AND min_reply_role IN ('USER', 'MODERATOR', 'ADMIN', 'SUPER_ADMIN')
+  );
+
+UPDATE public.forum_categories
+SET min_post_role = 'ADMIN'
+WHERE slug = 'annonces-internes'
+  AND min_post_role = 'USER';
+
+-- 2. Role helpers
+CREATE OR REPLACE FUNCTION public.role_rank(p_role text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE upper(p_role)
+    WHEN 'USER' THEN 1
+    WHEN 'MODERATOR' THEN 2
+    WHEN 'ADMIN' THEN 3
+    WHEN 'SUPER_ADMIN' THEN 4
+    ELSE 0
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.current_user_has_role(p_min_role text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT public.role_rank(role::text) >= public.role_rank(p_min_role)
+     FROM public.profiles
+     WHERE id = auth.uid()),
+    false
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_access_forum_category(p_category_id uuid, p_action text DEFAULT 'read')
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT public.current_user_has_role(c.min_read_role)
+        AND CASE p_action
+              WHEN 'read' THEN true
+              WHEN 'post' THEN public.current_user_has_role(c.min_post_role)
+              WHEN 'reply' THEN public.current_user_has_role(c.min_reply_role)
+              ELSE false
+            END
+     FROM public.forum_categories c
+     WHERE c.id = p_category_id),
+    false
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.role_rank(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.current_user_has_role(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.can_access_forum_category(uuid, text) TO authenticated;
+
+-- 3. forum_categories
+DROP POLICY IF EXISTS "Allow authenticated users to read categories" ON public.forum_categories;
+CREATE POLICY "Allow authenticated users to read categories"
+ON public.forum_categories
+FOR SELECT
+TO authenticated
+USING (public.current_user_has_role(min_read_role));
+
+-- 4. forum_posts
+DROP POLICY IF EXISTS "Allow authenticated users to read posts" ON public.forum_posts;
+CREATE POLICY "Allow authenticated users to read posts"
+ON public.forum_posts
+FOR SELECT
+TO authenticated
+USING (public.can_access_forum_category(category_id, 'read'));
+
+DROP POLICY IF EXISTS "Users can insert their own posts" ON public.forum_posts;
+CREATE POLICY "Users can insert their own posts"
+ON public.forum_posts
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND public.can_access_forum_category(category_id, 'post')
+);
+
+DROP POLICY IF EXISTS "Users can update their own posts" ON public.forum_posts;
+CREATE POLICY "Users can update their own posts"
+ON public.forum_posts
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND public.can_access_forum_category(category_id, 'post')
+);
+
+-- 5. forum_replies
+DROP POLICY IF EXISTS "Allow authenticated users to read replies" ON public.forum_replies;
+CREATE POLICY "Allow authenticated users to read replies"
+ON public.forum_replies
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.forum_posts fp
+    WHERE fp.id = post_id
+      AND public.can_access_forum_category(fp.category_id, 'read')
+  )
+);
+
+DROP POLICY IF EXISTS "Users can insert their own replies" ON public.forum_replies;
+CREATE POLICY "Users can insert their own replies"
+ON public.forum_replies
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.forum_posts fp
+    WHERE fp.id = post_id
+      AND NOT fp.is_locked
+      AND public.can_access_forum_category(fp.category_id, 'reply')
+  )
+);
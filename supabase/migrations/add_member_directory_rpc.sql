@@ -0,0 +1,83 @@
+/*
+  # Member Directory
+
+  Lists the approved members for the `/membres` page, with their number of messages.
+
+  1. New Functions
+     - `public.get_member_directory(p_search, p_sort, p_limit, p_offset)`:
+       - `p_search`: matched against the username and full name (case-insensitive).
+       - `p_sort`: `alphabetical` (default), `most_active` (most messages first) or
+         `recently_active` (latest message first).
+       - Returns `post_count` (topics and replies written), `last_post_at` and `total_count`
+         (number of matching members, same value on every row).
+       - Only callable by approved members.
+*/
+
+CREATE OR REPLACE FUNCTION public.get_member_directory(
+  p_search text DEFAULT NULL,
+  p_sort text DEFAULT 'alphabetical',
+  p_limit integer DEFAULT 24,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  username text,
+  full_name text,
+  avatar_url text,
+  role text,
+  created_at timestamptz,
+  post_count bigint,
+  last_post_at timestamptz,
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_search text := NULLIF(btrim(COALESCE(p_search, '')), '');
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE profiles.id = auth.uid() AND profiles.status = 'approved') THEN
+    RAISE EXCEPTION 'Only approved members can browse the member directory.';
+  END IF;
+
+  RETURN QUERY
+  WITH activity AS (
+    SELECT messages.user_id, count(*) AS post_count, max(messages.created_at) AS last_post_at
+    FROM (
+      SELECT fp.user_id, fp.created_at FROM public.forum_posts fp
+      UNION ALL
+      SELECT fr.user_id, fr.created_at FROM public.forum_replies fr
+    ) messages
+    GROUP BY messages.user_id
+  )
+  SELECT
+    p.id,
+    p.username::text,
+    p.full_name::text,
+    p.avatar_url::text,
+    p.role::text,
+    p.created_at,
+    COALESCE(a.post_count, 0),
+    a.last_post_at,
+    count(*) OVER () AS total_count
+  FROM public.profiles p
+  LEFT JOIN activity a ON a.user_id = p.id
+  WHERE p.status = 'approved'
+    AND (
+      v_search IS NULL
+      OR p.username ILIKE '%' || v_search || '%'
+      OR p.full_name ILIKE '%' || v_search || '%'
+    )
+  ORDER BY
+    CASE WHEN p_sort = 'most_active' THEN COALESCE(a.post_count, 0) END DESC,
+    CASE WHEN p_sort = 'recently_active' THEN a.last_post_at END DESC NULLS LAST,
+    lower(COALESCE(p.username, p.full_name)) ASC NULLS LAST,
+    p.id
+  LIMIT GREATEST(COALESCE(p_limit, 24), 1)
+  OFFSET GREATEST(COALESCE(p_offset, 0), 0);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_member_directory(text, text, integer, integer) TO authenticated;
@@ -0,0 +1,174 @@
+/*
+  # Permission Registry
+
+  Named permissions (`section.manage`, `user.delete`, `post.lock`, `report.resolve`, ...) replace
+  hand-written role checks in RLS policies. Each permission is granted from a minimum role and
+  inherited by every higher role. This registry mirrors `PERMISSIONS` in
+  `supabase/functions/_shared/permissions.ts`, which backs `usePermission()`,
+  `<RequirePermission>` and the Edge Functions: keep both in sync.
+
+  1. New Tables
+     - `public.role_permissions`: one row per permission.
+       - `permission` (text, primary key)
+       - `granted_from` (text): lowest role holding it, one of the four canonical roles.
+       Seeded here; later migrations add their permissions with an INSERT.
+
+  2. New Functions
+     - `public.role_has_permission(p_role text, p_permission text)`: `true` when `p_role`
+       (any casing) holds `p_permission`. `false` for unknown roles or permissions.
+     - `public.has_permission(p_permission text)`: `true` when the caller's profile is approved
+       and its role holds `p_permission`. `SECURITY DEFINER` to read `profiles` without RLS
+       recursion.
+
+  3. Row Level Security (RLS)
+     - `role_permissions`: readable by every signed-in member, written by migrations only.
+     - `profiles`: the "Profiles: ..." admin checks use `user.view`, `user.create`, `user.edit`
+       and `user.delete`.
+     - `forum_categories`: "Allow admins to manage categories" uses `section.manage`.
+     - `content_reports`: "Moderators can view all reports" uses `report.view`.
+     - `forum_posts`: new "Moderators can lock and pin topics" (UPDATE, `post.lock` or
+       `post.pin`) and "Moderators can delete topics" (DELETE, `post.delete`).
+     - `forum_replies`: new "Moderators can delete replies" (DELETE, `post.delete`).
+*/
+
+-- 1. Registry
+CREATE TABLE IF NOT EXISTS public.role_permissions (
+  permission text PRIMARY KEY,
+  granted_from text NOT NULL CHECK (granted_from IN ('USER', 'MODERATOR', 'ADMIN', 'SUPER_ADMIN'))
+);
+
+ALTER TABLE public.role_permissions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Role permissions: readable by members" ON public.role_permissions;
+CREATE POLICY "Role permissions: readable by members"
+ON public.role_permissions
+FOR SELECT
+TO authenticated
+USING (true);
+
+INSERT INTO public.role_permissions (permission, granted_from) VALUES
+  ('admin.access', 'MODERATOR'),
+  ('dashboard.view', 'MODERATOR'),
+  ('report.view', 'MODERATOR'),
+  ('report.resolve', 'MODERATOR'),
+  ('post.lock', 'MODERATOR'),
+  ('post.pin', 'MODERATOR'),
+  ('post.delete', 'MODERATOR'),
+  ('section.manage', 'ADMIN'),
+  ('user.view', 'ADMIN'),
+  ('user.create', 'ADMIN'),
+  ('user.edit', 'ADMIN'),
+  ('user.approve', 'ADMIN'),
+  ('user.delete', 'ADMIN'),
+  ('user.manage_super_admins', 'SUPER_ADMIN')
+ON CONFLICT (permission) DO UPDATE SET granted_from = EXCLUDED.granted_from;
+
+CREATE OR REPLACE FUNCTION public.role_has_permission(p_role text, p_permission text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT public.role_rank(p_role) >= public.role_rank(rp.granted_from)
+     FROM public.role_permissions rp
+     WHERE rp.permission = p_permission
+       AND public.role_rank(p_role) > 0),
+    false
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_permission(p_permission text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT public.role_has_permission(role::text, p_permission)
+     FROM public.profiles
+     WHERE id = auth.uid() AND status = 'approved'),
+    false
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.role_has_permission(text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.has_permission(text) TO authenticated;
+
+-- 2. profiles
+DROP POLICY IF EXISTS "Profiles: Users can view, Admins can view all" ON public.profiles;
+CREATE POLICY "Profiles: Users can view, Admins can view all"
+ON public.profiles
+FOR SELECT
+USING (
+  (auth.uid() = id) OR public.has_permission('user.view')
+);
+
+DROP POLICY IF EXISTS "Profiles: Admins can insert" ON public.profiles;
+CREATE POLICY "Profiles: Admins can insert"
+ON public.profiles
+FOR INSERT
+WITH CHECK (
+  public.has_permission('user.create')
+);
+
+DROP POLICY IF EXISTS "Profiles: Users can update own, Admins can update all" ON public.profiles;
+CREATE POLICY "Profiles: Users can update own, Admins can update all"
+ON public.profiles
+FOR UPDATE
+USING (
+  (auth.uid() = id) OR public.has_permission('user.edit')
+)
+WITH CHECK (
+  (auth.uid() = id) OR public.has_permission('user.edit')
+);
+
+DROP POLICY IF EXISTS "Profiles: Admins can delete" ON public.profiles;
+CREATE POLICY "Profiles: Admins can delete"
+ON public.profiles
+FOR DELETE
+USING (
+  public.has_permission('user.delete')
+);
+
+-- 3. forum_categories
+DROP POLICY IF EXISTS "Allow admins to manage categories" ON public.forum_categories;
+CREATE POLICY "Allow admins to manage categories"
+ON public.forum_categories
+FOR ALL
+TO authenticated
+USING (public.has_permission('section.manage'))
+WITH CHECK (public.has_permission('section.manage'));
+
+-- 4. content_reports
+DROP POLICY IF EXISTS "Moderators can view all reports" ON public.content_reports;
+CREATE POLICY "Moderators can view all reports"
+ON public.content_reports
+FOR SELECT
+TO authenticated
+USING (public.has_permission('report.view'));
+
+-- 5. forum_posts and forum_replies
+DROP POLICY IF EXISTS "Moderators can lock and pin topics" ON public.forum_posts;
+CREATE POLICY "Moderators can lock and pin topics"
+ON public.forum_posts
+FOR UPDATE
+TO authenticated
+USING (public.has_permission('post.lock') OR public.has_permission('post.pin'))
+WITH CHECK (public.has_permission('post.lock') OR public.has_permission('post.pin'));
+
+DROP POLICY IF EXISTS "Moderators can delete topics" ON public.forum_posts;
+CREATE POLICY "Moderators can delete topics"
+ON public.forum_posts
+FOR DELETE
+TO authenticated
+USING (public.has_permission('post.delete'));
+
+DROP POLICY IF EXISTS "Moderators can delete replies" ON public.forum_replies;
+CREATE POLICY "Moderators can delete replies"
+ON public.forum_replies
+FOR DELETE
+TO authenticated
+USING (public.has_permission('post.delete'));
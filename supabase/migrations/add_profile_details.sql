@@ -0,0 +1,237 @@
+/*
+  # Extended Profile Fields with Per-Field Privacy
+
+  Members can fill in a biography (Markdown), a location (federation or local cell) and public
+  contact links, and choose who sees each of them and their full name.
+
+  1. New Tables
+     - `public.profile_details` (one row per member, created on first save):
+       - `user_id` (uuid, primary key, foreign key to `profiles`, cascade delete)
+       - `bio` (text, up to 2000 characters)
+       - `location` (text, up to 100 characters)
+       - `contact_links` (jsonb): up to 5 `{ "label": ..., "url": ... }` objects, with an
+         `http(s)://` or `mailto:` URL.
+       - `full_name_visibility`, `bio_visibility`, `location_visibility`, `links_visibility`
+         (text, default 'members'): `'members'` (every approved member), `'moderators'`
+         (MODERATOR and above) or `'hidden'` (only the member).
+       - `updated_at` (timestamptz)
+
+  2. Row Level Security (RLS)
+     - `profile_details`: members read and write only their own row. Other members go through
+       `get_profile_details()`, which applies the privacy settings.
+
+  3. New Functions
+     - `public.profile_field_visible(p_owner uuid, p_visibility text)`: whether the caller may see
+       a field of `p_owner` with the given visibility. The owner always can.
+     - `public.contact_links_valid(p_links jsonb)`: shape check used by the table constraint.
+     - `public.get_profile_details(p_user_id uuid)`: full name, biography, location and links of a
+       member, each `NULL` when hidden from the caller. Approved members only.
+
+  4. Modified Functions
+     - `public.get_member_directory(...)`: the full name is only returned, and only searched, when
+       the member lets the caller see it.
+
+  5. Notes
+     - `profiles.full_name` keeps its column and its edit path (members update their own profile
+       row). Forum listings show the username, which is required at sign-up.
+*/
+
+-- 1. Helpers
+CREATE OR REPLACE FUNCTION public.profile_field_visible(p_owner uuid, p_visibility text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT auth.uid() = p_owner
+    OR COALESCE(p_visibility, 'members') = 'members'
+    OR (p_visibility = 'moderators' AND public.current_user_has_role('MODERATOR'));
+$$;
+
+CREATE OR REPLACE FUNCTION public.contact_links_valid(p_links jsonb)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN jsonb_typeof(p_links) <> 'array' THEN false
+    ELSE jsonb_array_length(p_links) <= 5
+      AND NOT EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(p_links) AS link
+        WHERE jsonb_typeof(link) <> 'object'
+           OR char_length(COALESCE(link->>'label', '')) NOT BETWEEN 1 AND 50
+           OR char_length(COALESCE(link->>'url', '')) > 300
+           OR COALESCE(link->>'url', '') !~* '^(https?://|mailto:)[^[:space:]]+$'
+      )
+  END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.profile_field_visible(uuid, text) TO authenticated;
+
+-- 2. Table
+CREATE TABLE IF NOT EXISTS public.profile_details (
+  user_id uuid PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  bio text CHECK (char_length(bio) <= 2000),
+  location text CHECK (char_length(location) <= 100),
+  contact_links jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (public.contact_links_valid(contact_links)),
+  full_name_visibility text NOT NULL DEFAULT 'members' CHECK (full_name_visibility IN ('members', 'moderators', 'hidden')),
+  bio_visibility text NOT NULL DEFAULT 'members' CHECK (bio_visibility IN ('members', 'moderators', 'hidden')),
+  location_visibility text NOT NULL DEFAULT 'members' CHECK (location_visibility IN ('members', 'moderators', 'hidden')),
+  links_visibility text NOT NULL DEFAULT 'members' CHECK (links_visibility IN ('members', 'moderators', 'hidden')),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.profile_details ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Profile details: members read their own" ON public.profile_details;
+CREATE POLICY "Profile details: members read their own"
+ON public.profile_details
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Profile details: members create their own" ON public.profile_details;
+CREATE POLICY "Profile details: members create their own"
+ON public.profile_details
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Profile details: members update their own" ON public.profile_details;
+CREATE POLICY "Profile details: members update their own"
+ON public.profile_details
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.touch_profile_details_updated_at()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS profile_details_touch_updated_at ON public.profile_details;
+CREATE TRIGGER profile_details_touch_updated_at
+BEFORE UPDATE ON public.profile_details
+FOR EACH ROW
+EXECUTE FUNCTION public.touch_profile_details_updated_at();
+
+-- 3. Profile page
+CREATE OR REPLACE FUNCTION public.get_profile_details(p_user_id uuid)
+RETURNS TABLE (
+  full_name text,
+  bio text,
+  location text,
+  contact_links jsonb
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE profiles.id = auth.uid() AND profiles.status = 'approved') THEN
+    RAISE EXCEPTION 'Only approved members can view member profiles.';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    CASE WHEN public.profile_field_visible(p.id, d.full_name_visibility) THEN p.full_name::text END,
+    CASE WHEN public.profile_field_visible(p.id, d.bio_visibility) THEN d.bio END,
+    CASE WHEN public.profile_field_visible(p.id, d.location_visibility) THEN d.location END,
+    CASE WHEN public.profile_field_visible(p.id, d.links_visibility) THEN d.contact_links ELSE '[]'::jsonb END
+  FROM public.profiles p
+  LEFT JOIN public.profile_details d ON d.user_id = p.id
+  WHERE p.id = p_user_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_profile_details(uuid) TO authenticated;
+
+-- 4. Member directory: full name according to its visibility
+CREATE OR REPLACE FUNCTION public.get_member_directory(
+  p_search text DEFAULT NULL,
+  p_sort text DEFAULT 'alphabetical',
+  p_limit integer DEFAULT 24,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  username text,
+  full_name text,
+  avatar_url text,
+  role text,
+  created_at timestamptz,
+  post_count bigint,
+  last_post_at timestamptz,
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_search text := NULLIF(btrim(COALESCE(p_search, '')), '');
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE profiles.id = auth.uid() AND profiles.status = 'approved') THEN
+    RAISE EXCEPTION 'Only approved members can browse the member directory.';
+  END IF;
+
+  RETURN QUERY
+  WITH activity AS (
+    SELECT messages.user_id, count(*) AS post_count, max(messages.created_at) AS last_post_at
+    FROM (
+      SELECT fp.user_id, fp.created_at FROM public.forum_posts fp
+      UNION ALL
+      SELECT fr.user_id, fr.created_at FROM public.forum_replies fr
+    ) messages
+    GROUP BY messages.user_id
+  ),
+  members AS (
+    SELECT
+      p.id,
+      p.username::text AS username,
+      CASE WHEN public.profile_field_visible(p.id, d.full_name_visibility) THEN p.full_name::text END AS full_name,
+      p.avatar_url::text AS avatar_url,
+      p.role::text AS role,
+      p.created_at
+    FROM public.profiles p
+    LEFT JOIN public.profile_details d ON d.user_id = p.id
+    WHERE p.status = 'approved'
+  )
+  SELECT
+    m.id,
+    m.username,
+    m.full_name,
+    m.avatar_url,
+    m.role,
+    m.created_at,
+    COALESCE(a.post_count, 0),
+    a.last_post_at,
+    count(*) OVER () AS total_count
+  FROM members m
+  LEFT JOIN activity a ON a.user_id = m.id
+  WHERE v_search IS NULL
+    OR m.username ILIKE '%' || v_search || '%'
+    OR m.full_name ILIKE '%' || v_search || '%'
+  ORDER BY
+    CASE WHEN p_sort = 'most_active' THEN COALESCE(a.post_count, 0) END DESC,
+    CASE WHEN p_sort = 'recently_active' THEN a.last_post_at END DESC NULLS LAST,
+    lower(COALESCE(m.username, m.full_name)) ASC NULLS LAST,
+    m.id
+  LIMIT GREATEST(COALESCE(p_limit, 24), 1)
+  OFFSET GREATEST(COALESCE(p_offset, 0), 0);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_member_directory(text, text, integer, integer) TO authenticated;
@@ -0,0 +1,96 @@
+/*
+  # Two-Factor Step-Up for Staff
+
+  Moderators and administrators must verify their TOTP factor (an `aal2` session) before using the
+  admin panel or the admin Edge Functions. A site setting can also make TOTP mandatory for them:
+  staff members without a factor are then asked to enroll one.
+  The same rule is implemented in `src/hooks/useStaffMfa.ts` (AdminRoute) and in
+  `supabase/functions/_shared/admin.ts` (`requirePermission`).
+
+  1. New Tables
+     - `site_settings`
+       - `key` (text, primary key)
+       - `value` (jsonb)
+       - `updated_at` (timestamptz)
+       - `updated_by` (uuid, references `profiles`, set null on delete)
+     - Seeded with `require_staff_totp = false`.
+
+  2. New Functions
+     - `public.site_setting_enabled(p_key text)`: `true` when the setting holds JSON `true`.
+     - `public.staff_mfa_satisfied()`: `true` when the caller's session is `aal2`, or when they
+       have no verified TOTP factor and `require_staff_totp` is off.
+
+  3. Permissions
+     - `role_permissions`: new `settings.manage` permission (ADMIN), mirroring
+       `supabase/functions/_shared/permissions.ts`.
+
+  4. Row Level Security (RLS)
+     - `site_settings`: readable by signed-in members; updated by holders of `settings.manage`
+       whose session satisfies `staff_mfa_satisfied()`.
+*/
+
+-- 1. Site settings
+CREATE TABLE IF NOT EXISTS public.site_settings (
+  key text PRIMARY KEY,
+  value jsonb NOT NULL,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  updated_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL
+);
+
+INSERT INTO public.site_settings (key, value)
+VALUES ('require_staff_totp', 'false'::jsonb)
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TABLE public.site_settings ENABLE ROW LEVEL SECURITY;
+
+-- 2. Registry: `settings.manage`
+INSERT INTO public.role_permissions (permission, granted_from)
+VALUES ('settings.manage', 'ADMIN')
+ON CONFLICT (permission) DO UPDATE SET granted_from = EXCLUDED.granted_from;
+
+-- 3. Step-up rule
+CREATE OR REPLACE FUNCTION public.site_setting_enabled(p_key text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((SELECT value = 'true'::jsonb FROM public.site_settings WHERE key = p_key), false);
+$$;
+
+CREATE OR REPLACE FUNCTION public.staff_mfa_satisfied()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(auth.jwt() ->> 'aal', 'aal1') = 'aal2'
+    OR (
+      NOT EXISTS (
+        SELECT 1 FROM auth.mfa_factors
+        WHERE user_id = auth.uid() AND status = 'verified'
+      )
+      AND NOT public.site_setting_enabled('require_staff_totp')
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.site_setting_enabled(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.staff_mfa_satisfied() TO authenticated;
+
+-- 4. site_settings policies
+DROP POLICY IF EXISTS "Members can read site settings" ON public.site_settings;
+CREATE POLICY "Members can read site settings"
+ON public.site_settings
+FOR SELECT
+TO authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Admins can update site settings" ON public.site_settings;
+CREATE POLICY "Admins can update site settings"
+ON public.site_settings
+FOR UPDATE
+TO authenticated
+USING (public.has_permission('settings.manage') AND public.staff_mfa_satisfied())
+WITH CHECK (public.has_permission('settings.manage') AND public.staff_mfa_satisfied());
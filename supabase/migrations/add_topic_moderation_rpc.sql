@@ -0,0 +1,52 @@
+/*
+  # Pin and Lock Topics Through an RPC
+
+  The "Moderators can lock and pin topics" UPDATE policy had no column restriction: a moderator
+  could rewrite the title, content, author or section of any topic through PostgREST. The policy
+  is replaced by an RPC that only touches `is_pinned` and `is_locked`.
+
+  1. Row Level Security (RLS)
+     - `forum_posts`: "Moderators can lock and pin topics" is dropped. Authors keep their own
+       UPDATE policy; `forum_posts_protect_moderation_flags` still keeps them off the two flags.
+
+  2. New Functions
+     - `public.set_topic_moderation_flags(p_post_id uuid, p_is_pinned boolean, p_is_locked boolean)`:
+       pins/unpins (`post.pin`) and locks/unlocks (`post.lock`) a topic. A `NULL` flag is left
+       unchanged.
+*/
+
+-- 1. forum_posts policies
+DROP POLICY IF EXISTS "Moderators can lock and pin topics" ON public.forum_posts;
+
+-- 2. RPC
+CREATE OR REPLACE FUNCTION public.set_topic_moderation_flags(
+  p_post_id uuid,
+  p_is_pinned boolean DEFAULT NULL,
+  p_is_locked boolean DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_is_pinned IS NOT NULL AND NOT public.has_permission('post.pin') THEN
+    RAISE EXCEPTION 'Only moderators can pin or unpin a topic.';
+  END IF;
+
+  IF p_is_locked IS NOT NULL AND NOT public.has_permission('post.lock') THEN
+    RAISE EXCEPTION 'Only moderators can lock or unlock a topic.';
+  END IF;
+
+  UPDATE public.forum_posts
+  SET is_pinned = COALESCE(p_is_pinned, is_pinned),
+      is_locked = COALESCE(p_is_locked, is_locked)
+  WHERE id = p_post_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Topic % does not exist.', p_post_id;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_topic_moderation_flags(uuid, boolean, boolean) TO authenticated;
@@ -0,0 +1,165 @@
+/*
+  # TOTP Recovery Codes
+
+  Single-use codes that let a member sign in after losing the device holding their TOTP factor.
+  Ten codes are generated when TOTP is enabled and can be regenerated from the profile page.
+  Only bcrypt hashes are stored: the plain codes are returned once, by
+  `generate_totp_recovery_codes()`.
+
+  Redeeming a code at login (Edge Function `redeem-totp-recovery-code`) removes the member's
+  TOTP factors, so they can sign in and set up a new device.
+
+  1. New Tables
+     - `totp_recovery_codes`
+       - `id` (uuid, primary key)
+       - `user_id` (uuid, references `profiles`, cascade delete)
+       - `code_hash` (text, bcrypt hash of the normalized code)
+       - `used_at` (timestamptz, set when the code is redeemed)
+       - `created_at` (timestamptz)
+
+  2. New Functions
+     - `public.generate_totp_recovery_codes()`: replaces the caller's codes with ten new ones and
+       returns them in plain text. Requires a session verified with TOTP (`aal2`).
+     - `public.get_totp_recovery_codes_status()`: number of unused codes left for the caller.
+     - `public.consume_totp_recovery_code(p_user_id uuid, p_code text)`: marks a matching unused
+       code as used and returns `true`. Only callable with the service role (Edge Function).
+     - `public.set_totp_enabled(p_is_enabled boolean)`: disabling TOTP now also deletes the
+       caller's recovery codes.
+
+  3. Security
+     - RLS enabled on `totp_recovery_codes` without any policy: the table is only reached through
+       the functions above.
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- 1. Table
+CREATE TABLE IF NOT EXISTS public.totp_recovery_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  code_hash text NOT NULL,
+  used_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS totp_recovery_codes_user_id_idx ON public.totp_recovery_codes (user_id);
+
+ALTER TABLE public.totp_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+-- 2. Generation (codes look like `k7m2p-x9qwd`; the dash and the case are ignored when redeeming)
+CREATE OR REPLACE FUNCTION public.generate_totp_recovery_codes()
+RETURNS text[]
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_alphabet constant text := 'abcdefghjkmnpqrstuvwxyz23456789';
+  v_codes text[] := '{}';
+  v_code text;
+  v_bytes bytea;
+  i integer;
+  j integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required.';
+  END IF;
+
+  IF COALESCE(auth.jwt() ->> 'aal', 'aal1') <> 'aal2' THEN
+    RAISE EXCEPTION 'Please verify your session with your authenticator app first.';
+  END IF;
+
+  DELETE FROM public.totp_recovery_codes WHERE user_id = v_user_id;
+
+  FOR i IN 1..10 LOOP
+    v_bytes := gen_random_bytes(10);
+    v_code := '';
+    FOR j IN 0..9 LOOP
+      v_code := v_code || substr(v_alphabet, (get_byte(v_bytes, j) % length(v_alphabet)) + 1, 1);
+    END LOOP;
+
+    INSERT INTO public.totp_recovery_codes (user_id, code_hash)
+    VALUES (v_user_id, crypt(v_code, gen_salt('bf')));
+
+    v_codes := v_codes || (substr(v_code, 1, 5) || '-' || substr(v_code, 6, 5));
+  END LOOP;
+
+  RETURN v_codes;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_totp_recovery_codes_status()
+RETURNS TABLE (remaining_count integer, generated_at timestamptz)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    COUNT(*) FILTER (WHERE used_at IS NULL)::integer,
+    MAX(created_at)
+  FROM public.totp_recovery_codes
+  WHERE user_id = auth.uid();
+$$;
+
+-- 3. Redemption, from the Edge Function only
+CREATE OR REPLACE FUNCTION public.consume_totp_recovery_code(p_user_id uuid, p_code text)
+RETURNS boolean
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_normalized text := lower(regexp_replace(COALESCE(p_code, ''), '[^a-zA-Z0-9]', '', 'g'));
+  v_code_id uuid;
+BEGIN
+  IF length(v_normalized) <> 10 THEN
+    RETURN false;
+  END IF;
+
+  SELECT id INTO v_code_id
+  FROM public.totp_recovery_codes
+  WHERE user_id = p_user_id
+    AND used_at IS NULL
+    AND code_hash = crypt(v_normalized, code_hash)
+  LIMIT 1
+  FOR UPDATE;
+
+  IF v_code_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.totp_recovery_codes SET used_at = now() WHERE id = v_code_id;
+  RETURN true;
+END;
+$$;
+
+-- 4. Disabling TOTP drops the codes
+CREATE OR REPLACE FUNCTION public.set_totp_enabled(p_is_enabled BOOLEAN)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.profiles
+  SET is_totp_enabled = p_is_enabled
+  WHERE id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User profile not found or not authorized to update TOTP status.';
+  END IF;
+
+  IF NOT p_is_enabled THEN
+    DELETE FROM public.totp_recovery_codes WHERE user_id = auth.uid();
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_totp_recovery_code(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_totp_recovery_code(uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.generate_totp_recovery_codes() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_totp_recovery_codes_status() TO authenticated;
@@ -0,0 +1,45 @@
+/*
+  # Check Role Changes Against the Permission Registry
+
+  `prevent_profile_id_role_change()` allowed a role change when the caller's stored role was
+  lowercase 'admin' or 'super_admin', and let any administrator set any role. With the
+  "Profiles: Users can update own..." policy, an ADMIN could promote their own profile to
+  SUPER_ADMIN with a password-only session, bypassing `user.manage_super_admins` and the
+  two-factor step-up, which were only enforced in the UI and the Edge Functions.
+
+  1. Modified Functions
+     - `public.prevent_profile_id_role_change()` (trigger `before_profile_update_prevent_id_role_change`):
+       the profile ID still never changes. A role change requires `user.edit`, and also
+       `user.manage_super_admins` when the old or the new role is SUPER_ADMIN. `has_permission()`
+       includes `staff_mfa_satisfied()`. Calls without a user (service role, SQL console) are not
+       checked.
+*/
+
+CREATE OR REPLACE FUNCTION public.prevent_profile_id_role_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.id IS DISTINCT FROM OLD.id THEN
+    RAISE EXCEPTION 'Changing the profile ID is not allowed.';
+  END IF;
+
+  IF NEW.role IS NOT DISTINCT FROM OLD.role OR auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT public.has_permission('user.edit') THEN
+    RAISE EXCEPTION 'Only administrators can change the role of a member.';
+  END IF;
+
+  -- NEW.role may not be normalized yet: `normalize_profile_role` runs after this trigger
+  IF (upper(btrim(OLD.role::text)) = 'SUPER_ADMIN' OR upper(btrim(NEW.role::text)) = 'SUPER_ADMIN')
+    AND NOT public.has_permission('user.manage_super_admins') THEN
+    RAISE EXCEPTION 'Only super administrators can grant or remove the SUPER_ADMIN role.';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
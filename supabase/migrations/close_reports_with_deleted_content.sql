@@ -0,0 +1,162 @@
+/*
+  # Close Reports With Their Content, and Keep the Queue Inside Readable Sections
+
+  Deleting a topic or a reply left the open reports on it pointing at nothing (`post_id` and
+  `reply_id` are set null by the foreign keys): only `moderate_content_report()` closed them, and
+  every other delete (topic author, moderator through PostgREST, section deletion, deleted
+  account) kept them in the queue. The queue also showed excerpts from sections the moderator
+  cannot read.
+
+  1. New Functions
+     - `public.close_reports_of_deleted_topic()` (trigger, BEFORE DELETE on `forum_posts`):
+       resolves the open reports on the topic and on its replies.
+     - `public.close_reports_of_deleted_reply()` (trigger, BEFORE DELETE on `forum_replies`):
+       resolves the open reports on the reply.
+       Both record whoever deleted the content as the handler (null for the service role).
+
+  2. Modified Functions
+     - `public.get_content_reports(...)`: only lists reports whose topic is in a section the caller
+       can read. Reports whose topic is gone keep their row, without the excerpt (its section is
+       no longer known).
+
+  3. Data
+     - Open reports whose content is already gone are resolved.
+*/
+
+-- 1. Close the reports of deleted content
+CREATE OR REPLACE FUNCTION public.close_reports_of_deleted_topic()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.content_reports
+  SET status = 'resolved', handled_by = auth.uid(), handled_at = now()
+  WHERE status = 'open' AND post_id = OLD.id;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS forum_posts_close_reports ON public.forum_posts;
+CREATE TRIGGER forum_posts_close_reports
+BEFORE DELETE ON public.forum_posts
+FOR EACH ROW
+EXECUTE FUNCTION public.close_reports_of_deleted_topic();
+
+CREATE OR REPLACE FUNCTION public.close_reports_of_deleted_reply()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.content_reports
+  SET status = 'resolved', handled_by = auth.uid(), handled_at = now()
+  WHERE status = 'open' AND reply_id = OLD.id;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS forum_replies_close_reports ON public.forum_replies;
+CREATE TRIGGER forum_replies_close_reports
+BEFORE DELETE ON public.forum_replies
+FOR EACH ROW
+EXECUTE FUNCTION public.close_reports_of_deleted_reply();
+
+UPDATE public.content_reports
+SET status = 'resolved', handled_at = now()
+WHERE status = 'open'
+  AND (post_id IS NULL OR (target_type = 'reply' AND reply_id IS NULL));
+
+-- 2. Moderation queue
+CREATE OR REPLACE FUNCTION public.get_content_reports(
+  p_status text DEFAULT 'open',
+  p_target_type text DEFAULT NULL,
+  p_reason text DEFAULT NULL,
+  p_search text DEFAULT NULL,
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  target_type text,
+  post_id uuid,
+  reply_id uuid,
+  post_title text,
+  is_locked boolean,
+  content_excerpt text,
+  content_author_id uuid,
+  content_author_username text,
+  reporter_id uuid,
+  reporter_username text,
+  reason text,
+  comment text,
+  status text,
+  handled_by_username text,
+  handled_at timestamptz,
+  created_at timestamptz,
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission('report.view') THEN
+    RAISE EXCEPTION 'Only moderators and administrators can read the moderation queue.';
+  END IF;
+
+  RETURN QUERY
+  WITH reports AS (
+    SELECT
+      cr.*,
+      fp.title AS post_title,
+      fp.is_locked,
+      -- The section of a deleted topic is unknown: its excerpt is not shown
+      CASE WHEN fp.id IS NOT NULL THEN cr.content_excerpt ELSE '' END AS visible_excerpt
+    FROM public.content_reports cr
+    LEFT JOIN public.forum_posts fp ON fp.id = cr.post_id
+    WHERE fp.id IS NULL OR public.can_access_forum_category(fp.category_id, 'read')
+  )
+  SELECT
+    r.id,
+    r.target_type,
+    r.post_id,
+    r.reply_id,
+    r.post_title::text,
+    r.is_locked,
+    r.visible_excerpt,
+    r.content_author_id,
+    author.username::text,
+    r.reporter_id,
+    reporter.username::text,
+    r.reason,
+    r.comment,
+    r.status,
+    handler.username::text,
+    r.handled_at,
+    r.created_at,
+    count(*) OVER () AS total_count
+  FROM reports r
+  LEFT JOIN public.profiles author ON author.id = r.content_author_id
+  LEFT JOIN public.profiles reporter ON reporter.id = r.reporter_id
+  LEFT JOIN public.profiles handler ON handler.id = r.handled_by
+  WHERE (p_status IS NULL OR r.status = p_status)
+    AND (p_target_type IS NULL OR r.target_type = p_target_type)
+    AND (p_reason IS NULL OR r.reason = p_reason)
+    AND (
+      p_search IS NULL OR btrim(p_search) = ''
+      OR reporter.username ILIKE '%' || btrim(p_search) || '%'
+      OR author.username ILIKE '%' || btrim(p_search) || '%'
+      OR r.visible_excerpt ILIKE '%' || btrim(p_search) || '%'
+      OR r.comment ILIKE '%' || btrim(p_search) || '%'
+    )
+  ORDER BY r.created_at DESC, r.id
+  LIMIT GREATEST(p_limit, 1)
+  OFFSET GREATEST(p_offset, 0);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_content_reports(text, text, text, text, integer, integer) TO authenticated;
@@ -0,0 +1,62 @@
+/*
+  # Confirm Topic Deletion When Deleting a Section
+
+  The delete dialog only offered to move or delete the topics when the section held some when it
+  was opened. Without a target, `delete_forum_category()` deleted the section and, through the
+  cascade, every topic posted in it since, without anyone choosing to.
+
+  1. Modified Functions
+     - `public.delete_forum_category(p_category_id uuid, p_target_category_id uuid, p_delete_topics boolean)`:
+       new `p_delete_topics` flag (default `false`). A section that still holds topics is only
+       deleted when they are moved to `p_target_category_id` or when the flag is set. The
+       two-argument version is dropped.
+*/
+
+DROP FUNCTION IF EXISTS public.delete_forum_category(uuid, uuid);
+
+CREATE OR REPLACE FUNCTION public.delete_forum_category(
+  p_category_id uuid,
+  p_target_category_id uuid DEFAULT NULL,
+  p_delete_topics boolean DEFAULT false
+)
+RETURNS integer
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  moved_count integer := 0;
+BEGIN
+  IF NOT public.has_permission('section.manage') THEN
+    RAISE EXCEPTION 'Only administrators can delete forum sections.';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.forum_categories WHERE id = p_category_id) THEN
+    RAISE EXCEPTION 'Forum section % does not exist.', p_category_id;
+  END IF;
+
+  IF p_target_category_id IS NOT NULL THEN
+    IF p_target_category_id = p_category_id THEN
+      RAISE EXCEPTION 'Topics cannot be moved to the section being deleted.';
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM public.forum_categories WHERE id = p_target_category_id) THEN
+      RAISE EXCEPTION 'Target forum section % does not exist.', p_target_category_id;
+    END IF;
+
+    UPDATE public.forum_posts
+    SET category_id = p_target_category_id
+    WHERE category_id = p_category_id;
+    GET DIAGNOSTICS moved_count = ROW_COUNT;
+  ELSIF NOT COALESCE(p_delete_topics, false)
+    AND EXISTS (SELECT 1 FROM public.forum_posts WHERE category_id = p_category_id) THEN
+    RAISE EXCEPTION 'This section still holds topics: move them to another section or confirm their deletion.';
+  END IF;
+
+  DELETE FROM public.forum_categories WHERE id = p_category_id;
+
+  RETURN moved_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.delete_forum_category(uuid, uuid, boolean) TO authenticated;
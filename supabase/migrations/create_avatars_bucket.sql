@@ -0,0 +1,104 @@
+/*
+  # Profile Avatars
+
+  Members can upload a profile picture. The cropped and resized image is stored in a public
+  Storage bucket and its URL saved in `profiles.avatar_url`.
+
+  1. Storage
+     - Public bucket `avatars`, 2 MB per file, JPEG, PNG and WebP only.
+     - Objects are stored under `<user_id>/<file name>`.
+
+  2. Storage Policies
+     - SELECT: authenticated users (files are served through public URLs anyway).
+     - INSERT / UPDATE: only in one's own folder.
+     - DELETE: one's own folder, or holders of `user.edit` (to remove an offensive picture).
+
+  3. Triggers
+     - `profiles_remove_replaced_avatar`: when `avatar_url` changes (new picture, removal by the
+       member or by an admin) or the profile is deleted, the previous file is removed from the
+       bucket. URLs pointing elsewhere are left alone.
+*/
+
+-- 1. Bucket
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('avatars', 'avatars', true, 2097152, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO UPDATE
+SET public = EXCLUDED.public,
+    file_size_limit = EXCLUDED.file_size_limit,
+    allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- 2. Policies
+DROP POLICY IF EXISTS "Avatars: readable by members" ON storage.objects;
+CREATE POLICY "Avatars: readable by members"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (bucket_id = 'avatars');
+
+DROP POLICY IF EXISTS "Avatars: members upload to their folder" ON storage.objects;
+CREATE POLICY "Avatars: members upload to their folder"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'avatars'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+DROP POLICY IF EXISTS "Avatars: members update their folder" ON storage.objects;
+CREATE POLICY "Avatars: members update their folder"
+ON storage.objects
+FOR UPDATE
+TO authenticated
+USING (
+  bucket_id = 'avatars'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+)
+WITH CHECK (
+  bucket_id = 'avatars'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+DROP POLICY IF EXISTS "Avatars: members or admins can delete" ON storage.objects;
+CREATE POLICY "Avatars: members or admins can delete"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'avatars'
+  AND (
+    (storage.foldername(name))[1] = auth.uid()::text
+    OR public.has_permission('user.edit')
+  )
+);
+
+-- 3. Remove the previous file
+CREATE OR REPLACE FUNCTION public.remove_replaced_avatar_object()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Public URLs look like <project>/storage/v1/object/public/avatars/<user_id>/<file>
+  v_old_path text := substring(OLD.avatar_url FROM '/storage/v1/object/public/avatars/([^?#]+)');
+BEGIN
+  IF v_old_path IS NOT NULL
+     AND (TG_OP = 'DELETE' OR NEW.avatar_url IS DISTINCT FROM OLD.avatar_url) THEN
+    DELETE FROM storage.objects
+    WHERE bucket_id = 'avatars'
+      AND name = v_old_path;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS profiles_remove_replaced_avatar ON public.profiles;
+CREATE TRIGGER profiles_remove_replaced_avatar
+AFTER UPDATE OF avatar_url OR DELETE ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.remove_replaced_avatar_object();
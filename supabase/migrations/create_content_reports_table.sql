@@ -0,0 +1,278 @@
+/*
+  # Content Reports and Moderation Queue
+
+  Members can report a topic (`forum_posts`) or a reply (`forum_replies`) with a
+  reason and a comment. Moderators review the open reports in `/admin/moderation`
+  and resolve or dismiss them, delete the content or lock the topic.
+
+  1. New Tables
+     - `public.content_reports`
+       - `id` (uuid, primary key)
+       - `reporter_id` (uuid, foreign key): References `auth.users.id`. The member who reported.
+       - `target_type` (text): `'post'` or `'reply'`.
+       - `post_id` (uuid, nullable, foreign key): The reported topic, or the topic of the reported
+         reply. Set to `NULL` if the topic is deleted.
+       - `reply_id` (uuid, nullable, foreign key): The reported reply. Set to `NULL` if deleted.
+       - `content_author_id` (uuid, nullable): Author of the reported content.
+       - `content_excerpt` (text): Copy of the reported content at report time, so the report
+         stays readable once the content is deleted.
+       - `reason` (text): `'spam'`, `'harassment'`, `'inappropriate'`, `'off_topic'` or `'other'`.
+       - `comment` (text, nullable): Free comment of the reporter.
+       - `status` (text, default 'open'): `'open'`, `'resolved'` or `'dismissed'`.
+       - `handled_by` (uuid, nullable), `handled_at` (timestamptz, nullable): Moderator decision.
+       - `created_at` (timestamptz, default `now()`)
+     - A member can only have one open report per content.
+
+  2. Row Level Security (RLS)
+     - "Members can report content they can read": INSERT with `reporter_id = auth.uid()`.
+     - "Members can view their own reports": SELECT.
+     - "Moderators can view all reports": SELECT for MODERATOR and above.
+     - Decisions go through `moderate_content_report()`, there is no UPDATE or DELETE policy.
+
+  3. New Functions
+     - `public.fill_content_report()` (trigger): fills `post_id`, `content_author_id` and
+       `content_excerpt` from the reported content and checks the reporter can read it.
+     - `public.get_content_reports(p_status, p_target_type, p_reason, p_search, p_limit, p_offset)`:
+       paginated moderation queue with reporter, author and topic, plus `total_count`.
+       `p_search` matches usernames, the excerpt and the comment. MODERATOR and above.
+     - `public.moderate_content_report(p_report_id uuid, p_action text)`:
+       - `'resolve'` / `'dismiss'`: closes the report.
+       - `'delete_content'`: deletes the reported topic or reply and resolves every open report on it.
+       - `'lock_topic'`: locks the topic and resolves every open report on that topic.
+       - `SECURITY DEFINER`: moderators act on content they do not own. MODERATOR and above.
+*/
+
+-- 1. Table
+CREATE TABLE IF NOT EXISTS public.content_reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  reporter_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  target_type text NOT NULL CHECK (target_type IN ('post', 'reply')),
+  post_id uuid REFERENCES public.forum_posts(id) ON DELETE SET NULL,
+  reply_id uuid REFERENCES public.forum_replies(id) ON DELETE SET NULL,
+  content_author_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  content_excerpt text NOT NULL DEFAULT '',
+  reason text NOT NULL CHECK (reason IN ('spam', 'harassment', 'inappropriate', 'off_topic', 'other')),
+  comment text CHECK (comment IS NULL OR char_length(comment) <= 1000),
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'dismissed')),
+  handled_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  handled_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_content_reports_status_created_at ON public.content_reports(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_content_reports_post_id ON public.content_reports(post_id);
+CREATE INDEX IF NOT EXISTS idx_content_reports_reply_id ON public.content_reports(reply_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_content_reports_one_open_per_reporter
+  ON public.content_reports(reporter_id, target_type, COALESCE(reply_id, post_id))
+  WHERE status = 'open';
+
+-- 2. Fill the report from the reported content
+CREATE OR REPLACE FUNCTION public.fill_content_report()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_category_id uuid;
+BEGIN
+  IF NEW.target_type = 'reply' THEN
+    SELECT r.post_id, r.user_id, left(r.content, 500), fp.category_id
+    INTO NEW.post_id, NEW.content_author_id, NEW.content_excerpt, target_category_id
+    FROM public.forum_replies r
+    JOIN public.forum_posts fp ON fp.id = r.post_id
+    WHERE r.id = NEW.reply_id;
+  ELSE
+    NEW.reply_id := NULL;
+    SELECT fp.user_id, left(fp.title || E'\n\n' || fp.content, 500), fp.category_id
+    INTO NEW.content_author_id, NEW.content_excerpt, target_category_id
+    FROM public.forum_posts fp
+    WHERE fp.id = NEW.post_id;
+  END IF;
+
+  IF target_category_id IS NULL OR NOT public.can_access_forum_category(target_category_id, 'read') THEN
+    RAISE EXCEPTION 'Reported content not found.';
+  END IF;
+
+  NEW.status := 'open';
+  NEW.handled_by := NULL;
+  NEW.handled_at := NULL;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS fill_content_report ON public.content_reports;
+CREATE TRIGGER fill_content_report
+  BEFORE INSERT ON public.content_reports
+  FOR EACH ROW
+  EXECUTE PROCEDURE public.fill_content_report();
+
+-- 3. RLS
+ALTER TABLE public.content_reports ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can report content they can read" ON public.content_reports;
+CREATE POLICY "Members can report content they can read"
+ON public.content_reports
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = reporter_id);
+
+DROP POLICY IF EXISTS "Members can view their own reports" ON public.content_reports;
+CREATE POLICY "Members can view their own reports"
+ON public.content_reports
+FOR SELECT
+TO authenticated
+USING (auth.uid() = reporter_id);
+
+DROP POLICY IF EXISTS "Moderators can view all reports" ON public.content_reports;
+CREATE POLICY "Moderators can view all reports"
+ON public.content_reports
+FOR SELECT
+TO authenticated
+USING (public.current_user_has_role('MODERATOR'));
+
+-- 4. Moderation queue
+CREATE OR REPLACE FUNCTION public.get_content_reports(
+  p_status text DEFAULT 'open',
+  p_target_type text DEFAULT NULL,
+  p_reason text DEFAULT NULL,
+  p_search text DEFAULT NULL,
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  target_type text,
+  post_id uuid,
+  reply_id uuid,
+  post_title text,
+  is_locked boolean,
+  content_excerpt text,
+  content_author_id uuid,
+  content_author_username text,
+  reporter_id uuid,
+  reporter_username text,
+  reason text,
+  comment text,
+  status text,
+  handled_by_username text,
+  handled_at timestamptz,
+  created_at timestamptz,
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.current_user_has_role('MODERATOR') THEN
+    RAISE EXCEPTION 'Only moderators and administrators can read the moderation queue.';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    cr.id,
+    cr.target_type,
+    cr.post_id,
+    cr.reply_id,
+    fp.title::text,
+    fp.is_locked,
+    cr.content_excerpt,
+    cr.content_author_id,
+    author.username::text,
+    cr.reporter_id,
+    reporter.username::text,
+    cr.reason,
+    cr.comment,
+    cr.status,
+    handler.username::text,
+    cr.handled_at,
+    cr.created_at,
+    count(*) OVER () AS total_count
+  FROM public.content_reports cr
+  LEFT JOIN public.forum_posts fp ON fp.id = cr.post_id
+  LEFT JOIN public.profiles author ON author.id = cr.content_author_id
+  LEFT JOIN public.profiles reporter ON reporter.id = cr.reporter_id
+  LEFT JOIN public.profiles handler ON handler.id = cr.handled_by
+  WHERE (p_status IS NULL OR cr.status = p_status)
+    AND (p_target_type IS NULL OR cr.target_type = p_target_type)
+    AND (p_reason IS NULL OR cr.reason = p_reason)
+    AND (
+      p_search IS NULL OR btrim(p_search) = ''
+      OR reporter.username ILIKE '%' || btrim(p_search) || '%'
+      OR author.username ILIKE '%' || btrim(p_search) || '%'
+      OR cr.content_excerpt ILIKE '%' || btrim(p_search) || '%'
+      OR cr.comment ILIKE '%' || btrim(p_search) || '%'
+    )
+  ORDER BY cr.created_at DESC, cr.id
+  LIMIT GREATEST(p_limit, 1)
+  OFFSET GREATEST(p_offset, 0);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_content_reports(text, text, text, text, integer, integer) TO authenticated;
+
+-- 5. Moderator decisions
+CREATE OR REPLACE FUNCTION public.moderate_content_report(p_report_id uuid, p_action text)
+RETURNS void
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  report public.content_reports%ROWTYPE;
+BEGIN
+  IF NOT public.current_user_has_role('MODERATOR') THEN
+    RAISE EXCEPTION 'Only moderators and administrators can handle reports.';
+  END IF;
+
+  SELECT * INTO report FROM public.content_reports WHERE id = p_report_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report % does not exist.', p_report_id;
+  END IF;
+
+  IF p_action IN ('resolve', 'dismiss') THEN
+    UPDATE public.content_reports
+    SET status = CASE WHEN p_action = 'resolve' THEN 'resolved' ELSE 'dismissed' END,
+        handled_by = auth.uid(),
+        handled_at = now()
+    WHERE id = p_report_id;
+
+  ELSIF p_action = 'delete_content' THEN
+    -- Close every open report on the same content before it disappears
+    UPDATE public.content_reports
+    SET status = 'resolved', handled_by = auth.uid(), handled_at = now()
+    WHERE status = 'open'
+      AND (
+        id = p_report_id
+        OR (report.target_type = 'reply' AND reply_id = report.reply_id)
+        OR (report.target_type = 'post' AND post_id = report.post_id)
+      );
+
+    IF report.target_type = 'reply' THEN
+      DELETE FROM public.forum_replies WHERE id = report.reply_id;
+    ELSE
+      DELETE FROM public.forum_posts WHERE id = report.post_id;
+    END IF;
+
+  ELSIF p_action = 'lock_topic' THEN
+    IF report.post_id IS NULL THEN
+      RAISE EXCEPTION 'The topic of this report no longer exists.';
+    END IF;
+
+    UPDATE public.forum_posts SET is_locked = true WHERE id = report.post_id;
+
+    UPDATE public.content_reports
+    SET status = 'resolved', handled_by = auth.uid(), handled_at = now()
+    WHERE status = 'open'
+      AND (id = p_report_id OR post_id = report.post_id);
+
+  ELSE
+    RAISE EXCEPTION 'Unknown moderation action: %', p_action;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.moderate_content_report(uuid, text) TO authenticated;
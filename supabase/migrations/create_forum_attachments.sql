@@ -0,0 +1,173 @@
+/*
+  # Forum Topic Attachments
+
+  Members can attach images and documents (leaflets, PDFs, photos) to the topics they open.
+  Files live in a private Storage bucket and are readable by whoever can read the topic's
+  section.
+
+  1. Storage
+     - Private bucket `forum-attachments`, 10 MB per file, limited to JPEG, PNG, GIF and WebP
+       images, PDF, plain text and OpenDocument / Word documents.
+     - Objects are stored under `<post_id>/<random name>`, so their access rules can be derived
+       from the topic.
+
+  2. New Tables
+     - `public.forum_attachments`:
+       - `id` (uuid, primary key)
+       - `post_id` (uuid, foreign key to `forum_posts`, cascade delete)
+       - `user_id` (uuid, foreign key to `auth.users`): Who uploaded the file.
+       - `storage_path` (text, unique): Object name in the bucket, must start with `post_id`.
+       - `file_name` (text): Original file name, shown to readers.
+       - `mime_type` (text), `size_bytes` (bigint)
+       - `created_at` (timestamptz)
+
+  3. Row Level Security (RLS)
+     - `forum_attachments` and the bucket's objects:
+       - SELECT: anyone who can read the topic's section.
+       - INSERT: the topic's author, if still allowed to post in its section, up to 5 files per topic.
+       - DELETE: the topic's author, or holders of `post.delete`.
+
+  4. Triggers
+     - `forum_attachments_remove_object`: deleting an attachment row (directly or because its
+       topic was deleted, e.g. by `moderate_content_report()`) removes the stored file, so no
+       orphaned files are left in the bucket.
+*/
+
+-- 1. Bucket
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'forum-attachments',
+  'forum-attachments',
+  false,
+  10485760,
+  ARRAY[
+    'image/jpeg', 'image/png', 'image/gif', 'image/webp',
+    'application/pdf', 'text/plain',
+    'application/vnd.oasis.opendocument.text',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+  ]
+)
+ON CONFLICT (id) DO UPDATE
+SET public = EXCLUDED.public,
+    file_size_limit = EXCLUDED.file_size_limit,
+    allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- 2. Attachments table
+CREATE TABLE IF NOT EXISTS public.forum_attachments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id uuid NOT NULL REFERENCES public.forum_posts(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  storage_path text NOT NULL UNIQUE,
+  file_name text NOT NULL CHECK (char_length(file_name) BETWEEN 1 AND 255),
+  mime_type text NOT NULL,
+  size_bytes bigint NOT NULL CHECK (size_bytes > 0 AND size_bytes <= 10485760),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT forum_attachments_path_check CHECK (split_part(storage_path, '/', 1) = post_id::text)
+);
+
+CREATE INDEX IF NOT EXISTS forum_attachments_post_id_idx ON public.forum_attachments (post_id, created_at);
+
+ALTER TABLE public.forum_attachments ENABLE ROW LEVEL SECURITY;
+
+-- Access to a topic's files, shared by the table and the bucket policies.
+-- `p_post_id` is text because Storage policies read it from the object name.
+CREATE OR REPLACE FUNCTION public.can_access_forum_attachment(p_post_id text, p_action text DEFAULT 'read')
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT CASE p_action
+              WHEN 'read' THEN public.can_access_forum_category(fp.category_id, 'read')
+              WHEN 'upload' THEN fp.user_id = auth.uid()
+                AND public.can_access_forum_category(fp.category_id, 'post')
+                AND (SELECT count(*) FROM public.forum_attachments fa WHERE fa.post_id = fp.id) < 5
+              WHEN 'delete' THEN fp.user_id = auth.uid() OR public.has_permission('post.delete')
+              ELSE false
+            END
+     FROM public.forum_posts fp
+     WHERE fp.id::text = p_post_id),
+    false
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.can_access_forum_attachment(text, text) TO authenticated;
+
+DROP POLICY IF EXISTS "Attachments: readable with the topic" ON public.forum_attachments;
+CREATE POLICY "Attachments: readable with the topic"
+ON public.forum_attachments
+FOR SELECT
+TO authenticated
+USING (public.can_access_forum_attachment(post_id::text, 'read'));
+
+DROP POLICY IF EXISTS "Attachments: topic author can add" ON public.forum_attachments;
+CREATE POLICY "Attachments: topic author can add"
+ON public.forum_attachments
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND public.can_access_forum_attachment(post_id::text, 'upload')
+);
+
+DROP POLICY IF EXISTS "Attachments: topic author or moderators can delete" ON public.forum_attachments;
+CREATE POLICY "Attachments: topic author or moderators can delete"
+ON public.forum_attachments
+FOR DELETE
+TO authenticated
+USING (public.can_access_forum_attachment(post_id::text, 'delete'));
+
+-- 3. Bucket policies
+DROP POLICY IF EXISTS "Forum attachments: readable with the topic" ON storage.objects;
+CREATE POLICY "Forum attachments: readable with the topic"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'forum-attachments'
+  AND public.can_access_forum_attachment((storage.foldername(name))[1], 'read')
+);
+
+DROP POLICY IF EXISTS "Forum attachments: topic author can upload" ON storage.objects;
+CREATE POLICY "Forum attachments: topic author can upload"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'forum-attachments'
+  AND public.can_access_forum_attachment((storage.foldername(name))[1], 'upload')
+);
+
+DROP POLICY IF EXISTS "Forum attachments: topic author or moderators can delete" ON storage.objects;
+CREATE POLICY "Forum attachments: topic author or moderators can delete"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'forum-attachments'
+  AND public.can_access_forum_attachment((storage.foldername(name))[1], 'delete')
+);
+
+-- 4. Remove the stored file with its row
+CREATE OR REPLACE FUNCTION public.remove_forum_attachment_object()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM storage.objects
+  WHERE bucket_id = 'forum-attachments'
+    AND name = OLD.storage_path;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS forum_attachments_remove_object ON public.forum_attachments;
+CREATE TRIGGER forum_attachments_remove_object
+AFTER DELETE ON public.forum_attachments
+FOR EACH ROW
+EXECUTE FUNCTION public.remove_forum_attachment_object();
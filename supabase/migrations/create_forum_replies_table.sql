@@ -0,0 +1,193 @@
+/*
+  # Create Forum Replies Table
+
+  This migration adds replies to forum topics (`forum_posts`) and updates the
+  category listing so that it reports real reply counts and last activity.
+
+  1. New Tables
+     - `public.forum_replies`
+       - `id` (uuid, primary key): Unique identifier for the reply.
+       - `post_id` (uuid, foreign key): References `forum_posts.id`. Deleting a topic deletes its replies.
+       - `user_id` (uuid, foreign key): References `auth.users.id`. The author of the reply.
+       - `content` (text, not null): The body of the reply.
+       - `created_at` (timestamptz, default `now()`): Timestamp of creation.
+       - `updated_at` (timestamptz, default `now()`): Timestamp of the last update.
+
+  2. Row Level Security (RLS)
+     - Same rules as `forum_posts`:
+       - "Allow authenticated users to read replies": `SELECT` for all authenticated users.
+       - "Users can insert their own replies": `user_id` must match `auth.uid()`.
+       - "Users can update their own replies".
+       - "Users can delete their own replies".
+
+  3. New Functions
+     - `public.get_post_replies(p_post_id uuid, p_limit int, p_offset int)`:
+       - Returns one page of replies (oldest first) with the author's profile and a
+         `total_count` column for pagination. `SECURITY INVOKER`.
+
+  4. Modified Functions
+     - `public.get_category_topics(...)`: `reply_count` now counts `forum_replies` and
+       `last_activity_at` is the date of the latest reply (or of the topic itself).
+
+  5. Indexes
+     - `forum_replies(post_id, created_at)` and `forum_replies(user_id)`.
+*/
+
+-- 1. Create forum_replies table
+CREATE TABLE IF NOT EXISTS public.forum_replies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id uuid NOT NULL REFERENCES public.forum_posts(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  content text NOT NULL CHECK (char_length(btrim(content)) > 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_forum_replies_post_id_created_at ON public.forum_replies(post_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_forum_replies_user_id ON public.forum_replies(user_id);
+
+-- 2. Enable RLS and policies
+ALTER TABLE public.forum_replies ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow authenticated users to read replies" ON public.forum_replies;
+CREATE POLICY "Allow authenticated users to read replies"
+ON public.forum_replies
+FOR SELECT
+TO authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Users can insert their own replies" ON public.forum_replies;
+CREATE POLICY "Users can insert their own replies"
+ON public.forum_replies
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own replies" ON public.forum_replies;
+CREATE POLICY "Users can update their own replies"
+ON public.forum_replies
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own replies" ON public.forum_replies;
+CREATE POLICY "Users can delete their own replies"
+ON public.forum_replies
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Trigger for forum_replies updated_at (function defined in create_forum_tables.sql)
+DROP TRIGGER IF EXISTS handle_updated_at ON public.forum_replies;
+CREATE TRIGGER handle_updated_at
+  BEFORE UPDATE ON public.forum_replies
+  FOR EACH ROW
+  EXECUTE PROCEDURE public.update_updated_at_column();
+
+-- 3. Paginated replies of a topic
+CREATE OR REPLACE FUNCTION public.get_post_replies(
+  p_post_id uuid,
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  post_id uuid,
+  content text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  author_id uuid,
+  author_username text,
+  author_full_name text,
+  author_avatar_url text,
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    r.id,
+    r.post_id,
+    r.content,
+    r.created_at,
+    r.updated_at,
+    r.user_id AS author_id,
+    p.username::text,
+    p.full_name::text,
+    p.avatar_url::text,
+    count(*) OVER () AS total_count
+  FROM public.forum_replies r
+  LEFT JOIN public.profiles p ON p.id = r.user_id
+  WHERE r.post_id = p_post_id
+  ORDER BY r.created_at ASC, r.id ASC
+  LIMIT GREATEST(p_limit, 1)
+  OFFSET GREATEST(p_offset, 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_post_replies(uuid, integer, integer) TO authenticated;
+
+-- 4. Category listing with real reply counts
+CREATE OR REPLACE FUNCTION public.get_category_topics(
+  p_category_id uuid,
+  p_sort text DEFAULT 'newest',
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  author_id uuid,
+  author_username text,
+  author_full_name text,
+  author_avatar_url text,
+  reply_count bigint,
+  last_activity_at timestamptz,
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH topics AS (
+    SELECT
+      fp.id,
+      fp.title,
+      fp.created_at,
+      fp.updated_at,
+      fp.user_id AS author_id,
+      count(r.id) AS reply_count,
+      GREATEST(fp.created_at, max(r.created_at)) AS last_activity_at
+    FROM public.forum_posts fp
+    LEFT JOIN public.forum_replies r ON r.post_id = fp.id
+    WHERE fp.category_id = p_category_id
+    GROUP BY fp.id
+  )
+  SELECT
+    t.id,
+    t.title,
+    t.created_at,
+    t.updated_at,
+    t.author_id,
+    p.username::text,
+    p.full_name::text,
+    p.avatar_url::text,
+    t.reply_count,
+    t.last_activity_at,
+    count(*) OVER () AS total_count
+  FROM topics t
+  LEFT JOIN public.profiles p ON p.id = t.author_id
+  ORDER BY
+    CASE WHEN p_sort = 'active' THEN t.reply_count END DESC NULLS LAST,
+    CASE WHEN p_sort = 'active' THEN t.last_activity_at END DESC NULLS LAST,
+    t.created_at DESC
+  LIMIT GREATEST(p_limit, 1)
+  OFFSET GREATEST(p_offset, 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_category_topics(uuid, text, integer, integer) TO authenticated;
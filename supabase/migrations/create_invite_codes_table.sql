@@ -0,0 +1,210 @@
+/*
+  # Invite Codes
+
+  Administrators issue invite codes. A signup carrying a valid code (`invite_code` in the user
+  metadata sent by SignUpPage) is approved at once, with the role of the invite; signups without
+  a code, or whose code is no longer valid, keep the `pending_approval` status.
+
+  1. New Tables
+     - `invite_codes`
+       - `id` (uuid, primary key)
+       - `code` (text, unique, generated: `XXXX-XXXX-XXXX`)
+       - `email` (text, optional: only this address may use the code)
+       - `role` (text, role given to the new member, `USER` by default)
+       - `max_uses` (integer, optional: unlimited when null)
+       - `use_count` (integer)
+       - `expires_at` (timestamptz, optional)
+       - `revoked_at` (timestamptz, set when an administrator revokes the code)
+       - `created_by` (uuid, references `profiles`, set null on delete)
+       - `created_at` (timestamptz)
+     - `invite_redemptions`: one row per member who signed up with a code
+       - `invite_id` (uuid, references `invite_codes`, cascade delete)
+       - `user_id` (uuid, references `profiles`, cascade delete, primary key)
+       - `redeemed_at` (timestamptz)
+
+  2. New Functions
+     - `public.generate_invite_code()`: random code, used as the column default.
+     - `public.check_invite_code(p_code text, p_email text)`: `valid`, `invalid`, `revoked`,
+       `expired`, `exhausted` or `email_mismatch`. Callable before signing up.
+
+  3. Modified Functions
+     - `public.handle_new_user()`: redeems the invite code of the signup, if any.
+
+  4. Permissions
+     - `role_permissions`: new `invite.manage` permission (ADMIN), mirroring
+       `supabase/functions/_shared/permissions.ts`.
+
+  5. Row Level Security (RLS)
+     - Both tables are read by holders of `invite.manage`. Invites are created and revoked by them
+       when their session satisfies `staff_mfa_satisfied()`; a `SUPER_ADMIN` invite also requires
+       `user.manage_super_admins`. Redemptions are only written by `handle_new_user()`.
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- 1. Registry: `invite.manage`
+INSERT INTO public.role_permissions (permission, granted_from)
+VALUES ('invite.manage', 'ADMIN')
+ON CONFLICT (permission) DO UPDATE SET granted_from = EXCLUDED.granted_from;
+
+-- 2. Tables
+CREATE OR REPLACE FUNCTION public.generate_invite_code()
+RETURNS text
+LANGUAGE plpgsql
+VOLATILE
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_alphabet constant text := 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+  v_bytes bytea := gen_random_bytes(12);
+  v_code text := '';
+  i integer;
+BEGIN
+  FOR i IN 0..11 LOOP
+    IF i > 0 AND i % 4 = 0 THEN
+      v_code := v_code || '-';
+    END IF;
+    v_code := v_code || substr(v_alphabet, (get_byte(v_bytes, i) % length(v_alphabet)) + 1, 1);
+  END LOOP;
+  RETURN v_code;
+END;
+$$;
+
+CREATE TABLE IF NOT EXISTS public.invite_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL UNIQUE DEFAULT public.generate_invite_code(),
+  email text,
+  role text NOT NULL DEFAULT 'USER' CHECK (role IN ('USER', 'MODERATOR', 'ADMIN', 'SUPER_ADMIN')),
+  max_uses integer CHECK (max_uses IS NULL OR max_uses > 0),
+  use_count integer NOT NULL DEFAULT 0,
+  expires_at timestamptz,
+  revoked_at timestamptz,
+  created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.invite_redemptions (
+  user_id uuid PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  invite_id uuid NOT NULL REFERENCES public.invite_codes(id) ON DELETE CASCADE,
+  redeemed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS invite_redemptions_invite_id_idx ON public.invite_redemptions (invite_id);
+
+ALTER TABLE public.invite_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invite_redemptions ENABLE ROW LEVEL SECURITY;
+
+-- 3. Validity (codes are compared without case or surrounding spaces)
+CREATE OR REPLACE FUNCTION public.check_invite_code(p_code text, p_email text DEFAULT NULL)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invite public.invite_codes%ROWTYPE;
+BEGIN
+  SELECT * INTO v_invite FROM public.invite_codes WHERE code = upper(btrim(COALESCE(p_code, '')));
+
+  IF NOT FOUND THEN
+    RETURN 'invalid';
+  ELSIF v_invite.revoked_at IS NOT NULL THEN
+    RETURN 'revoked';
+  ELSIF v_invite.expires_at IS NOT NULL AND v_invite.expires_at <= now() THEN
+    RETURN 'expired';
+  ELSIF v_invite.max_uses IS NOT NULL AND v_invite.use_count >= v_invite.max_uses THEN
+    RETURN 'exhausted';
+  ELSIF v_invite.email IS NOT NULL AND p_email IS NOT NULL AND lower(btrim(p_email)) <> lower(v_invite.email) THEN
+    RETURN 'email_mismatch';
+  END IF;
+
+  RETURN 'valid';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.check_invite_code(text, text) TO anon, authenticated;
+
+-- 4. Redemption at signup
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_code text := NEW.raw_user_meta_data->>'invite_code';
+  v_invite public.invite_codes%ROWTYPE;
+BEGIN
+  IF v_code IS NOT NULL AND public.check_invite_code(v_code, NEW.email) = 'valid' THEN
+    -- Locked so that two concurrent signups cannot both take the last use
+    SELECT * INTO v_invite FROM public.invite_codes WHERE code = upper(btrim(v_code)) FOR UPDATE;
+    IF v_invite.max_uses IS NOT NULL AND v_invite.use_count >= v_invite.max_uses THEN
+      v_invite := NULL;
+    END IF;
+  END IF;
+
+  INSERT INTO public.profiles (id, username, full_name, avatar_url, role, status)
+  VALUES (
+    NEW.id,
+    NEW.raw_user_meta_data->>'username',
+    NEW.raw_user_meta_data->>'full_name',
+    NEW.raw_user_meta_data->>'avatar_url',
+    COALESCE(v_invite.role, 'USER'),
+    CASE WHEN v_invite.id IS NOT NULL THEN 'approved' ELSE 'pending_approval' END
+  )
+  ON CONFLICT (id) DO NOTHING;
+
+  IF v_invite.id IS NOT NULL THEN
+    UPDATE public.invite_codes SET use_count = use_count + 1 WHERE id = v_invite.id;
+    INSERT INTO public.invite_redemptions (user_id, invite_id) VALUES (NEW.id, v_invite.id)
+    ON CONFLICT (user_id) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 5. Policies
+DROP POLICY IF EXISTS "Invite managers can view invites" ON public.invite_codes;
+CREATE POLICY "Invite managers can view invites"
+ON public.invite_codes
+FOR SELECT
+TO authenticated
+USING (public.has_permission('invite.manage'));
+
+DROP POLICY IF EXISTS "Invite managers can create invites" ON public.invite_codes;
+CREATE POLICY "Invite managers can create invites"
+ON public.invite_codes
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  public.has_permission('invite.manage')
+  AND public.staff_mfa_satisfied()
+  AND created_by = auth.uid()
+  AND use_count = 0
+  AND revoked_at IS NULL
+  AND (role <> 'SUPER_ADMIN' OR public.has_permission('user.manage_super_admins'))
+);
+
+DROP POLICY IF EXISTS "Invite managers can revoke invites" ON public.invite_codes;
+CREATE POLICY "Invite managers can revoke invites"
+ON public.invite_codes
+FOR UPDATE
+TO authenticated
+USING (public.has_permission('invite.manage') AND public.staff_mfa_satisfied())
+WITH CHECK (
+  public.has_permission('invite.manage')
+  AND public.staff_mfa_satisfied()
+  AND (role <> 'SUPER_ADMIN' OR public.has_permission('user.manage_super_admins'))
+);
+
+DROP POLICY IF EXISTS "Invite managers can view redemptions" ON public.invite_redemptions;
+CREATE POLICY "Invite managers can view redemptions"
+ON public.invite_redemptions
+FOR SELECT
+TO authenticated
+USING (public.has_permission('invite.manage'));
+
+-- Only `revoked_at` may change once an invite is issued
+REVOKE UPDATE ON public.invite_codes FROM authenticated;
+GRANT UPDATE (revoked_at) ON public.invite_codes TO authenticated;
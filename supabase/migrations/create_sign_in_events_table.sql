@@ -0,0 +1,139 @@
+/*
+  # Sign-In History and Active Sessions
+
+  Every new Supabase Auth session (a successful sign-in) is recorded with its user agent, IP
+  address and assurance level. The record is written by triggers on `auth.sessions`, so it does not
+  depend on the client. Members see their own history and active sessions in the "Sécurité" tab of
+  the settings page; administrators see the history of any member.
+
+  1. New Tables
+     - `sign_in_events`
+       - `id` (uuid, primary key)
+       - `user_id` (uuid, references `profiles`, cascade delete)
+       - `session_id` (uuid, the `auth.sessions` row, kept after the session ends)
+       - `signed_in_at` (timestamptz)
+       - `user_agent` (text)
+       - `ip` (inet)
+       - `aal` (text, `aal1` or `aal2`: raised when the session is verified with TOTP)
+
+  2. New Functions
+     - `public.record_sign_in_event()` (trigger, AFTER INSERT on `auth.sessions`): records the
+       sign-in and drops the member's events older than 180 days.
+     - `public.update_sign_in_event_aal()` (trigger, AFTER UPDATE OF aal on `auth.sessions`).
+     - `public.get_my_active_sessions()`: the caller's sessions that have not expired, with
+       `is_current` for the session of the calling token.
+
+  3. Security
+     - RLS on `sign_in_events`: members read their own rows, holders of `user.view` read all rows.
+       No insert, update or delete policy: only the triggers write.
+*/
+
+-- 1. Table
+CREATE TABLE IF NOT EXISTS public.sign_in_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  session_id uuid,
+  signed_in_at timestamptz NOT NULL DEFAULT now(),
+  user_agent text,
+  ip inet,
+  aal text NOT NULL DEFAULT 'aal1'
+);
+
+CREATE INDEX IF NOT EXISTS sign_in_events_user_id_signed_in_at_idx ON public.sign_in_events (user_id, signed_in_at DESC);
+CREATE INDEX IF NOT EXISTS sign_in_events_session_id_idx ON public.sign_in_events (session_id);
+
+ALTER TABLE public.sign_in_events ENABLE ROW LEVEL SECURITY;
+
+-- 2. Triggers on auth.sessions
+CREATE OR REPLACE FUNCTION public.record_sign_in_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Sessions of users without a profile (should not happen) are not recorded
+  IF EXISTS (SELECT 1 FROM public.profiles WHERE id = NEW.user_id) THEN
+    INSERT INTO public.sign_in_events (user_id, session_id, signed_in_at, user_agent, ip, aal)
+    VALUES (NEW.user_id, NEW.id, COALESCE(NEW.created_at, now()), NEW.user_agent, NEW.ip, COALESCE(NEW.aal::text, 'aal1'));
+
+    DELETE FROM public.sign_in_events
+    WHERE user_id = NEW.user_id AND signed_in_at < now() - interval '180 days';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_sign_in_event_aal()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.sign_in_events
+  SET aal = NEW.aal::text
+  WHERE session_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_session_created ON auth.sessions;
+CREATE TRIGGER on_auth_session_created
+  AFTER INSERT ON auth.sessions
+  FOR EACH ROW
+  EXECUTE PROCEDURE public.record_sign_in_event();
+
+DROP TRIGGER IF EXISTS on_auth_session_aal_changed ON auth.sessions;
+CREATE TRIGGER on_auth_session_aal_changed
+  AFTER UPDATE OF aal ON auth.sessions
+  FOR EACH ROW
+  WHEN (NEW.aal IS DISTINCT FROM OLD.aal)
+  EXECUTE PROCEDURE public.update_sign_in_event_aal();
+
+-- 3. Active sessions of the caller
+CREATE OR REPLACE FUNCTION public.get_my_active_sessions()
+RETURNS TABLE (
+  id uuid,
+  created_at timestamptz,
+  last_active_at timestamptz,
+  user_agent text,
+  ip inet,
+  aal text,
+  is_current boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    s.created_at,
+    COALESCE(s.refreshed_at::timestamptz, s.updated_at, s.created_at),
+    s.user_agent,
+    s.ip,
+    COALESCE(s.aal::text, 'aal1'),
+    s.id::text = (auth.jwt() ->> 'session_id')
+  FROM auth.sessions s
+  WHERE s.user_id = auth.uid()
+    AND (s.not_after IS NULL OR s.not_after > now())
+  ORDER BY COALESCE(s.refreshed_at::timestamptz, s.updated_at, s.created_at) DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_my_active_sessions() TO authenticated;
+
+-- 4. Policies
+DROP POLICY IF EXISTS "Users can view their own sign-in events" ON public.sign_in_events;
+CREATE POLICY "Users can view their own sign-in events"
+ON public.sign_in_events
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Admins can view all sign-in events" ON public.sign_in_events;
+CREATE POLICY "Admins can view all sign-in events"
+ON public.sign_in_events
+FOR SELECT
+TO authenticated
+USING (public.has_permission('user.view'));
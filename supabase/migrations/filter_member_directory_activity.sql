@@ -0,0 +1,99 @@
+/*
+  # Member Directory: Only Count Readable Messages
+
+  `post_count` and `last_post_at` counted every topic and reply, including those of sections the
+  caller cannot read: the directory leaked activity in restricted sections (and its sort order
+  too).
+
+  1. Modified Functions
+     - `public.get_member_directory(...)`: only topics and replies of sections the caller can read
+       (`can_access_forum_category(..., 'read')`) are counted. The full name stays masked according
+       to its visibility (see `add_profile_details.sql`).
+*/
+
+CREATE OR REPLACE FUNCTION public.get_member_directory(
+  p_search text DEFAULT NULL,
+  p_sort text DEFAULT 'alphabetical',
+  p_limit integer DEFAULT 24,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  username text,
+  full_name text,
+  avatar_url text,
+  role text,
+  created_at timestamptz,
+  post_count bigint,
+  last_post_at timestamptz,
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_search text := NULLIF(btrim(COALESCE(p_search, '')), '');
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE profiles.id = auth.uid() AND profiles.status = 'approved') THEN
+    RAISE EXCEPTION 'Only approved members can browse the member directory.';
+  END IF;
+
+  RETURN QUERY
+  WITH readable_categories AS (
+    SELECT c.id FROM public.forum_categories c
+    WHERE public.can_access_forum_category(c.id, 'read')
+  ),
+  activity AS (
+    SELECT messages.user_id, count(*) AS post_count, max(messages.created_at) AS last_post_at
+    FROM (
+      SELECT fp.user_id, fp.created_at
+      FROM public.forum_posts fp
+      JOIN readable_categories rc ON rc.id = fp.category_id
+      UNION ALL
+      SELECT fr.user_id, fr.created_at
+      FROM public.forum_replies fr
+      JOIN public.forum_posts fp ON fp.id = fr.post_id
+      JOIN readable_categories rc ON rc.id = fp.category_id
+    ) messages
+    GROUP BY messages.user_id
+  ),
+  members AS (
+    SELECT
+      p.id,
+      p.username::text AS username,
+      CASE WHEN public.profile_field_visible(p.id, d.full_name_visibility) THEN p.full_name::text END AS full_name,
+      p.avatar_url::text AS avatar_url,
+      p.role::text AS role,
+      p.created_at
+    FROM public.profiles p
+    LEFT JOIN public.profile_details d ON d.user_id = p.id
+    WHERE p.status = 'approved'
+  )
+  SELECT
+    m.id,
+    m.username,
+    m.full_name,
+    m.avatar_url,
+    m.role,
+    m.created_at,
+    COALESCE(a.post_count, 0),
+    a.last_post_at,
+    count(*) OVER () AS total_count
+  FROM members m
+  LEFT JOIN activity a ON a.user_id = m.id
+  WHERE v_search IS NULL
+    OR m.username ILIKE '%' || v_search || '%'
+    OR m.full_name ILIKE '%' || v_search || '%'
+  ORDER BY
+    CASE WHEN p_sort = 'most_active' THEN COALESCE(a.post_count, 0) END DESC,
+    CASE WHEN p_sort = 'recently_active' THEN a.last_post_at END DESC NULLS LAST,
+    lower(COALESCE(m.username, m.full_name)) ASC NULLS LAST,
+    m.id
+  LIMIT GREATEST(COALESCE(p_limit, 24), 1)
+  OFFSET GREATEST(COALESCE(p_offset, 0), 0);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_member_directory(text, text, integer, integer) TO authenticated;
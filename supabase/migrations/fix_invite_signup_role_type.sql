@@ -0,0 +1,59 @@
+/*
+  # Store the Invite Role Whatever the Type of `profiles.role`
+
+  `handle_new_user()` inserted `COALESCE(v_invite.role, 'USER')`, a text expression. Where
+  `profiles.role` is still `user_role_enum` (see `001_forum_schema_and_roles.sql`), the INSERT
+  failed with a type error, and every signup failed with it since the function runs in the
+  `auth.users` trigger.
+
+  1. Modified Functions
+     - `public.handle_new_user()`: the role goes through a variable of type
+       `public.profiles.role%TYPE`, which PL/pgSQL converts to from text for both column types.
+
+  2. Notes
+     - Members can no longer approve themselves after signing up without a code:
+       `profiles_protect_approval_status` (see `protect_profile_approval_status.sql`) reserves
+       `status` to moderators.
+*/
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_code text := NEW.raw_user_meta_data->>'invite_code';
+  v_invite public.invite_codes%ROWTYPE;
+  v_role public.profiles.role%TYPE;
+BEGIN
+  IF v_code IS NOT NULL AND public.check_invite_code(v_code, NEW.email) = 'valid' THEN
+    -- Locked so that two concurrent signups cannot both take the last use
+    SELECT * INTO v_invite FROM public.invite_codes WHERE code = upper(btrim(v_code)) FOR UPDATE;
+    IF v_invite.max_uses IS NOT NULL AND v_invite.use_count >= v_invite.max_uses THEN
+      v_invite := NULL;
+    END IF;
+  END IF;
+
+  -- Text or `user_role_enum`, converted on assignment
+  v_role := COALESCE(v_invite.role, 'USER');
+
+  INSERT INTO public.profiles (id, username, full_name, avatar_url, role, status)
+  VALUES (
+    NEW.id,
+    NEW.raw_user_meta_data->>'username',
+    NEW.raw_user_meta_data->>'full_name',
+    NEW.raw_user_meta_data->>'avatar_url',
+    v_role,
+    CASE WHEN v_invite.id IS NOT NULL THEN 'approved' ELSE 'pending_approval' END
+  )
+  ON CONFLICT (id) DO NOTHING;
+
+  IF v_invite.id IS NOT NULL THEN
+    UPDATE public.invite_codes SET use_count = use_count + 1 WHERE id = v_invite.id;
+    INSERT INTO public.invite_redemptions (user_id, invite_id) VALUES (NEW.id, v_invite.id)
+    ON CONFLICT (user_id) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
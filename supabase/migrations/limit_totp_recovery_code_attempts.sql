@@ -0,0 +1,99 @@
+/*
+  # Limit Recovery Code Attempts
+
+  `redeem-totp-recovery-code` is called with a password-only (`aal1`) session, and one valid code
+  removes every TOTP factor of the account: someone holding the password could try codes without
+  limit. After 5 invalid codes within 15 minutes, redemption is locked for 15 minutes.
+
+  1. New Tables
+     - `totp_recovery_attempts` (one row per member with recent failures)
+       - `user_id` (uuid, primary key, references `profiles`, cascade delete)
+       - `failed_count` (integer): invalid codes in the current window
+       - `last_failed_at` (timestamptz)
+       - `locked_until` (timestamptz, set on the 5th failure)
+
+  2. Modified Functions
+     - `public.consume_totp_recovery_code(p_user_id uuid, p_code text)`: now returns `'valid'`,
+       `'invalid'` or `'locked'` instead of a boolean. While locked, codes are not checked. A valid
+       code clears the failures. Still only callable with the service role.
+
+  3. Security
+     - RLS enabled on `totp_recovery_attempts` without any policy: only the function reaches it.
+*/
+
+-- 1. Table
+CREATE TABLE IF NOT EXISTS public.totp_recovery_attempts (
+  user_id uuid PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  failed_count integer NOT NULL DEFAULT 0,
+  last_failed_at timestamptz NOT NULL DEFAULT now(),
+  locked_until timestamptz
+);
+
+ALTER TABLE public.totp_recovery_attempts ENABLE ROW LEVEL SECURITY;
+
+-- 2. Redemption with a lockout
+DROP FUNCTION IF EXISTS public.consume_totp_recovery_code(uuid, text);
+
+CREATE OR REPLACE FUNCTION public.consume_totp_recovery_code(p_user_id uuid, p_code text)
+RETURNS text
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_max_failures constant integer := 5;
+  v_window constant interval := interval '15 minutes';
+  v_normalized text := lower(regexp_replace(COALESCE(p_code, ''), '[^a-zA-Z0-9]', '', 'g'));
+  v_attempts public.totp_recovery_attempts%ROWTYPE;
+  v_failed_count integer;
+  v_code_id uuid;
+BEGIN
+  SELECT * INTO v_attempts FROM public.totp_recovery_attempts WHERE user_id = p_user_id FOR UPDATE;
+
+  IF v_attempts.locked_until > now() THEN
+    RETURN 'locked';
+  END IF;
+
+  IF length(v_normalized) = 10 THEN
+    SELECT id INTO v_code_id
+    FROM public.totp_recovery_codes
+    WHERE user_id = p_user_id
+      AND used_at IS NULL
+      AND code_hash = crypt(v_normalized, code_hash)
+    LIMIT 1
+    FOR UPDATE;
+  END IF;
+
+  IF v_code_id IS NOT NULL THEN
+    UPDATE public.totp_recovery_codes SET used_at = now() WHERE id = v_code_id;
+    DELETE FROM public.totp_recovery_attempts WHERE user_id = p_user_id;
+    RETURN 'valid';
+  END IF;
+
+  -- A new window starts after an expired lock or a quiet period
+  v_failed_count := CASE
+    WHEN v_attempts.user_id IS NULL
+      OR v_attempts.locked_until IS NOT NULL
+      OR v_attempts.last_failed_at < now() - v_window THEN 1
+    ELSE v_attempts.failed_count + 1
+  END;
+
+  INSERT INTO public.totp_recovery_attempts (user_id, failed_count, last_failed_at, locked_until)
+  VALUES (
+    p_user_id,
+    v_failed_count,
+    now(),
+    CASE WHEN v_failed_count >= v_max_failures THEN now() + v_window END
+  )
+  ON CONFLICT (user_id) DO UPDATE
+  SET failed_count = EXCLUDED.failed_count,
+      last_failed_at = EXCLUDED.last_failed_at,
+      locked_until = EXCLUDED.locked_until;
+
+  RETURN 'invalid';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_totp_recovery_code(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_totp_recovery_code(uuid, text) TO service_role;
@@ -0,0 +1,338 @@
+/*
+  # Move Full Names to `profile_details`
+
+  `profiles` is readable by every member, column by column: its `full_name` ignored
+  `full_name_visibility` for anyone selecting it directly. The full name now lives next to its
+  visibility setting in `profile_details`, which only its owner can read, and reaches other members
+  through the functions below.
+
+  1. Modified Tables
+     - `profile_details`: new `full_name` column (text, nullable, at most 100 characters), filled
+       from `profiles.full_name`.
+     - `profiles`: `full_name` is dropped.
+
+  2. Modified Functions
+     - `public.visible_full_name(...)`, `public.get_profile_details(...)`,
+       `public.get_member_directory(...)`, `public.get_pending_approvals()` and
+       `public.get_all_user_details(...)` read the full name from `profile_details`.
+     - `public.handle_new_user()`: the full name given at signup goes to `profile_details`.
+
+  3. Security
+     - `profile_details`: new policy "Profile details: user editors manage", members holding
+       `user.edit` read and write the details of other members (full name from the user
+       management page).
+*/
+
+-- 1. Column
+ALTER TABLE public.profile_details
+  ADD COLUMN IF NOT EXISTS full_name text CHECK (char_length(full_name) <= 100);
+
+INSERT INTO public.profile_details (user_id, full_name)
+SELECT id, left(full_name, 100)
+FROM public.profiles
+WHERE full_name IS NOT NULL
+ON CONFLICT (user_id) DO UPDATE SET full_name = EXCLUDED.full_name;
+
+-- 2. Policies
+DROP POLICY IF EXISTS "Profile details: user editors manage" ON public.profile_details;
+CREATE POLICY "Profile details: user editors manage"
+ON public.profile_details
+FOR ALL
+TO authenticated
+USING (public.has_permission('user.edit'))
+WITH CHECK (public.has_permission('user.edit'));
+
+-- 3. Readers
+CREATE OR REPLACE FUNCTION public.visible_full_name(p_user_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE WHEN public.profile_field_visible(d.user_id, d.full_name_visibility) THEN d.full_name END
+  FROM public.profile_details d
+  WHERE d.user_id = p_user_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.visible_full_name(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_profile_details(p_user_id uuid)
+RETURNS TABLE (
+  full_name text,
+  bio text,
+  location text,
+  contact_links jsonb
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_user_id IS DISTINCT FROM auth.uid()
+    AND NOT EXISTS (SELECT 1 FROM public.profiles WHERE profiles.id = auth.uid() AND profiles.status = 'approved') THEN
+    RAISE EXCEPTION 'Only approved members can view member profiles.';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    CASE WHEN public.profile_field_visible(p.id, d.full_name_visibility) THEN d.full_name END,
+    CASE WHEN public.profile_field_visible(p.id, d.bio_visibility) THEN d.bio END,
+    CASE WHEN public.profile_field_visible(p.id, d.location_visibility) THEN d.location END,
+    CASE WHEN public.profile_field_visible(p.id, d.links_visibility) THEN d.contact_links ELSE '[]'::jsonb END
+  FROM public.profiles p
+  LEFT JOIN public.profile_details d ON d.user_id = p.id
+  WHERE p.id = p_user_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_profile_details(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_member_directory(
+  p_search text DEFAULT NULL,
+  p_sort text DEFAULT 'alphabetical',
+  p_limit integer DEFAULT 24,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  username text,
+  full_name text,
+  avatar_url text,
+  role text,
+  created_at timestamptz,
+  post_count bigint,
+  last_post_at timestamptz,
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_search text := NULLIF(btrim(COALESCE(p_search, '')), '');
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE profiles.id = auth.uid() AND profiles.status = 'approved') THEN
+    RAISE EXCEPTION 'Only approved members can browse the member directory.';
+  END IF;
+
+  RETURN QUERY
+  WITH readable_categories AS (
+    SELECT c.id FROM public.forum_categories c
+    WHERE public.can_access_forum_category(c.id, 'read')
+  ),
+  activity AS (
+    SELECT messages.user_id, count(*) AS post_count, max(messages.created_at) AS last_post_at
+    FROM (
+      SELECT fp.user_id, fp.created_at
+      FROM public.forum_posts fp
+      JOIN readable_categories rc ON rc.id = fp.category_id
+      UNION ALL
+      SELECT fr.user_id, fr.created_at
+      FROM public.forum_replies fr
+      JOIN public.forum_posts fp ON fp.id = fr.post_id
+      JOIN readable_categories rc ON rc.id = fp.category_id
+    ) messages
+    GROUP BY messages.user_id
+  ),
+  members AS (
+    SELECT
+      p.id,
+      p.username::text AS username,
+      CASE WHEN public.profile_field_visible(p.id, d.full_name_visibility) THEN d.full_name END AS full_name,
+      p.avatar_url::text AS avatar_url,
+      p.role::text AS role,
+      p.created_at
+    FROM public.profiles p
+    LEFT JOIN public.profile_details d ON d.user_id = p.id
+    WHERE p.status = 'approved'
+  )
+  SELECT
+    m.id,
+    m.username,
+    m.full_name,
+    m.avatar_url,
+    m.role,
+    m.created_at,
+    COALESCE(a.post_count, 0),
+    a.last_post_at,
+    count(*) OVER () AS total_count
+  FROM members m
+  LEFT JOIN activity a ON a.user_id = m.id
+  WHERE v_search IS NULL
+    OR m.username ILIKE '%' || v_search || '%'
+    OR m.full_name ILIKE '%' || v_search || '%'
+  ORDER BY
+    CASE WHEN p_sort = 'most_active' THEN COALESCE(a.post_count, 0) END DESC,
+    CASE WHEN p_sort = 'recently_active' THEN a.last_post_at END DESC NULLS LAST,
+    lower(COALESCE(m.username, m.full_name)) ASC NULLS LAST,
+    m.id
+  LIMIT GREATEST(COALESCE(p_limit, 24), 1)
+  OFFSET GREATEST(COALESCE(p_offset, 0), 0);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_member_directory(text, text, integer, integer) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_pending_approvals()
+RETURNS TABLE (
+  id uuid,
+  username text,
+  full_name text,
+  email text,
+  email_confirmed_at timestamptz,
+  created_at timestamptz,
+  previous_rejection_reason text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission('user.approve') THEN
+    RAISE EXCEPTION 'Permission denied.';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.username::text,
+    pd.full_name,
+    u.email::text,
+    u.email_confirmed_at,
+    u.created_at,
+    (SELECT d.note FROM public.approval_decisions d
+     WHERE d.user_id = p.id AND d.decision = 'rejected'
+     ORDER BY d.decided_at DESC LIMIT 1)
+  FROM public.profiles p
+  JOIN auth.users u ON u.id = p.id
+  LEFT JOIN public.profile_details pd ON pd.user_id = p.id
+  WHERE p.status = 'pending_approval'
+  ORDER BY u.created_at ASC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_pending_approvals() TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_all_user_details(
+  p_search text DEFAULT NULL,
+  p_role text DEFAULT NULL,
+  p_status text DEFAULT NULL,
+  p_sort text DEFAULT 'created_at_desc',
+  p_limit integer DEFAULT 25,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  email text,
+  created_at timestamptz,
+  username text,
+  full_name text,
+  avatar_url text,
+  status text,
+  role text,
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_search text := NULLIF(btrim(COALESCE(p_search, '')), '');
+BEGIN
+  IF NOT public.has_permission('user.view') THEN
+    RAISE EXCEPTION 'Permission denied.';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    u.id,
+    u.email::text,
+    u.created_at,
+    p.username::text,
+    d.full_name,
+    p.avatar_url::text,
+    p.status::text,
+    p.role::text,
+    count(*) OVER () AS total_count
+  FROM auth.users u
+  LEFT JOIN public.profiles p ON u.id = p.id
+  LEFT JOIN public.profile_details d ON d.user_id = u.id
+  WHERE (p_role IS NULL OR p.role::text = upper(p_role))
+    AND (p_status IS NULL OR p.status::text = p_status)
+    AND (
+      v_search IS NULL
+      OR u.email ILIKE '%' || v_search || '%'
+      OR p.username ILIKE '%' || v_search || '%'
+      OR d.full_name ILIKE '%' || v_search || '%'
+    )
+  ORDER BY
+    CASE WHEN p_sort = 'created_at_asc' THEN u.created_at END ASC,
+    CASE WHEN p_sort = 'username_asc' THEN lower(p.username) END ASC NULLS LAST,
+    CASE WHEN p_sort = 'username_desc' THEN lower(p.username) END DESC NULLS LAST,
+    CASE WHEN p_sort = 'email_asc' THEN lower(u.email) END ASC,
+    CASE WHEN p_sort = 'email_desc' THEN lower(u.email) END DESC,
+    u.created_at DESC,
+    u.id
+  LIMIT GREATEST(COALESCE(p_limit, 25), 1)
+  OFFSET GREATEST(COALESCE(p_offset, 0), 0);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_all_user_details(text, text, text, text, integer, integer) TO authenticated;
+
+-- 4. Signup
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_code text := NEW.raw_user_meta_data->>'invite_code';
+  v_full_name text := NULLIF(btrim(COALESCE(NEW.raw_user_meta_data->>'full_name', '')), '');
+  v_invite public.invite_codes%ROWTYPE;
+  v_role public.profiles.role%TYPE;
+BEGIN
+  IF v_code IS NOT NULL AND public.check_invite_code(v_code, NEW.email) = 'valid' THEN
+    -- Locked so that two concurrent signups cannot both take the last use
+    SELECT * INTO v_invite FROM public.invite_codes WHERE code = upper(btrim(v_code)) FOR UPDATE;
+    IF v_invite.max_uses IS NOT NULL AND v_invite.use_count >= v_invite.max_uses THEN
+      v_invite := NULL;
+    END IF;
+  END IF;
+
+  -- Text or `user_role_enum`, converted on assignment
+  v_role := COALESCE(v_invite.role, 'USER');
+
+  INSERT INTO public.profiles (id, username, avatar_url, role, status)
+  VALUES (
+    NEW.id,
+    NEW.raw_user_meta_data->>'username',
+    NEW.raw_user_meta_data->>'avatar_url',
+    v_role,
+    CASE WHEN v_invite.id IS NOT NULL THEN 'approved' ELSE 'pending_approval' END
+  )
+  ON CONFLICT (id) DO NOTHING;
+
+  IF v_full_name IS NOT NULL THEN
+    INSERT INTO public.profile_details (user_id, full_name)
+    VALUES (NEW.id, left(v_full_name, 100))
+    ON CONFLICT (user_id) DO NOTHING;
+  END IF;
+
+  IF v_invite.id IS NOT NULL THEN
+    UPDATE public.invite_codes SET use_count = use_count + 1 WHERE id = v_invite.id;
+    INSERT INTO public.invite_redemptions (user_id, invite_id) VALUES (NEW.id, v_invite.id)
+    ON CONFLICT (user_id) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 5. Old column
+ALTER TABLE public.profiles DROP COLUMN IF EXISTS full_name;
@@ -0,0 +1,125 @@
+/*
+  # Normalize User Roles
+
+  `profiles.role` holds either the `user_role_enum` values ('USER', 'MODERATOR', 'ADMIN',
+  'SUPER_ADMIN') or lowercase text ('user', 'admin', ...), depending on which migrations ran.
+  This migration makes the uppercase values the only stored form. They match `ROLES` in
+  `src/lib/roles.ts` (also used by the Edge Functions) and `public.role_rank()`.
+
+  1. Data
+     - When `role` is a text column, every value is uppercased; unknown or missing values
+       become 'USER'. The default becomes 'USER' and a check constraint limits the column
+       to the four canonical roles. An enum column already holds canonical values.
+     - Triggers on `profiles` are disabled during the update: `prevent_profile_id_role_change`
+       would reject a role change made without an admin JWT.
+
+  2. New Functions
+     - `public.normalize_profile_role()` (trigger, BEFORE INSERT OR UPDATE OF role): uppercases
+       the role written by older clients, and falls back to 'USER' when it is missing.
+
+  3. Updated Functions
+     - `public.get_current_user_role()`: now returns the canonical uppercase role. Existing
+       callers compare `lower(...)` and are not affected.
+
+  4. Row Level Security (RLS)
+     - The admin checks of the "Profiles: ..." policies compared `get_current_user_role()` with
+       lowercase values. They now use `public.current_user_has_role('ADMIN')`.
+*/
+
+-- 1. Normalize stored values
+DO $$
+DECLARE
+  role_data_type text;
+BEGIN
+  SELECT data_type INTO role_data_type
+  FROM information_schema.columns
+  WHERE table_schema = 'public' AND table_name = 'profiles' AND column_name = 'role';
+
+  IF role_data_type IN ('text', 'character varying') THEN
+    ALTER TABLE public.profiles DISABLE TRIGGER USER;
+
+    UPDATE public.profiles
+    SET role = CASE
+      WHEN upper(btrim(role)) IN ('USER', 'MODERATOR', 'ADMIN', 'SUPER_ADMIN') THEN upper(btrim(role))
+      ELSE 'USER'
+    END
+    WHERE role IS NULL OR role NOT IN ('USER', 'MODERATOR', 'ADMIN', 'SUPER_ADMIN');
+
+    ALTER TABLE public.profiles ENABLE TRIGGER USER;
+
+    ALTER TABLE public.profiles ALTER COLUMN role SET DEFAULT 'USER';
+    ALTER TABLE public.profiles ALTER COLUMN role SET NOT NULL;
+
+    ALTER TABLE public.profiles DROP CONSTRAINT IF EXISTS profiles_role_check;
+    ALTER TABLE public.profiles
+      ADD CONSTRAINT profiles_role_check CHECK (role IN ('USER', 'MODERATOR', 'ADMIN', 'SUPER_ADMIN'));
+  END IF;
+END;
+$$;
+
+-- 2. Keep new values canonical
+CREATE OR REPLACE FUNCTION public.normalize_profile_role()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.role := COALESCE(upper(btrim(NEW.role::text)), 'USER');
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS normalize_profile_role ON public.profiles;
+CREATE TRIGGER normalize_profile_role
+  BEFORE INSERT OR UPDATE OF role ON public.profiles
+  FOR EACH ROW
+  EXECUTE PROCEDURE public.normalize_profile_role();
+
+-- 3. Canonical role of the caller
+CREATE OR REPLACE FUNCTION public.get_current_user_role()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT upper(role::text) FROM public.profiles WHERE id = auth.uid();
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_current_user_role() TO authenticated;
+
+-- 4. Profiles policies
+DROP POLICY IF EXISTS "Profiles: Users can view, Admins can view all" ON public.profiles;
+CREATE POLICY "Profiles: Users can view, Admins can view all"
+ON public.profiles
+FOR SELECT
+USING (
+  (auth.uid() = id) OR public.current_user_has_role('ADMIN')
+);
+
+DROP POLICY IF EXISTS "Profiles: Admins can insert" ON public.profiles;
+CREATE POLICY "Profiles: Admins can insert"
+ON public.profiles
+FOR INSERT
+WITH CHECK (
+  public.current_user_has_role('ADMIN')
+);
+
+DROP POLICY IF EXISTS "Profiles: Users can update own, Admins can update all" ON public.profiles;
+CREATE POLICY "Profiles: Users can update own, Admins can update all"
+ON public.profiles
+FOR UPDATE
+USING (
+  (auth.uid() = id) OR public.current_user_has_role('ADMIN')
+)
+WITH CHECK (
+  (auth.uid() = id) OR public.current_user_has_role('ADMIN')
+);
+
+DROP POLICY IF EXISTS "Profiles: Admins can delete" ON public.profiles;
+CREATE POLICY "Profiles: Admins can delete"
+ON public.profiles
+FOR DELETE
+USING (
+  public.current_user_has_role('ADMIN')
+);
@@ -0,0 +1,86 @@
+/*
+  # Paginated and Searchable User List
+
+  `get_all_user_details()` returned every member in one call. It now filters, sorts and pages on
+  the server, and returns the number of matching members with each row.
+
+  1. Modified Functions
+     - `public.get_all_user_details(p_search, p_role, p_status, p_sort, p_limit, p_offset)`
+       replaces `public.get_all_user_details()`:
+       - `p_search`: matched against the email, username and full name (case-insensitive).
+       - `p_role`, `p_status`: exact filters, ignored when null.
+       - `p_sort`: `created_at_desc` (default), `created_at_asc`, `username_asc`, `username_desc`,
+         `email_asc` or `email_desc`.
+       - `p_limit` / `p_offset`: page of results.
+       - New `total_count` column (same value on every row).
+     - Access is now checked with the `user.view` permission.
+*/
+
+DROP FUNCTION IF EXISTS public.get_all_user_details();
+
+CREATE OR REPLACE FUNCTION public.get_all_user_details(
+  p_search text DEFAULT NULL,
+  p_role text DEFAULT NULL,
+  p_status text DEFAULT NULL,
+  p_sort text DEFAULT 'created_at_desc',
+  p_limit integer DEFAULT 25,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  email text,
+  created_at timestamptz,
+  username text,
+  full_name text,
+  avatar_url text,
+  status text,
+  role text,
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_search text := NULLIF(btrim(COALESCE(p_search, '')), '');
+BEGIN
+  IF NOT public.has_permission('user.view') THEN
+    RAISE EXCEPTION 'Permission denied.';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    u.id,
+    u.email::text,
+    u.created_at,
+    p.username::text,
+    p.full_name::text,
+    p.avatar_url::text,
+    p.status::text,
+    p.role::text,
+    count(*) OVER () AS total_count
+  FROM auth.users u
+  LEFT JOIN public.profiles p ON u.id = p.id
+  WHERE (p_role IS NULL OR p.role::text = upper(p_role))
+    AND (p_status IS NULL OR p.status::text = p_status)
+    AND (
+      v_search IS NULL
+      OR u.email ILIKE '%' || v_search || '%'
+      OR p.username ILIKE '%' || v_search || '%'
+      OR p.full_name ILIKE '%' || v_search || '%'
+    )
+  ORDER BY
+    CASE WHEN p_sort = 'created_at_asc' THEN u.created_at END ASC,
+    CASE WHEN p_sort = 'username_asc' THEN lower(p.username) END ASC NULLS LAST,
+    CASE WHEN p_sort = 'username_desc' THEN lower(p.username) END DESC NULLS LAST,
+    CASE WHEN p_sort = 'email_asc' THEN lower(u.email) END ASC,
+    CASE WHEN p_sort = 'email_desc' THEN lower(u.email) END DESC,
+    u.created_at DESC,
+    u.id
+  LIMIT GREATEST(COALESCE(p_limit, 25), 1)
+  OFFSET GREATEST(COALESCE(p_offset, 0), 0);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_all_user_details(text, text, text, text, integer, integer) TO authenticated;
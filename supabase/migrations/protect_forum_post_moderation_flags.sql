@@ -0,0 +1,48 @@
+/*
+  # Protect the Pin and Lock Flags of Topics
+
+  Authors may update their own topics, and the policy has no column restriction: a member could
+  pin their own topic above everyone else's, or unlock a topic a moderator locked (and reply to
+  it again). `is_pinned` and `is_locked` are now reserved to the holders of `post.pin` and
+  `post.lock`.
+
+  1. New Functions
+     - `public.protect_forum_post_moderation_flags()`: trigger function. On INSERT, a topic can
+       only start pinned or locked with the matching permission; on UPDATE, changing either flag
+       requires it. Calls without a user (service role, SQL console) are not checked.
+
+  2. Triggers
+     - `forum_posts_protect_moderation_flags` (BEFORE INSERT OR UPDATE on `forum_posts`).
+*/
+
+CREATE OR REPLACE FUNCTION public.protect_forum_post_moderation_flags()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old_pinned boolean := CASE WHEN TG_OP = 'UPDATE' THEN OLD.is_pinned ELSE false END;
+  v_old_locked boolean := CASE WHEN TG_OP = 'UPDATE' THEN OLD.is_locked ELSE false END;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.is_pinned IS DISTINCT FROM v_old_pinned AND NOT public.has_permission('post.pin') THEN
+    RAISE EXCEPTION 'Only moderators can pin or unpin a topic.';
+  END IF;
+
+  IF NEW.is_locked IS DISTINCT FROM v_old_locked AND NOT public.has_permission('post.lock') THEN
+    RAISE EXCEPTION 'Only moderators can lock or unlock a topic.';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS forum_posts_protect_moderation_flags ON public.forum_posts;
+CREATE TRIGGER forum_posts_protect_moderation_flags
+BEFORE INSERT OR UPDATE ON public.forum_posts
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_forum_post_moderation_flags();
@@ -0,0 +1,43 @@
+/*
+  # Protect the Approval Status of Profiles
+
+  Members may update their own profile row, and the policy has no column restriction: an
+  applicant could set their own `status` to 'approved' (skipping the approvals queue and being
+  recorded as their own decider) or rewrite their `rejection_reason`. Both columns are now
+  reserved to the holders of `user.approve` or `user.edit`.
+
+  1. New Functions
+     - `public.protect_profile_approval_status()`: trigger function. Changing `status` or
+       `rejection_reason` requires `user.approve` or `user.edit`. Calls without a user (service
+       role, SQL console) are not checked. `decide_user_approval()` runs as its caller, who holds
+       `user.approve`.
+
+  2. Triggers
+     - `profiles_protect_approval_status` (BEFORE UPDATE OF status, rejection_reason on `profiles`).
+*/
+
+CREATE OR REPLACE FUNCTION public.protect_profile_approval_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF (NEW.status IS DISTINCT FROM OLD.status OR NEW.rejection_reason IS DISTINCT FROM OLD.rejection_reason)
+    AND NOT (public.has_permission('user.approve') OR public.has_permission('user.edit')) THEN
+    RAISE EXCEPTION 'Only moderators can change the approval status of a member.';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS profiles_protect_approval_status ON public.profiles;
+CREATE TRIGGER profiles_protect_approval_status
+BEFORE UPDATE OF status, rejection_reason ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_profile_approval_status();
@@ -0,0 +1,182 @@
+/*
+  # Keep Full Names Behind Their Visibility Setting
+
+  `full_name_visibility` was only applied by `get_profile_details()` and the member directory:
+  the profiles SELECT policy, the forum listings and the page selects still returned
+  `profiles.full_name` to every approved member.
+
+  1. New Functions
+     - `public.visible_full_name(p_user_id uuid)`: full name of a member when the caller may see
+       it, `NULL` otherwise.
+
+  2. Modified Functions
+     - `public.get_post_replies(...)` and `public.get_category_topics(...)`: `author_full_name`
+       goes through `visible_full_name()`.
+     - `public.get_profile_details(p_user_id uuid)`: members can read their own details before
+       approval; the app loads the own full name through it.
+
+  3. Notes
+     - The column itself leaves `profiles` in `move_full_name_to_profile_details.sql`.
+*/
+
+-- 1. Helper
+CREATE OR REPLACE FUNCTION public.visible_full_name(p_user_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE WHEN public.profile_field_visible(p.id, d.full_name_visibility) THEN p.full_name::text END
+  FROM public.profiles p
+  LEFT JOIN public.profile_details d ON d.user_id = p.id
+  WHERE p.id = p_user_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.visible_full_name(uuid) TO authenticated;
+
+-- 2. Forum listings
+CREATE OR REPLACE FUNCTION public.get_post_replies(
+  p_post_id uuid,
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  post_id uuid,
+  content text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  author_id uuid,
+  author_username text,
+  author_full_name text,
+  author_avatar_url text,
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    r.id,
+    r.post_id,
+    r.content,
+    r.created_at,
+    r.updated_at,
+    r.user_id AS author_id,
+    p.username::text,
+    public.visible_full_name(p.id),
+    p.avatar_url::text,
+    count(*) OVER () AS total_count
+  FROM public.forum_replies r
+  LEFT JOIN public.profiles p ON p.id = r.user_id
+  WHERE r.post_id = p_post_id
+  ORDER BY r.created_at ASC, r.id ASC
+  LIMIT GREATEST(p_limit, 1)
+  OFFSET GREATEST(p_offset, 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_post_replies(uuid, integer, integer) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_category_topics(
+  p_category_id uuid,
+  p_sort text DEFAULT 'newest',
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  is_pinned boolean,
+  is_locked boolean,
+  author_id uuid,
+  author_username text,
+  author_full_name text,
+  author_avatar_url text,
+  reply_count bigint,
+  last_activity_at timestamptz,
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH topics AS (
+    SELECT
+      fp.id,
+      fp.title,
+      fp.created_at,
+      fp.updated_at,
+      fp.is_pinned,
+      fp.is_locked,
+      fp.user_id AS author_id,
+      count(r.id) AS reply_count,
+      GREATEST(fp.created_at, max(r.created_at)) AS last_activity_at
+    FROM public.forum_posts fp
+    LEFT JOIN public.forum_replies r ON r.post_id = fp.id
+    WHERE fp.category_id = p_category_id
+    GROUP BY fp.id
+  )
+  SELECT
+    t.id,
+    t.title,
+    t.created_at,
+    t.updated_at,
+    t.is_pinned,
+    t.is_locked,
+    t.author_id,
+    p.username::text,
+    public.visible_full_name(p.id),
+    p.avatar_url::text,
+    t.reply_count,
+    t.last_activity_at,
+    count(*) OVER () AS total_count
+  FROM topics t
+  LEFT JOIN public.profiles p ON p.id = t.author_id
+  ORDER BY
+    t.is_pinned DESC,
+    CASE WHEN p_sort = 'active' THEN t.reply_count END DESC NULLS LAST,
+    CASE WHEN p_sort = 'active' THEN t.last_activity_at END DESC NULLS LAST,
+    t.created_at DESC
+  LIMIT GREATEST(p_limit, 1)
+  OFFSET GREATEST(p_offset, 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_category_topics(uuid, text, integer, integer) TO authenticated;
+
+-- 3. Profile page and own profile
+CREATE OR REPLACE FUNCTION public.get_profile_details(p_user_id uuid)
+RETURNS TABLE (
+  full_name text,
+  bio text,
+  location text,
+  contact_links jsonb
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_user_id IS DISTINCT FROM auth.uid()
+    AND NOT EXISTS (SELECT 1 FROM public.profiles WHERE profiles.id = auth.uid() AND profiles.status = 'approved') THEN
+    RAISE EXCEPTION 'Only approved members can view member profiles.';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    CASE WHEN public.profile_field_visible(p.id, d.full_name_visibility) THEN p.full_name::text END,
+    CASE WHEN public.profile_field_visible(p.id, d.bio_visibility) THEN d.bio END,
+    CASE WHEN public.profile_field_visible(p.id, d.location_visibility) THEN d.location END,
+    CASE WHEN public.profile_field_visible(p.id, d.links_visibility) THEN d.contact_links ELSE '[]'::jsonb END
+  FROM public.profiles p
+  LEFT JOIN public.profile_details d ON d.user_id = p.id
+  WHERE p.id = p_user_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_profile_details(uuid) TO authenticated;
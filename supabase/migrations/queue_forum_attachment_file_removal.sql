@@ -0,0 +1,72 @@
+/*
+  # Remove Forum Attachment Files on the Server, After the Rows Are Deleted
+
+  Files were removed from the browser before the deleting call (`removePostAttachmentFiles()`,
+  `removeSectionAttachmentFiles()`). When that call then failed, the topic kept attachments
+  without files; every other way of deleting a topic (PostgREST, cascades, direct RPC calls) left
+  the files behind; and a moderator who cannot read the section found no rows to clean up.
+
+  Deleting an attachment row, whatever the cause, now queues its file in the same transaction.
+  The `purge-attachment-files` Edge Function removes the queued files with the service role, so
+  only files whose rows are really gone are removed.
+
+  1. New Tables
+     - `public.forum_attachment_file_removals`
+       - `storage_path` (text, primary key): object name in the `forum-attachments` bucket
+       - `queued_at` (timestamptz)
+
+  2. New Functions
+     - `public.queue_forum_attachment_file_removal()` (trigger, AFTER DELETE on `forum_attachments`).
+
+  3. Security
+     - RLS on `forum_attachment_file_removals` without policies: only the service role reads it.
+     - Storage: "Forum attachments: topic author or moderators can delete" is dropped. Members
+       delete the row, the file follows.
+
+  4. Data
+     - Files already in the bucket without a `forum_attachments` row are queued.
+
+  5. Notes
+     - The app calls `purge-attachment-files` after deleting attachments, topics or sections, and
+       `delete-user-admin` purges after deleting an account. Files queued by other deletes are
+       removed on the next call; the function can also be scheduled.
+*/
+
+-- 1. Queue
+CREATE TABLE IF NOT EXISTS public.forum_attachment_file_removals (
+  storage_path text PRIMARY KEY,
+  queued_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.forum_attachment_file_removals ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.queue_forum_attachment_file_removal()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.forum_attachment_file_removals (storage_path)
+  VALUES (OLD.storage_path)
+  ON CONFLICT (storage_path) DO NOTHING;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS forum_attachments_queue_file_removal ON public.forum_attachments;
+CREATE TRIGGER forum_attachments_queue_file_removal
+AFTER DELETE ON public.forum_attachments
+FOR EACH ROW
+EXECUTE FUNCTION public.queue_forum_attachment_file_removal();
+
+-- 2. Storage policies
+DROP POLICY IF EXISTS "Forum attachments: topic author or moderators can delete" ON storage.objects;
+
+-- 3. Files already orphaned
+INSERT INTO public.forum_attachment_file_removals (storage_path)
+SELECT o.name
+FROM storage.objects o
+WHERE o.bucket_id = 'forum-attachments'
+  AND NOT EXISTS (SELECT 1 FROM public.forum_attachments a WHERE a.storage_path = o.name)
+ON CONFLICT (storage_path) DO NOTHING;
@@ -0,0 +1,20 @@
+/*
+  # Remove Replaced Avatars Through the Storage API
+
+  `profiles_remove_replaced_avatar` deleted the previous picture from `storage.objects` as the
+  table owner, based on the old `avatar_url`. Members can set that URL to anything, so pointing it
+  at another member's picture and changing it again deleted that member's file. A SQL delete
+  also only removes the metadata, and recent Storage versions reject it.
+
+  1. Triggers
+     - `profiles_remove_replaced_avatar` and `public.remove_replaced_avatar_object()` are dropped.
+
+  2. Notes
+     - The previous picture is now removed with the Storage API by whoever replaces or clears it
+       (`removeAvatarFile()` in `src/lib/avatars.ts`), and only when it lies in the profile
+       owner's folder. The bucket's DELETE policy is unchanged (own folder or `user.edit`).
+     - The `delete-user-admin` Edge Function empties the folder of a deleted member.
+*/
+
+DROP TRIGGER IF EXISTS profiles_remove_replaced_avatar ON public.profiles;
+DROP FUNCTION IF EXISTS public.remove_replaced_avatar_object();
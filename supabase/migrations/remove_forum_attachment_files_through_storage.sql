@@ -0,0 +1,21 @@
+/*
+  # Remove Forum Attachment Files Through the Storage API
+
+  `forum_attachments_remove_object` deleted the file's row in `storage.objects` from SQL. That
+  only removes the metadata (the file itself stays in the storage backend), and recent Storage
+  versions reject direct deletes on `storage.objects`, which would make deleting a topic, and
+  `moderate_content_report()`, fail.
+
+  1. Triggers
+     - `forum_attachments_remove_object` and `public.remove_forum_attachment_object()` are dropped.
+
+  2. Notes
+     - Files are now removed with the Storage API before their rows or topics are deleted:
+       `removePostAttachmentFiles()` and `removeSectionAttachmentFiles()` (`src/lib/attachments.ts`)
+       in the forum and the admin area, and the `delete-user-admin` Edge Function for the topics
+       of a deleted member. The bucket's DELETE policy is unchanged (topic author or
+       `post.delete`).
+*/
+
+DROP TRIGGER IF EXISTS forum_attachments_remove_object ON public.forum_attachments;
+DROP FUNCTION IF EXISTS public.remove_forum_attachment_object();
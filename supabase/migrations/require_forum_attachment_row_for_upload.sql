@@ -0,0 +1,45 @@
+/*
+  # Forum Attachment Uploads Must Match a Row
+
+  The bucket's INSERT policy only checked that the caller could attach files to the topic, so an
+  author could upload any number of objects under the topic's folder without ever creating the
+  `forum_attachments` rows that carry the 5-file limit. The row is now inserted first, and the
+  upload is only accepted for the exact object name of one of the caller's rows.
+
+  1. New Functions
+     - `public.forum_attachment_upload_allowed(p_name text)`: `true` when `p_name` is the
+       `storage_path` of an attachment row of the caller. `SECURITY DEFINER` so the check does not
+       depend on the caller still reading the topic's section.
+
+  2. Storage Policies
+     - "Forum attachments: topic author can upload" is replaced by "Forum attachments: upload the
+       file of an attachment row". The limit of 5 files per topic stays on the rows' INSERT policy,
+       and each object name can only be uploaded once (there is no UPDATE policy for upserts).
+*/
+
+CREATE OR REPLACE FUNCTION public.forum_attachment_upload_allowed(p_name text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.forum_attachments fa
+    WHERE fa.storage_path = p_name
+      AND fa.user_id = auth.uid()
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.forum_attachment_upload_allowed(text) TO authenticated;
+
+DROP POLICY IF EXISTS "Forum attachments: topic author can upload" ON storage.objects;
+DROP POLICY IF EXISTS "Forum attachments: upload the file of an attachment row" ON storage.objects;
+CREATE POLICY "Forum attachments: upload the file of an attachment row"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'forum-attachments'
+  AND public.forum_attachment_upload_allowed(name)
+);
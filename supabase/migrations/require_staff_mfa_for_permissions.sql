@@ -0,0 +1,347 @@
+/*
+  # Two-Factor Step-Up for Every Staff Permission
+
+  `staff_mfa_satisfied()` was only checked by the admin panel, the Edge Functions and a few
+  policies: with a staff password alone (an `aal1` session), PostgREST still let a caller edit or
+  delete profiles, read the user list and the sign-in events, handle reports, manage sections or
+  delete topics. Every permission belongs to a staff role (MODERATOR and above), so the step-up is
+  now part of `has_permission()` itself, and the admin RPCs and policies that still compared roles
+  by hand go through it.
+
+  1. Modified Functions
+     - `public.has_permission(p_permission text)`: also requires `staff_mfa_satisfied()`. This
+       covers every policy and RPC built on the registry (profiles, sign-in events, user list,
+       approvals, invites, settings, topic and reply deletion, storage).
+     - `public.get_content_reports(...)`: `report.view` instead of the MODERATOR role.
+     - `public.moderate_content_report(...)`: `report.resolve` instead of the MODERATOR role.
+     - `public.get_admin_dashboard_stats(...)`: `dashboard.view` instead of the MODERATOR role.
+     - `public.delete_forum_category(...)`, `public.reorder_forum_categories(...)`:
+       `section.manage` instead of the ADMIN role.
+
+  2. Row Level Security (RLS)
+     - `forum_categories`: "Allow admins to manage categories" uses `section.manage`.
+     - `content_reports`: "Moderators can view all reports" uses `report.view`.
+
+  3. Notes
+     - `current_user_has_role()` keeps ignoring the session level: it gates reading restricted
+       sections and moderator-only profile fields, not staff actions.
+*/
+
+-- 1. Registry check with the step-up
+CREATE OR REPLACE FUNCTION public.has_permission(p_permission text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT public.role_has_permission(role::text, p_permission)
+     FROM public.profiles
+     WHERE id = auth.uid() AND status = 'approved'),
+    false
+  ) AND public.staff_mfa_satisfied();
+$$;
+
+-- 2. Policies
+DROP POLICY IF EXISTS "Allow admins to manage categories" ON public.forum_categories;
+CREATE POLICY "Allow admins to manage categories"
+ON public.forum_categories
+FOR ALL
+TO authenticated
+USING (public.has_permission('section.manage'))
+WITH CHECK (public.has_permission('section.manage'));
+
+DROP POLICY IF EXISTS "Moderators can view all reports" ON public.content_reports;
+CREATE POLICY "Moderators can view all reports"
+ON public.content_reports
+FOR SELECT
+TO authenticated
+USING (public.has_permission('report.view'));
+
+-- 3. Moderation queue
+CREATE OR REPLACE FUNCTION public.get_content_reports(
+  p_status text DEFAULT 'open',
+  p_target_type text DEFAULT NULL,
+  p_reason text DEFAULT NULL,
+  p_search text DEFAULT NULL,
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  target_type text,
+  post_id uuid,
+  reply_id uuid,
+  post_title text,
+  is_locked boolean,
+  content_excerpt text,
+  content_author_id uuid,
+  content_author_username text,
+  reporter_id uuid,
+  reporter_username text,
+  reason text,
+  comment text,
+  status text,
+  handled_by_username text,
+  handled_at timestamptz,
+  created_at timestamptz,
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission('report.view') THEN
+    RAISE EXCEPTION 'Only moderators and administrators can read the moderation queue.';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    cr.id,
+    cr.target_type,
+    cr.post_id,
+    cr.reply_id,
+    fp.title::text,
+    fp.is_locked,
+    cr.content_excerpt,
+    cr.content_author_id,
+    author.username::text,
+    cr.reporter_id,
+    reporter.username::text,
+    cr.reason,
+    cr.comment,
+    cr.status,
+    handler.username::text,
+    cr.handled_at,
+    cr.created_at,
+    count(*) OVER () AS total_count
+  FROM public.content_reports cr
+  LEFT JOIN public.forum_posts fp ON fp.id = cr.post_id
+  LEFT JOIN public.profiles author ON author.id = cr.content_author_id
+  LEFT JOIN public.profiles reporter ON reporter.id = cr.reporter_id
+  LEFT JOIN public.profiles handler ON handler.id = cr.handled_by
+  WHERE (p_status IS NULL OR cr.status = p_status)
+    AND (p_target_type IS NULL OR cr.target_type = p_target_type)
+    AND (p_reason IS NULL OR cr.reason = p_reason)
+    AND (
+      p_search IS NULL OR btrim(p_search) = ''
+      OR reporter.username ILIKE '%' || btrim(p_search) || '%'
+      OR author.username ILIKE '%' || btrim(p_search) || '%'
+      OR cr.content_excerpt ILIKE '%' || btrim(p_search) || '%'
+      OR cr.comment ILIKE '%' || btrim(p_search) || '%'
+    )
+  ORDER BY cr.created_at DESC, cr.id
+  LIMIT GREATEST(p_limit, 1)
+  OFFSET GREATEST(p_offset, 0);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_content_reports(text, text, text, text, integer, integer) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.moderate_content_report(p_report_id uuid, p_action text)
+RETURNS void
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  report public.content_reports%ROWTYPE;
+BEGIN
+  IF NOT public.has_permission('report.resolve') THEN
+    RAISE EXCEPTION 'Only moderators and administrators can handle reports.';
+  END IF;
+
+  SELECT * INTO report FROM public.content_reports WHERE id = p_report_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report % does not exist.', p_report_id;
+  END IF;
+
+  IF p_action IN ('resolve', 'dismiss') THEN
+    UPDATE public.content_reports
+    SET status = CASE WHEN p_action = 'resolve' THEN 'resolved' ELSE 'dismissed' END,
+        handled_by = auth.uid(),
+        handled_at = now()
+    WHERE id = p_report_id;
+
+  ELSIF p_action = 'delete_content' THEN
+    -- Close every open report on the same content before it disappears
+    UPDATE public.content_reports
+    SET status = 'resolved', handled_by = auth.uid(), handled_at = now()
+    WHERE status = 'open'
+      AND (
+        id = p_report_id
+        OR (report.target_type = 'reply' AND reply_id = report.reply_id)
+        OR (report.target_type = 'post' AND post_id = report.post_id)
+      );
+
+    IF report.target_type = 'reply' THEN
+      DELETE FROM public.forum_replies WHERE id = report.reply_id;
+    ELSE
+      DELETE FROM public.forum_posts WHERE id = report.post_id;
+    END IF;
+
+  ELSIF p_action = 'lock_topic' THEN
+    IF report.post_id IS NULL THEN
+      RAISE EXCEPTION 'The topic of this report no longer exists.';
+    END IF;
+
+    UPDATE public.forum_posts SET is_locked = true WHERE id = report.post_id;
+
+    UPDATE public.content_reports
+    SET status = 'resolved', handled_by = auth.uid(), handled_at = now()
+    WHERE status = 'open'
+      AND (id = p_report_id OR post_id = report.post_id);
+
+  ELSE
+    RAISE EXCEPTION 'Unknown moderation action: %', p_action;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.moderate_content_report(uuid, text) TO authenticated;
+
+-- 4. Dashboard
+CREATE OR REPLACE FUNCTION public.get_admin_dashboard_stats(p_days integer DEFAULT 30)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  today_start timestamptz := date_trunc('day', now());
+  yesterday_start timestamptz := date_trunc('day', now()) - interval '1 day';
+  month_start timestamptz := date_trunc('month', now());
+  previous_month_start timestamptz := date_trunc('month', now()) - interval '1 month';
+  -- Same elapsed time into the previous month, capped at its end
+  previous_month_end timestamptz := LEAST(
+    date_trunc('month', now()) - interval '1 month' + (now() - date_trunc('month', now())),
+    date_trunc('month', now())
+  );
+  days integer := LEAST(GREATEST(COALESCE(p_days, 30), 1), 365);
+  result jsonb;
+BEGIN
+  IF NOT public.has_permission('dashboard.view') THEN
+    RAISE EXCEPTION 'Only moderators and administrators can read the dashboard statistics.';
+  END IF;
+
+  WITH activity AS (
+    SELECT 'users' AS kind, created_at FROM public.profiles
+    UNION ALL
+    SELECT 'topics', created_at FROM public.forum_posts
+    UNION ALL
+    SELECT 'replies', created_at FROM public.forum_replies
+  ),
+  totals AS (
+    SELECT
+      kind,
+      jsonb_build_object(
+        'total', count(*),
+        'today', count(*) FILTER (WHERE created_at >= today_start),
+        'yesterday', count(*) FILTER (WHERE created_at >= yesterday_start AND created_at < today_start),
+        'month', count(*) FILTER (WHERE created_at >= month_start),
+        'previous_month', count(*) FILTER (WHERE created_at >= previous_month_start AND created_at < previous_month_end)
+      ) AS figures
+    FROM activity
+    GROUP BY kind
+  ),
+  timeline AS (
+    SELECT
+      d.day::date AS day,
+      count(a.created_at) FILTER (WHERE a.kind = 'users') AS signups,
+      count(a.created_at) FILTER (WHERE a.kind = 'topics') AS topics,
+      count(a.created_at) FILTER (WHERE a.kind = 'replies') AS replies
+    FROM generate_series(today_start - (days - 1) * interval '1 day', today_start, interval '1 day') AS d(day)
+    LEFT JOIN activity a
+      ON a.created_at >= d.day AND a.created_at < d.day + interval '1 day'
+    GROUP BY d.day
+  )
+  SELECT jsonb_build_object(
+    'users', COALESCE((SELECT figures FROM totals WHERE kind = 'users'), '{}'::jsonb),
+    'topics', COALESCE((SELECT figures FROM totals WHERE kind = 'topics'), '{}'::jsonb),
+    'replies', COALESCE((SELECT figures FROM totals WHERE kind = 'replies'), '{}'::jsonb),
+    'pending_approval_users', (SELECT count(*) FROM public.profiles WHERE status = 'pending_approval'),
+    'categories', (SELECT count(*) FROM public.forum_categories),
+    'timeline', COALESCE(
+      (SELECT jsonb_agg(jsonb_build_object('day', day, 'signups', signups, 'topics', topics, 'replies', replies) ORDER BY day)
+       FROM timeline),
+      '[]'::jsonb
+    )
+  )
+  INTO result;
+
+  RETURN result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_admin_dashboard_stats(integer) TO authenticated;
+
+-- 5. Sections
+CREATE OR REPLACE FUNCTION public.delete_forum_category(
+  p_category_id uuid,
+  p_target_category_id uuid DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  moved_count integer := 0;
+BEGIN
+  IF NOT public.has_permission('section.manage') THEN
+    RAISE EXCEPTION 'Only administrators can delete forum sections.';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.forum_categories WHERE id = p_category_id) THEN
+    RAISE EXCEPTION 'Forum section % does not exist.', p_category_id;
+  END IF;
+
+  IF p_target_category_id IS NOT NULL THEN
+    IF p_target_category_id = p_category_id THEN
+      RAISE EXCEPTION 'Topics cannot be moved to the section being deleted.';
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM public.forum_categories WHERE id = p_target_category_id) THEN
+      RAISE EXCEPTION 'Target forum section % does not exist.', p_target_category_id;
+    END IF;
+
+    UPDATE public.forum_posts
+    SET category_id = p_target_category_id
+    WHERE category_id = p_category_id;
+    GET DIAGNOSTICS moved_count = ROW_COUNT;
+  END IF;
+
+  DELETE FROM public.forum_categories WHERE id = p_category_id;
+
+  RETURN moved_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.delete_forum_category(uuid, uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.reorder_forum_categories(p_layout jsonb)
+RETURNS void
+LANGUAGE plpgsql
+VOLATILE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission('section.manage') THEN
+    RAISE EXCEPTION 'Only administrators can reorder forum sections.';
+  END IF;
+
+  UPDATE public.forum_categories c
+  SET parent_id = l.parent_id,
+      position = l.position
+  FROM jsonb_to_recordset(p_layout) AS l(id uuid, parent_id uuid, position integer)
+  WHERE c.id = l.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reorder_forum_categories(jsonb) TO authenticated;
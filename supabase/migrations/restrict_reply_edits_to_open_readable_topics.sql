@@ -0,0 +1,75 @@
+/*
+  # Approved Members Only, and No Reply Edits in Locked or Restricted Topics
+
+  `current_user_has_role()` compared the caller's role without looking at their status: a member
+  awaiting approval, or rejected, still read the sections open to their role and saw "moderators
+  only" profile fields when their role allowed. Authors could also edit or delete their replies in
+  locked topics, or in sections where they lost the right to reply.
+
+  1. Modified Functions
+     - `public.current_user_has_role(p_min_role text)`: `false` unless the caller's profile is
+       approved.
+
+  2. Row Level Security (RLS)
+     - `forum_replies`: "Users can update their own replies" and "Users can delete their own
+       replies" also require an unlocked topic and the right to reply in its section, like
+       "Users can insert their own replies". "Moderators can delete replies" is unchanged.
+*/
+
+-- 1. Role check
+CREATE OR REPLACE FUNCTION public.current_user_has_role(p_min_role text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT public.role_rank(role::text) >= public.role_rank(p_min_role)
+     FROM public.profiles
+     WHERE id = auth.uid() AND status = 'approved'),
+    false
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.current_user_has_role(text) TO authenticated;
+
+-- 2. forum_replies
+DROP POLICY IF EXISTS "Users can update their own replies" ON public.forum_replies;
+CREATE POLICY "Users can update their own replies"
+ON public.forum_replies
+FOR UPDATE
+TO authenticated
+USING (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.forum_posts fp
+    WHERE fp.id = post_id
+      AND NOT fp.is_locked
+      AND public.can_access_forum_category(fp.category_id, 'reply')
+  )
+)
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.forum_posts fp
+    WHERE fp.id = post_id
+      AND NOT fp.is_locked
+      AND public.can_access_forum_category(fp.category_id, 'reply')
+  )
+);
+
+DROP POLICY IF EXISTS "Users can delete their own replies" ON public.forum_replies;
+CREATE POLICY "Users can delete their own replies"
+ON public.forum_replies
+FOR DELETE
+TO authenticated
+USING (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.forum_posts fp
+    WHERE fp.id = post_id
+      AND NOT fp.is_locked
+      AND public.can_access_forum_category(fp.category_id, 'reply')
+  )
+);
@@ -0,0 +1,200 @@
+/*
+  # Unify the Forum Schema
+
+  Two forum models coexisted: `sections` / `topics` / `posts` (from
+  `001_forum_schema_and_roles.sql`) and `forum_categories` / `forum_posts`
+  (from `create_forum_tables.sql`, extended by `forum_replies`). The pages only
+  read the second one. This migration makes it the single canonical model,
+  moves any existing rows of the legacy tables into it and drops them.
+
+  1. Canonical Model
+     - `forum_categories`: the sections of the forum.
+     - `forum_posts`: the topics, holding the opening message (`title`, `content`).
+     - `forum_replies`: the answers to a topic.
+
+  2. Table Modifications
+     - `public.forum_posts`:
+       - `is_pinned` (boolean, default false): Pinned topics are listed first in their category.
+       - `is_locked` (boolean, default false): Locked topics no longer accept replies.
+
+  3. Data Migration (only when the legacy tables exist)
+     - `sections` -> `forum_categories`: a section whose slug or title already exists as a
+       category is merged into it, otherwise it is inserted with its own id.
+     - `topics` -> `forum_posts`: same id, the content of the topic's first post becomes the
+       content of the topic. Topics without any post get a placeholder content.
+     - remaining `posts` -> `forum_replies`: same id, attached to their topic.
+     - Every insert is `ON CONFLICT DO NOTHING`, so running the migration twice is harmless.
+
+  4. Dropped Tables
+     - `public.posts`, `public.topics`, `public.sections` (and their policies).
+
+  5. Row Level Security (RLS)
+     - `forum_categories`: new policy "Allow admins to manage categories", replacing
+       "Allow admins to manage sections".
+     - `forum_replies`: "Users can insert their own replies" now also refuses replies on a
+       locked topic.
+
+  6. Modified Functions
+     - `public.get_category_topics(...)`: returns `is_pinned` and `is_locked`, and lists
+       pinned topics first whatever the sort.
+*/
+
+-- 1. Pin and lock flags on topics
+ALTER TABLE public.forum_posts ADD COLUMN IF NOT EXISTS is_pinned boolean NOT NULL DEFAULT false;
+ALTER TABLE public.forum_posts ADD COLUMN IF NOT EXISTS is_locked boolean NOT NULL DEFAULT false;
+
+-- 2. Move the legacy rows into the canonical tables
+DO $$
+BEGIN
+  IF to_regclass('public.sections') IS NOT NULL THEN
+    -- Sections -> categories (merged by slug or name when the category already exists)
+    INSERT INTO public.forum_categories (id, name, description, slug, created_at)
+    SELECT s.id, s.title, s.description, s.slug, s.created_at
+    FROM public.sections s
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.forum_categories c
+      WHERE c.slug = s.slug OR c.name = s.title
+    )
+    ON CONFLICT DO NOTHING;
+
+    IF to_regclass('public.topics') IS NOT NULL THEN
+      -- Topics -> forum_posts, with the first post as the opening message
+      INSERT INTO public.forum_posts (id, user_id, category_id, title, content, created_at, updated_at, is_pinned, is_locked)
+      SELECT
+        t.id,
+        t.user_id,
+        c.id,
+        t.title,
+        COALESCE(first_post.content, '(message d''origine indisponible)'),
+        t.created_at,
+        t.updated_at,
+        COALESCE(t.is_pinned, false),
+        COALESCE(t.is_locked, false)
+      FROM public.topics t
+      JOIN public.sections s ON s.id = t.section_id
+      JOIN public.forum_categories c ON c.id = s.id OR c.slug = s.slug OR c.name = s.title
+      LEFT JOIN LATERAL (
+        SELECT p.content
+        FROM public.posts p
+        WHERE p.topic_id = t.id
+        ORDER BY p.created_at ASC, p.id ASC
+        LIMIT 1
+      ) first_post ON true
+      ON CONFLICT DO NOTHING;
+
+      -- Remaining posts -> forum_replies
+      INSERT INTO public.forum_replies (id, post_id, user_id, content, created_at, updated_at)
+      SELECT p.id, p.topic_id, p.user_id, p.content, p.created_at, p.updated_at
+      FROM (
+        SELECT
+          p.*,
+          row_number() OVER (PARTITION BY p.topic_id ORDER BY p.created_at ASC, p.id ASC) AS position
+        FROM public.posts p
+      ) p
+      JOIN public.forum_posts fp ON fp.id = p.topic_id
+      WHERE p.position > 1
+        AND char_length(btrim(p.content)) > 0
+      ON CONFLICT DO NOTHING;
+    END IF;
+  END IF;
+END $$;
+
+-- 3. Drop the legacy tables (their policies go with them)
+DROP TABLE IF EXISTS public.posts;
+DROP TABLE IF EXISTS public.topics;
+DROP TABLE IF EXISTS public.sections;
+
+-- 4. Admins manage categories (previously granted on `sections`)
+DROP POLICY IF EXISTS "Allow admins to manage categories" ON public.forum_categories;
+CREATE POLICY "Allow admins to manage categories"
+ON public.forum_categories
+FOR ALL
+TO authenticated
+USING (lower(public.get_current_user_role()::text) IN ('admin', 'super_admin'))
+WITH CHECK (lower(public.get_current_user_role()::text) IN ('admin', 'super_admin'));
+
+-- 5. No replies on locked topics
+DROP POLICY IF EXISTS "Users can insert their own replies" ON public.forum_replies;
+CREATE POLICY "Users can insert their own replies"
+ON public.forum_replies
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND NOT EXISTS (
+    SELECT 1 FROM public.forum_posts fp
+    WHERE fp.id = post_id AND fp.is_locked
+  )
+);
+
+-- 6. Category listing with pin and lock flags (return type changes, so drop first)
+DROP FUNCTION IF EXISTS public.get_category_topics(uuid, text, integer, integer);
+
+CREATE OR REPLACE FUNCTION public.get_category_topics(
+  p_category_id uuid,
+  p_sort text DEFAULT 'newest',
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  is_pinned boolean,
+  is_locked boolean,
+  author_id uuid,
+  author_username text,
+  author_full_name text,
+  author_avatar_url text,
+  reply_count bigint,
+  last_activity_at timestamptz,
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH topics AS (
+    SELECT
+      fp.id,
+      fp.title,
+      fp.created_at,
+      fp.updated_at,
+      fp.is_pinned,
+      fp.is_locked,
+      fp.user_id AS author_id,
+      count(r.id) AS reply_count,
+      GREATEST(fp.created_at, max(r.created_at)) AS last_activity_at
+    FROM public.forum_posts fp
+    LEFT JOIN public.forum_replies r ON r.post_id = fp.id
+    WHERE fp.category_id = p_category_id
+    GROUP BY fp.id
+  )
+  SELECT
+    t.id,
+    t.title,
+    t.created_at,
+    t.updated_at,
+    t.is_pinned,
+    t.is_locked,
+    t.author_id,
+    p.username::text,
+    p.full_name::text,
+    p.avatar_url::text,
+    t.reply_count,
+    t.last_activity_at,
+    count(*) OVER () AS total_count
+  FROM topics t
+  LEFT JOIN public.profiles p ON p.id = t.author_id
+  ORDER BY
+    t.is_pinned DESC,
+    CASE WHEN p_sort = 'active' THEN t.reply_count END DESC NULLS LAST,
+    CASE WHEN p_sort = 'active' THEN t.last_activity_at END DESC NULLS LAST,
+    t.created_at DESC
+  LIMIT GREATEST(p_limit, 1)
+  OFFSET GREATEST(p_offset, 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_category_topics(uuid, text, integer, integer) TO authenticated;